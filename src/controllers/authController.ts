@@ -6,6 +6,7 @@ import { AuthRequest } from '../middlewares/authMiddleware';
 import asyncHandler from '../utils/asyncHandler';
 import { Types } from 'mongoose';
 import { sendWelcomeMessage } from '../services/whatsappService';
+import { isCouponCodeAvailable, setPrimaryCoupon } from '../services/couponService';
 
 dotenv.config();
 
@@ -45,8 +46,8 @@ const registerUser = asyncHandler(async (req: Request, res: Response, next: Next
 
   // Se for influenciador, verifica se o cupom já existe
   if (role === UserRole.INFLUENCER && couponCode) {
-    const couponExists = await User.findOne({ couponCode });
-    if (couponExists) {
+    const couponAvailable = await isCouponCodeAvailable(couponCode);
+    if (!couponAvailable) {
       res.status(400);
       throw new Error('Este código de cupom já está em uso. Por favor, escolha outro.');
     }
@@ -58,11 +59,16 @@ const registerUser = asyncHandler(async (req: Request, res: Response, next: Next
     password,
     role,
     manager: role === UserRole.INFLUENCER ? managerId : undefined,
-    couponCode: role === UserRole.INFLUENCER ? couponCode : undefined,
     whatsappNumber,
   });
 
   if (user) {
+    // O cupom é registrado na coleção de cupons e espelhado em user.couponCode
+    if (role === UserRole.INFLUENCER && couponCode) {
+      await setPrimaryCoupon(user, couponCode);
+      await user.save();
+    }
+
     if (role === UserRole.INFLUENCER && managerId) {
         await User.findByIdAndUpdate(managerId, { $addToSet: { influencers: user._id } });
     }
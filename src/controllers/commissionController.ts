@@ -2,17 +2,104 @@ import { Request, Response, NextFunction } from 'express';
 import asyncHandler from '../utils/asyncHandler';
 import Sale from '../models/Sale';
 import CommissionTier from '../models/CommissionTier';
+import CommissionTierVersion, { ICommissionTierVersion } from '../models/CommissionTierVersion';
 import CommissionPayment from '../models/CommissionPayment';
+import CommissionAdjustment from '../models/CommissionAdjustment';
 import { AuthRequest } from '../middlewares/authMiddleware';
-import { processPendingCommissions, generateCommissionPayments } from '../services/commissionService';
+import { processPendingCommissions, generateCommissionPayments, getCommissionSettings, settleVolumeTiers } from '../services/commissionService';
+import {
+  createTierVersion,
+  getLatestTierVersion,
+  getTierVersionAt,
+  getVersionTiers,
+  toTierData,
+  TierVersionConflictError,
+  TierVersionTierData
+} from '../services/commissionTierVersionService';
 import mongoose from 'mongoose';
-import User from '../models/User';
+import { isCouponCodeAvailable } from '../services/couponService';
+
+/**
+ * Valida as condições de cliente novo de uma faixa (percentual entre 0 e 100 e bônus não negativo).
+ * null remove a condição.
+ * @returns Mensagem de erro ou null se válidas
+ */
+const validateNewCustomerTerms = (tier: { newCustomerPercentage?: unknown; newCustomerBonus?: unknown }): string | null => {
+  const { newCustomerPercentage, newCustomerBonus } = tier;
+  if (newCustomerPercentage !== undefined && newCustomerPercentage !== null
+    && (typeof newCustomerPercentage !== 'number' || newCustomerPercentage < 0 || newCustomerPercentage > 100)) {
+    return 'newCustomerPercentage deve ser um número entre 0 e 100';
+  }
+  if (newCustomerBonus !== undefined && newCustomerBonus !== null
+    && (typeof newCustomerBonus !== 'number' || newCustomerBonus < 0)) {
+    return 'newCustomerBonus deve ser um número maior ou igual a 0';
+  }
+  return null;
+};
+
+/**
+ * Início de uma nova versão das faixas (padrão: agora); deve ser posterior ao início da última versão
+ */
+const resolveEffectiveFrom = (value: unknown, latest: ICommissionTierVersion | null, res: Response): Date => {
+  const effectiveFrom = value ? new Date(value as string) : new Date();
+  if (isNaN(effectiveFrom.getTime())) {
+    res.status(400);
+    throw new Error('effectiveFrom inválido');
+  }
+  if (latest && effectiveFrom <= latest.effectiveFrom) {
+    res.status(400);
+    throw new Error(`effectiveFrom deve ser posterior ao início da versão ${latest.version} (${latest.effectiveFrom.toISOString()})`);
+  }
+  return effectiveFrom;
+};
+
+/**
+ * Salva uma nova versão das faixas do papel; as versões anteriores não são alteradas.
+ * Responde 409 se outra requisição salvou a mesma versão ao mesmo tempo.
+ */
+const saveTierVersion = async (
+  role: 'influencer' | 'manager',
+  tiers: TierVersionTierData[],
+  effectiveFrom: Date,
+  req: AuthRequest,
+  res: Response,
+  notes?: string
+) => {
+  try {
+    return await createTierVersion(role, tiers, effectiveFrom, req.user?._id as mongoose.Types.ObjectId, notes);
+  } catch (error) {
+    if (error instanceof TierVersionConflictError) {
+      res.status(409);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Busca uma faixa da versão atual para alteração; faixas de versões anteriores não podem ser alteradas
+ */
+const findEditableTier = async (id: string, res: Response) => {
+  const tier = mongoose.Types.ObjectId.isValid(id) ? await CommissionTier.findById(id) : null;
+  if (!tier) {
+    res.status(404);
+    throw new Error('Faixa de comissão não encontrada');
+  }
 
-// @desc    Criar uma nova faixa de comissão
+  const latest = await getLatestTierVersion(tier.appliesTo);
+  const currentTiers = await getVersionTiers(tier.appliesTo, latest);
+  if (!currentTiers.some(current => current.id === tier.id)) {
+    res.status(400);
+    throw new Error('A faixa pertence a uma versão anterior e não pode ser alterada');
+  }
+
+  return { tier, latest, currentTiers };
+};
+
+// @desc    Criar uma nova faixa de comissão (gera uma nova versão das faixas do papel)
 // @route   POST /api/commissions/tiers
 // @access  Private/Admin
-const createCommissionTier = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  const { name, minSalesValue, maxSalesValue, commissionPercentage, appliesTo } = req.body;
+const createCommissionTier = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { name, minSalesValue, maxSalesValue, commissionPercentage, newCustomerPercentage, newCustomerBonus, appliesTo, effectiveFrom } = req.body;
 
   // Validação básica
   if (!name || minSalesValue === undefined || !commissionPercentage || !appliesTo) {
@@ -20,6 +107,11 @@ const createCommissionTier = asyncHandler(async (req: Request, res: Response, ne
     throw new Error('Por favor, forneça todos os campos obrigatórios');
   }
 
+  if (!['influencer', 'manager'].includes(appliesTo)) {
+    res.status(400);
+    throw new Error('Tipo de usuário (appliesTo) inválido. Use "influencer" ou "manager"');
+  }
+
   // Validação de valores
   if (minSalesValue < 0 || commissionPercentage < 0 || commissionPercentage > 100) {
     res.status(400);
@@ -32,86 +124,149 @@ const createCommissionTier = asyncHandler(async (req: Request, res: Response, ne
     throw new Error('maxSalesValue deve ser maior que minSalesValue');
   }
 
-  const tier = await CommissionTier.create({
-    name,
-    minSalesValue,
-    maxSalesValue,
-    commissionPercentage,
-    appliesTo,
-    isActive: true
-  });
+  // Condições para a primeira compra do cliente (opcionais)
+  const newCustomerError = validateNewCustomerTerms(req.body);
+  if (newCustomerError) {
+    res.status(400);
+    throw new Error(newCustomerError);
+  }
 
-  res.status(201).json(tier);
+  const latest = await getLatestTierVersion(appliesTo);
+  const from = resolveEffectiveFrom(effectiveFrom, latest, res);
+  const currentTiers = await getVersionTiers(appliesTo, latest);
+
+  const { tiers } = await saveTierVersion(appliesTo, [
+    ...currentTiers.map(toTierData),
+    {
+      name,
+      minSalesValue,
+      maxSalesValue,
+      commissionPercentage,
+      newCustomerPercentage: newCustomerPercentage ?? undefined,
+      newCustomerBonus: newCustomerBonus ?? undefined
+    }
+  ], from, req, res);
+
+  res.status(201).json(tiers[tiers.length - 1]);
 });
 
-// @desc    Listar todas as faixas de comissão
+// @desc    Listar as faixas de comissão da versão vigente (ou da versão informada em version,
+//          ou da vigente na data informada em at)
 // @route   GET /api/commissions/tiers
 // @access  Private/Admin/Manager
 const getCommissionTiers = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  const { appliesTo, isActive } = req.query;
+  const { appliesTo, isActive, version, at } = req.query;
   
   let query: any = {};
   
   // Filtros opcionais
   if (appliesTo) query.appliesTo = appliesTo;
   if (isActive) query.isActive = isActive === 'true';
+
+  if (version) {
+    if (!mongoose.Types.ObjectId.isValid(version as string)) {
+      res.status(400);
+      throw new Error('ID de versão inválido');
+    }
+    query.tierVersion = version;
+  } else {
+    const date = at ? new Date(at as string) : new Date();
+    if (isNaN(date.getTime())) {
+      res.status(400);
+      throw new Error('Data inválida em at');
+    }
+    // Faixas da versão vigente de cada papel ou, sem versão, as anteriores ao versionamento
+    const roles: ('influencer' | 'manager')[] = appliesTo ? [appliesTo as 'influencer' | 'manager'] : ['influencer', 'manager'];
+    const versions = await Promise.all(roles.map(role => getTierVersionAt(role, date)));
+    query.$or = [
+      { tierVersion: { $in: versions.filter(Boolean).map(tierVersion => tierVersion!._id) } },
+      { tierVersion: { $exists: false } }
+    ];
+  }
   
   const tiers = await CommissionTier.find(query).sort({ minSalesValue: 1 });
   
   res.json(tiers);
 });
 
-// @desc    Atualizar uma faixa de comissão
+// @desc    Listar as versões das faixas de comissão (mais recentes primeiro)
+// @route   GET /api/commissions/tier-versions
+// @access  Private/Admin/Manager
+const getCommissionTierVersions = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { appliesTo } = req.query;
+
+  let query: any = {};
+  if (appliesTo) query.appliesTo = appliesTo;
+
+  const versions = await CommissionTierVersion.find(query)
+    .populate('createdBy', 'name email')
+    .sort({ appliesTo: 1, effectiveFrom: -1 });
+
+  res.json(versions);
+});
+
+// @desc    Atualizar uma faixa de comissão (gera uma nova versão das faixas do papel)
 // @route   PUT /api/commissions/tiers/:id
 // @access  Private/Admin
-const updateCommissionTier = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  const { name, minSalesValue, maxSalesValue, commissionPercentage, isActive } = req.body;
-  
-  const tier = await CommissionTier.findById(req.params.id);
-  
-  if (!tier) {
-    res.status(404);
-    throw new Error('Faixa de comissão não encontrada');
+const updateCommissionTier = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { name, minSalesValue, maxSalesValue, commissionPercentage, newCustomerPercentage, newCustomerBonus, isActive, effectiveFrom } = req.body;
+  
+  const { tier, latest, currentTiers } = await findEditableTier(req.params.id, res);
+  const from = resolveEffectiveFrom(effectiveFrom, latest, res);
+  
+  // Atualizar os campos na cópia da faixa
+  const updated = toTierData(tier);
+  if (name) updated.name = name;
+  if (minSalesValue !== undefined) updated.minSalesValue = minSalesValue;
+  if (maxSalesValue !== undefined) updated.maxSalesValue = maxSalesValue;
+  if (commissionPercentage !== undefined) updated.commissionPercentage = commissionPercentage;
+
+  // Condições para a primeira compra do cliente; null remove a condição
+  const newCustomerError = validateNewCustomerTerms(req.body);
+  if (newCustomerError) {
+    res.status(400);
+    throw new Error(newCustomerError);
   }
-  
-  // Atualizar os campos
-  if (name) tier.name = name;
-  if (minSalesValue !== undefined) tier.minSalesValue = minSalesValue;
-  if (maxSalesValue !== undefined) tier.maxSalesValue = maxSalesValue;
-  if (commissionPercentage !== undefined) tier.commissionPercentage = commissionPercentage;
-  if (isActive !== undefined) tier.isActive = isActive;
+  if (newCustomerPercentage !== undefined) updated.newCustomerPercentage = newCustomerPercentage ?? undefined;
+  if (newCustomerBonus !== undefined) updated.newCustomerBonus = newCustomerBonus ?? undefined;
   
   // Validação de valores
-  if (tier.minSalesValue < 0 || tier.commissionPercentage < 0 || tier.commissionPercentage > 100) {
+  if (updated.minSalesValue < 0 || updated.commissionPercentage < 0 || updated.commissionPercentage > 100) {
     res.status(400);
     throw new Error('Valores inválidos: minSalesValue deve ser >= 0 e commissionPercentage entre 0 e 100');
   }
   
   // Validação de máximo (se fornecido)
-  if (tier.maxSalesValue !== undefined && tier.maxSalesValue <= tier.minSalesValue) {
+  if (updated.maxSalesValue !== undefined && updated.maxSalesValue !== null && updated.maxSalesValue <= updated.minSalesValue) {
     res.status(400);
     throw new Error('maxSalesValue deve ser maior que minSalesValue');
   }
+
+  // isActive false retira a faixa da nova versão
+  const index = currentTiers.findIndex(current => current.id === tier.id);
+  const tiersData = currentTiers.map(toTierData);
+  if (isActive === false) {
+    tiersData.splice(index, 1);
+  } else {
+    tiersData[index] = updated;
+  }
+
+  const { tiers } = await saveTierVersion(tier.appliesTo, tiersData, from, req, res);
   
-  const updatedTier = await tier.save();
-  
-  res.json(updatedTier);
+  res.json(isActive === false ? { message: 'Faixa de comissão desativada com sucesso' } : tiers[index]);
 });
 
-// @desc    Excluir uma faixa de comissão (desativar)
+// @desc    Excluir uma faixa de comissão (gera uma nova versão sem a faixa; o histórico é mantido)
 // @route   DELETE /api/commissions/tiers/:id
 // @access  Private/Admin
-const deleteCommissionTier = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  const tier = await CommissionTier.findById(req.params.id);
-  
-  if (!tier) {
-    res.status(404);
-    throw new Error('Faixa de comissão não encontrada');
-  }
-  
-  // Em vez de excluir, apenas marcamos como inativa
-  tier.isActive = false;
-  await tier.save();
+const deleteCommissionTier = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { tier, latest, currentTiers } = await findEditableTier(req.params.id, res);
+  const from = resolveEffectiveFrom(req.body?.effectiveFrom, latest, res);
+
+  const tiersData = currentTiers
+    .filter(current => current.id !== tier.id)
+    .map(toTierData);
+  await saveTierVersion(tier.appliesTo, tiersData, from, req, res);
   
   res.json({ message: 'Faixa de comissão desativada com sucesso' });
 });
@@ -191,11 +346,23 @@ const getSales = asyncHandler(async (req: AuthRequest, res: Response, next: Next
   });
 });
 
-// @desc    Processar comissões pendentes (job)
+// @desc    Processar comissões pendentes (job); tierVersionId força uma versão das faixas
+//          em vez da vigente na data de cada venda
 // @route   POST /api/commissions/process-pending
 // @access  Private/Admin
 const processCommissions = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  const result = await processPendingCommissions();
+  const { tierVersionId } = req.body || {};
+
+  let tierVersion: ICommissionTierVersion | null = null;
+  if (tierVersionId) {
+    tierVersion = mongoose.Types.ObjectId.isValid(tierVersionId) ? await CommissionTierVersion.findById(tierVersionId) : null;
+    if (!tierVersion) {
+      res.status(404);
+      throw new Error('Versão das faixas não encontrada');
+    }
+  }
+
+  const result = await processPendingCommissions(tierVersion || undefined);
   
   res.json({
     message: 'Processamento de comissões concluído',
@@ -345,11 +512,44 @@ const updatePaymentStatus = asyncHandler(async (req: Request, res: Response, nex
   res.json(updatedPayment);
 });
 
-// @desc    Salvar (substituir) todas as faixas de comissão para um tipo de usuário (influencer ou manager)
+// @desc    Listar ajustes de comissão (ex.: estornos de comissões já pagas)
+// @route   GET /api/commissions/adjustments
+// @access  Private/Admin
+const getCommissionAdjustments = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { status, userId, page = 1, limit = 20 } = req.query;
+
+  let query: any = {};
+  if (status) query.status = status;
+  if (userId) query.user = userId;
+
+  // Cálculo de paginação
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+  const skip = (pageNum - 1) * limitNum;
+
+  const adjustments = await CommissionAdjustment.find(query)
+    .populate('user', 'name email role')
+    .populate('sale', 'orderId saleValue refundedAmount refundStatus')
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(limitNum);
+
+  const total = await CommissionAdjustment.countDocuments(query);
+
+  res.json({
+    adjustments,
+    page: pageNum,
+    pages: Math.ceil(total / limitNum),
+    total
+  });
+});
+
+// @desc    Salvar todas as faixas de comissão para um tipo de usuário (influencer ou manager)
+//          como uma nova versão, vigente a partir de effectiveFrom (padrão: agora)
 // @route   PUT /api/commissions/tiers/bulk
 // @access  Private/Admin
-const saveCommissionTiersBulk = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-    const { appliesTo, tiers } = req.body;
+const saveCommissionTiersBulk = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const { appliesTo, tiers, effectiveFrom, notes } = req.body;
 
     if (!appliesTo || !['influencer', 'manager'].includes(appliesTo)) {
         res.status(400);
@@ -377,50 +577,199 @@ const saveCommissionTiersBulk = asyncHandler(async (req: Request, res: Response,
              res.status(400);
              throw new Error(`Tier inválido: maxSalesValue (${tier.maxSalesValue}) deve ser maior que minSalesValue (${tier.minSalesValue}).`);
          }
+         const newCustomerError = validateNewCustomerTerms(tier);
+         if (newCustomerError) {
+             res.status(400);
+             throw new Error(`Tier inválido: ${newCustomerError}`);
+         }
     }
 
-    // Iniciar transação para garantir atomicidade
-    const session = await mongoose.startSession();
-    session.startTransaction();
+    const latest = await getLatestTierVersion(appliesTo);
+    const from = resolveEffectiveFrom(effectiveFrom, latest, res);
+
+    // Gerar um nome para cada faixa
+    const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+    const newTiersData = tiers.map(tier => {
+        let tierName;
+        if (tier.maxSalesValue !== undefined && tier.maxSalesValue !== null) {
+            tierName = `Faixa ${formatCurrency(tier.minSalesValue)} a ${formatCurrency(tier.maxSalesValue)}`;
+        } else {
+            tierName = `Faixa acima de ${formatCurrency(tier.minSalesValue)}`;
+        }
 
-    try {
-        // 1. Remover todas as faixas existentes para este tipo
-        await CommissionTier.deleteMany({ appliesTo: appliesTo }, { session });
-
-        // 2. Criar as novas faixas, gerando um nome para cada
-        const newTiersData = tiers.map(tier => {
-            let tierName;
-            const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
-
-            if (tier.maxSalesValue !== undefined && tier.maxSalesValue !== null) {
-                tierName = `Faixa ${formatCurrency(tier.minSalesValue)} a ${formatCurrency(tier.maxSalesValue)}`;
-            } else {
-                tierName = `Faixa acima de ${formatCurrency(tier.minSalesValue)}`;
-            }
-
-            return {
-                ...tier,
-                name: tierName, // Add generated name
-                appliesTo: appliesTo,
-                isActive: true // Sempre ativar ao salvar em bulk
-            };
-        });
-
-        const createdTiers = await CommissionTier.insertMany(newTiersData, { session });
-
-        // Commit da transação
-        await session.commitTransaction();
-
-        res.status(200).json(createdTiers);
-
-    } catch (error) {
-        // Abortar transação em caso de erro
-        await session.abortTransaction();
-        throw error; // Deixar o error handler padrão lidar com isso
-    } finally {
-        // Finalizar a sessão
-        session.endSession();
+        return toTierData({ ...tier, name: tierName });
+    });
+
+    // As faixas anteriores continuam salvas na versão anterior, que passa a terminar em effectiveFrom
+    const { tiers: createdTiers } = await saveTierVersion(appliesTo, newTiersData, from, req, res, notes);
+
+    res.status(200).json(createdTiers);
+});
+
+const COMMISSION_BASES = ['gross', 'net'];
+const PAYABLE_STATUSES = ['paid', 'fulfilled'];
+const ATTRIBUTION_PRECEDENCES = ['coupon', 'referral_link'];
+const TIER_MEASUREMENTS = ['order', 'monthly', 'quarterly'];
+const VOLUME_TIER_MODES = ['retroactive', 'marginal'];
+const COMMISSION_ROLES = ['influencer', 'manager'];
+
+/**
+ * Aplica uma configuração por conjunto de faixas (influenciador/gerente); null remove a configuração
+ * do conjunto, que volta ao padrão
+ * @returns Mensagem de erro ou null se os valores forem válidos
+ */
+const applyTierSetSetting = <T extends string>(
+  target: { influencer?: T; manager?: T },
+  values: Record<string, unknown>,
+  allowed: string[],
+  label: string
+): string | null => {
+  for (const role of ['influencer', 'manager'] as const) {
+    const value = values[role];
+    if (value === undefined) continue;
+    if (value !== null && !allowed.includes(value as string)) {
+      return `${label} inválido(a) para as faixas de ${role}`;
     }
+    target[role] = (value || undefined) as T | undefined;
+  }
+  return null;
+};
+
+// @desc    Obter as configurações de comissão (base de cálculo)
+// @route   GET /api/commissions/settings
+// @access  Private/Admin
+const getCommissionSettingsHandler = asyncHandler(async (req: Request, res: Response) => {
+  const settings = await getCommissionSettings();
+  res.json(settings);
+});
+
+// @desc    Atualizar as configurações de comissão: base de cálculo (global e por conjunto de faixas),
+//          medição das faixas (por venda ou volume do período), etapa do pedido em que a comissão é paga,
+//          limites das faixas dos gerentes, avisos de pedidos pendentes e precedência entre cupom e link de indicação
+// @route   PUT /api/commissions/settings
+// @access  Private/Admin
+const updateCommissionSettings = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {
+    commissionBase,
+    tierSetCommissionBase,
+    tierSetMeasurement,
+    tierSetVolumeMode,
+    managerTierSetBounds,
+    payableStatus,
+    notifyPendingSales,
+    attributionPrecedence
+  } = req.body;
+
+  if (commissionBase !== undefined && !COMMISSION_BASES.includes(commissionBase)) {
+    res.status(400);
+    throw new Error('Base de comissão inválida. Use "gross" ou "net"');
+  }
+
+  if (payableStatus !== undefined && !PAYABLE_STATUSES.includes(payableStatus)) {
+    res.status(400);
+    throw new Error('Etapa de pagamento da comissão inválida. Use "paid" ou "fulfilled"');
+  }
+
+  if (notifyPendingSales !== undefined && typeof notifyPendingSales !== 'boolean') {
+    res.status(400);
+    throw new Error('notifyPendingSales deve ser true ou false');
+  }
+
+  if (attributionPrecedence !== undefined && !ATTRIBUTION_PRECEDENCES.includes(attributionPrecedence)) {
+    res.status(400);
+    throw new Error('Precedência de atribuição inválida. Use "coupon" ou "referral_link"');
+  }
+
+  const settings = await getCommissionSettings();
+
+  if (commissionBase !== undefined) settings.commissionBase = commissionBase;
+  if (payableStatus !== undefined) settings.payableStatus = payableStatus;
+  if (notifyPendingSales !== undefined) settings.notifyPendingSales = notifyPendingSales;
+  if (attributionPrecedence !== undefined) settings.attributionPrecedence = attributionPrecedence;
+
+  // null remove a configuração do conjunto, que volta a usar a base global
+  if (tierSetCommissionBase) {
+    for (const role of ['influencer', 'manager'] as const) {
+      const value = tierSetCommissionBase[role];
+      if (value === undefined) continue;
+      if (value !== null && !COMMISSION_BASES.includes(value)) {
+        res.status(400);
+        throw new Error(`Base de comissão inválida para as faixas de ${role}`);
+      }
+      settings.tierSetCommissionBase[role] = value || undefined;
+    }
+  }
+
+  if (tierSetMeasurement) {
+    const error = applyTierSetSetting(settings.tierSetMeasurement, tierSetMeasurement, TIER_MEASUREMENTS, 'Medição das faixas');
+    if (error) {
+      res.status(400);
+      throw new Error(`${error}. Use "order", "monthly" ou "quarterly"`);
+    }
+  }
+
+  if (tierSetVolumeMode) {
+    const error = applyTierSetSetting(settings.tierSetVolumeMode, tierSetVolumeMode, VOLUME_TIER_MODES, 'Modo das faixas por volume');
+    if (error) {
+      res.status(400);
+      throw new Error(`${error}. Use "retroactive" ou "marginal"`);
+    }
+  }
+
+  // Limites das faixas dos gerentes; null remove o limite
+  if (managerTierSetBounds) {
+    const { maxPercentage, maxNewCustomerBonus } = managerTierSetBounds;
+    if (maxPercentage !== undefined && maxPercentage !== null
+      && (typeof maxPercentage !== 'number' || maxPercentage < 0 || maxPercentage > 100)) {
+      res.status(400);
+      throw new Error('managerTierSetBounds.maxPercentage deve ser um número entre 0 e 100');
+    }
+    if (maxNewCustomerBonus !== undefined && maxNewCustomerBonus !== null
+      && (typeof maxNewCustomerBonus !== 'number' || maxNewCustomerBonus < 0)) {
+      res.status(400);
+      throw new Error('managerTierSetBounds.maxNewCustomerBonus deve ser um número maior ou igual a 0');
+    }
+    if (maxPercentage !== undefined) settings.managerTierSetBounds.maxPercentage = maxPercentage ?? undefined;
+    if (maxNewCustomerBonus !== undefined) settings.managerTierSetBounds.maxNewCustomerBonus = maxNewCustomerBonus ?? undefined;
+  }
+
+  settings.updatedBy = req.user?._id as mongoose.Types.ObjectId;
+  const updatedSettings = await settings.save();
+
+  res.json(updatedSettings);
+});
+
+// @desc    Fechar as faixas por volume do período que contém a data (padrão: hoje), recalculando
+//          as comissões das vendas e os pagamentos que as incluem
+// @route   POST /api/commissions/volume-settlements
+// @access  Private/Admin
+const createVolumeSettlement = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { role, date } = req.body;
+
+  if (role !== undefined && !COMMISSION_ROLES.includes(role)) {
+    res.status(400);
+    throw new Error('Papel inválido. Use "influencer" ou "manager"');
+  }
+
+  const referenceDate = date ? new Date(date) : new Date();
+  if (isNaN(referenceDate.getTime())) {
+    res.status(400);
+    throw new Error('Data inválida');
+  }
+
+  const roles: ('influencer' | 'manager')[] = role ? [role] : ['influencer', 'manager'];
+  const settlements = [];
+  for (const settlementRole of roles) {
+    const settlement = await settleVolumeTiers(settlementRole, referenceDate);
+    if (settlement) settlements.push(settlement);
+  }
+
+  if (settlements.length === 0) {
+    res.status(400);
+    throw new Error('Nenhum conjunto de faixas está configurado para volume por período');
+  }
+
+  res.json({ message: 'Faixas por volume acertadas', settlements });
 });
 
 // @desc    Verificar se um código de cupom está disponível
@@ -437,12 +786,9 @@ const checkCouponCodeAvailability = asyncHandler(async (req: Request, res: Respo
     }
 
     try {
-      // Verifica se existe algum usuário com este código de cupom
-      console.log(`[checkCouponAvailability] Buscando usuário com couponCode: ${code}`);
-      const existingUser = await User.findOne({ couponCode: code as string });
-      console.log('[checkCouponAvailability] Resultado de User.findOne:', existingUser);
-
-      const isAvailable = !existingUser;
+      // Verifica na coleção de cupons, sem diferenciar maiúsculas/minúsculas
+      console.log(`[checkCouponAvailability] Buscando cupom: ${code}`);
+      const isAvailable = await isCouponCodeAvailable(code as string);
       console.log(`[checkCouponAvailability] Cupom está disponível? ${isAvailable}`);
 
       res.json({ available: isAvailable });
@@ -455,13 +801,18 @@ const checkCouponCodeAvailability = asyncHandler(async (req: Request, res: Respo
 export {
   createCommissionTier,
   getCommissionTiers,
+  getCommissionTierVersions,
   updateCommissionTier,
   deleteCommissionTier,
   saveCommissionTiersBulk,
   getSales,
   processCommissions,
   createCommissionPayments,
+  createVolumeSettlement,
   getCommissionPayments,
   updatePaymentStatus,
+  getCommissionAdjustments,
+  getCommissionSettingsHandler,
+  updateCommissionSettings,
   checkCouponCodeAvailability
 }; 
\ No newline at end of file
@@ -0,0 +1,301 @@
+import { Response } from 'express';
+import asyncHandler from '../utils/asyncHandler';
+import { isValidObjectId, Types } from 'mongoose';
+import { AuthRequest } from '../middlewares/authMiddleware';
+import CommissionOverride, { ICommissionOverride } from '../models/CommissionOverride';
+import User, { IUser, UserRole } from '../models/User';
+import { getCommissionSettings } from '../services/commissionService';
+import { getActiveManagerTierSet, getTierSetBounds, TierSetBounds, validateTierSetTiers } from '../services/managerTierSetService';
+import { getTierVersionAt, getVersionTiers } from '../services/commissionTierVersionService';
+
+const OVERRIDE_TYPES = ['percentage', 'tiers', 'multiplier'];
+
+/**
+ * Admins gerenciam as sobrescritas de influenciadores e gerentes;
+ * gerentes, apenas as dos seus próprios influenciadores
+ */
+const canManageUser = (req: AuthRequest, user: IUser) => {
+  if (req.user?.role === UserRole.ADMIN) return true;
+  return user.role === UserRole.INFLUENCER && user.manager?.toString() === (req.user?._id as Types.ObjectId).toString();
+};
+
+/**
+ * Converte a data recebida; undefined mantém o valor atual e null remove (apenas no fim da vigência)
+ */
+const parseDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Valida o valor exigido pelo tipo: percentual entre 0 e 100, multiplicador positivo ou faixas válidas
+ * @returns Mensagem de erro ou null se válido
+ */
+const validateOverrideValues = (override: { type: string; percentage?: unknown; multiplier?: unknown; tiers?: unknown }): string | null => {
+  if (!OVERRIDE_TYPES.includes(override.type)) {
+    return 'Tipo de sobrescrita inválido. Use "percentage", "tiers" ou "multiplier"';
+  }
+  if (override.type === 'percentage'
+    && (typeof override.percentage !== 'number' || override.percentage < 0 || override.percentage > 100)) {
+    return 'percentage deve ser um número entre 0 e 100';
+  }
+  if (override.type === 'multiplier' && (typeof override.multiplier !== 'number' || override.multiplier <= 0)) {
+    return 'multiplier deve ser um número maior que 0';
+  }
+  if (override.type === 'tiers') {
+    if (!Array.isArray(override.tiers) || override.tiers.length === 0) {
+      return 'Informe ao menos uma faixa em tiers';
+    }
+    for (const tier of override.tiers) {
+      if (!tier?.name || typeof tier.minSalesValue !== 'number' || tier.minSalesValue < 0
+        || typeof tier.commissionPercentage !== 'number' || tier.commissionPercentage < 0 || tier.commissionPercentage > 100) {
+        return 'Cada faixa precisa de name, minSalesValue (>= 0) e commissionPercentage (0 a 100)';
+      }
+      if (tier.maxSalesValue !== undefined && tier.maxSalesValue !== null
+        && (typeof tier.maxSalesValue !== 'number' || tier.maxSalesValue < tier.minSalesValue)) {
+        return `maxSalesValue da faixa ${tier.name} deve ser maior ou igual a minSalesValue`;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Valida a sobrescrita definida por um gerente contra os limites das faixas dos gerentes.
+ * O multiplicador é conferido sobre as faixas que o influenciador usa hoje (da equipe ou globais).
+ * @returns Mensagem de erro ou null se dentro dos limites
+ */
+const validateOverrideBounds = async (override: ICommissionOverride, bounds: TierSetBounds): Promise<string | null> => {
+  const { maxPercentage } = bounds;
+  if (override.type === 'percentage') {
+    return maxPercentage !== undefined && maxPercentage !== null && (override.percentage || 0) > maxPercentage
+      ? `O percentual ultrapassa o máximo permitido (${maxPercentage}%)`
+      : null;
+  }
+  if (override.type === 'tiers') {
+    return validateTierSetTiers(override.tiers, bounds);
+  }
+  if (maxPercentage === undefined || maxPercentage === null) return null;
+
+  const user = await User.findById(override.user).select('manager');
+  const tierSet = await getActiveManagerTierSet(user?.manager as Types.ObjectId | undefined);
+  const tiers = tierSet ? tierSet.tiers : await getVersionTiers('influencer', await getTierVersionAt('influencer', new Date()));
+  const highest = Math.max(0, ...tiers.map(tier => Math.max(tier.commissionPercentage, tier.newCustomerPercentage ?? 0)));
+  return highest * (override.multiplier || 0) > maxPercentage
+    ? `O multiplicador leva a faixa mais alta (${highest}%) acima do máximo permitido (${maxPercentage}%)`
+    : null;
+};
+
+/**
+ * Procura outra sobrescrita ativa do usuário com vigência sobreposta
+ */
+const findOverlappingOverride = (override: ICommissionOverride) => {
+  return CommissionOverride.findOne({
+    _id: { $ne: override._id },
+    user: override.user,
+    appliesTo: override.appliesTo,
+    isActive: true,
+    ...(override.effectiveTo ? { effectiveFrom: { $lte: override.effectiveTo } } : {}),
+    $or: [{ effectiveTo: { $exists: false } }, { effectiveTo: null }, { effectiveTo: { $gte: override.effectiveFrom } }]
+  });
+};
+
+/**
+ * Valida a sobrescrita montada, os limites (quando definida por gerente) e a vigência; lança erro 400 se inválida
+ */
+const checkOverride = async (override: ICommissionOverride, res: Response) => {
+  const error = validateOverrideValues(override);
+  if (error) {
+    res.status(400);
+    throw new Error(error);
+  }
+  if (override.isActive && override.setByRole !== 'admin') {
+    const boundsError = await validateOverrideBounds(override, getTierSetBounds(await getCommissionSettings()));
+    if (boundsError) {
+      res.status(400);
+      throw new Error(boundsError);
+    }
+  }
+  if (override.effectiveTo && override.effectiveTo < override.effectiveFrom) {
+    res.status(400);
+    throw new Error('effectiveTo deve ser posterior a effectiveFrom');
+  }
+  if (override.isActive && await findOverlappingOverride(override)) {
+    res.status(400);
+    throw new Error('Já existe uma sobrescrita ativa para este usuário no período informado');
+  }
+};
+
+// @desc    Listar sobrescritas de comissão (filtros: user, active, at)
+// @route   GET /api/commission-overrides
+// @access  Private/Admin/Manager
+const getCommissionOverrides = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { user, active, at } = req.query;
+
+  let query: any = {};
+  if (user) query.user = user;
+  if (active !== undefined) query.isActive = active === 'true';
+  if (at) {
+    const date = new Date(at as string);
+    if (isNaN(date.getTime())) {
+      res.status(400);
+      throw new Error('Data inválida em at');
+    }
+    query.effectiveFrom = { $lte: date };
+    query.$or = [{ effectiveTo: { $exists: false } }, { effectiveTo: null }, { effectiveTo: { $gte: date } }];
+  }
+
+  // Gerentes veem apenas as sobrescritas dos seus influenciadores
+  if (req.user?.role === UserRole.MANAGER) {
+    const influencers = await User.find({ manager: req.user._id }).select('_id');
+    const influencerIds = influencers.map(influencer => influencer._id);
+    query.user = user
+      ? { $in: influencerIds.filter(id => (id as Types.ObjectId).toString() === user) }
+      : { $in: influencerIds };
+  }
+
+  const overrides = await CommissionOverride.find(query)
+    .populate('user', 'name email role')
+    .sort({ effectiveFrom: -1 });
+
+  res.json(overrides);
+});
+
+// @desc    Criar uma sobrescrita de comissão para um influenciador ou gerente
+// @route   POST /api/commission-overrides
+// @access  Private/Admin/Manager
+const createCommissionOverride = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { userId, type, percentage, multiplier, tiers, effectiveFrom, effectiveTo, notes } = req.body;
+
+  if (!userId || !isValidObjectId(userId) || !type) {
+    res.status(400);
+    throw new Error('Por favor, informe o usuário e o tipo da sobrescrita');
+  }
+
+  const user = await User.findOne({ _id: userId, role: { $in: [UserRole.INFLUENCER, UserRole.MANAGER] } });
+  if (!user) {
+    res.status(404);
+    throw new Error('Influenciador ou gerente não encontrado');
+  }
+
+  if (!canManageUser(req, user)) {
+    res.status(403);
+    throw new Error('Não autorizado a alterar a comissão deste usuário');
+  }
+
+  const from = parseDate(effectiveFrom);
+  const to = parseDate(effectiveTo);
+  if ((effectiveFrom !== undefined && !from) || (effectiveTo !== undefined && effectiveTo !== null && effectiveTo !== '' && !to)) {
+    res.status(400);
+    throw new Error('Datas de vigência inválidas');
+  }
+
+  const override = new CommissionOverride({
+    user: user._id,
+    appliesTo: user.role === UserRole.MANAGER ? 'manager' : 'influencer',
+    type,
+    percentage: type === 'percentage' ? percentage : undefined,
+    multiplier: type === 'multiplier' ? multiplier : undefined,
+    tiers: type === 'tiers' ? tiers : [],
+    effectiveFrom: from || new Date(),
+    effectiveTo: to || undefined,
+    notes,
+    setByRole: req.user?.role === UserRole.ADMIN ? 'admin' : 'manager',
+    createdBy: req.user?._id
+  });
+  await checkOverride(override, res);
+
+  const createdOverride = await override.save();
+
+  res.status(201).json(createdOverride);
+});
+
+// @desc    Atualizar uma sobrescrita de comissão (null em effectiveTo deixa a vigência sem fim)
+// @route   PUT /api/commission-overrides/:id
+// @access  Private/Admin/Manager
+const updateCommissionOverride = asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!isValidObjectId(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de sobrescrita inválido');
+  }
+
+  const override = await CommissionOverride.findById(req.params.id);
+  if (!override) {
+    res.status(404);
+    throw new Error('Sobrescrita de comissão não encontrada');
+  }
+
+  const user = await User.findById(override.user);
+  if (!user || !canManageUser(req, user)) {
+    res.status(403);
+    throw new Error('Não autorizado a alterar a comissão deste usuário');
+  }
+
+  const { type, percentage, multiplier, tiers, effectiveFrom, effectiveTo, notes, isActive } = req.body;
+  const from = parseDate(effectiveFrom);
+  const to = parseDate(effectiveTo);
+  if ((effectiveFrom !== undefined && !from) || (effectiveTo !== undefined && effectiveTo !== null && effectiveTo !== '' && !to)) {
+    res.status(400);
+    throw new Error('Datas de vigência inválidas');
+  }
+
+  if (type) override.type = type;
+  if (percentage !== undefined) override.percentage = percentage;
+  if (multiplier !== undefined) override.multiplier = multiplier;
+  if (tiers !== undefined) override.set('tiers', tiers);
+  if (from) override.effectiveFrom = from;
+  if (to !== undefined) override.effectiveTo = to || undefined;
+  if (notes !== undefined) override.notes = notes;
+  if (isActive !== undefined) override.isActive = isActive;
+
+  // Quem altera passa a responder pelos valores: alterações de gerente ficam sujeitas aos limites
+  override.setByRole = req.user?.role === UserRole.ADMIN ? 'admin' : 'manager';
+
+  // Apenas o valor do tipo escolhido fica gravado
+  if (override.type !== 'percentage') override.percentage = undefined;
+  if (override.type !== 'multiplier') override.multiplier = undefined;
+  if (override.type !== 'tiers') override.set('tiers', []);
+
+  await checkOverride(override, res);
+  override.updatedBy = req.user?._id as Types.ObjectId;
+  const updatedOverride = await override.save();
+
+  res.json(updatedOverride);
+});
+
+// @desc    Excluir uma sobrescrita de comissão (desativar)
+// @route   DELETE /api/commission-overrides/:id
+// @access  Private/Admin/Manager
+const deleteCommissionOverride = asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!isValidObjectId(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de sobrescrita inválido');
+  }
+
+  const override = await CommissionOverride.findById(req.params.id);
+  if (!override) {
+    res.status(404);
+    throw new Error('Sobrescrita de comissão não encontrada');
+  }
+
+  const user = await User.findById(override.user);
+  if (!user || !canManageUser(req, user)) {
+    res.status(403);
+    throw new Error('Não autorizado a alterar a comissão deste usuário');
+  }
+
+  override.isActive = false;
+  override.updatedBy = req.user?._id as Types.ObjectId;
+  await override.save();
+
+  res.json({ message: 'Sobrescrita de comissão desativada com sucesso' });
+});
+
+export {
+  getCommissionOverrides,
+  createCommissionOverride,
+  updateCommissionOverride,
+  deleteCommissionOverride
+};
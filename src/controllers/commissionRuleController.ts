@@ -0,0 +1,135 @@
+import { Request, Response, NextFunction } from 'express';
+import asyncHandler from '../utils/asyncHandler';
+import mongoose from 'mongoose';
+import CommissionRule from '../models/CommissionRule';
+
+const RULE_TYPES = ['percentage', 'fixed', 'cap', 'minimum'];
+
+/**
+ * Valida o tipo da regra e o valor exigido por ele (percentual ou valor em BRL)
+ */
+const validateRuleValues = (type: string, percentage: unknown, amount: unknown, res: Response) => {
+  if (!RULE_TYPES.includes(type)) {
+    res.status(400);
+    throw new Error('Tipo de regra inválido. Use "percentage", "fixed", "cap" ou "minimum"');
+  }
+  if (type === 'percentage') {
+    const value = Number(percentage);
+    if (percentage === undefined || percentage === null || isNaN(value) || value < 0 || value > 100) {
+      res.status(400);
+      throw new Error('percentage deve estar entre 0 e 100');
+    }
+    return;
+  }
+  const value = Number(amount);
+  if (amount === undefined || amount === null || isNaN(value) || value < 0) {
+    res.status(400);
+    throw new Error('amount deve ser um valor maior ou igual a zero');
+  }
+};
+
+// @desc    Listar regras de comissão por venda (percentual extra, valor fixo, teto e mínimo)
+// @route   GET /api/commissions/rules
+// @access  Private/Admin
+const getCommissionRules = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { type, appliesTo, isActive } = req.query;
+
+  let query: any = {};
+  if (type) query.type = type;
+  if (appliesTo) query.appliesTo = { $in: [appliesTo, 'both'] };
+  if (isActive) query.isActive = isActive === 'true';
+
+  const rules = await CommissionRule.find(query).sort({ order: 1, createdAt: 1 });
+
+  res.json(rules);
+});
+
+// @desc    Criar uma regra de comissão por venda
+// @route   POST /api/commissions/rules
+// @access  Private/Admin
+const createCommissionRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { name, type, percentage, amount, appliesTo, order } = req.body;
+
+  if (!name || !type) {
+    res.status(400);
+    throw new Error('Por favor, forneça o nome e o tipo da regra');
+  }
+  validateRuleValues(type, percentage, amount, res);
+
+  const rule = await CommissionRule.create({
+    name,
+    type,
+    percentage: type === 'percentage' ? percentage : undefined,
+    amount: type === 'percentage' ? undefined : amount,
+    appliesTo,
+    order,
+    isActive: true
+  });
+
+  res.status(201).json(rule);
+});
+
+// @desc    Atualizar uma regra de comissão por venda
+// @route   PUT /api/commissions/rules/:id
+// @access  Private/Admin
+const updateCommissionRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de regra inválido');
+  }
+
+  const rule = await CommissionRule.findById(req.params.id);
+  if (!rule) {
+    res.status(404);
+    throw new Error('Regra de comissão não encontrada');
+  }
+
+  const { name, type, percentage, amount, appliesTo, order, isActive } = req.body;
+
+  if (name) rule.name = name;
+  if (type) rule.type = type;
+  if (percentage !== undefined) rule.percentage = percentage;
+  if (amount !== undefined) rule.amount = amount;
+  if (appliesTo) rule.appliesTo = appliesTo;
+  if (order !== undefined) rule.order = order;
+  if (isActive !== undefined) rule.isActive = isActive;
+
+  validateRuleValues(rule.type, rule.percentage, rule.amount, res);
+  if (rule.type === 'percentage') {
+    rule.amount = undefined;
+  } else {
+    rule.percentage = undefined;
+  }
+
+  const updatedRule = await rule.save();
+
+  res.json(updatedRule);
+});
+
+// @desc    Excluir uma regra de comissão por venda (desativar)
+// @route   DELETE /api/commissions/rules/:id
+// @access  Private/Admin
+const deleteCommissionRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de regra inválido');
+  }
+
+  const rule = await CommissionRule.findById(req.params.id);
+  if (!rule) {
+    res.status(404);
+    throw new Error('Regra de comissão não encontrada');
+  }
+
+  rule.isActive = false;
+  await rule.save();
+
+  res.json({ message: 'Regra de comissão desativada com sucesso' });
+});
+
+export {
+  getCommissionRules,
+  createCommissionRule,
+  updateCommissionRule,
+  deleteCommissionRule
+};
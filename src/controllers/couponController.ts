@@ -0,0 +1,120 @@
+import { Response } from 'express';
+import asyncHandler from '../utils/asyncHandler';
+import { isValidObjectId, Types } from 'mongoose';
+import { AuthRequest } from '../middlewares/authMiddleware';
+import Coupon from '../models/Coupon';
+import User, { UserRole } from '../models/User';
+import { isCouponCodeAvailable } from '../services/couponService';
+
+/**
+ * Gerentes só podem gerenciar cupons dos seus próprios influenciadores
+ */
+const canManageOwner = async (req: AuthRequest, ownerId: Types.ObjectId | string) => {
+  if (req.user?.role === UserRole.ADMIN) return true;
+  const owner = await User.findOne({ _id: ownerId, manager: req.user?._id });
+  return !!owner;
+};
+
+// @desc    Listar cupons (filtros: owner, campaign, active)
+// @route   GET /api/coupons
+// @access  Private/Admin/Manager
+const getCoupons = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { owner, campaign, active } = req.query;
+
+  let query: any = {};
+  if (owner) query.owner = owner;
+  if (campaign) query.campaign = campaign;
+  if (active !== undefined) query.isActive = active === 'true';
+
+  // Gerentes veem apenas os cupons dos seus influenciadores
+  if (req.user?.role === UserRole.MANAGER) {
+    const influencers = await User.find({ manager: req.user._id }).select('_id');
+    const influencerIds = influencers.map(influencer => influencer._id);
+    query.owner = owner
+      ? { $in: influencerIds.filter(id => (id as Types.ObjectId).toString() === owner) }
+      : { $in: influencerIds };
+  }
+
+  const coupons = await Coupon.find(query)
+    .populate('owner', 'name email')
+    .sort({ createdAt: -1 });
+
+  res.json(coupons);
+});
+
+// @desc    Criar um cupom adicional (alias ou campanha) para um influenciador
+// @route   POST /api/coupons
+// @access  Private/Admin/Manager
+const createCoupon = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { code, ownerId, validFrom, validUntil, campaign } = req.body;
+
+  if (!code || !ownerId || !isValidObjectId(ownerId)) {
+    res.status(400);
+    throw new Error('Por favor, informe o código do cupom e o influenciador');
+  }
+
+  const owner = await User.findOne({ _id: ownerId, role: UserRole.INFLUENCER });
+  if (!owner) {
+    res.status(404);
+    throw new Error('Influenciador não encontrado');
+  }
+
+  if (!(await canManageOwner(req, ownerId))) {
+    res.status(403);
+    throw new Error('Não autorizado a criar cupons para este influenciador');
+  }
+
+  if (!(await isCouponCodeAvailable(code))) {
+    res.status(400);
+    throw new Error('Este código de cupom já está em uso');
+  }
+
+  const coupon = await Coupon.create({
+    code,
+    owner: ownerId,
+    validFrom,
+    validUntil,
+    campaign
+  });
+
+  res.status(201).json(coupon);
+});
+
+// @desc    Atualizar validade, campanha ou status de um cupom
+// @route   PUT /api/coupons/:id
+// @access  Private/Admin/Manager
+const updateCoupon = asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!isValidObjectId(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de cupom inválido');
+  }
+
+  const coupon = await Coupon.findById(req.params.id);
+  if (!coupon) {
+    res.status(404);
+    throw new Error('Cupom não encontrado');
+  }
+
+  if (!(await canManageOwner(req, coupon.owner as Types.ObjectId))) {
+    res.status(403);
+    throw new Error('Não autorizado a alterar este cupom');
+  }
+
+  const { validFrom, validUntil, campaign, isActive } = req.body;
+
+  // O cupom principal é alterado pelo cadastro do influenciador
+  if (coupon.isPrimary && isActive === false) {
+    res.status(400);
+    throw new Error('O cupom principal não pode ser desativado por aqui; altere o cupom do influenciador');
+  }
+
+  if (validFrom !== undefined) coupon.validFrom = validFrom || undefined;
+  if (validUntil !== undefined) coupon.validUntil = validUntil || undefined;
+  if (campaign !== undefined) coupon.campaign = campaign || undefined;
+  if (isActive !== undefined) coupon.isActive = isActive;
+
+  const updatedCoupon = await coupon.save();
+  res.json(updatedCoupon);
+});
+
+export { getCoupons, createCoupon, updateCoupon };
@@ -58,7 +58,8 @@ const getPerformanceOverviewStats = asyncHandler(async (req: AuthRequest, res: R
 
     // --- Calculate Current Period Stats ---    
     // Define match criteria based on date and user type
-    let salesMatch: any = { createdAt: { $gte: startDate, $lt: endDate } };
+    // Pedidos aguardando pagamento ficam fora dos totais e são contados à parte
+    let salesMatch: any = { createdAt: { $gte: startDate, $lt: endDate }, attributionStatus: { $ne: 'unattributed' }, status: { $ne: 'pending' } };
     if (userType === 'influencer') {
         salesMatch.influencerId = { $exists: true, $ne: null };
     } else if (userType === 'manager') {
@@ -75,6 +76,7 @@ const getPerformanceOverviewStats = asyncHandler(async (req: AuthRequest, res: R
         { $group: { 
             _id: null, 
             totalSalesValue: { $sum: '$saleValue' }, // <-- Corrected field name
+            totalNetSalesValue: { $sum: { $ifNull: ['$netValue', '$saleValue'] } }, // Valor líquido da mercadoria
             totalSalesCount: { $sum: 1 },
             totalInfluencerCommission: { $sum: '$influencerCommissionEarned' }, // <-- Verify field name in Sale model
             totalManagerCommission: { $sum: '$managerCommissionEarned' } // <-- Verify field name in Sale model
@@ -82,7 +84,7 @@ const getPerformanceOverviewStats = asyncHandler(async (req: AuthRequest, res: R
     ]);
     
     // --- Calculate Previous Period Stats (for growth) ---   
-    let prevSalesMatch: any = { createdAt: { $gte: prevStartDate, $lt: prevEndDate } };
+    let prevSalesMatch: any = { createdAt: { $gte: prevStartDate, $lt: prevEndDate }, attributionStatus: { $ne: 'unattributed' }, status: { $ne: 'pending' } };
     if (userType === 'influencer') {
         prevSalesMatch.influencerId = { $exists: true, $ne: null };
     } else if (userType === 'manager') {
@@ -95,12 +97,18 @@ const getPerformanceOverviewStats = asyncHandler(async (req: AuthRequest, res: R
         { $group: { 
             _id: null, 
             totalSalesValue: { $sum: '$saleValue' }, // <-- Corrected field name
+            totalNetSalesValue: { $sum: { $ifNull: ['$netValue', '$saleValue'] } }, // Valor líquido da mercadoria
             totalSalesCount: { $sum: 1 },
             totalInfluencerCommission: { $sum: '$influencerCommissionEarned' }, // <-- Verify field name
             totalManagerCommission: { $sum: '$managerCommissionEarned' } // <-- Verify field name
         } }
     ]);
 
+    const pendingSales = await Sale.aggregate([
+        { $match: { ...salesMatch, status: 'pending' } },
+        { $group: { _id: null, count: { $sum: 1 }, value: { $sum: '$saleValue' } } }
+    ]);
+
     // --- Calculate User Stats ---  
     const userStatsQuery = { 
         createdAt: { $lte: endDate }, // Users created before or during the period
@@ -110,8 +118,8 @@ const getPerformanceOverviewStats = asyncHandler(async (req: AuthRequest, res: R
     const activeUserCount = await User.countDocuments(userStatsQuery);
 
     // --- Combine and Calculate --- 
-    const currentStats = currentSales[0] || { totalSalesValue: 0, totalSalesCount: 0, totalInfluencerCommission: 0, totalManagerCommission: 0 };
-    const previousStats = previousSales[0] || { totalSalesValue: 0, totalSalesCount: 0, totalInfluencerCommission: 0, totalManagerCommission: 0 };
+    const currentStats = currentSales[0] || { totalSalesValue: 0, totalNetSalesValue: 0, totalSalesCount: 0, totalInfluencerCommission: 0, totalManagerCommission: 0 };
+    const previousStats = previousSales[0] || { totalSalesValue: 0, totalNetSalesValue: 0, totalSalesCount: 0, totalInfluencerCommission: 0, totalManagerCommission: 0 };
     
     let totalCommissions = 0;
     let prevTotalCommissions = 0;
@@ -132,6 +140,7 @@ const getPerformanceOverviewStats = asyncHandler(async (req: AuthRequest, res: R
     };
 
     const salesGrowth = calculateGrowth(currentStats.totalSalesValue, previousStats.totalSalesValue);
+    const netSalesGrowth = calculateGrowth(currentStats.totalNetSalesValue, previousStats.totalNetSalesValue);
     const commissionGrowth = calculateGrowth(totalCommissions, prevTotalCommissions);
     
     // Conversion rate might need a more specific definition (e.g., sales per active user)
@@ -141,10 +150,14 @@ const getPerformanceOverviewStats = asyncHandler(async (req: AuthRequest, res: R
     res.json({
         totalSales: currentStats.totalSalesValue,
         salesGrowth: isFinite(salesGrowth) ? salesGrowth : 100.0, // Handle Infinity case for display
+        totalNetSales: currentStats.totalNetSalesValue,
+        netSalesGrowth: isFinite(netSalesGrowth) ? netSalesGrowth : 100.0,
         totalCommissions: totalCommissions,
         commissionGrowth: isFinite(commissionGrowth) ? commissionGrowth : 100.0, // Handle Infinity
         activeUsers: activeUserCount,
         conversionRate: conversionRate,
+        pendingSalesCount: pendingSales[0]?.count || 0, // Pedidos aguardando pagamento (boleto/PIX)
+        pendingSalesValue: pendingSales[0]?.value || 0,
     });
 });
 
@@ -163,7 +176,7 @@ const getPerformanceTimeline = asyncHandler(async (req: AuthRequest, res: Respon
 
     const salesTimeline = await Sale.aggregate([
         {
-            $match: { createdAt: matchDate } // Apply date filter
+            $match: { createdAt: matchDate, attributionStatus: { $ne: 'unattributed' } } // Apply date filter
         },
         {
             $project: { // Project needed fields and the grouping key (month)
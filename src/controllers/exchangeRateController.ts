@@ -0,0 +1,140 @@
+import { Response } from 'express';
+import asyncHandler from '../utils/asyncHandler';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../middlewares/authMiddleware';
+import ExchangeRate from '../models/ExchangeRate';
+import {
+  BASE_CURRENCY,
+  parseRateDate,
+  upsertExchangeRate,
+  importExchangeRatesCsv
+} from '../services/exchangeRateService';
+
+/**
+ * Valida moeda, data e cotação recebidas no corpo da requisição
+ */
+const parseRateInput = (body: any, res: Response) => {
+  const currency = typeof body.currency === 'string' ? body.currency.trim().toUpperCase() : '';
+  const date = parseRateDate(body.date);
+  const rate = Number(body.rate);
+
+  if (!/^[A-Z]{3}$/.test(currency) || currency === BASE_CURRENCY) {
+    res.status(400);
+    throw new Error(`Informe uma moeda válida (código ISO de 3 letras, diferente de ${BASE_CURRENCY})`);
+  }
+  if (!date) {
+    res.status(400);
+    throw new Error('Data inválida. Use AAAA-MM-DD ou DD/MM/AAAA');
+  }
+  if (isNaN(rate) || rate <= 0) {
+    res.status(400);
+    throw new Error('A cotação deve ser um número maior que zero');
+  }
+
+  return { currency, date, rate };
+};
+
+// @desc    Listar cotações (filtros: currency, startDate, endDate)
+// @route   GET /api/exchange-rates
+// @access  Private/Admin
+const getExchangeRates = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { currency, startDate, endDate } = req.query;
+  const limit = Math.min(Number(req.query.limit) || 100, 1000);
+
+  let query: any = {};
+  if (currency) query.currency = String(currency).toUpperCase();
+  if (startDate || endDate) {
+    query.date = {};
+    if (startDate) query.date.$gte = parseRateDate(String(startDate));
+    if (endDate) query.date.$lte = parseRateDate(String(endDate));
+  }
+
+  const rates = await ExchangeRate.find(query)
+    .populate('updatedBy', 'name email')
+    .sort({ date: -1, currency: 1 })
+    .limit(limit);
+
+  res.json(rates);
+});
+
+// @desc    Cadastrar (ou substituir) a cotação de uma moeda em um dia
+// @route   POST /api/exchange-rates
+// @access  Private/Admin
+const saveExchangeRate = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { currency, date, rate } = parseRateInput(req.body, res);
+
+  const exchangeRate = await upsertExchangeRate(currency, date, rate, 'manual', req.user?._id as string);
+
+  res.status(201).json(exchangeRate);
+});
+
+// @desc    Alterar uma cotação
+// @route   PUT /api/exchange-rates/:id
+// @access  Private/Admin
+const updateExchangeRate = asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de cotação inválido');
+  }
+
+  const exchangeRate = await ExchangeRate.findById(req.params.id);
+  if (!exchangeRate) {
+    res.status(404);
+    throw new Error('Cotação não encontrada');
+  }
+
+  const rate = Number(req.body.rate);
+  if (isNaN(rate) || rate <= 0) {
+    res.status(400);
+    throw new Error('A cotação deve ser um número maior que zero');
+  }
+
+  exchangeRate.rate = rate;
+  exchangeRate.source = 'manual';
+  exchangeRate.updatedBy = req.user?._id as mongoose.Types.ObjectId;
+  const updatedRate = await exchangeRate.save();
+
+  res.json(updatedRate);
+});
+
+// @desc    Excluir uma cotação
+// @route   DELETE /api/exchange-rates/:id
+// @access  Private/Admin
+const deleteExchangeRate = asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de cotação inválido');
+  }
+
+  const exchangeRate = await ExchangeRate.findByIdAndDelete(req.params.id);
+  if (!exchangeRate) {
+    res.status(404);
+    throw new Error('Cotação não encontrada');
+  }
+
+  res.json({ message: 'Cotação excluída com sucesso' });
+});
+
+// @desc    Carregar cotações em lote a partir de um CSV (colunas date, currency, rate)
+// @route   POST /api/exchange-rates/import
+// @access  Private/Admin
+const importExchangeRates = asyncHandler(async (req: AuthRequest, res: Response) => {
+  // Aceita o CSV como corpo text/csv ou no campo "csv" de um JSON
+  const csv = typeof req.body === 'string' ? req.body : req.body?.csv;
+  if (!csv || typeof csv !== 'string') {
+    res.status(400);
+    throw new Error('Envie o conteúdo do CSV (Content-Type text/csv ou campo "csv")');
+  }
+
+  const result = await importExchangeRatesCsv(csv, req.user?._id as string);
+
+  res.json(result);
+});
+
+export {
+  getExchangeRates,
+  saveExchangeRate,
+  updateExchangeRate,
+  deleteExchangeRate,
+  importExchangeRates
+};
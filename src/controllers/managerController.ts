@@ -5,6 +5,8 @@ import User, { IUser, UserRole } from '../models/User';
 import Sale from '../models/Sale';
 import { isValidObjectId } from 'mongoose';
 import { sendWelcomeMessage } from '../services/whatsappService';
+import { isCouponCodeAvailable, setPrimaryCoupon, releaseUserCoupons } from '../services/couponService';
+import { parseAffiliateIds, findAffiliateConflict } from '../services/affiliateService';
 
 // @desc    Obter dados de vendas para o manager logado
 // @route   GET /api/manager/sales
@@ -88,7 +90,8 @@ const getManagerInfluencers = asyncHandler(async (req: AuthRequest, res: Respons
             { $group: { 
                 _id: null,
                 sales: { $sum: '$saleValue' },
-                commission: { $sum: '$influencerCommissionEarned' }
+                commission: { $sum: '$influencerCommissionEarned' },
+                newCustomers: { $sum: { $cond: [{ $eq: ['$isNewCustomer', true] }, 1, 0] } }
             } }
         ]);
         
@@ -102,6 +105,7 @@ const getManagerInfluencers = asyncHandler(async (req: AuthRequest, res: Respons
             notifications: inf.notifications,
             sales: stats[0]?.sales || 0,
             commission: stats[0]?.commission || 0,
+            newCustomers: stats[0]?.newCustomers || 0,
             trend: "+0%" // Placeholder
         };
     }));
@@ -127,8 +131,8 @@ const createManagerInfluencer = asyncHandler(async (req: AuthRequest, res: Respo
         res.status(400);
         throw new Error('Este email já está em uso');
     }
-    const couponExists = await User.findOne({ couponCode });
-    if (couponExists) {
+    const couponAvailable = await isCouponCodeAvailable(couponCode);
+    if (!couponAvailable) {
         res.status(400);
         throw new Error('Este cupom já está em uso');
     }
@@ -141,7 +145,6 @@ const createManagerInfluencer = asyncHandler(async (req: AuthRequest, res: Respo
         name,
         email,
         whatsappNumber,
-        couponCode,
         role: UserRole.INFLUENCER,
         manager: managerId,
         password: temporaryPassword,
@@ -149,6 +152,10 @@ const createManagerInfluencer = asyncHandler(async (req: AuthRequest, res: Respo
     });
 
     if (influencer) {
+        // Registrar o cupom na coleção de cupons (espelhado em influencer.couponCode)
+        await setPrimaryCoupon(influencer, couponCode);
+        await influencer.save();
+
         // --- Adicionar Envio de Mensagem de Boas-vindas --- 
         console.log(`[createManagerInfluencer] Checking conditions for welcome message for user ${influencer.email}`);
         console.log(`[createManagerInfluencer] Has WhatsApp: ${!!whatsappNumber}, WhatsApp Number: ${whatsappNumber}, Has Coupon: ${!!couponCode}, Coupon Code: ${couponCode}`);
@@ -226,7 +233,7 @@ const createManagerInfluencer = asyncHandler(async (req: AuthRequest, res: Respo
 const updateManagerInfluencer = asyncHandler(async (req: AuthRequest, res: Response) => {
     const managerId = req.user?._id;
     const { influencerId } = req.params;
-    const { name, email, phone, instagram, coupon, status } = req.body;
+    const { name, email, phone, instagram, coupon, status, affiliateIds } = req.body;
 
     if (!isValidObjectId(influencerId)) {
         res.status(400); throw new Error('ID de Influencer inválido');
@@ -241,14 +248,31 @@ const updateManagerInfluencer = asyncHandler(async (req: AuthRequest, res: Respo
     
     // Verificar disponibilidade do cupom se ele for alterado
     if (coupon && coupon !== influencer.couponCode) {
-        const couponExists = await User.findOne({ couponCode: coupon, _id: { $ne: influencerId } });
-        if (couponExists) {
+        const couponAvailable = await isCouponCodeAvailable(coupon, influencerId);
+        if (!couponAvailable) {
             res.status(400);
             throw new Error('Este cupom já está em uso por outro usuário');
         }
-        influencer.couponCode = coupon;
+        await setPrimaryCoupon(influencer, coupon);
     }
     
+    // IDs de afiliado (Hotmart, Kiwify, Eduzz) usados na atribuição de vendas de infoprodutos
+    if (affiliateIds !== undefined) {
+        let parsedAffiliateIds;
+        try {
+            parsedAffiliateIds = parseAffiliateIds(affiliateIds);
+        } catch (error: any) {
+            res.status(400);
+            throw error;
+        }
+        const conflict = await findAffiliateConflict(parsedAffiliateIds, influencerId);
+        if (conflict) {
+            res.status(400);
+            throw new Error(`O afiliado ${conflict.affiliateId} (${conflict.platform}) já está vinculado a outro usuário`);
+        }
+        influencer.affiliateIds = parsedAffiliateIds;
+    }
+
     // Verificar disponibilidade do email se ele for alterado
     if (email && email !== influencer.email) {
         const emailExists = await User.findOne({ email: email, _id: { $ne: influencerId } });
@@ -272,6 +296,7 @@ const updateManagerInfluencer = asyncHandler(async (req: AuthRequest, res: Respo
          name: updatedInfluencer.name,
          email: updatedInfluencer.email,
          coupon: updatedInfluencer.couponCode,
+         affiliateIds: updatedInfluencer.affiliateIds,
          status: updatedInfluencer.status,
          phone: updatedInfluencer.whatsappNumber,
          instagram: updatedInfluencer.instagram,
@@ -308,6 +333,7 @@ const deleteManagerInfluencer = asyncHandler(async (req: AuthRequest, res: Respo
     
     // Por enquanto, vamos deletar (pode ser perigoso)
     await User.deleteOne({ _id: influencerId });
+    await releaseUserCoupons(influencerId);
     
     // Remover do array do manager (se aplicável)
     // await User.findByIdAndUpdate(managerId, { $pull: { influencers: influencerId } });
@@ -340,7 +366,8 @@ const getManagerInfluencerDetails = asyncHandler(async (req: AuthRequest, res: R
             { $group: { 
                 _id: null,
                 sales: { $sum: '$saleValue' },
-                commission: { $sum: '$influencerCommissionEarned' }
+                commission: { $sum: '$influencerCommissionEarned' },
+                newCustomers: { $sum: { $cond: [{ $eq: ['$isNewCustomer', true] }, 1, 0] } }
             } }
         ]);
 
@@ -354,6 +381,7 @@ const getManagerInfluencerDetails = asyncHandler(async (req: AuthRequest, res: R
         instagram: influencer.instagram,
         sales: stats[0]?.sales || 0,
         commission: stats[0]?.commission || 0,
+        newCustomers: stats[0]?.newCustomers || 0,
         trend: "+0%" // Placeholder
     });
 });
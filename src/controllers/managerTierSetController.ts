@@ -0,0 +1,195 @@
+import { Response } from 'express';
+import asyncHandler from '../utils/asyncHandler';
+import { isValidObjectId, Types } from 'mongoose';
+import { AuthRequest } from '../middlewares/authMiddleware';
+import ManagerTierSet, { IManagerTierSet, ManagerTierSetAction } from '../models/ManagerTierSet';
+import User, { UserRole } from '../models/User';
+import { getCommissionSettings } from '../services/commissionService';
+import { getTierSetBounds, validateTierSetTiers } from '../services/managerTierSetService';
+
+/**
+ * Registra a alteração no histórico do conjunto, com o nome e as faixas após a alteração
+ */
+const recordChange = (tierSet: IManagerTierSet, action: ManagerTierSetAction, req: AuthRequest) => {
+  tierSet.history.push({
+    action,
+    changedBy: req.user?._id as Types.ObjectId,
+    at: new Date(),
+    name: tierSet.name,
+    tiers: tierSet.tiers.map(tier => ({
+      name: tier.name,
+      minSalesValue: tier.minSalesValue,
+      maxSalesValue: tier.maxSalesValue,
+      commissionPercentage: tier.commissionPercentage,
+      newCustomerPercentage: tier.newCustomerPercentage,
+      newCustomerBonus: tier.newCustomerBonus
+    }))
+  });
+  tierSet.updatedBy = req.user?._id as Types.ObjectId;
+};
+
+/**
+ * Valida as faixas com os limites atuais definidos pelo admin; lança erro 400 se inválidas
+ */
+const checkTiers = async (tiers: unknown, res: Response) => {
+  const settings = await getCommissionSettings();
+  const error = validateTierSetTiers(tiers, getTierSetBounds(settings));
+  if (error) {
+    res.status(400);
+    throw new Error(error);
+  }
+};
+
+/**
+ * Busca o conjunto de faixas; gerentes só acessam os próprios conjuntos
+ */
+const findTierSet = async (req: AuthRequest, res: Response) => {
+  if (!isValidObjectId(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de conjunto de faixas inválido');
+  }
+
+  const tierSet = await ManagerTierSet.findById(req.params.id);
+  if (!tierSet) {
+    res.status(404);
+    throw new Error('Conjunto de faixas não encontrado');
+  }
+
+  if (req.user?.role !== UserRole.ADMIN && tierSet.manager.toString() !== (req.user?._id as Types.ObjectId).toString()) {
+    res.status(403);
+    throw new Error('Não autorizado a alterar este conjunto de faixas');
+  }
+
+  return tierSet;
+};
+
+// @desc    Listar conjuntos de faixas dos gerentes (filtros: manager, active)
+// @route   GET /api/manager-tier-sets
+// @access  Private/Admin/Manager
+const getManagerTierSets = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { manager, active } = req.query;
+
+  let query: any = {};
+  if (active !== undefined) query.isActive = active === 'true';
+
+  // Gerentes veem apenas os próprios conjuntos
+  if (req.user?.role === UserRole.MANAGER) {
+    query.manager = req.user._id;
+  } else if (manager) {
+    query.manager = manager;
+  }
+
+  const tierSets = await ManagerTierSet.find(query)
+    .populate('manager', 'name email')
+    .sort({ isActive: -1, updatedAt: -1 });
+
+  res.json(tierSets);
+});
+
+// @desc    Criar um conjunto de faixas para os influenciadores da equipe (criado inativo)
+// @route   POST /api/manager-tier-sets
+// @access  Private/Admin/Manager
+const createManagerTierSet = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { name, tiers, managerId } = req.body;
+
+  if (!name) {
+    res.status(400);
+    throw new Error('Por favor, informe o nome do conjunto de faixas');
+  }
+
+  // Gerentes criam conjuntos para a própria equipe; admins informam o gerente
+  let managerUser = req.user;
+  if (req.user?.role === UserRole.ADMIN) {
+    if (!managerId || !isValidObjectId(managerId)) {
+      res.status(400);
+      throw new Error('Por favor, informe o gerente (managerId)');
+    }
+    managerUser = await User.findOne({ _id: managerId, role: UserRole.MANAGER }) || undefined;
+    if (!managerUser) {
+      res.status(404);
+      throw new Error('Gerente não encontrado');
+    }
+  }
+
+  await checkTiers(tiers, res);
+
+  const tierSet = new ManagerTierSet({
+    manager: managerUser!._id,
+    name,
+    tiers,
+    isActive: false,
+    createdBy: req.user?._id
+  });
+  recordChange(tierSet, 'created', req);
+  const createdTierSet = await tierSet.save();
+
+  res.status(201).json(createdTierSet);
+});
+
+// @desc    Atualizar o nome ou as faixas de um conjunto (um conjunto ativo passa a valer imediatamente)
+// @route   PUT /api/manager-tier-sets/:id
+// @access  Private/Admin/Manager
+const updateManagerTierSet = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const tierSet = await findTierSet(req, res);
+  const { name, tiers } = req.body;
+
+  if (tiers !== undefined) {
+    await checkTiers(tiers, res);
+    tierSet.set('tiers', tiers);
+  }
+  if (name) tierSet.name = name;
+
+  recordChange(tierSet, 'updated', req);
+  const updatedTierSet = await tierSet.save();
+
+  res.json(updatedTierSet);
+});
+
+// @desc    Ativar um conjunto de faixas para a equipe (o conjunto ativo anterior é desativado)
+// @route   POST /api/manager-tier-sets/:id/activate
+// @access  Private/Admin/Manager
+const activateManagerTierSet = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const tierSet = await findTierSet(req, res);
+
+  // Os limites podem ter mudado desde que as faixas foram salvas
+  await checkTiers(tierSet.tiers, res);
+
+  if (!tierSet.isActive) {
+    const activeSets = await ManagerTierSet.find({ manager: tierSet.manager, isActive: true });
+    for (const activeSet of activeSets) {
+      activeSet.isActive = false;
+      recordChange(activeSet, 'deactivated', req);
+      await activeSet.save();
+    }
+
+    tierSet.isActive = true;
+    tierSet.activatedAt = new Date();
+    recordChange(tierSet, 'activated', req);
+    await tierSet.save();
+  }
+
+  res.json(tierSet);
+});
+
+// @desc    Desativar um conjunto de faixas (a equipe volta às faixas globais)
+// @route   DELETE /api/manager-tier-sets/:id
+// @access  Private/Admin/Manager
+const deactivateManagerTierSet = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const tierSet = await findTierSet(req, res);
+
+  if (tierSet.isActive) {
+    tierSet.isActive = false;
+    recordChange(tierSet, 'deactivated', req);
+    await tierSet.save();
+  }
+
+  res.json({ message: 'Conjunto de faixas desativado com sucesso' });
+});
+
+export {
+  getManagerTierSets,
+  createManagerTierSet,
+  updateManagerTierSet,
+  activateManagerTierSet,
+  deactivateManagerTierSet
+};
@@ -0,0 +1,141 @@
+import { Request, Response, NextFunction } from 'express';
+import asyncHandler from '../utils/asyncHandler';
+import mongoose from 'mongoose';
+import ProductCommissionRule from '../models/ProductCommissionRule';
+
+// Converte o campo recebido (lista ou texto separado por vírgula) em lista de identificadores
+const toIdList = (value: unknown): string[] | undefined => {
+  if (value === undefined) return undefined;
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  return list.map(item => String(item).trim()).filter(Boolean);
+};
+
+/**
+ * Valida os campos de tipo e percentual de uma regra
+ */
+const validateRuleValues = (type: string, commissionPercentage: unknown, res: Response) => {
+  if (!['percentage', 'excluded'].includes(type)) {
+    res.status(400);
+    throw new Error('Tipo de regra inválido. Use "percentage" ou "excluded"');
+  }
+  if (type === 'percentage') {
+    const percentage = Number(commissionPercentage);
+    if (commissionPercentage === undefined || commissionPercentage === null || isNaN(percentage) || percentage < 0 || percentage > 100) {
+      res.status(400);
+      throw new Error('commissionPercentage deve estar entre 0 e 100');
+    }
+  }
+};
+
+// @desc    Listar regras de comissão por produto/coleção
+// @route   GET /api/commissions/product-rules
+// @access  Private/Admin
+const getProductCommissionRules = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { scope, appliesTo, isActive } = req.query;
+
+  let query: any = {};
+  if (scope) query.scope = scope;
+  if (appliesTo) query.appliesTo = { $in: [appliesTo, 'both'] };
+  if (isActive) query.isActive = isActive === 'true';
+
+  const rules = await ProductCommissionRule.find(query).sort({ scope: -1, priority: -1, name: 1 });
+
+  res.json(rules);
+});
+
+// @desc    Criar uma regra de comissão por produto/coleção
+// @route   POST /api/commissions/product-rules
+// @access  Private/Admin
+const createProductCommissionRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { name, scope, productIds, skus, type, commissionPercentage, appliesTo, priority } = req.body;
+
+  if (!name || !type) {
+    res.status(400);
+    throw new Error('Por favor, forneça o nome e o tipo da regra');
+  }
+  validateRuleValues(type, commissionPercentage, res);
+
+  const productIdList = toIdList(productIds) || [];
+  const skuList = toIdList(skus) || [];
+  if (productIdList.length === 0 && skuList.length === 0) {
+    res.status(400);
+    throw new Error('Informe ao menos um productId ou SKU');
+  }
+
+  const rule = await ProductCommissionRule.create({
+    name,
+    scope,
+    productIds: productIdList,
+    skus: skuList,
+    type,
+    commissionPercentage: type === 'percentage' ? commissionPercentage : undefined,
+    appliesTo,
+    priority,
+    isActive: true
+  });
+
+  res.status(201).json(rule);
+});
+
+// @desc    Atualizar uma regra de comissão por produto/coleção
+// @route   PUT /api/commissions/product-rules/:id
+// @access  Private/Admin
+const updateProductCommissionRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de regra inválido');
+  }
+
+  const rule = await ProductCommissionRule.findById(req.params.id);
+  if (!rule) {
+    res.status(404);
+    throw new Error('Regra de comissão não encontrada');
+  }
+
+  const { name, scope, productIds, skus, type, commissionPercentage, appliesTo, priority, isActive } = req.body;
+
+  if (name) rule.name = name;
+  if (scope) rule.scope = scope;
+  if (productIds !== undefined) rule.productIds = toIdList(productIds)!;
+  if (skus !== undefined) rule.skus = toIdList(skus)!;
+  if (type) rule.type = type;
+  if (commissionPercentage !== undefined) rule.commissionPercentage = commissionPercentage;
+  if (appliesTo) rule.appliesTo = appliesTo;
+  if (priority !== undefined) rule.priority = priority;
+  if (isActive !== undefined) rule.isActive = isActive;
+
+  validateRuleValues(rule.type, rule.commissionPercentage, res);
+  if (rule.type === 'excluded') rule.commissionPercentage = undefined;
+
+  const updatedRule = await rule.save();
+
+  res.json(updatedRule);
+});
+
+// @desc    Excluir uma regra de comissão por produto/coleção (desativar)
+// @route   DELETE /api/commissions/product-rules/:id
+// @access  Private/Admin
+const deleteProductCommissionRule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de regra inválido');
+  }
+
+  const rule = await ProductCommissionRule.findById(req.params.id);
+  if (!rule) {
+    res.status(404);
+    throw new Error('Regra de comissão não encontrada');
+  }
+
+  rule.isActive = false;
+  await rule.save();
+
+  res.json({ message: 'Regra de comissão desativada com sucesso' });
+});
+
+export {
+  getProductCommissionRules,
+  createProductCommissionRule,
+  updateProductCommissionRule,
+  deleteProductCommissionRule
+};
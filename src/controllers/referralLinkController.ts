@@ -0,0 +1,227 @@
+import { Request, Response } from 'express';
+import asyncHandler from '../utils/asyncHandler';
+import { isValidObjectId, Types } from 'mongoose';
+import { AuthRequest } from '../middlewares/authMiddleware';
+import ReferralLink, { IReferralLink } from '../models/ReferralLink';
+import ReferralClick from '../models/ReferralClick';
+import User, { UserRole } from '../models/User';
+import { normalizeCode } from '../models/Coupon';
+import {
+  generateReferralCode,
+  isValidDestinationUrl,
+  isReferralCodeAvailable,
+  buildReferralRedirectUrl,
+  getReferralLinkUrl,
+  recordReferralClick
+} from '../services/referralLinkService';
+
+/**
+ * Gerentes só podem gerenciar links dos seus próprios influenciadores
+ */
+const canManageOwner = async (req: AuthRequest, ownerId: Types.ObjectId | string) => {
+  if (req.user?.role === UserRole.ADMIN) return true;
+  const owner = await User.findOne({ _id: ownerId, manager: req.user?._id });
+  return !!owner;
+};
+
+/**
+ * Link com a URL pública do redirecionamento
+ */
+const withPublicUrl = (link: IReferralLink) => ({ ...link.toObject(), url: getReferralLinkUrl(link.code) });
+
+// @desc    Redirecionar o link do influenciador para a loja, registrando o clique
+// @route   GET /r/:code
+// @access  Public
+const redirectReferralLink = asyncHandler(async (req: Request, res: Response) => {
+  const link = await ReferralLink.findOne({ normalizedCode: normalizeCode(String(req.params.code)), isActive: true });
+  if (!link) {
+    res.status(404);
+    throw new Error('Link não encontrado');
+  }
+
+  // Links criados antes da restrição (ou de um domínio removido da configuração) não redirecionam
+  if (!isValidDestinationUrl(link.destinationUrl)) {
+    console.warn(`[referralLink] Destino do link ${link.code} fora dos domínios da loja: ${link.destinationUrl}`);
+    res.status(404);
+    throw new Error('Link não encontrado');
+  }
+
+  // Falha ao registrar o clique não impede o redirecionamento
+  try {
+    await recordReferralClick(link, req.get('referer'), req.get('user-agent'));
+  } catch (error) {
+    console.error(`[referralLink] Erro ao registrar clique no link ${link.code}:`, error);
+  }
+
+  res.redirect(302, buildReferralRedirectUrl(link));
+});
+
+// @desc    Listar os links do influenciador autenticado
+// @route   GET /api/referral-links/mine
+// @access  Private/Influencer
+const getMyReferralLinks = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const links = await ReferralLink.find({ owner: req.user?._id }).sort({ createdAt: -1 });
+  res.json(links.map(withPublicUrl));
+});
+
+// @desc    Listar links (filtros: owner, campaign, active)
+// @route   GET /api/referral-links
+// @access  Private/Admin/Manager
+const getReferralLinks = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { owner, campaign, active } = req.query;
+
+  let query: any = {};
+  if (owner) query.owner = owner;
+  if (campaign) query.campaign = campaign;
+  if (active !== undefined) query.isActive = active === 'true';
+
+  // Gerentes veem apenas os links dos seus influenciadores
+  if (req.user?.role === UserRole.MANAGER) {
+    const influencers = await User.find({ manager: req.user._id }).select('_id');
+    const influencerIds = influencers.map(influencer => influencer._id);
+    query.owner = owner
+      ? { $in: influencerIds.filter(id => (id as Types.ObjectId).toString() === owner) }
+      : { $in: influencerIds };
+  }
+
+  const links = await ReferralLink.find(query)
+    .populate('owner', 'name email')
+    .sort({ createdAt: -1 });
+
+  res.json(links.map(withPublicUrl));
+});
+
+// @desc    Criar um link de indicação para um influenciador (código gerado se não informado)
+// @route   POST /api/referral-links
+// @access  Private/Admin/Manager
+const createReferralLink = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { ownerId, destinationUrl, campaign } = req.body;
+  const code = typeof req.body.code === 'string' && req.body.code.trim() ? req.body.code.trim() : generateReferralCode();
+
+  if (!ownerId || !isValidObjectId(ownerId)) {
+    res.status(400);
+    throw new Error('Por favor, informe o influenciador do link');
+  }
+
+  if (!isValidDestinationUrl(destinationUrl)) {
+    res.status(400);
+    throw new Error('Informe a URL de destino (http ou https) em um domínio da loja (REFERRAL_ALLOWED_DOMAINS)');
+  }
+
+  if (!/^[A-Za-z0-9_-]+$/.test(code)) {
+    res.status(400);
+    throw new Error('O código do link deve ter apenas letras, números, "-" e "_"');
+  }
+
+  const owner = await User.findOne({ _id: ownerId, role: UserRole.INFLUENCER });
+  if (!owner) {
+    res.status(404);
+    throw new Error('Influenciador não encontrado');
+  }
+
+  if (!(await canManageOwner(req, ownerId))) {
+    res.status(403);
+    throw new Error('Não autorizado a criar links para este influenciador');
+  }
+
+  if (!(await isReferralCodeAvailable(code))) {
+    res.status(400);
+    throw new Error('Este código de link já está em uso');
+  }
+
+  const link = await ReferralLink.create({
+    code,
+    owner: ownerId,
+    destinationUrl,
+    campaign,
+    createdBy: req.user?._id
+  });
+
+  res.status(201).json(withPublicUrl(link));
+});
+
+// @desc    Atualizar destino, campanha ou status de um link
+// @route   PUT /api/referral-links/:id
+// @access  Private/Admin/Manager
+const updateReferralLink = asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!isValidObjectId(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de link inválido');
+  }
+
+  const link = await ReferralLink.findById(req.params.id);
+  if (!link) {
+    res.status(404);
+    throw new Error('Link não encontrado');
+  }
+
+  if (!(await canManageOwner(req, link.owner as Types.ObjectId))) {
+    res.status(403);
+    throw new Error('Não autorizado a alterar este link');
+  }
+
+  const { destinationUrl, campaign, isActive } = req.body;
+
+  if (destinationUrl !== undefined && !isValidDestinationUrl(destinationUrl)) {
+    res.status(400);
+    throw new Error('Informe a URL de destino (http ou https) em um domínio da loja (REFERRAL_ALLOWED_DOMAINS)');
+  }
+
+  if (destinationUrl !== undefined) link.destinationUrl = destinationUrl;
+  if (campaign !== undefined) link.campaign = campaign || undefined;
+  if (isActive !== undefined) link.isActive = isActive;
+
+  const updatedLink = await link.save();
+  res.json(withPublicUrl(updatedLink));
+});
+
+// @desc    Listar os cliques de um link (mais recentes primeiro)
+// @route   GET /api/referral-links/:id/clicks
+// @access  Private/Admin/Manager
+const getReferralLinkClicks = asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!isValidObjectId(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de link inválido');
+  }
+
+  const link = await ReferralLink.findById(req.params.id);
+  if (!link) {
+    res.status(404);
+    throw new Error('Link não encontrado');
+  }
+
+  if (!(await canManageOwner(req, link.owner as Types.ObjectId))) {
+    res.status(403);
+    throw new Error('Não autorizado a ver os cliques deste link');
+  }
+
+  const { page = 1, limit = 50 } = req.query;
+
+  // Cálculo de paginação
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+  const skip = (pageNum - 1) * limitNum;
+
+  const clicks = await ReferralClick.find({ link: link._id })
+    .sort({ clickedAt: -1 })
+    .skip(skip)
+    .limit(limitNum);
+
+  const total = await ReferralClick.countDocuments({ link: link._id });
+
+  res.json({
+    clicks,
+    page: pageNum,
+    pages: Math.ceil(total / limitNum),
+    total
+  });
+});
+
+export {
+  redirectReferralLink,
+  getMyReferralLinks,
+  getReferralLinks,
+  createReferralLink,
+  updateReferralLink,
+  getReferralLinkClicks
+};
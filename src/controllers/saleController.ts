@@ -0,0 +1,237 @@
+import { Response } from 'express';
+import asyncHandler from '../utils/asyncHandler';
+import { isValidObjectId, Types } from 'mongoose';
+import { AuthRequest } from '../middlewares/authMiddleware';
+import Sale from '../models/Sale';
+import User, { UserRole } from '../models/User';
+import { suggestInfluencersForCoupons, assignSaleToInfluencer } from '../services/attributionService';
+import { getPlatformAdapter, SalePlatform, UnknownStoreError } from '../services/platformAdapters';
+import { importOrdersCsv, resolveColumnMapping } from '../services/orderImportService';
+import { reconcileOrders } from '../services/reconciliationService';
+
+// Escapa caracteres especiais para usar o termo de busca em uma regex
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Busca uma venda não atribuída pelo id da rota, respondendo 400/404 quando necessário
+ */
+const findUnattributedSale = async (req: AuthRequest, res: Response) => {
+  if (!isValidObjectId(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de venda inválido');
+  }
+
+  const sale = await Sale.findById(req.params.id);
+  if (!sale) {
+    res.status(404);
+    throw new Error('Venda não encontrada');
+  }
+
+  if (sale.attributionStatus !== 'unattributed') {
+    res.status(400);
+    throw new Error('Venda já atribuída a um influenciador');
+  }
+
+  return sale;
+};
+
+// @desc    Listar vendas não atribuídas (cupom sem influenciador)
+// @route   GET /api/sales/unattributed
+// @access  Private/Admin/Manager
+const getUnattributedSales = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { search, startDate, endDate, page = 1, limit = 20 } = req.query;
+
+  let query: any = { attributionStatus: 'unattributed' };
+  // Busca por pedido, cupom ou afiliado (sem diferenciar maiúsculas)
+  if (search) {
+    const pattern = new RegExp(escapeRegex(search as string), 'i');
+    query.$or = [{ orderId: pattern }, { couponCodeUsed: pattern }, { rawCouponCodes: pattern }, { affiliateId: pattern }];
+  }
+  if (startDate || endDate) {
+    query.transactionDate = {};
+    if (startDate) query.transactionDate.$gte = new Date(startDate as string);
+    if (endDate) query.transactionDate.$lte = new Date(endDate as string);
+  }
+
+  // Cálculo de paginação
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+  const skip = (pageNum - 1) * limitNum;
+
+  const sales = await Sale.find(query)
+    .sort({ transactionDate: -1 })
+    .skip(skip)
+    .limit(limitNum);
+
+  const total = await Sale.countDocuments(query);
+
+  res.json({
+    sales,
+    page: pageNum,
+    pages: Math.ceil(total / limitNum),
+    total
+  });
+});
+
+// @desc    Sugerir influenciadores para uma venda não atribuída (cupons parecidos)
+// @route   GET /api/sales/unattributed/:id/suggestions
+// @access  Private/Admin/Manager
+const getUnattributedSaleSuggestions = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const sale = await findUnattributedSale(req, res);
+
+  const couponCodes = sale.rawCouponCodes?.length ? sale.rawCouponCodes : [sale.couponCodeUsed || ''];
+  // Gerentes só recebem sugestões dos seus próprios influenciadores
+  const managerId = req.user?.role === UserRole.MANAGER ? req.user._id as Types.ObjectId : undefined;
+
+  const suggestions = await suggestInfluencersForCoupons(couponCodes, managerId);
+
+  res.json({
+    saleId: sale._id,
+    couponCodes,
+    suggestions
+  });
+});
+
+// @desc    Atribuir uma venda não atribuída a um influenciador
+// @route   POST /api/sales/unattributed/:id/assign
+// @access  Private/Admin/Manager
+const assignUnattributedSale = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { influencerId } = req.body;
+
+  if (!influencerId || !isValidObjectId(influencerId)) {
+    res.status(400);
+    throw new Error('Por favor, informe um influenciador válido');
+  }
+
+  const sale = await findUnattributedSale(req, res);
+
+  const influencer = await User.findOne({ _id: influencerId, role: UserRole.INFLUENCER });
+  if (!influencer) {
+    res.status(404);
+    throw new Error('Influenciador não encontrado');
+  }
+
+  // Gerente só pode atribuir vendas aos seus próprios influenciadores
+  if (req.user?.role === UserRole.MANAGER && influencer.manager?.toString() !== (req.user._id as Types.ObjectId).toString()) {
+    res.status(403);
+    throw new Error('Não autorizado a atribuir vendas a este influenciador');
+  }
+
+  const assignment = await assignSaleToInfluencer(sale, influencer, req.user!._id as Types.ObjectId);
+  // Outra atribuição (ou o reprocessamento do webhook) atribuiu a venda nesse meio-tempo
+  if (!assignment) {
+    res.status(409);
+    throw new Error('Venda já atribuída a um influenciador');
+  }
+
+  res.json({
+    message: 'Venda atribuída; comissão e notificação serão processadas pela fila',
+    sale: assignment.sale,
+    jobId: assignment.job._id
+  });
+});
+
+// @desc    Importar pedidos históricos de um CSV exportado da plataforma (simulação por padrão)
+// @route   POST /api/sales/import?platform=shopify&store=loja.myshopify.com&preset=shopify&dryRun=false
+// @access  Private/Admin
+const importSales = asyncHandler(async (req: AuthRequest, res: Response) => {
+  // Aceita o CSV como corpo text/csv (opções na query) ou no campo "csv" de um JSON (opções no corpo)
+  const isText = typeof req.body === 'string';
+  const csv = isText ? req.body : req.body?.csv;
+  const params = isText ? req.query : { ...req.query, ...req.body };
+  if (!csv || typeof csv !== 'string') {
+    res.status(400);
+    throw new Error('Envie o conteúdo do CSV (Content-Type text/csv ou campo "csv")');
+  }
+
+  const platform = typeof params.platform === 'string' ? params.platform.trim().toLowerCase() : '';
+  try {
+    getPlatformAdapter(platform as SalePlatform);
+  } catch (error) {
+    res.status(400);
+    throw new Error(`Plataforma inválida: ${platform || '(vazia)'}`);
+  }
+
+  // Mapeamento de colunas: objeto no JSON ou texto JSON na query (ex.: {"coupon":"Cupom"})
+  let mapping = params.mapping;
+  if (typeof mapping === 'string') {
+    try {
+      mapping = JSON.parse(mapping);
+    } catch (error) {
+      res.status(400);
+      throw new Error('Mapeamento de colunas inválido: envie um JSON com campo -> coluna do CSV');
+    }
+  }
+
+  const options = {
+    platform: platform as SalePlatform,
+    store: typeof params.store === 'string' ? params.store : undefined,
+    preset: typeof params.preset === 'string' ? params.preset : undefined,
+    mapping: mapping && typeof mapping === 'object' ? mapping : undefined,
+    // Só grava com dryRun=false explícito
+    dryRun: !(params.dryRun === false || params.dryRun === 'false')
+  };
+  try {
+    resolveColumnMapping(options);
+  } catch (error: any) {
+    res.status(400);
+    throw error;
+  }
+
+  const result = await importOrdersCsv(csv, options);
+  res.json(result);
+});
+
+// @desc    Comparar as vendas com os pedidos da loja no período (API da plataforma) e, opcionalmente, ingerir as ausentes
+// @route   POST /api/sales/reconcile
+// @access  Private/Admin
+const reconcileSales = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { platform, store, startDate, endDate, autoFix } = req.body;
+
+  let canListOrders = false;
+  try {
+    canListOrders = !!getPlatformAdapter(platform as SalePlatform).listOrders;
+  } catch (error) {
+    // Plataforma desconhecida
+  }
+  if (!canListOrders) {
+    res.status(400);
+    throw new Error(`Reconciliação disponível apenas para shopify e cartpanda (recebido: ${platform || '(vazio)'})`);
+  }
+  if (!store || typeof store !== 'string') {
+    res.status(400);
+    throw new Error('Informe a loja (domínio da Shopify ou slug da CartPanda)');
+  }
+
+  const start = new Date(startDate);
+  const end = endDate ? new Date(endDate) : new Date();
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+    res.status(400);
+    throw new Error('Período inválido: informe startDate e endDate (opcional) em formato de data');
+  }
+
+  try {
+    const report = await reconcileOrders({
+      platform: platform as SalePlatform,
+      store: store.trim(),
+      startDate: start,
+      endDate: end,
+      autoFix: autoFix === true || autoFix === 'true'
+    });
+    res.json(report);
+  } catch (error) {
+    // Só lojas configuradas com token próprio são consultadas
+    if (error instanceof UnknownStoreError) {
+      res.status(400);
+    }
+    throw error;
+  }
+});
+
+export {
+  getUnattributedSales,
+  getUnattributedSaleSuggestions,
+  assignUnattributedSale,
+  importSales,
+  reconcileSales
+};
@@ -3,6 +3,8 @@ import User, { IUser, UserRole } from '../models/User';
 import asyncHandler from '../utils/asyncHandler';
 import { AuthRequest } from '../middlewares/authMiddleware';
 import mongoose, { Types } from 'mongoose';
+import { isCouponCodeAvailable, setPrimaryCoupon, releaseUserCoupons } from '../services/couponService';
+import { parseAffiliateIds, findAffiliateConflict } from '../services/affiliateService';
 
 // @desc    Get all users with filtering, pagination, and search
 // @route   GET /api/users
@@ -127,8 +129,8 @@ const createUser = asyncHandler(async (req: AuthRequest, res: Response) => {
         throw new Error('Influencer must have a managerId');
     }
     if (couponCode) {
-        const couponExists = await User.findOne({ couponCode });
-        if (couponExists) {
+        const couponAvailable = await isCouponCodeAvailable(couponCode);
+        if (!couponAvailable) {
             res.status(400);
             throw new Error('Coupon code already in use');
         }
@@ -141,11 +143,15 @@ const createUser = asyncHandler(async (req: AuthRequest, res: Response) => {
     password, // Password will be hashed by the pre-save hook in the User model
     role,
     manager: role === UserRole.INFLUENCER ? managerId : undefined,
-    couponCode: role === UserRole.INFLUENCER ? couponCode : undefined,
     whatsappNumber,
     isActive: isActive !== undefined ? isActive : true, // Default to active if not provided
   });
 
+  // Coupon is stored in the coupons collection and mirrored in couponCode
+  if (role === UserRole.INFLUENCER && couponCode) {
+    await setPrimaryCoupon(user, couponCode);
+  }
+
   const createdUser = await user.save();
 
   // If an influencer was created, add them to their manager's list
@@ -209,7 +215,7 @@ const updateUser = asyncHandler(async (req: AuthRequest, res: Response) => {
         // Clear manager/influencer specific fields if role changes away from influencer/manager
         if (newRole !== UserRole.INFLUENCER) {
             user.manager = undefined;
-            user.couponCode = undefined;
+            await setPrimaryCoupon(user, null);
         }
         if (newRole !== UserRole.MANAGER) {
             // Cast to IUser to ensure influencers property access is safe
@@ -219,8 +225,29 @@ const updateUser = asyncHandler(async (req: AuthRequest, res: Response) => {
 
     // Manager change logic (only if role is/becomes influencer)
     if (user.role === UserRole.INFLUENCER) {
-        if (req.body.couponCode !== undefined) {
-          user.couponCode = req.body.couponCode;
+        if (req.body.couponCode !== undefined && req.body.couponCode !== user.couponCode) {
+          const couponAvailable = !req.body.couponCode || await isCouponCodeAvailable(req.body.couponCode, user._id as Types.ObjectId);
+          if (!couponAvailable) {
+            res.status(400);
+            throw new Error('Coupon code already in use');
+          }
+          await setPrimaryCoupon(user, req.body.couponCode);
+        }
+        // Affiliate ids on Hotmart, Kiwify and Eduzz attribute infoproduct sales
+        if (req.body.affiliateIds !== undefined) {
+          let affiliateIds;
+          try {
+            affiliateIds = parseAffiliateIds(req.body.affiliateIds);
+          } catch (error: any) {
+            res.status(400);
+            throw error;
+          }
+          const conflict = await findAffiliateConflict(affiliateIds, user._id as Types.ObjectId);
+          if (conflict) {
+            res.status(400);
+            throw new Error(`Affiliate id ${conflict.affiliateId} (${conflict.platform}) already in use`);
+          }
+          user.affiliateIds = affiliateIds;
         }
         if (newManagerId && newManagerId.toString() !== (oldManagerId as Types.ObjectId)?.toString()) {
             // Remove from old manager's list
@@ -254,6 +281,7 @@ const updateUser = asyncHandler(async (req: AuthRequest, res: Response) => {
     isActive: (updatedUser as any).isActive, // Cast if necessary
     whatsappNumber: updatedUser.whatsappNumber,
     couponCode: updatedUser.couponCode,
+    affiliateIds: updatedUser.affiliateIds,
     // manager: updatedUser.manager, // Avoid sending populated potentially large objects unless needed
     // influencers: updatedUser.influencers,
     createdAt: updatedUser.createdAt,
@@ -292,6 +320,7 @@ const deleteUser = asyncHandler(async (req: AuthRequest, res: Response) => {
   const influencerIds = user.influencers;
 
   await User.deleteOne({ _id: userIdToDelete });
+  await releaseUserCoupons(targetUserId);
 
   // Remove influencer from their manager's list if applicable
   if (userRole === UserRole.INFLUENCER && managerId) {
@@ -446,6 +475,9 @@ const updateUserSettings = asyncHandler(async (req: AuthRequest, res: Response)
     }
 });
 
+// Message templates a user can customize (newSale, pendingSale and saleConfirmed are sale notices)
+const MESSAGE_TEMPLATE_TYPES = ['welcome', 'report', 'reminder', 'newSale', 'pendingSale', 'saleConfirmed'];
+
 /**
  * @desc    Update a specific message template for the current logged-in user
  * @route   PUT /api/users/me/message-template
@@ -460,9 +492,9 @@ const updateMessageTemplate = asyncHandler(async (req: AuthRequest, res: Respons
     const { type, content } = req.body;
 
     // Validate input
-    if (!type || !['welcome', 'report', 'reminder'].includes(type)) {
+    if (!type || !MESSAGE_TEMPLATE_TYPES.includes(type)) {
         res.status(400);
-        throw new Error('Tipo de mensagem inválido ou ausente. Use: welcome, report, ou reminder.');
+        throw new Error(`Tipo de mensagem inválido ou ausente. Use: ${MESSAGE_TEMPLATE_TYPES.join(', ')}.`);
     }
     if (content === undefined || content === null) {
         res.status(400);
@@ -487,7 +519,7 @@ const updateMessageTemplate = asyncHandler(async (req: AuthRequest, res: Respons
     }
 
     // Update the specific template type
-    user.messageTemplates[type as 'welcome' | 'report' | 'reminder'] = content;
+    user.messageTemplates[type as keyof NonNullable<IUser['messageTemplates']>] = content;
     // Mark the path as modified for Mongoose
     user.markModified('messageTemplates'); 
 
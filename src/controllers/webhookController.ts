@@ -1,512 +1,496 @@
 import { Request, Response, NextFunction } from 'express';
 import asyncHandler from '../utils/asyncHandler';
-import User from '../models/User';
-import Sale from '../models/Sale';
-import CommissionTier from '../models/CommissionTier';
-import { sendNewSaleNotification } from '../services/whatsappService';
-
-// Função auxiliar para calcular comissão baseada no valor da venda e nas faixas de comissão
-const calculateCommission = async (saleValue: number, role: 'influencer' | 'manager') => {
-  // Buscar todas as faixas de comissão ativas para o tipo de usuário
-  const tiers = await CommissionTier.find({ 
-    appliesTo: role, 
-    isActive: true,
-    minSalesValue: { $lte: saleValue }
-  }).sort({ minSalesValue: -1 }); // Ordena do maior para o menor
-
-  // Se não há faixas, retorna comissão zero
-  if (tiers.length === 0) return 0;
-
-  // A primeira faixa (maior valor mínimo que ainda é <= ao valor da venda)
-  const applicableTier = tiers[0];
-
-  // Calcular comissão com base na porcentagem da faixa
-  return saleValue * (applicableTier.commissionPercentage / 100);
+import mongoose from 'mongoose';
+import WebhookRejection from '../models/WebhookRejection';
+import WebhookEvent from '../models/WebhookEvent';
+import IngestionJob from '../models/IngestionJob';
+import { WebhookRequest } from '../middlewares/webhookAuthMiddleware';
+import { getWebhookTopic, buildWebhookEventData } from '../middlewares/webhookEventMiddleware';
+import { redactWebhookHeaders, redactWebhookPath, redactWebhookPayload, redactWebhookRawBody } from '../utils/webhookRedaction';
+import { InvalidPayloadError, IgnoredEventError, SalePlatform, getPlatformAdapter } from '../services/platformAdapters';
+import { MissingExchangeRateError } from '../services/exchangeRateService';
+import { simulateWebhookPayload } from '../services/webhookSimulationService';
+import { retryDeadJob } from '../services/jobQueueService';
+import {
+  validateWebhookPayload,
+  queueWebhookEvent,
+  processWebhookEvent,
+  isReplayableEvent,
+  replayWebhookEvents,
+  WebhookProcessingOutcome
+} from '../services/webhookEventService';
+
+/**
+ * Monta o corpo da resposta ao webhook a partir do resultado do processamento
+ */
+const buildWebhookResponse = (outcome: WebhookProcessingOutcome) => {
+  // Evento sem venda nem estorno (ex.: pedido ainda não pago)
+  if (outcome.kind === 'ignored') {
+    return { statusCode: 200, body: { message: outcome.reason, processed: false } };
+  }
+
+  // Reembolso, cancelamento ou chargeback
+  if (outcome.kind === 'refund') {
+    const { refund, result } = outcome;
+    return {
+      statusCode: 200,
+      body: {
+        message: result.message,
+        processed: result.status === 'applied',
+        saleId: result.sale?._id,
+        orderId: refund.externalOrderId,
+        refundStatus: result.sale?.refundStatus,
+        refundedAmount: result.refundedAmount,
+        influencerCommissionReversed: result.influencerCommissionReversed,
+        managerCommissionReversed: result.managerCommissionReversed,
+        adjustmentIds: result.adjustments.map(adjustment => adjustment._id)
+      }
+    };
+  }
+
+  const { order, result } = outcome;
+  switch (result.status) {
+    case 'duplicate':
+      return { statusCode: 200, body: { message: result.message, saleId: result.sale?._id } };
+    case 'status_updated':
+      return {
+        statusCode: 200,
+        body: {
+          message: result.message,
+          saleId: result.sale?._id,
+          previousStatus: result.previousStatus,
+          saleStatus: result.sale?.status
+        }
+      };
+    case 'no_coupon':
+      return { statusCode: 200, body: { message: result.message, processed: false } };
+    case 'unknown_coupon':
+    case 'unknown_affiliate':
+      // Venda salva sem influenciador, aguardando atribuição manual
+      return {
+        statusCode: 200,
+        body: {
+          message: result.message,
+          processed: false,
+          saleId: result.sale?._id,
+          attributionStatus: result.sale?.attributionStatus,
+          couponCode: result.couponCode,
+          affiliateId: result.affiliateId
+        }
+      };
+    case 'created':
+      return {
+        statusCode: 201,
+        body: {
+          message: result.message,
+          saleId: result.sale?._id,
+          orderId: order.externalOrderId,
+          influencerId: result.influencer?._id,
+          influencerName: result.influencer?.name,
+          attributionSource: result.sale?.attributionSource,
+          referralCode: result.sale?.referralCode,
+          saleStatus: result.sale?.status,
+          managerId: result.manager ? result.manager._id : null,
+          managerName: result.manager ? result.manager.name : null,
+          orderValue: order.grossValue,
+          influencerCommission: result.influencerCommission,
+          managerCommission: result.managerCommission
+        }
+      };
+  }
 };
 
-// @desc    Processar webhook de venda da Shopify
-// @route   POST /api/webhooks/shopify
-// @access  Public (mas deve ser verificado por token)
-const processShopifyWebhook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    console.log('Recebido webhook da Shopify', JSON.stringify(req.body).substring(0, 200) + '...');
-    
-    // Verificar se o webhook está no formato esperado (com objeto order)
-    if (!req.body.order) {
-      console.log('Formato incorreto do webhook: objeto order não encontrado');
-      res.status(400);
-      throw new Error('Formato incorreto do webhook da Shopify. Objeto order não encontrado.');
-    }
-    
-    // Dados recebidos da Shopify dentro do objeto order
-    const { 
-      id: shopifyOrderId, 
-      total_price: totalPrice,
-      current_total_price: currentTotalPrice, // Alternativa para o valor total
-      discount_codes,
-      customer,
-      line_items,
-      created_at: orderCreatedAt,
-      order_number: orderNumber,
-      name: orderName
-    } = req.body.order;
-
-    // Log para debug
-    console.log(`Processando webhook da Shopify para pedido #${shopifyOrderId || orderNumber || orderName}`);
-
-    // Validação básica - usar shopifyOrderId ou alternativas
-    const finalOrderId = shopifyOrderId || orderNumber || orderName;
-    const finalTotalPrice = totalPrice || currentTotalPrice;
-    
-    if (!finalOrderId || !finalTotalPrice) {
-      console.log('Dados incompletos:', { finalOrderId, finalTotalPrice });
-      res.status(400);
-      throw new Error('Dados da venda incompletos. Necessário ID do pedido e valor total.');
-    }
-    
-    // 1. Verificar se a venda já foi registrada (evitar duplicação)
-    const existingSale = await Sale.findOne({ orderId: finalOrderId.toString() });
-    if (existingSale) {
-      return res.status(200).json({ 
-        message: 'Venda já processada anteriormente', 
-        saleId: existingSale._id 
-      });
-    }
-    
-    // 2. Verificar se o pedido tem código de cupom
-    if (!discount_codes || discount_codes.length === 0) {
-      // Sem cupom, retornar sem erro mas não registrar como venda de influenciador
-      return res.status(200).json({ 
-        message: 'Pedido sem código de cupom de influenciador',
-        processed: false
-      });
-    }
-    
-    // Obter o primeiro código de cupom (caso tenha múltiplos)
-    const couponCode = discount_codes[0].code;
-    
-    // 3. Localizar o influenciador pelo código do cupom
-    const influencer = await User.findOne({ couponCode });
-    if (!influencer) {
-      // Cupom não corresponde a nenhum influenciador
-      return res.status(200).json({ 
-        message: `Nenhum influenciador encontrado com o cupom ${couponCode}`,
-        processed: false
-      });
-    }
-    
-    // 4. Obter o gerente do influenciador
-    const manager = influencer.manager 
-      ? await User.findById(influencer.manager) 
-      : null;
-    
-    // 5. Calcular comissões
-    const orderValue = parseFloat(finalTotalPrice);
-    const influencerCommission = await calculateCommission(orderValue, 'influencer');
-    const managerCommission = manager ? await calculateCommission(orderValue, 'manager') : 0;
-    
-    // 6. Registrar a venda
-    const newSale = await Sale.create({
-      influencer: influencer._id,
-      manager: manager ? manager._id : undefined,
-      orderId: finalOrderId.toString(),
-      saleValue: orderValue,
-      commissionCalculated: true, // Já calculamos a comissão no webhook
-      influencerCommissionEarned: influencerCommission,
-      managerCommissionEarned: managerCommission,
-      couponCodeUsed: couponCode,
-      transactionDate: new Date(orderCreatedAt || Date.now()),
-      processedViaWebhook: true
+/**
+ * Cria o handler de webhook de uma plataforma. O payload é validado pelo adapter da plataforma,
+ * o evento gravado por captureWebhookEvent é enfileirado e a resposta é imediata (202).
+ * Atribuição, comissão e notificação são executadas pelo worker da fila (jobs/ingestionWorker).
+ */
+const createPlatformWebhookHandler = (platform: SalePlatform) =>
+  asyncHandler(async (req: WebhookRequest, res: Response, next: NextFunction) => {
+    console.log(`Recebido webhook ${platform}`, JSON.stringify(req.body).substring(0, 200) + '...');
+
+    const topic = getWebhookTopic(req);
+
+    // Se a gravação do evento falhou na captura, tenta novamente antes de enfileirar
+    const event = req.webhookEvent || await WebhookEvent.create({
+      ...buildWebhookEventData(req, platform),
+      status: 'received',
+      authenticated: true
     });
 
-    // 7. Enviar notificação WhatsApp para o influenciador se ele tiver número cadastrado
-    if (influencer.whatsappNumber) {
-      try {
-        // Buscar o token, nome e templates do manager
-        let managerToken: string | undefined = undefined;
-        let newSaleTemplate: string | undefined = undefined;
-        let managerName: string = 'seu gestor';
-
-        if (influencer.manager) {
-            const manager = await User.findById(influencer.manager).select('tokenWhats messageTemplates name email');
-            if (manager && manager.tokenWhats) {
-                managerToken = manager.tokenWhats;
-                managerName = manager.name;
-                newSaleTemplate = manager.messageTemplates?.newSale; // Usar newSale (precisa adicionar ao model)
-                console.log(`[webhookShopify] Usando token do manager ${manager.email}`);
-            } else {
-                console.warn(`[webhookShopify] Manager ${influencer.manager} não encontrado ou sem token para notificação de venda.`);
-            }
-        } else {
-             console.warn(`[webhookShopify] Influencer ${influencer.email} sem manager associado para notificação de venda.`);
-        }
+    // O handler só é executado depois da verificação de assinatura/token: o evento pode ser reprocessado
+    if (!event.authenticated) {
+      event.authenticated = true;
+      await event.save();
+    }
 
-        // Só envia se tiver token do manager
-        if (managerToken) {
-            // Definir texto padrão
-            let notificationContent = `🎉 Nova venda! Olá ${influencer.name}, venda de R$ ${orderValue.toFixed(2)} registrada. Comissão estimada: R$ ${influencerCommission.toFixed(2)}. Gestor: ${managerName}`;
-            
-            // Usar template personalizado
-            if (newSaleTemplate) {
-                console.log(`[webhookShopify] Usando template newSale personalizado do manager.`);
-                notificationContent = newSaleTemplate;
-            } else {
-                 console.log(`[webhookShopify] Usando template newSale padrão.`);
-            }
-            
-            // Substituir variáveis
-            notificationContent = notificationContent
-                .replace(/{nome}/g, influencer.name)
-                .replace(/{valorVenda}/g, orderValue.toFixed(2))
-                .replace(/{comissaoEstimada}/g, influencerCommission.toFixed(2))
-                .replace(/{gestor}/g, managerName);
-
-             await sendNewSaleNotification(
-                influencer.whatsappNumber,
-                notificationContent, // Conteúdo processado
-                managerToken
-            );
-             console.log(`[webhookShopify] Notificação de venda enviada para ${influencer.name}`);
-        }
-      } catch (notificationError) {
-        console.error(`[webhookShopify] Erro ao enviar notificação de venda para ${influencer.name}:`, notificationError);
+    let validated;
+    try {
+      validated = validateWebhookPayload(platform, req.body, topic);
+    } catch (error: any) {
+      // Evento válido que não gera venda (ex.: pedido ainda não pago): responde 200 para a plataforma não reenviar
+      if (error instanceof IgnoredEventError) {
+        event.status = 'ignored';
+        event.outcome = 'ignored_event';
+        event.error = error.message;
+        await event.save();
+        res.json({ message: error.message, processed: false, eventId: event._id });
+        return;
       }
+      if (error instanceof InvalidPayloadError) {
+        console.log(`[webhook ${platform}] Payload inválido: ${error.message}`);
+        event.status = 'failed';
+        event.error = error.message;
+        await event.save();
+        res.status(400);
+      }
+      throw error;
     }
-    
-    // 8. Enviar resposta de sucesso
-    res.status(201).json({
-      message: 'Venda registrada com sucesso',
-      saleId: newSale._id,
-      orderId: finalOrderId,
-      influencerId: influencer._id,
-      influencerName: influencer.name,
-      managerId: manager ? manager._id : null,
-      managerName: manager ? manager.name : null,
-      orderValue,
-      influencerCommission,
-      managerCommission
+
+    const job = await queueWebhookEvent(event);
+
+    res.status(202).json({
+      message: 'Webhook recebido e enfileirado para processamento',
+      eventId: event._id,
+      jobId: job._id,
+      orderId: validated.kind === 'order'
+        ? validated.order.externalOrderId
+        : validated.kind === 'refund' ? validated.refund.externalOrderId : validated.externalOrderId
     });
-  } catch (error) {
-    console.error('Erro no processamento do webhook Shopify:', error);
-    next(error);
-  }
-});
+  });
+
+// @desc    Processar webhook de venda da Shopify
+// @route   POST /api/webhooks/shopify
+// @access  Public (assinatura HMAC verificada por middleware)
+const processShopifyWebhook = createPlatformWebhookHandler('shopify');
 
 // @desc    Processar webhook de venda da CartPanda
 // @route   POST /api/webhooks/cartpanda
-// @access  Public (mas deve ser verificado por token)
-const processCartPandaWebhook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+// @access  Public (assinatura verificada por middleware)
+const processCartPandaWebhook = createPlatformWebhookHandler('cartpanda');
+
+// @desc    Processar webhook de pedido do WooCommerce
+// @route   POST /api/webhooks/woocommerce
+// @access  Public (assinatura verificada por middleware)
+const processWooCommerceWebhook = createPlatformWebhookHandler('woocommerce');
+
+// @desc    Processar webhook de pedido da Nuvemshop (o pedido é buscado na API da loja)
+// @route   POST /api/webhooks/nuvemshop
+// @access  Public (assinatura verificada por middleware)
+const processNuvemshopWebhook = createPlatformWebhookHandler('nuvemshop');
+
+// @desc    Processar webhook de pedido da Yampi
+// @route   POST /api/webhooks/yampi
+// @access  Public (assinatura verificada por middleware)
+const processYampiWebhook = createPlatformWebhookHandler('yampi');
+
+// @desc    Processar postback de compra da Hotmart
+// @route   POST /api/webhooks/hotmart
+// @access  Public (hottok verificado por middleware)
+const processHotmartWebhook = createPlatformWebhookHandler('hotmart');
+
+// @desc    Processar webhook de pedido da Kiwify
+// @route   POST /api/webhooks/kiwify
+// @access  Public (assinatura verificada por middleware)
+const processKiwifyWebhook = createPlatformWebhookHandler('kiwify');
+
+// @desc    Processar postback de fatura da Eduzz
+// @route   POST /api/webhooks/eduzz
+// @access  Public (api_key verificada por middleware)
+const processEduzzWebhook = createPlatformWebhookHandler('eduzz');
+
+// @desc    Processar webhook genérico de venda
+// @route   POST /api/webhooks/sale
+// @access  Public (token verificado por middleware)
+const processSaleWebhook = createPlatformWebhookHandler('generic');
+
+// @desc    Listar entregas de webhook rejeitadas (assinatura inválida, replay, etc.)
+// @route   GET /api/webhooks/rejections
+// @access  Private/Admin
+const getWebhookRejections = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { platform, startDate, endDate, page = 1, limit = 20 } = req.query;
+
+  let query: any = {};
+
+  if (platform) query.platform = platform;
+  if (startDate || endDate) {
+    query.createdAt = {};
+    if (startDate) query.createdAt.$gte = new Date(startDate as string);
+    if (endDate) query.createdAt.$lte = new Date(endDate as string);
+  }
+
+  // Cálculo de paginação
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+  const skip = (pageNum - 1) * limitNum;
+
+  const rejections = await WebhookRejection.find(query)
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(limitNum);
+
+  const total = await WebhookRejection.countDocuments(query);
+
+  // Rejeições gravadas antes da remoção das credenciais também saem sem elas
+  res.json({
+    rejections: rejections.map(rejection => ({
+      ...rejection.toObject(),
+      path: redactWebhookPath(rejection.path),
+      headers: redactWebhookHeaders(rejection.headers)
+    })),
+    page: pageNum,
+    pages: Math.ceil(total / limitNum),
+    total
+  });
+});
+
+/**
+ * Monta o filtro de eventos a partir dos parâmetros de consulta/corpo
+ */
+const buildWebhookEventFilter = (params: Record<string, any>) => {
+  const { platform, status, outcome, orderId, startDate, endDate } = params;
+
+  let query: any = {};
+  if (platform) query.platform = platform;
+  if (status) query.status = status;
+  if (outcome) query.outcome = outcome;
+  if (orderId) query.orderId = orderId.toString();
+  if (startDate || endDate) {
+    query.createdAt = {};
+    if (startDate) query.createdAt.$gte = new Date(startDate as string);
+    if (endDate) query.createdAt.$lte = new Date(endDate as string);
+  }
+  return query;
+};
+
+// @desc    Listar eventos de webhook recebidos
+// @route   GET /api/webhooks/events
+// @access  Private/Admin
+const getWebhookEvents = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { page = 1, limit = 20 } = req.query;
+  const query = buildWebhookEventFilter(req.query);
+
+  // Cálculo de paginação
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+  const skip = (pageNum - 1) * limitNum;
+
+  // Corpo e payload ficam de fora da listagem (ver GET /events/:id)
+  const events = await WebhookEvent.find(query)
+    .select('-rawBody -payload -headers')
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(limitNum);
+
+  const total = await WebhookEvent.countDocuments(query);
+
+  res.json({
+    events,
+    page: pageNum,
+    pages: Math.ceil(total / limitNum),
+    total
+  });
+});
+
+// @desc    Obter um evento de webhook completo (headers e corpo, sem tokens e assinaturas)
+// @route   GET /api/webhooks/events/:id
+// @access  Private/Admin
+const getWebhookEventById = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de evento inválido');
+  }
+
+  const event = await WebhookEvent.findById(req.params.id);
+  if (!event) {
+    res.status(404);
+    throw new Error('Evento de webhook não encontrado');
+  }
+
+  // Eventos gravados antes da remoção das credenciais também saem sem elas
+  const headers = (event.headers || {}) as Record<string, unknown>;
+  res.json({
+    ...event.toObject(),
+    headers: redactWebhookHeaders(headers),
+    rawBody: redactWebhookRawBody(event.rawBody, String(headers['content-type'] || '')),
+    payload: redactWebhookPayload(event.payload)
+  });
+});
+
+// @desc    Reprocessar um evento de webhook com a lógica atual de ingestão (apenas eventos autenticados)
+// @route   POST /api/webhooks/events/:id/replay
+// @access  Private/Admin
+const replayWebhookEvent = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de evento inválido');
+  }
+
+  const event = await WebhookEvent.findById(req.params.id);
+  if (!event) {
+    res.status(404);
+    throw new Error('Evento de webhook não encontrado');
+  }
+
+  // Entregas que não passaram na autenticação nunca são processadas
+  if (!isReplayableEvent(event)) {
+    res.status(400);
+    throw new Error('Evento rejeitado ou não autenticado não pode ser reprocessado');
+  }
+
   try {
-    console.log('Recebido webhook da CartPanda', JSON.stringify(req.body).substring(0, 200) + '...');
-    
-    // Verificar se o webhook está no formato esperado (com objeto order e evento order.paid)
-    if (!req.body.order || req.body.event !== 'order.paid') {
-      console.log('Formato incorreto do webhook ou evento não é order.paid:', 
-        JSON.stringify({ event: req.body.event, hasOrder: !!req.body.order }).substring(0, 100));
-      res.status(400);
-      throw new Error('Formato incorreto do webhook da CartPanda. Evento não é order.paid ou objeto order não encontrado.');
-    }
-    
-    // Dados recebidos da CartPanda dentro do objeto order
-    const { 
-      id: cartPandaOrderId, 
-      order_number: orderNumber,
-      number: orderNumber2,
-      name: orderName,
-      total_price: totalPrice,
-      discount_codes,
-      processed_at: orderCreatedAt,
-      created_at: orderCreatedAt2,
-    } = req.body.order;
-
-    // Log para debug
-    console.log(`Processando webhook da CartPanda para pedido #${cartPandaOrderId || orderNumber || orderNumber2 || orderName}`);
-
-    // Validação básica - usar cartPandaOrderId ou alternativas
-    const finalOrderId = cartPandaOrderId || orderNumber || orderNumber2 || orderName;
-    
-    // Obter o valor total - CartPanda pode enviar o valor em diferentes formatos
-    let finalTotalPrice = totalPrice;
-    if (typeof finalTotalPrice === 'string') {
-      finalTotalPrice = parseFloat(finalTotalPrice.replace(/[^\d.-]/g, ''));
-    }
-    
-    if (!finalOrderId || finalTotalPrice === undefined || isNaN(finalTotalPrice)) {
-      console.log('Dados incompletos:', { finalOrderId, finalTotalPrice });
-      res.status(400);
-      throw new Error('Dados da venda incompletos. Necessário ID do pedido e valor total.');
-    }
-    
-    // 1. Verificar se a venda já foi registrada (evitar duplicação)
-    const existingSale = await Sale.findOne({ orderId: finalOrderId.toString() });
-    if (existingSale) {
-      return res.status(200).json({ 
-        message: 'Venda já processada anteriormente', 
-        saleId: existingSale._id 
-      });
-    }
-    
-    // 2. Extrair o código de cupom - CartPanda usa formato diferente
-    // No exemplo da payload, o discount_codes é uma string direta, não um array de objetos
-    let couponCode: string | null = null;
-    
-    if (discount_codes) {
-      if (typeof discount_codes === 'string') {
-        // Formato direto como string (ex: "lais15")
-        couponCode = discount_codes.trim();
-      } else if (Array.isArray(discount_codes) && discount_codes.length > 0) {
-        // Se for um array de objetos como na Shopify
-        if (typeof discount_codes[0] === 'object' && discount_codes[0].code) {
-          couponCode = discount_codes[0].code;
-        } else if (typeof discount_codes[0] === 'string') {
-          couponCode = discount_codes[0];
-        }
-      } else if (typeof discount_codes === 'object' && discount_codes.code) {
-        // Se for um objeto único com propriedade code
-        couponCode = discount_codes.code;
-      }
-    }
-    
-    console.log(`Cupom encontrado: ${couponCode}`);
-    
-    if (!couponCode) {
-      // Sem cupom, retornar sem erro mas não registrar como venda de influenciador
-      return res.status(200).json({ 
-        message: 'Pedido sem código de cupom de influenciador',
-        processed: false
-      });
-    }
-    
-    // 3. Localizar o influenciador pelo código do cupom
-    const influencer = await User.findOne({ couponCode });
-    if (!influencer) {
-      // Cupom não corresponde a nenhum influenciador
-      return res.status(200).json({ 
-        message: `Nenhum influenciador encontrado com o cupom ${couponCode}`,
-        processed: false
-      });
-    }
-    
-    // 4. Obter o gerente do influenciador
-    const manager = influencer.manager 
-      ? await User.findById(influencer.manager) 
-      : null;
-    
-    // 5. Calcular comissões
-    const orderValue = parseFloat(finalTotalPrice.toString());
-    const influencerCommission = await calculateCommission(orderValue, 'influencer');
-    const managerCommission = manager ? await calculateCommission(orderValue, 'manager') : 0;
-    
-    // 6. Registrar a venda
-    const newSale = await Sale.create({
-      influencer: influencer._id,
-      manager: manager ? manager._id : undefined,
-      orderId: finalOrderId.toString(),
-      saleValue: orderValue,
-      commissionCalculated: true, // Já calculamos a comissão no webhook
-      influencerCommissionEarned: influencerCommission,
-      managerCommissionEarned: managerCommission,
-      couponCodeUsed: couponCode,
-      transactionDate: new Date(orderCreatedAt || orderCreatedAt2 || Date.now()),
-      processedViaWebhook: true
+    const outcome = await processWebhookEvent(event);
+    res.json({
+      eventId: event._id,
+      status: event.status,
+      outcome: event.outcome,
+      result: buildWebhookResponse(outcome).body
+    });
+  } catch (error: any) {
+    res.status(error instanceof InvalidPayloadError ? 400 : 500).json({
+      eventId: event._id,
+      status: event.status,
+      message: error.message
     });
+  }
+});
 
-    // 7. Enviar notificação WhatsApp para o influenciador se ele tiver número cadastrado
-    if (influencer.whatsappNumber) {
-      try {
-        // Buscar o token, nome e templates do manager
-        let managerToken: string | undefined = undefined;
-        let newSaleTemplate: string | undefined = undefined;
-        let managerName: string = 'seu gestor';
-
-        if (influencer.manager) {
-            const manager = await User.findById(influencer.manager).select('tokenWhats messageTemplates name email');
-            if (manager && manager.tokenWhats) {
-                managerToken = manager.tokenWhats;
-                managerName = manager.name;
-                newSaleTemplate = manager.messageTemplates?.newSale;
-                console.log(`[webhookCartPanda] Usando token do manager ${manager.email}`);
-            } else {
-                console.warn(`[webhookCartPanda] Manager ${influencer.manager} não encontrado ou sem token para notificação de venda.`);
-            }
-        } else {
-             console.warn(`[webhookCartPanda] Influencer ${influencer.email} sem manager associado para notificação de venda.`);
-        }
+// @desc    Reprocessar os eventos de um período (filtros opcionais: platform, status, outcome);
+//          eventos rejeitados ou não autenticados ficam de fora
+// @route   POST /api/webhooks/events/replay
+// @access  Private/Admin
+const replayWebhookEventsInRange = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { startDate, endDate, limit = 500 } = req.body;
 
-        // Só envia se tiver token do manager
-        if (managerToken) {
-            // Definir texto padrão
-            let notificationContent = `🎉 Nova venda! Olá ${influencer.name}, venda de R$ ${orderValue.toFixed(2)} registrada. Comissão estimada: R$ ${influencerCommission.toFixed(2)}. Gestor: ${managerName}`;
-            
-            // Usar template personalizado
-            if (newSaleTemplate) {
-                console.log(`[webhookCartPanda] Usando template newSale personalizado do manager.`);
-                notificationContent = newSaleTemplate;
-            } else {
-                 console.log(`[webhookCartPanda] Usando template newSale padrão.`);
-            }
-            
-            // Substituir variáveis
-            notificationContent = notificationContent
-                .replace(/{nome}/g, influencer.name)
-                .replace(/{valorVenda}/g, orderValue.toFixed(2))
-                .replace(/{comissaoEstimada}/g, influencerCommission.toFixed(2))
-                .replace(/{gestor}/g, managerName);
-
-             await sendNewSaleNotification(
-                influencer.whatsappNumber,
-                notificationContent, // Conteúdo processado
-                managerToken
-            );
-             console.log(`[webhookCartPanda] Notificação de venda enviada para ${influencer.name}`);
-        }
-      } catch (notificationError) {
-        console.error(`[webhookCartPanda] Erro ao enviar notificação de venda para ${influencer.name}:`, notificationError);
-      }
-    }
-    
-    // 8. Enviar resposta de sucesso
-    res.status(201).json({
-      message: 'Venda registrada com sucesso',
-      saleId: newSale._id,
-      orderId: finalOrderId,
-      influencerId: influencer._id,
-      influencerName: influencer.name,
-      managerId: manager ? manager._id : null,
-      managerName: manager ? manager.name : null,
-      orderValue,
-      influencerCommission,
-      managerCommission
-    });
-  } catch (error) {
-    console.error('Erro no processamento do webhook CartPanda:', error);
-    next(error);
+  if (!startDate || !endDate) {
+    res.status(400);
+    throw new Error('Por favor, forneça datas de início e fim');
   }
+
+  if (isNaN(new Date(startDate).getTime()) || isNaN(new Date(endDate).getTime())) {
+    res.status(400);
+    throw new Error('Datas inválidas');
+  }
+
+  const result = await replayWebhookEvents(buildWebhookEventFilter(req.body), parseInt(limit, 10));
+
+  res.json({
+    message: 'Reprocessamento de eventos concluído',
+    ...result
+  });
 });
 
-// Manter a função original para compatibilidade
-const processSaleWebhook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  const { 
-    orderId, 
-    orderValue, 
-    couponCode, 
-    customerData 
-  } = req.body;
-
-  // Validação básica
-  if (!orderId || !orderValue || !couponCode) {
+// @desc    Simular um webhook de plataforma: influenciador, gerente, faixas, comissões e aviso de WhatsApp,
+//          sem gravar a venda nem enviar mensagens
+// @route   POST /api/webhooks/simulate
+// @access  Private/Admin
+const simulateWebhook = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { payload, topic, store } = req.body;
+  const platform = typeof req.body.platform === 'string' ? req.body.platform.trim().toLowerCase() : '';
+
+  try {
+    getPlatformAdapter(platform as SalePlatform);
+  } catch (error) {
+    res.status(400);
+    throw new Error(`Plataforma inválida: ${platform || '(vazia)'}`);
+  }
+  if (!payload || typeof payload !== 'object') {
     res.status(400);
-    throw new Error('Dados da venda incompletos. Necessário orderId, orderValue e couponCode.');
+    throw new Error('Envie o payload da plataforma no campo "payload"');
   }
 
   try {
-    // 1. Verificar se a venda já foi registrada (evitar duplicação)
-    const existingSale = await Sale.findOne({ orderId });
-    if (existingSale) {
-      return res.status(200).json({ 
-        message: 'Venda já processada anteriormente', 
-        saleId: existingSale._id 
-      });
-    }
-    
-    // 2. Localizar o influenciador pelo código do cupom
-    const influencer = await User.findOne({ couponCode });
-    if (!influencer) {
+    const simulation = await simulateWebhookPayload(
+      platform as SalePlatform,
+      payload,
+      typeof topic === 'string' ? topic : undefined,
+      typeof store === 'string' ? store : undefined
+    );
+    res.json({ dryRun: true, ...simulation });
+  } catch (error: any) {
+    // Payload fora do formato ou moeda sem cotação: erro do payload, não do servidor
+    if (error instanceof InvalidPayloadError || error instanceof MissingExchangeRateError) {
       res.status(400);
-      throw new Error(`Nenhum influenciador encontrado com o cupom ${couponCode}`);
     }
-    
-    // 3. Obter o gerente do influenciador
-    const manager = influencer.manager 
-      ? await User.findById(influencer.manager) 
-      : null;
-    
-    // 4. Calcular comissões estimadas
-    const influencerCommission = await calculateCommission(orderValue, 'influencer');
-    const managerCommission = manager ? await calculateCommission(orderValue, 'manager') : 0;
-    
-    // 5. Registrar a venda
-    const newSale = await Sale.create({
-      influencer: influencer._id,
-      manager: manager ? manager._id : undefined,
-      orderId,
-      saleValue: orderValue,
-      commissionCalculated: true, // Agora já calculamos a comissão
-      influencerCommissionEarned: influencerCommission,
-      managerCommissionEarned: managerCommission,
-      couponCodeUsed: couponCode,
-      transactionDate: new Date(),
-      processedViaWebhook: true
-    });
+    throw error;
+  }
+});
 
-    // 6. Enviar notificação ao influenciador (se tiver WhatsApp)
-    if (influencer.whatsappNumber) {
-        try {
-            // Buscar token, nome e templates do manager
-            let managerToken: string | undefined = undefined;
-            let newSaleTemplate: string | undefined = undefined;
-            let managerName: string = 'seu gestor';
-
-            if (influencer.manager) {
-                const manager = await User.findById(influencer.manager).select('tokenWhats messageTemplates name email');
-                if (manager && manager.tokenWhats) {
-                    managerToken = manager.tokenWhats;
-                    managerName = manager.name;
-                    newSaleTemplate = manager.messageTemplates?.newSale; // Usar newSale
-                    console.log(`[processSaleWebhook] Usando token do manager ${manager.email}`);
-                } else {
-                    console.warn(`[processSaleWebhook] Manager ${influencer.manager} não encontrado ou sem token para notificação de venda.`);
-                }
-            } else {
-                console.warn(`[processSaleWebhook] Influencer ${influencer.email} sem manager associado para notificação de venda.`);
-            }
-
-            // Só envia se tiver token do manager
-            if (managerToken) {
-                // Definir texto padrão
-                let notificationContent = `🎉 Nova venda! Olá ${influencer.name}, venda de R$ ${orderValue.toFixed(2)} registrada. Comissão estimada: R$ ${influencerCommission.toFixed(2)}. Gestor: ${managerName}`;
-                
-                // Usar template personalizado
-                if (newSaleTemplate) {
-                    console.log(`[processSaleWebhook] Usando template newSale personalizado do manager.`);
-                    notificationContent = newSaleTemplate;
-                } else {
-                    console.log(`[processSaleWebhook] Usando template newSale padrão.`);
-                }
-                
-                // Substituir variáveis
-                notificationContent = notificationContent
-                    .replace(/{nome}/g, influencer.name)
-                    .replace(/{valorVenda}/g, orderValue.toFixed(2))
-                    .replace(/{comissaoEstimada}/g, influencerCommission.toFixed(2))
-                    .replace(/{gestor}/g, managerName);
-
-                await sendNewSaleNotification(
-                    influencer.whatsappNumber,
-                    notificationContent, // Conteúdo processado
-                    managerToken
-                );
-                 console.log(`[processSaleWebhook] Notificação de venda enviada para ${influencer.name}`);
-            }
-        } catch (notificationError) {
-            console.error(`[processSaleWebhook] Erro ao enviar notificação de venda para ${influencer.name}:`, notificationError);
-        }
-    }
-    
-    // 7. Responder ao webhook
-    res.status(201).json({
-      message: 'Venda registrada com sucesso',
-      saleId: newSale._id,
-      influencerId: influencer._id,
-      managerId: manager ? manager._id : null,
-      influencerCommission,
-      managerCommission
-    });
-  } catch (error) {
-    // No caso de erro não identificado, o asyncHandler já capturará
-    // e o errorHandler retornará o erro formatado
-    next(error); 
+// @desc    Listar jobs da fila de ingestão (status=dead para a lista de mortos)
+// @route   GET /api/webhooks/jobs
+// @access  Private/Admin
+const getIngestionJobs = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { status, type, page = 1, limit = 20 } = req.query;
+
+  let query: any = {};
+  if (status) query.status = status;
+  if (type) query.type = type;
+
+  // Cálculo de paginação
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+  const skip = (pageNum - 1) * limitNum;
+
+  const jobs = await IngestionJob.find(query)
+    .populate('event', 'platform topic orderId status')
+    .sort({ updatedAt: -1 })
+    .skip(skip)
+    .limit(limitNum);
+
+  const total = await IngestionJob.countDocuments(query);
+
+  res.json({
+    jobs,
+    page: pageNum,
+    pages: Math.ceil(total / limitNum),
+    total
+  });
+});
+
+// @desc    Recolocar na fila um job da lista de mortos
+// @route   POST /api/webhooks/jobs/:id/retry
+// @access  Private/Admin
+const retryIngestionJob = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400);
+    throw new Error('ID de job inválido');
+  }
+
+  const job = await IngestionJob.findById(req.params.id);
+  if (!job) {
+    res.status(404);
+    throw new Error('Job não encontrado');
+  }
+
+  if (job.status !== 'dead') {
+    res.status(400);
+    throw new Error('Apenas jobs na lista de mortos podem ser reenviados');
   }
+
+  await retryDeadJob(job);
+
+  res.json({
+    message: 'Job recolocado na fila',
+    job
+  });
 });
 
-export { processSaleWebhook, processShopifyWebhook, processCartPandaWebhook }; 
\ No newline at end of file
+export {
+  processSaleWebhook,
+  processShopifyWebhook,
+  processCartPandaWebhook,
+  processWooCommerceWebhook,
+  processNuvemshopWebhook,
+  processYampiWebhook,
+  processHotmartWebhook,
+  processKiwifyWebhook,
+  processEduzzWebhook,
+  getWebhookRejections,
+  getWebhookEvents,
+  getWebhookEventById,
+  replayWebhookEvent,
+  replayWebhookEventsInRange,
+  simulateWebhook,
+  getIngestionJobs,
+  retryIngestionJob
+}; 
\ No newline at end of file
@@ -0,0 +1,121 @@
+import cron from 'node-cron';
+import { Types } from 'mongoose';
+import IngestionJob, { IIngestionJob } from '../models/IngestionJob';
+import WebhookEvent from '../models/WebhookEvent';
+import Sale, { ISale } from '../models/Sale';
+import { InvalidPayloadError } from '../services/platformAdapters';
+import { processWebhookEvent } from '../services/webhookEventService';
+import { calculateSaleCommission, sendSaleNotification, isPaymentConfirmation } from '../services/saleIngestionService';
+import { enqueueJob, claimNextJob, completeJob, failJob } from '../services/jobQueueService';
+
+// Quantidade máxima de jobs processados a cada execução do worker
+const JOBS_PER_RUN = 20;
+
+/**
+ * Enfileira a comissão de uma venda atribuída que ainda não tem comissão calculada nem job de comissão.
+ * Cobre a nova tentativa de um job de atribuição que registrou a venda e falhou depois (ex.: ao salvar o evento):
+ * na nova tentativa a venda já existe e volta como duplicada.
+ */
+const enqueueMissingCommission = async (eventId: Types.ObjectId, sale?: ISale | null) => {
+  if (!sale || !sale.influencer || sale.commissionCalculated) return;
+  if (await IngestionJob.exists({ type: 'commission', sale: sale._id })) return;
+
+  console.log(`[ingestionWorker] Venda ${sale._id} sem comissão calculada; enfileirando a etapa de comissão`);
+  await enqueueJob('commission', { event: eventId, sale: sale._id as Types.ObjectId });
+};
+
+/**
+ * Executa a etapa correspondente ao tipo do job e enfileira a próxima etapa do pipeline
+ */
+const runJob = async (job: IIngestionJob) => {
+  switch (job.type) {
+    case 'attribution': {
+      const event = await WebhookEvent.findById(job.event);
+      if (!event) throw new Error(`Evento de webhook ${job.event} não encontrado`);
+
+      const outcome = await processWebhookEvent(event, { attributionOnly: true });
+      if (outcome.kind === 'order' && outcome.result.status === 'created' && outcome.result.sale) {
+        await enqueueJob('commission', { event: event._id as Types.ObjectId, sale: outcome.result.sale._id as Types.ObjectId });
+      }
+      if (outcome.kind === 'order' && outcome.result.status === 'duplicate') {
+        await enqueueMissingCommission(event._id as Types.ObjectId, outcome.result.sale);
+      }
+      // Pedido pendente que foi pago: a comissão já foi calculada, só falta o aviso
+      if (outcome.kind === 'order' && isPaymentConfirmation(outcome.result)) {
+        await enqueueJob('notification', { event: event._id as Types.ObjectId, sale: outcome.result.sale!._id as Types.ObjectId });
+      }
+      return;
+    }
+    case 'commission': {
+      const sale = await Sale.findById(job.sale);
+      if (!sale) throw new Error(`Venda ${job.sale} não encontrada`);
+
+      // A comissão pode já ter sido calculada por processPendingCommissions
+      if (!sale.commissionCalculated) {
+        await calculateSaleCommission(sale);
+      }
+      await enqueueJob('notification', { event: job.event as Types.ObjectId, sale: sale._id as Types.ObjectId });
+      return;
+    }
+    case 'notification': {
+      const sale = await Sale.findById(job.sale);
+      if (!sale) throw new Error(`Venda ${job.sale} não encontrada`);
+      await sendSaleNotification(sale);
+      return;
+    }
+  }
+};
+
+/**
+ * Processa os jobs prontos da fila de ingestão de vendas
+ * @returns Quantidade de jobs processados
+ */
+const processIngestionJobs = async () => {
+  let processed = 0;
+
+  while (processed < JOBS_PER_RUN) {
+    const job = await claimNextJob();
+    if (!job) break;
+    processed++;
+
+    try {
+      await runJob(job);
+      await completeJob(job);
+    } catch (error: any) {
+      // Payload inválido não se resolve com novas tentativas
+      await failJob(job, error, !(error instanceof InvalidPayloadError));
+    }
+  }
+
+  return processed;
+};
+
+// Evita execuções sobrepostas quando uma rodada demora mais que o intervalo
+let isRunning = false;
+
+const runIngestionWorker = async () => {
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    const processed = await processIngestionJobs();
+    if (processed > 0) {
+      console.log(`[ingestionWorker] ${processed} job(s) processado(s)`);
+    }
+  } catch (error) {
+    console.error('[ingestionWorker] Erro ao processar a fila de ingestão:', error);
+  } finally {
+    isRunning = false;
+  }
+};
+
+// Agendar o worker para rodar a cada 10 segundos
+// '*/10 * * * * *' -> campo de segundos do node-cron
+console.log('Configurando worker da fila de ingestão de vendas...');
+const ingestionTask = cron.schedule('*/10 * * * * *', runIngestionWorker, {
+  scheduled: true,
+  timezone: "America/Sao_Paulo"
+});
+
+console.log('Worker da fila de ingestão configurado para rodar a cada 10 segundos.');
+
+export { processIngestionJobs, ingestionTask };
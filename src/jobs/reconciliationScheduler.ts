@@ -0,0 +1,54 @@
+import cron from 'node-cron';
+import { SalePlatform } from '../services/platformAdapters';
+import { reconcileOrders } from '../services/reconciliationService';
+
+/**
+ * Lojas reconciliadas pelo agendamento: RECONCILIATION_STORES com pares "plataforma:loja"
+ * separados por vírgula (ex.: "shopify:loja.myshopify.com,cartpanda:minhaloja")
+ */
+const getConfiguredStores = () => (process.env.RECONCILIATION_STORES || '')
+  .split(',')
+  .map(entry => entry.trim())
+  .filter(entry => entry.includes(':'))
+  .map(entry => {
+    const separatorIndex = entry.indexOf(':');
+    return {
+      platform: entry.substring(0, separatorIndex).trim().toLowerCase() as SalePlatform,
+      store: entry.substring(separatorIndex + 1).trim()
+    };
+  });
+
+/**
+ * Reconcilia os pedidos dos últimos RECONCILIATION_DAYS dias (padrão: 3) de cada loja configurada.
+ * Com RECONCILIATION_AUTO_FIX=true, as vendas ausentes são ingeridas.
+ */
+const runScheduledReconciliation = async () => {
+  const stores = getConfiguredStores();
+  if (stores.length === 0) return;
+
+  const days = parseInt(process.env.RECONCILIATION_DAYS || '3', 10) || 3;
+  const endDate = new Date();
+  const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+  const autoFix = process.env.RECONCILIATION_AUTO_FIX === 'true';
+
+  console.log(`[${new Date().toISOString()}] Iniciando reconciliação de ${stores.length} loja(s)...`);
+  for (const { platform, store } of stores) {
+    try {
+      const report = await reconcileOrders({ platform, store, startDate, endDate, autoFix });
+      report.issues.forEach(issue => console.warn(`[reconciliation] ${platform} ${store} pedido ${issue.orderId}: ${issue.type} - ${issue.detail}`));
+    } catch (error) {
+      console.error(`[reconciliation] Erro ao reconciliar ${platform} ${store}:`, error);
+    }
+  }
+};
+
+// Agendar a reconciliação para rodar todos os dias às 03:00 (depois dos relatórios)
+console.log('Configurando agendador de reconciliação de pedidos...');
+const reconciliationTask = cron.schedule('0 3 * * *', runScheduledReconciliation, {
+  scheduled: true,
+  timezone: "America/Sao_Paulo"
+});
+
+console.log('Agendador de reconciliação configurado para rodar diariamente às 03:00 (America/Sao_Paulo).');
+
+export { runScheduledReconciliation, reconciliationTask };
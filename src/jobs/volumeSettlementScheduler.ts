@@ -0,0 +1,35 @@
+import cron from 'node-cron';
+import { settleVolumeTiers, getCommissionSettings } from '../services/commissionService';
+import { getVolumePeriod } from '../services/commissionEngine';
+
+/**
+ * Fecha as faixas por volume do período encerrado ontem (mês ou trimestre, conforme o conjunto de faixas).
+ * Conjuntos medidos por venda e trimestres ainda em andamento são ignorados.
+ */
+const runScheduledVolumeSettlement = async () => {
+  const yesterday = new Date();
+  yesterday.setDate(yesterday.getDate() - 1);
+  const settings = await getCommissionSettings();
+
+  for (const role of ['influencer', 'manager'] as const) {
+    const period = getVolumePeriod(yesterday, settings.tierSetMeasurement?.[role] || 'order');
+    if (!period || period.end > new Date()) continue;
+
+    try {
+      await settleVolumeTiers(role, yesterday);
+    } catch (error) {
+      console.error(`[volumeSettlement] Erro ao acertar as faixas por volume de ${role}:`, error);
+    }
+  }
+};
+
+// Agendar o fechamento para o primeiro dia de cada mês às 04:00 (depois da reconciliação)
+console.log('Configurando agendador de fechamento das faixas por volume...');
+const volumeSettlementTask = cron.schedule('0 4 1 * *', runScheduledVolumeSettlement, {
+  scheduled: true,
+  timezone: "America/Sao_Paulo"
+});
+
+console.log('Agendador de fechamento das faixas por volume configurado para o dia 1 de cada mês às 04:00 (America/Sao_Paulo).');
+
+export { runScheduledVolumeSettlement, volumeSettlementTask };
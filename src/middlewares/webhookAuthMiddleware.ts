@@ -1,13 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
+import WebhookRejection from '../models/WebhookRejection';
+import WebhookNonce from '../models/WebhookNonce';
+import { IWebhookEvent } from '../models/WebhookEvent';
+import { redactWebhookHeaders, redactWebhookPath } from '../utils/webhookRedaction';
 
 dotenv.config();
 
+// Extend the Express Request interface to include the raw body captured by express.json()
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+// Webhook request with the stored delivery (see captureWebhookEvent)
+export interface WebhookRequest extends RawBodyRequest {
+  webhookEvent?: IWebhookEvent;
+}
+
 /**
  * Middleware para verificar o token de autenticação dos webhooks
  * Protege as rotas de webhook contra chamadas não autorizadas
  */
-const verifyWebhookToken = (req: Request, res: Response, next: NextFunction) => {
+const verifyWebhookToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   // Obter o token da requisição (do header, query ou body, conforme a implementação do cliente)
   const token = req.headers['webhook-token'] || req.query.token || req.body.token;
   
@@ -16,20 +31,413 @@ const verifyWebhookToken = (req: Request, res: Response, next: NextFunction) =>
   
   if (!configuredToken) {
     console.error('WEBHOOK_TOKEN não está definido nas variáveis de ambiente');
-    return res.status(500).json({ message: 'Erro de configuração do servidor' });
+    await markWebhookEventRejected(req, 'Segredo do webhook não configurado');
+    res.status(500).json({ message: 'Erro de configuração do servidor' });
+    return;
   }
   
   if (!token) {
-    return res.status(401).json({ message: 'Token de webhook não fornecido' });
+    await recordWebhookRejection(req, 'generic', 'Token ausente');
+    res.status(401).json({ message: 'Token de webhook não fornecido' });
+    return;
   }
   
   // Comparar os tokens
   if (token !== configuredToken) {
-    return res.status(401).json({ message: 'Token de webhook inválido' });
+    await recordWebhookRejection(req, 'generic', 'Token inválido');
+    res.status(401).json({ message: 'Token de webhook inválido' });
+    return;
   }
   
   // Se chegou aqui, o token é válido
   next();
 };
 
-export { verifyWebhookToken }; 
\ No newline at end of file
+/**
+ * Marca o evento gravado da entrega como rejeitado, para que nunca seja processado nem reprocessado.
+ * Falhas ao gravar não devem impedir a resposta ao chamador.
+ */
+const markWebhookEventRejected = async (req: WebhookRequest, reason: string) => {
+  if (!req.webhookEvent) return;
+  try {
+    req.webhookEvent.status = 'rejected';
+    req.webhookEvent.authenticated = false;
+    req.webhookEvent.error = reason;
+    await req.webhookEvent.save();
+  } catch (error) {
+    console.error('[webhookAuth] Erro ao marcar evento de webhook como rejeitado:', error);
+  }
+};
+
+/**
+ * Registra uma tentativa de webhook rejeitada para consulta posterior.
+ * O evento da entrega é marcado como rejeitado antes, independentemente do registro.
+ * Tokens e assinaturas dos headers e da URL não são gravados.
+ * Falhas ao gravar não devem impedir a resposta 401 ao chamador.
+ */
+const recordWebhookRejection = async (req: WebhookRequest, platform: string, reason: string, storeDomain?: string) => {
+  await markWebhookEventRejected(req, reason);
+  try {
+    await WebhookRejection.create({
+      platform,
+      reason,
+      storeDomain,
+      ip: req.ip,
+      path: redactWebhookPath(req.originalUrl),
+      headers: redactWebhookHeaders(req.headers)
+    });
+  } catch (error) {
+    console.error(`[webhookAuth] Erro ao registrar rejeição de webhook ${platform}:`, error);
+  }
+};
+
+/**
+ * Lê os segredos das lojas Shopify configuradas.
+ * SHOPIFY_WEBHOOK_SECRETS aceita pares "loja.myshopify.com:segredo" separados por vírgula;
+ * SHOPIFY_WEBHOOK_SECRET é usado para lojas não listadas.
+ */
+const getShopifySecret = (shopDomain?: string): string | undefined => {
+  const configured = (process.env.SHOPIFY_WEBHOOK_SECRETS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  for (const entry of configured) {
+    const separatorIndex = entry.indexOf(':');
+    if (separatorIndex === -1) continue;
+    const domain = entry.substring(0, separatorIndex).trim().toLowerCase();
+    if (shopDomain && domain === shopDomain.toLowerCase()) {
+      return entry.substring(separatorIndex + 1).trim();
+    }
+  }
+
+  return process.env.SHOPIFY_WEBHOOK_SECRET;
+};
+
+/**
+ * Compara duas assinaturas em tempo constante
+ */
+const signaturesMatch = (received: string, expected: string): boolean => {
+  const receivedBuffer = Buffer.from(received);
+  const expectedBuffer = Buffer.from(expected);
+  if (receivedBuffer.length !== expectedBuffer.length) return false;
+  return crypto.timingSafeEqual(receivedBuffer, expectedBuffer);
+};
+
+/**
+ * Middleware para verificar a assinatura HMAC dos webhooks da Shopify.
+ * A assinatura (X-Shopify-Hmac-Sha256) é calculada sobre o corpo bruto da requisição
+ * com o segredo da loja identificada em X-Shopify-Shop-Domain.
+ */
+const verifyShopifyHmac = async (req: RawBodyRequest, res: Response, next: NextFunction): Promise<void> => {
+  const receivedHmac = req.get('x-shopify-hmac-sha256');
+  const shopDomain = req.get('x-shopify-shop-domain');
+
+  if (!receivedHmac) {
+    await recordWebhookRejection(req, 'shopify', 'Assinatura HMAC ausente', shopDomain);
+    res.status(401).json({ message: 'Assinatura do webhook não fornecida' });
+    return;
+  }
+
+  const secret = getShopifySecret(shopDomain);
+  if (!secret) {
+    console.error(`[verifyShopifyHmac] Nenhum segredo configurado para a loja ${shopDomain || '(não informada)'}`);
+    await recordWebhookRejection(req, 'shopify', 'Loja sem segredo configurado', shopDomain);
+    res.status(401).json({ message: 'Loja não autorizada' });
+    return;
+  }
+
+  if (!req.rawBody) {
+    await recordWebhookRejection(req, 'shopify', 'Corpo bruto indisponível', shopDomain);
+    res.status(401).json({ message: 'Assinatura do webhook inválida' });
+    return;
+  }
+
+  const expectedHmac = crypto.createHmac('sha256', secret).update(req.rawBody).digest('base64');
+
+  if (!signaturesMatch(receivedHmac, expectedHmac)) {
+    await recordWebhookRejection(req, 'shopify', 'Assinatura HMAC não confere', shopDomain);
+    res.status(401).json({ message: 'Assinatura do webhook inválida' });
+    return;
+  }
+
+  next();
+};
+
+// Janela (em segundos) aceita entre o timestamp da entrega e o horário do servidor
+const getTimestampTolerance = (): number => {
+  const configured = parseInt(process.env.WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS || '', 10);
+  return isNaN(configured) || configured <= 0 ? 300 : configured;
+};
+
+/**
+ * Converte o timestamp da entrega (segundos Unix ou data ISO) em Date
+ */
+const parseDeliveryTimestamp = (value: string): Date | null => {
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value, 10) * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Grava o nonce da entrega. Retorna false se ele já tinha sido usado (replay).
+ */
+const consumeWebhookNonce = async (platform: string, nonce: string, deliveredAt: Date): Promise<boolean> => {
+  try {
+    await WebhookNonce.create({
+      platform,
+      nonce,
+      deliveredAt,
+      expiresAt: new Date(deliveredAt.getTime() + getTimestampTolerance() * 2 * 1000)
+    });
+    return true;
+  } catch (error: any) {
+    if (error.code === 11000) return false; // Chave duplicada: nonce já consumido
+    throw error;
+  }
+};
+
+/**
+ * Middleware para verificar a assinatura e o timestamp dos webhooks da CartPanda.
+ * A assinatura (X-CartPanda-Signature) é o HMAC-SHA256 em hexadecimal de "<timestamp>.<corpo bruto>",
+ * com o timestamp enviado em X-CartPanda-Timestamp. Cada entrega só é aceita uma vez:
+ * a assinatura, que cobre o timestamp e o corpo, é gravada como nonce. O header X-CartPanda-Delivery-Id
+ * não entra na assinatura e por isso não é usado: trocá-lo não tornaria uma entrega capturada nova.
+ */
+const verifyCartPandaSignature = async (req: RawBodyRequest, res: Response, next: NextFunction): Promise<void> => {
+  const receivedSignature = req.get('x-cartpanda-signature');
+  const timestampHeader = req.get('x-cartpanda-timestamp');
+  const shopId = req.body?.order?.shop_id?.toString();
+
+  const secret = process.env.CARTPANDA_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('CARTPANDA_WEBHOOK_SECRET não está definido nas variáveis de ambiente');
+    await markWebhookEventRejected(req, 'Segredo do webhook não configurado');
+    res.status(500).json({ message: 'Erro de configuração do servidor' });
+    return;
+  }
+
+  if (!receivedSignature || !timestampHeader) {
+    await recordWebhookRejection(req, 'cartpanda', 'Assinatura ou timestamp ausente', shopId);
+    res.status(401).json({ message: 'Assinatura do webhook não fornecida' });
+    return;
+  }
+
+  const deliveredAt = parseDeliveryTimestamp(timestampHeader);
+  if (!deliveredAt) {
+    await recordWebhookRejection(req, 'cartpanda', 'Timestamp inválido', shopId);
+    res.status(401).json({ message: 'Timestamp do webhook inválido' });
+    return;
+  }
+
+  if (Math.abs(Date.now() - deliveredAt.getTime()) > getTimestampTolerance() * 1000) {
+    await recordWebhookRejection(req, 'cartpanda', 'Timestamp fora da janela permitida', shopId);
+    res.status(401).json({ message: 'Webhook expirado' });
+    return;
+  }
+
+  if (!req.rawBody) {
+    await recordWebhookRejection(req, 'cartpanda', 'Corpo bruto indisponível', shopId);
+    res.status(401).json({ message: 'Assinatura do webhook inválida' });
+    return;
+  }
+
+  const expectedSignature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestampHeader}.`)
+    .update(req.rawBody)
+    .digest('hex');
+
+  if (!signaturesMatch(receivedSignature.toLowerCase(), expectedSignature)) {
+    await recordWebhookRejection(req, 'cartpanda', 'Assinatura não confere', shopId);
+    res.status(401).json({ message: 'Assinatura do webhook inválida' });
+    return;
+  }
+
+  const isFirstDelivery = await consumeWebhookNonce('cartpanda', expectedSignature, deliveredAt);
+  if (!isFirstDelivery) {
+    await recordWebhookRejection(req, 'cartpanda', 'Entrega repetida (replay)', shopId);
+    res.status(401).json({ message: 'Webhook já recebido anteriormente' });
+    return;
+  }
+
+  next();
+};
+
+interface BodySignatureOptions {
+  platform: string;
+  header: string; // Header com a assinatura
+  secretEnv: string; // Variável de ambiente com o segredo compartilhado
+  encoding: 'base64' | 'hex'; // Codificação do HMAC enviada pela plataforma
+  getStoreId?: (req: RawBodyRequest) => string | undefined; // Identificação da loja para o registro de rejeições
+}
+
+/**
+ * Cria um middleware que verifica a assinatura HMAC-SHA256 do corpo bruto da requisição,
+ * formato usado por WooCommerce, Nuvemshop e Yampi.
+ */
+const createBodySignatureVerifier = ({ platform, header, secretEnv, encoding, getStoreId }: BodySignatureOptions) =>
+  async (req: RawBodyRequest, res: Response, next: NextFunction): Promise<void> => {
+    const receivedSignature = req.get(header);
+    const storeId = getStoreId ? getStoreId(req) : undefined;
+
+    const secret = process.env[secretEnv];
+    if (!secret) {
+      console.error(`${secretEnv} não está definido nas variáveis de ambiente`);
+      await markWebhookEventRejected(req, 'Segredo do webhook não configurado');
+      res.status(500).json({ message: 'Erro de configuração do servidor' });
+      return;
+    }
+
+    if (!receivedSignature) {
+      await recordWebhookRejection(req, platform, 'Assinatura ausente', storeId);
+      res.status(401).json({ message: 'Assinatura do webhook não fornecida' });
+      return;
+    }
+
+    if (!req.rawBody) {
+      await recordWebhookRejection(req, platform, 'Corpo bruto indisponível', storeId);
+      res.status(401).json({ message: 'Assinatura do webhook inválida' });
+      return;
+    }
+
+    const expectedSignature = crypto.createHmac('sha256', secret).update(req.rawBody).digest(encoding);
+    const received = encoding === 'hex' ? receivedSignature.toLowerCase() : receivedSignature;
+
+    if (!signaturesMatch(received, expectedSignature)) {
+      await recordWebhookRejection(req, platform, 'Assinatura não confere', storeId);
+      res.status(401).json({ message: 'Assinatura do webhook inválida' });
+      return;
+    }
+
+    next();
+  };
+
+// WooCommerce: X-WC-Webhook-Signature é o HMAC em base64 com o segredo do webhook
+const verifyWooCommerceSignature = createBodySignatureVerifier({
+  platform: 'woocommerce',
+  header: 'x-wc-webhook-signature',
+  secretEnv: 'WOOCOMMERCE_WEBHOOK_SECRET',
+  encoding: 'base64',
+  getStoreId: req => req.get('x-wc-webhook-source')
+});
+
+// Nuvemshop: X-Linkedstore-Hmac-Sha256 é o HMAC em hexadecimal com o segredo do app
+const verifyNuvemshopSignature = createBodySignatureVerifier({
+  platform: 'nuvemshop',
+  header: 'x-linkedstore-hmac-sha256',
+  secretEnv: 'NUVEMSHOP_APP_SECRET',
+  encoding: 'hex',
+  getStoreId: req => req.body?.store_id?.toString()
+});
+
+// Yampi: X-Yampi-Hmac-SHA256 é o HMAC em base64 com a chave secreta do webhook
+const verifyYampiSignature = createBodySignatureVerifier({
+  platform: 'yampi',
+  header: 'x-yampi-hmac-sha256',
+  secretEnv: 'YAMPI_WEBHOOK_SECRET',
+  encoding: 'base64',
+  getStoreId: req => req.body?.merchant?.alias
+});
+
+interface SharedTokenOptions {
+  platform: string;
+  secretEnv: string; // Variável de ambiente com o token configurado na plataforma
+  getToken: (req: RawBodyRequest) => unknown; // Onde a plataforma envia o token
+}
+
+/**
+ * Cria um middleware que compara um token fixo enviado pela plataforma com o configurado,
+ * formato usado por Hotmart (hottok) e Eduzz (api_key), que não assinam o corpo.
+ */
+const createSharedTokenVerifier = ({ platform, secretEnv, getToken }: SharedTokenOptions) =>
+  async (req: RawBodyRequest, res: Response, next: NextFunction): Promise<void> => {
+    const configuredToken = process.env[secretEnv];
+    if (!configuredToken) {
+      console.error(`${secretEnv} não está definido nas variáveis de ambiente`);
+      await markWebhookEventRejected(req, 'Segredo do webhook não configurado');
+      res.status(500).json({ message: 'Erro de configuração do servidor' });
+      return;
+    }
+
+    const token = getToken(req);
+    if (typeof token !== 'string' || !token) {
+      await recordWebhookRejection(req, platform, 'Token ausente');
+      res.status(401).json({ message: 'Token de webhook não fornecido' });
+      return;
+    }
+
+    if (!signaturesMatch(token, configuredToken)) {
+      await recordWebhookRejection(req, platform, 'Token inválido');
+      res.status(401).json({ message: 'Token de webhook inválido' });
+      return;
+    }
+
+    next();
+  };
+
+// Hotmart: X-Hotmart-Hottok é o token da conta (Ferramentas > Webhook)
+const verifyHotmartHottok = createSharedTokenVerifier({
+  platform: 'hotmart',
+  secretEnv: 'HOTMART_HOTTOK',
+  getToken: req => req.get('x-hotmart-hottok') || req.body?.hottok
+});
+
+// Eduzz: o postback traz a chave da conta no campo api_key
+const verifyEduzzApiKey = createSharedTokenVerifier({
+  platform: 'eduzz',
+  secretEnv: 'EDUZZ_API_KEY',
+  getToken: req => req.body?.api_key
+});
+
+/**
+ * Middleware para verificar a assinatura dos webhooks da Kiwify.
+ * A assinatura (parâmetro "signature" da URL) é o HMAC-SHA1 em hexadecimal
+ * do corpo bruto com o token do webhook.
+ */
+const verifyKiwifySignature = async (req: RawBodyRequest, res: Response, next: NextFunction): Promise<void> => {
+  const receivedSignature = req.query.signature;
+
+  const secret = process.env.KIWIFY_WEBHOOK_TOKEN;
+  if (!secret) {
+    console.error('KIWIFY_WEBHOOK_TOKEN não está definido nas variáveis de ambiente');
+    await markWebhookEventRejected(req, 'Segredo do webhook não configurado');
+    res.status(500).json({ message: 'Erro de configuração do servidor' });
+    return;
+  }
+
+  if (typeof receivedSignature !== 'string' || !receivedSignature) {
+    await recordWebhookRejection(req, 'kiwify', 'Assinatura ausente');
+    res.status(401).json({ message: 'Assinatura do webhook não fornecida' });
+    return;
+  }
+
+  if (!req.rawBody) {
+    await recordWebhookRejection(req, 'kiwify', 'Corpo bruto indisponível');
+    res.status(401).json({ message: 'Assinatura do webhook inválida' });
+    return;
+  }
+
+  const expectedSignature = crypto.createHmac('sha1', secret).update(req.rawBody).digest('hex');
+
+  if (!signaturesMatch(receivedSignature.toLowerCase(), expectedSignature)) {
+    await recordWebhookRejection(req, 'kiwify', 'Assinatura não confere');
+    res.status(401).json({ message: 'Assinatura do webhook inválida' });
+    return;
+  }
+
+  next();
+};
+
+export {
+  verifyWebhookToken,
+  verifyShopifyHmac,
+  verifyCartPandaSignature,
+  verifyWooCommerceSignature,
+  verifyNuvemshopSignature,
+  verifyYampiSignature,
+  verifyHotmartHottok,
+  verifyKiwifySignature,
+  verifyEduzzApiKey,
+  recordWebhookRejection,
+  signaturesMatch
+};
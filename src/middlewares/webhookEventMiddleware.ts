@@ -0,0 +1,67 @@
+import { Response, NextFunction } from 'express';
+import WebhookEvent from '../models/WebhookEvent';
+import { WebhookRequest } from './webhookAuthMiddleware';
+import { redactWebhookHeaders, redactWebhookPayload, redactWebhookRawBody } from '../utils/webhookRedaction';
+
+/**
+ * Tópico da entrega: header da Shopify ou do WooCommerce, ou o campo "event" do payload
+ */
+const getWebhookTopic = (req: WebhookRequest): string | undefined =>
+  req.get('x-shopify-topic') || req.get('x-wc-webhook-topic') || req.body?.event;
+
+/**
+ * Loja informada nos headers da entrega: domínio da loja Shopify ou host de origem do WooCommerce.
+ * Plataformas que identificam a loja no payload (CartPanda, Nuvemshop, Yampi) são tratadas pelos adapters.
+ * Recebe os headers como gravados no evento (nomes em minúsculas).
+ */
+const getWebhookStoreFromHeaders = (headers: Record<string, unknown>): string | undefined => {
+  const shopDomain = headers['x-shopify-shop-domain'];
+  if (typeof shopDomain === 'string' && shopDomain) return shopDomain.toLowerCase();
+
+  const source = headers['x-wc-webhook-source'];
+  if (typeof source !== 'string' || !source) return undefined;
+  try {
+    return new URL(source).host.toLowerCase();
+  } catch (error) {
+    return source.toLowerCase();
+  }
+};
+
+/**
+ * Loja informada nos headers da requisição
+ */
+const getWebhookStore = (req: WebhookRequest): string | undefined =>
+  getWebhookStoreFromHeaders(req.headers);
+
+/**
+ * Dados do evento de uma entrega, sem tokens e assinaturas (headers, corpo e corpo bruto)
+ */
+const buildWebhookEventData = (req: WebhookRequest, platform: string) => ({
+  platform,
+  topic: getWebhookTopic(req),
+  store: getWebhookStore(req),
+  headers: redactWebhookHeaders(req.headers),
+  rawBody: redactWebhookRawBody(req.rawBody?.toString('utf8'), req.get('content-type')),
+  payload: redactWebhookPayload(req.body)
+});
+
+/**
+ * Middleware que grava toda entrega de webhook (headers e corpo bruto, sem credenciais) antes da autenticação,
+ * para que possa ser consultada e reprocessada depois. Falhas ao gravar não bloqueiam a entrega.
+ * O evento fica com authenticated false até o handler da plataforma, que só roda após a verificação.
+ */
+const captureWebhookEvent = (platform: string) =>
+  async (req: WebhookRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      req.webhookEvent = await WebhookEvent.create({
+        ...buildWebhookEventData(req, platform),
+        status: 'received',
+        authenticated: false
+      });
+    } catch (error) {
+      console.error(`[captureWebhookEvent] Erro ao gravar evento de webhook ${platform}:`, error);
+    }
+    next();
+  };
+
+export { captureWebhookEvent, buildWebhookEventData, getWebhookTopic, getWebhookStore, getWebhookStoreFromHeaders };
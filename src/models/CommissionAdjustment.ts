@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser } from './User';
+import { ISale } from './Sale';
+import { ICommissionPayment } from './CommissionPayment';
+
+// Interface representing a commission adjustment carried into a future payout
+// (e.g. clawback of commission already paid on a refunded sale).
+export interface ICommissionAdjustment extends Document {
+  user: Types.ObjectId | IUser; // User whose commission is adjusted
+  roleAtPayment: 'influencer' | 'manager'; // Role under which the commission was earned
+  sale?: Types.ObjectId | ISale; // Sale that originated the adjustment
+  amount: number; // Adjustment value (negative for clawbacks)
+  reason: string; // Human readable reason
+  sourcePayment?: Types.ObjectId | ICommissionPayment; // Already paid payment that included the sale
+  status: 'pending' | 'applied'; // Pending until deducted from a payment
+  appliedToPayment?: Types.ObjectId | ICommissionPayment; // Payment where the adjustment was applied
+  appliedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommissionAdjustmentSchema: Schema<ICommissionAdjustment> = new Schema(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    roleAtPayment: { type: String, enum: ['influencer', 'manager'], required: true },
+    sale: { type: Schema.Types.ObjectId, ref: 'Sale' },
+    amount: { type: Number, required: true },
+    reason: { type: String, required: true },
+    sourcePayment: { type: Schema.Types.ObjectId, ref: 'CommissionPayment' },
+    status: { type: String, enum: ['pending', 'applied'], default: 'pending' },
+    appliedToPayment: { type: Schema.Types.ObjectId, ref: 'CommissionPayment' },
+    appliedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexing for faster lookups
+CommissionAdjustmentSchema.index({ user: 1, roleAtPayment: 1, status: 1 });
+CommissionAdjustmentSchema.index({ sale: 1 });
+
+const CommissionAdjustment = mongoose.model<ICommissionAdjustment>('CommissionAdjustment', CommissionAdjustmentSchema);
+
+export default CommissionAdjustment;
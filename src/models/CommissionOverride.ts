@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser } from './User';
+
+// How the override replaces the global tiers: a fixed rate, the user's own tier set or a multiplier on the global tiers
+export type CommissionOverrideType = 'percentage' | 'tiers' | 'multiplier';
+
+// Role of the user who last set the override values; manager overrides are limited by the admin's tier set bounds
+export type CommissionOverrideSetter = 'admin' | 'manager';
+
+// Tier of a user's custom tier set (same fields as CommissionTier)
+export interface ICommissionOverrideTier {
+  _id?: Types.ObjectId;
+  name: string;
+  minSalesValue: number;
+  maxSalesValue?: number;
+  commissionPercentage: number;
+  newCustomerPercentage?: number;
+  newCustomerBonus?: number;
+}
+
+// Interface representing a per-user commission override, valid within an effective window.
+export interface ICommissionOverride extends Document {
+  user: Types.ObjectId | IUser; // Influencer (influencer commission) or manager (manager commission)
+  appliesTo: 'influencer' | 'manager'; // Commission overridden, from the user's role
+  type: CommissionOverrideType;
+  percentage?: number; // Fixed rate (percentage overrides)
+  multiplier?: number; // Factor applied to the global tier rates (multiplier overrides)
+  tiers: ICommissionOverrideTier[]; // Custom tier set (tiers overrides)
+  effectiveFrom: Date; // Override applies to sales from this date
+  effectiveTo?: Date; // Override applies to sales until this date (open-ended if absent)
+  notes?: string;
+  setByRole?: CommissionOverrideSetter; // Absent on overrides saved before the field: treated as manager overrides
+  isActive: boolean;
+  createdBy?: Types.ObjectId | IUser; // Admin or manager who created the override
+  updatedBy?: Types.ObjectId | IUser;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommissionOverrideSchema: Schema<ICommissionOverride> = new Schema(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    appliesTo: { type: String, enum: ['influencer', 'manager'], required: true },
+    type: { type: String, enum: ['percentage', 'tiers', 'multiplier'], required: true },
+    percentage: { type: Number, min: 0, max: 100 },
+    multiplier: { type: Number, min: 0 },
+    tiers: [{
+      name: { type: String, required: true },
+      minSalesValue: { type: Number, required: true, min: 0 },
+      maxSalesValue: { type: Number, min: 0 },
+      commissionPercentage: { type: Number, required: true, min: 0, max: 100 },
+      newCustomerPercentage: { type: Number, min: 0, max: 100 },
+      newCustomerBonus: { type: Number, min: 0 },
+    }],
+    effectiveFrom: { type: Date, required: true, default: Date.now },
+    effectiveTo: { type: Date },
+    notes: { type: String, trim: true },
+    setByRole: { type: String, enum: ['admin', 'manager'] },
+    isActive: { type: Boolean, default: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt timestamps
+  }
+);
+
+// Each type requires its own value
+CommissionOverrideSchema.pre<ICommissionOverride>('validate', function (next) {
+  if (this.type === 'percentage' && (this.percentage === undefined || this.percentage === null)) {
+    this.invalidate('percentage', 'Informe o percentual da comissão individual');
+  }
+  if (this.type === 'multiplier' && (this.multiplier === undefined || this.multiplier === null)) {
+    this.invalidate('multiplier', 'Informe o multiplicador das faixas');
+  }
+  if (this.type === 'tiers' && this.tiers.length === 0) {
+    this.invalidate('tiers', 'Informe ao menos uma faixa');
+  }
+  next();
+});
+
+// Ensure effectiveFrom is before effectiveTo when both exist
+CommissionOverrideSchema.path('effectiveTo').validate(function (value) {
+  return !value || !this.effectiveFrom || value >= this.effectiveFrom;
+}, 'effectiveTo must be greater than or equal to effectiveFrom');
+
+// Indexing for faster lookups
+CommissionOverrideSchema.index({ user: 1, appliesTo: 1, isActive: 1, effectiveFrom: -1 });
+
+const CommissionOverride = mongoose.model<ICommissionOverride>('CommissionOverride', CommissionOverrideSchema);
+
+export default CommissionOverride;
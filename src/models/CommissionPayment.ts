@@ -1,6 +1,7 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
 import { IUser } from './User';
 import { ISale } from './Sale';
+import { ICommissionAdjustment } from './CommissionAdjustment';
 
 // Interface representing a commission payment record.
 export interface ICommissionPayment extends Document {
@@ -8,7 +9,10 @@ export interface ICommissionPayment extends Document {
   roleAtPayment: 'influencer' | 'manager'; // Role of the user when this commission was earned
   sales: (Types.ObjectId | ISale)[]; // Array of Sale IDs included in this payment calculation
   totalSalesValue: number; // Total value of sales considered for this payment
-  commissionEarned: number; // Total commission amount for this period
+  commissionEarned: number; // Total commission amount for this period (after adjustments)
+  adjustments: (Types.ObjectId | ICommissionAdjustment)[]; // Adjustments (e.g. refund clawbacks) applied to this payment
+  adjustmentsTotal: number; // Sum of the adjustments applied (negative for clawbacks)
+  balanceCarriedForward: number; // Negative balance moved to the next payment when clawbacks exceed the commission
   paymentPeriodStart: Date; // Start date of the period for which commission is calculated
   paymentPeriodEnd: Date; // End date of the period
   calculationDate: Date; // Date when the commission was calculated
@@ -26,6 +30,9 @@ const CommissionPaymentSchema: Schema<ICommissionPayment> = new Schema(
     sales: [{ type: Schema.Types.ObjectId, ref: 'Sale' }],
     totalSalesValue: { type: Number, required: true, min: 0 },
     commissionEarned: { type: Number, required: true, min: 0 },
+    adjustments: [{ type: Schema.Types.ObjectId, ref: 'CommissionAdjustment' }],
+    adjustmentsTotal: { type: Number, default: 0 },
+    balanceCarriedForward: { type: Number, default: 0, max: 0 },
     paymentPeriodStart: { type: Date, required: true },
     paymentPeriodEnd: { type: Date, required: true },
     calculationDate: { type: Date, default: Date.now },
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Sale-level rule types composed by the commission engine after the tier rule
+export type CommissionRuleType = 'percentage' | 'fixed' | 'cap' | 'minimum';
+
+// Interface representing a sale-level commission rule (bonus, cap or guaranteed minimum).
+export interface ICommissionRule extends Document {
+  name: string; // E.g. "Bônus por venda", "Teto por venda"
+  type: CommissionRuleType;
+  percentage?: number; // Extra percentage of the commission base (percentage rules)
+  amount?: number; // Fixed amount in BRL (fixed, cap and minimum rules)
+  appliesTo: 'influencer' | 'manager' | 'both';
+  order: number; // Rules run in ascending order after the tier rule
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommissionRuleSchema: Schema<ICommissionRule> = new Schema(
+  {
+    name: { type: String, required: true },
+    type: { type: String, enum: ['percentage', 'fixed', 'cap', 'minimum'], required: true },
+    percentage: {
+      type: Number,
+      min: 0,
+      max: 100,
+      required: function (this: ICommissionRule) { return this.type === 'percentage'; }
+    },
+    amount: {
+      type: Number,
+      min: 0,
+      required: function (this: ICommissionRule) { return this.type !== 'percentage'; }
+    },
+    appliesTo: { type: String, enum: ['influencer', 'manager', 'both'], default: 'both' },
+    order: { type: Number, default: 0 },
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt timestamps
+  }
+);
+
+// Indexing for faster queries
+CommissionRuleSchema.index({ isActive: 1, appliesTo: 1, order: 1 });
+
+const CommissionRule = mongoose.model<ICommissionRule>('CommissionRule', CommissionRuleSchema);
+
+export default CommissionRule;
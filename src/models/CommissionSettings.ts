@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser } from './User';
+
+// Value commissions are computed on: order total (gross) or net merchandise value (net)
+export type CommissionBase = 'gross' | 'net';
+
+// Which attribution wins when the coupon and the tracking link of an order point to different influencers
+export type AttributionPrecedence = 'coupon' | 'referral_link';
+
+// How the value compared with the tiers is measured: each order or the cumulative volume of a period
+export type TierMeasurement = 'order' | 'monthly' | 'quarterly';
+
+// How period volume tiers are paid: the reached tier's rate on the whole volume, or each bracket's rate on its part
+export type VolumeTierMode = 'retroactive' | 'marginal';
+
+// Order stage at which a sale's commission can be paid out
+export type PayableStatus = 'paid' | 'fulfilled';
+
+// Interface representing the global commission settings (single document).
+export interface ICommissionSettings extends Document {
+  key: string; // Always 'global'
+  commissionBase: CommissionBase; // Default base for every tier set
+  // Per tier set override; tiers are grouped in sets by the role they apply to
+  tierSetCommissionBase: {
+    influencer?: CommissionBase;
+    manager?: CommissionBase;
+  };
+  // Per tier set: order value (default) or the owner's cumulative sales in the period
+  tierSetMeasurement: {
+    influencer?: TierMeasurement;
+    manager?: TierMeasurement;
+  };
+  // Per tier set settlement of volume tiers at period close (default: retroactive)
+  tierSetVolumeMode: {
+    influencer?: VolumeTierMode;
+    manager?: VolumeTierMode;
+  };
+  // Limits for the tier sets managers define for their teams (unset: no limit)
+  managerTierSetBounds: {
+    maxPercentage?: number; // Highest commission or new customer rate a manager's tier may pay
+    maxNewCustomerBonus?: number; // Highest new customer bonus (BRL) a manager's tier may pay
+  };
+  payableStatus: PayableStatus; // Sales before this stage are not included in commission payments
+  notifyPendingSales: boolean; // Send a "pending sale" notice for unpaid orders and a "confirmed" notice once paid
+  attributionPrecedence: AttributionPrecedence; // Coupon or tracking link, when both match different influencers
+  updatedBy?: Types.ObjectId | IUser;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommissionSettingsSchema: Schema<ICommissionSettings> = new Schema(
+  {
+    key: { type: String, required: true, unique: true, default: 'global' },
+    commissionBase: { type: String, enum: ['gross', 'net'], default: 'gross' },
+    tierSetCommissionBase: {
+      influencer: { type: String, enum: ['gross', 'net'] },
+      manager: { type: String, enum: ['gross', 'net'] },
+    },
+    tierSetMeasurement: {
+      influencer: { type: String, enum: ['order', 'monthly', 'quarterly'] },
+      manager: { type: String, enum: ['order', 'monthly', 'quarterly'] },
+    },
+    tierSetVolumeMode: {
+      influencer: { type: String, enum: ['retroactive', 'marginal'] },
+      manager: { type: String, enum: ['retroactive', 'marginal'] },
+    },
+    managerTierSetBounds: {
+      maxPercentage: { type: Number, min: 0, max: 100 },
+      maxNewCustomerBonus: { type: Number, min: 0 },
+    },
+    payableStatus: { type: String, enum: ['paid', 'fulfilled'], default: 'paid' },
+    notifyPendingSales: { type: Boolean, default: false },
+    attributionPrecedence: { type: String, enum: ['coupon', 'referral_link'], default: 'coupon' },
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt timestamps
+  }
+);
+
+const CommissionSettings = mongoose.model<ICommissionSettings>('CommissionSettings', CommissionSettingsSchema);
+
+export default CommissionSettings;
@@ -1,12 +1,16 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { ICommissionTierVersion } from './CommissionTierVersion';
 
 // Interface representing a commission tier document in MongoDB.
 export interface ICommissionTier extends Document {
   name: string;
-  minSalesValue: number; // Minimum sales value for this tier
+  minSalesValue: number; // Minimum sales value for this tier (order value or period volume, per tier set)
   maxSalesValue?: number; // Maximum sales value (optional, represents infinity if absent)
   commissionPercentage: number;
+  newCustomerPercentage?: number; // Rate used instead of commissionPercentage on a customer's first purchase
+  newCustomerBonus?: number; // Fixed amount (BRL) added to the commission on a customer's first purchase
   appliesTo: 'influencer' | 'manager'; // Specify if this tier is for influencers or managers
+  tierVersion?: Types.ObjectId | ICommissionTierVersion; // Version the tier belongs to (versioned tiers are immutable)
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -18,7 +22,10 @@ const CommissionTierSchema: Schema<ICommissionTier> = new Schema(
     minSalesValue: { type: Number, required: true, min: 0 },
     maxSalesValue: { type: Number, min: 0 },
     commissionPercentage: { type: Number, required: true, min: 0, max: 100 },
+    newCustomerPercentage: { type: Number, min: 0, max: 100 },
+    newCustomerBonus: { type: Number, min: 0 },
     appliesTo: { type: String, enum: ['influencer', 'manager'], required: true },
+    tierVersion: { type: Schema.Types.ObjectId, ref: 'CommissionTierVersion' },
     isActive: { type: Boolean, default: true },
   },
   {
@@ -31,6 +38,9 @@ CommissionTierSchema.path('maxSalesValue').validate(function (value) {
   return value === undefined || value === null || value >= this.minSalesValue;
 }, 'maxSalesValue must be greater than or equal to minSalesValue');
 
+// Indexing for faster lookups
+CommissionTierSchema.index({ tierVersion: 1 });
+
 const CommissionTier = mongoose.model<ICommissionTier>('CommissionTier', CommissionTierSchema);
 
 export default CommissionTier; 
\ No newline at end of file
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser } from './User';
+
+// Interface representing an immutable version of a role's global tier set.
+// A version applies to sales with effectiveFrom <= transactionDate < effectiveTo.
+export interface ICommissionTierVersion extends Document {
+  appliesTo: 'influencer' | 'manager'; // Tier set the version belongs to
+  version: number; // Sequential per tier set, starting at 1
+  effectiveFrom: Date;
+  effectiveTo?: Date; // Start of the next version (open-ended for the latest version)
+  notes?: string;
+  createdBy?: Types.ObjectId | IUser; // Admin who saved the version (absent for the version created from legacy tiers)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommissionTierVersionSchema: Schema<ICommissionTierVersion> = new Schema(
+  {
+    appliesTo: { type: String, enum: ['influencer', 'manager'], required: true },
+    version: { type: Number, required: true, min: 1 },
+    effectiveFrom: { type: Date, required: true },
+    effectiveTo: { type: Date },
+    notes: { type: String, trim: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt timestamps
+  }
+);
+
+// Ensure effectiveFrom is before effectiveTo when both exist
+CommissionTierVersionSchema.path('effectiveTo').validate(function (value) {
+  return !value || !this.effectiveFrom || value > this.effectiveFrom;
+}, 'effectiveTo must be greater than effectiveFrom');
+
+// Indexing for faster lookups
+CommissionTierVersionSchema.index({ appliesTo: 1, version: 1 }, { unique: true });
+CommissionTierVersionSchema.index({ appliesTo: 1, effectiveFrom: -1 });
+
+const CommissionTierVersion = mongoose.model<ICommissionTierVersion>('CommissionTierVersion', CommissionTierVersionSchema);
+
+export default CommissionTierVersion;
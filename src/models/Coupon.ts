@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser } from './User';
+
+// Interface representing a coupon code that attributes sales to an influencer.
+export interface ICoupon extends Document {
+  code: string; // Code as registered (original casing)
+  normalizedCode: string; // Trimmed, lower-case code used for lookups and uniqueness
+  owner: Types.ObjectId | IUser; // Influencer credited with sales using this coupon
+  validFrom?: Date; // Coupon only attributes sales from this date (optional)
+  validUntil?: Date; // Coupon only attributes sales until this date (optional)
+  campaign?: string; // Campaign tag (e.g. "black-friday-2025")
+  isActive: boolean;
+  isPrimary: boolean; // Primary coupon mirrored in User.couponCode
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Normalized form of a coupon code: case and surrounding spaces are ignored
+ */
+export const normalizeCode = (code: string): string => code.trim().toLowerCase();
+
+const CouponSchema: Schema<ICoupon> = new Schema(
+  {
+    code: { type: String, required: true, trim: true },
+    normalizedCode: { type: String, required: true, unique: true },
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    validFrom: { type: Date },
+    validUntil: { type: Date },
+    campaign: { type: String, trim: true },
+    isActive: { type: Boolean, default: true },
+    isPrimary: { type: Boolean, default: false },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt timestamps
+  }
+);
+
+// Keep the normalized code in sync with the code
+CouponSchema.pre<ICoupon>('validate', function (next) {
+  if (this.code) {
+    this.normalizedCode = normalizeCode(this.code);
+  }
+  next();
+});
+
+// Ensure validFrom is before validUntil when both exist
+CouponSchema.path('validUntil').validate(function (value) {
+  return !value || !this.validFrom || value >= this.validFrom;
+}, 'validUntil must be greater than or equal to validFrom');
+
+// Indexing for faster queries
+CouponSchema.index({ owner: 1, isActive: 1 });
+CouponSchema.index({ campaign: 1 });
+
+const Coupon = mongoose.model<ICoupon>('Coupon', CouponSchema);
+
+export default Coupon;
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser } from './User';
+
+// Interface representing the exchange rate of a currency to BRL on a given day.
+export interface IExchangeRate extends Document {
+  currency: string; // ISO 4217 code (e.g. USD, EUR)
+  date: Date; // Day the rate applies to (UTC midnight)
+  rate: number; // Value of 1 unit of the currency in BRL
+  source: 'manual' | 'csv'; // How the rate was entered
+  updatedBy?: Types.ObjectId | IUser; // Admin who last edited or loaded the rate
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Day a rate is keyed by: the date at UTC midnight
+ */
+export const toRateDate = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const ExchangeRateSchema: Schema<IExchangeRate> = new Schema(
+  {
+    currency: { type: String, required: true, uppercase: true, trim: true, match: /^[A-Z]{3}$/ },
+    date: { type: Date, required: true },
+    rate: { type: Number, required: true, min: 0 },
+    source: { type: String, enum: ['manual', 'csv'], default: 'manual' },
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt timestamps
+  }
+);
+
+// Keep rates keyed by day
+ExchangeRateSchema.pre<IExchangeRate>('validate', function (next) {
+  if (this.date) {
+    this.date = toRateDate(this.date);
+  }
+  next();
+});
+
+// One rate per currency and day; also serves the "latest rate on or before" lookup
+ExchangeRateSchema.index({ currency: 1, date: -1 }, { unique: true });
+
+const ExchangeRate = mongoose.model<IExchangeRate>('ExchangeRate', ExchangeRateSchema);
+
+export default ExchangeRate;
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IWebhookEvent } from './WebhookEvent';
+import { ISale } from './Sale';
+
+// Steps of the sale ingestion pipeline executed by the worker
+export type IngestionJobType = 'attribution' | 'commission' | 'notification';
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+// Interface representing a queued step of the sale ingestion pipeline.
+export interface IIngestionJob extends Document {
+  type: IngestionJobType;
+  status: IngestionJobStatus;
+  event?: Types.ObjectId | IWebhookEvent; // Webhook event being processed (attribution step)
+  sale?: Types.ObjectId | ISale; // Sale being processed (commission and notification steps)
+  attempts: number; // Attempts already started
+  maxAttempts: number; // After this many failures the job goes to the dead-letter list
+  nextRunAt: Date; // Earliest date for the next attempt (exponential backoff)
+  lockedAt?: Date; // When the current attempt started
+  lastError?: string;
+  failures: { message: string; failedAt: Date }[]; // Error history of every failed attempt
+  completedAt?: Date;
+  deadAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IngestionJobSchema: Schema<IIngestionJob> = new Schema(
+  {
+    type: { type: String, enum: ['attribution', 'commission', 'notification'], required: true },
+    status: { type: String, enum: ['queued', 'running', 'completed', 'dead'], default: 'queued' },
+    event: { type: Schema.Types.ObjectId, ref: 'WebhookEvent' },
+    sale: { type: Schema.Types.ObjectId, ref: 'Sale' },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 5, min: 1 },
+    nextRunAt: { type: Date, default: Date.now },
+    lockedAt: { type: Date },
+    lastError: { type: String },
+    failures: [{
+      message: { type: String, required: true },
+      failedAt: { type: Date, default: Date.now },
+    }],
+    completedAt: { type: Date },
+    deadAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexing for the worker polling and the dead-letter listing
+IngestionJobSchema.index({ status: 1, nextRunAt: 1 });
+IngestionJobSchema.index({ status: 1, deadAt: -1 });
+IngestionJobSchema.index({ event: 1 });
+
+const IngestionJob = mongoose.model<IIngestionJob>('IngestionJob', IngestionJobSchema);
+
+export default IngestionJob;
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser } from './User';
+
+// Tier of a manager's tier set (same fields as CommissionTier)
+export interface IManagerTier {
+  _id?: Types.ObjectId;
+  name: string;
+  minSalesValue: number;
+  maxSalesValue?: number;
+  commissionPercentage: number;
+  newCustomerPercentage?: number;
+  newCustomerBonus?: number;
+}
+
+// Change made to a tier set; tiers and name are recorded as they were after the change
+export type ManagerTierSetAction = 'created' | 'updated' | 'activated' | 'deactivated';
+
+export interface IManagerTierSetChange {
+  action: ManagerTierSetAction;
+  changedBy?: Types.ObjectId | IUser;
+  at: Date;
+  name: string;
+  tiers: IManagerTier[];
+}
+
+// Interface representing a tier set defined by a manager for the influencers of their team.
+export interface IManagerTierSet extends Document {
+  manager: Types.ObjectId | IUser; // Owner; the set applies to influencer commissions on the team's sales
+  name: string;
+  tiers: IManagerTier[];
+  isActive: boolean; // Only one active set per manager; inactive sets are drafts or past versions
+  activatedAt?: Date;
+  history: IManagerTierSetChange[]; // Every change made to the set
+  createdBy?: Types.ObjectId | IUser;
+  updatedBy?: Types.ObjectId | IUser;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ManagerTierSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    minSalesValue: { type: Number, required: true, min: 0 },
+    maxSalesValue: { type: Number, min: 0 },
+    commissionPercentage: { type: Number, required: true, min: 0, max: 100 },
+    newCustomerPercentage: { type: Number, min: 0, max: 100 },
+    newCustomerBonus: { type: Number, min: 0 },
+  }
+);
+
+const ManagerTierSetSchema: Schema<IManagerTierSet> = new Schema(
+  {
+    manager: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    name: { type: String, required: true, trim: true },
+    tiers: { type: [ManagerTierSchema], default: [] },
+    isActive: { type: Boolean, default: false },
+    activatedAt: { type: Date },
+    history: [{
+      _id: false,
+      action: { type: String, enum: ['created', 'updated', 'activated', 'deactivated'], required: true },
+      changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+      at: { type: Date, default: Date.now },
+      name: { type: String },
+      tiers: { type: [ManagerTierSchema], default: [] },
+    }],
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt timestamps
+  }
+);
+
+// Indexing for faster lookups
+ManagerTierSetSchema.index({ manager: 1, isActive: 1 });
+
+const ManagerTierSet = mongoose.model<IManagerTierSet>('ManagerTierSet', ManagerTierSetSchema);
+
+export default ManagerTierSet;
@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Scope of a rule: a single product or a collection (group of products)
+export type ProductRuleScope = 'product' | 'collection';
+// A rule either pays its own percentage or excludes the products from commission
+export type ProductRuleType = 'percentage' | 'excluded';
+
+// Interface representing a product-level commission rule.
+export interface IProductCommissionRule extends Document {
+  name: string; // E.g. "Kits", "Acessórios", "Produto X"
+  scope: ProductRuleScope; // Product rules take precedence over collection rules
+  productIds: string[]; // Platform product ids matched by the rule
+  skus: string[]; // SKUs matched by the rule
+  type: ProductRuleType;
+  commissionPercentage?: number; // Required for percentage rules
+  appliesTo: 'influencer' | 'manager' | 'both';
+  priority: number; // Higher priority wins when several rules of the same scope match
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProductCommissionRuleSchema: Schema<IProductCommissionRule> = new Schema(
+  {
+    name: { type: String, required: true },
+    scope: { type: String, enum: ['product', 'collection'], default: 'product' },
+    productIds: [{ type: String, trim: true }],
+    skus: [{ type: String, trim: true }],
+    type: { type: String, enum: ['percentage', 'excluded'], required: true },
+    commissionPercentage: {
+      type: Number,
+      min: 0,
+      max: 100,
+      required: function (this: IProductCommissionRule) { return this.type === 'percentage'; }
+    },
+    appliesTo: { type: String, enum: ['influencer', 'manager', 'both'], default: 'both' },
+    priority: { type: Number, default: 0 },
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt timestamps
+  }
+);
+
+// A rule must match at least one product id or SKU
+ProductCommissionRuleSchema.pre<IProductCommissionRule>('validate', function (next) {
+  if (this.productIds.length === 0 && this.skus.length === 0) {
+    this.invalidate('productIds', 'Informe ao menos um productId ou SKU');
+  }
+  next();
+});
+
+// Indexing for faster queries
+ProductCommissionRuleSchema.index({ isActive: 1, appliesTo: 1 });
+
+const ProductCommissionRule = mongoose.model<IProductCommissionRule>('ProductCommissionRule', ProductCommissionRuleSchema);
+
+export default ProductCommissionRule;
@@ -0,0 +1,30 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser } from './User';
+import { IReferralLink } from './ReferralLink';
+
+// Interface representing a click on an influencer tracking link.
+export interface IReferralClick extends Document {
+  link: Types.ObjectId | IReferralLink;
+  owner: Types.ObjectId | IUser; // Influencer who owned the link when it was clicked
+  code: string; // Link code at the time of the click
+  referrer?: string; // Referer header sent by the browser (page where the link was clicked)
+  userAgentHash?: string; // SHA-256 of the User-Agent header (the raw value is not stored)
+  clickedAt: Date;
+}
+
+const ReferralClickSchema: Schema<IReferralClick> = new Schema({
+  link: { type: Schema.Types.ObjectId, ref: 'ReferralLink', required: true },
+  owner: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  code: { type: String, required: true },
+  referrer: { type: String },
+  userAgentHash: { type: String },
+  clickedAt: { type: Date, default: Date.now },
+});
+
+// Indexing for faster queries
+ReferralClickSchema.index({ link: 1, clickedAt: -1 });
+ReferralClickSchema.index({ owner: 1, clickedAt: -1 });
+
+const ReferralClick = mongoose.model<IReferralClick>('ReferralClick', ReferralClickSchema);
+
+export default ReferralClick;
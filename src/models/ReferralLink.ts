@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser } from './User';
+import { normalizeCode } from './Coupon';
+
+// Interface representing an influencer tracking link served by the /r/:code redirect.
+export interface IReferralLink extends Document {
+  code: string; // Code as registered (original casing), used in the link and in the ref/UTM parameters
+  normalizedCode: string; // Trimmed, lower-case code used for lookups and uniqueness
+  owner: Types.ObjectId | IUser; // Influencer credited with orders that arrive through this link
+  destinationUrl: string; // Store page the shopper is redirected to
+  campaign?: string; // Campaign tag (e.g. "black-friday-2025")
+  isActive: boolean;
+  clickCount: number; // Clicks logged so far
+  lastClickedAt?: Date;
+  createdBy?: Types.ObjectId | IUser;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReferralLinkSchema: Schema<IReferralLink> = new Schema(
+  {
+    code: { type: String, required: true, trim: true },
+    normalizedCode: { type: String, required: true, unique: true },
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    destinationUrl: { type: String, required: true, trim: true },
+    campaign: { type: String, trim: true },
+    isActive: { type: Boolean, default: true },
+    clickCount: { type: Number, default: 0, min: 0 },
+    lastClickedAt: { type: Date },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt timestamps
+  }
+);
+
+// Keep the normalized code in sync with the code
+ReferralLinkSchema.pre<IReferralLink>('validate', function (next) {
+  if (this.code) {
+    this.normalizedCode = normalizeCode(this.code);
+  }
+  next();
+});
+
+// Indexing for faster queries
+ReferralLinkSchema.index({ owner: 1, isActive: 1 });
+
+const ReferralLink = mongoose.model<IReferralLink>('ReferralLink', ReferralLinkSchema);
+
+export default ReferralLink;
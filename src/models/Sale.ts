@@ -1,45 +1,256 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
 import { IUser } from './User'; // Assuming IUser is exported from User.ts
+import { ICoupon } from './Coupon';
+import { IReferralLink } from './ReferralLink';
+import { CommissionBase } from './CommissionSettings';
+
+// A refund, cancellation or chargeback applied to a sale
+export interface ISaleRefund {
+  externalRefundId?: string; // Refund identifier from the e-commerce platform
+  amount: number; // Value refunded by this event
+  reason: 'refund' | 'cancellation' | 'chargeback';
+  influencerCommissionReversed: number; // Influencer commission removed because of this refund
+  managerCommissionReversed: number; // Manager commission removed because of this refund
+  refundedAt: Date;
+}
+
+// Commission engine rule that changed a commission, kept for auditing
+export interface ISaleCommissionStep {
+  type: 'tiered' | 'percentage' | 'fixed' | 'cap' | 'minimum';
+  name: string;
+  rule?: Types.ObjectId; // CommissionRule, or the CommissionTier applied by the tiered rule
+  amount: number; // Change in the commission (negative when capped)
+  detail: string;
+}
+
+// Where the tiers applied to a commission came from; overrides record the base they multiplied (if any)
+export type SaleTierSourceType = 'global' | 'manager_tier_set' | 'override';
+
+export interface ISaleTierSource {
+  type: SaleTierSourceType;
+  tierVersion?: Types.ObjectId; // Global tier set version (global tiers or a multiplier over them)
+  tierSet?: Types.ObjectId; // Manager tier set (team tiers or a multiplier over them)
+  tierSetRevision?: number; // Entry of the tier set history in effect (1 = creation)
+  override?: Types.ObjectId; // CommissionOverride applied (absent for the legacy User.commissionRate)
+}
+
+// A product line of the order, with the commission calculated for it
+export interface ISaleLineItem {
+  sku?: string;
+  productId?: string;
+  title: string;
+  quantity: number;
+  price: number; // Unit price
+  discount: number; // Total discount applied to the line
+  influencerCommission?: number; // Influencer commission calculated for the line
+  managerCommission?: number; // Manager commission calculated for the line
+  influencerRule?: Types.ObjectId; // Product rule applied to the influencer commission (absent: tier rate)
+  managerRule?: Types.ObjectId; // Product rule applied to the manager commission (absent: tier rate)
+}
+
+// Order lifecycle: created awaiting payment (boleto/PIX), paid, fulfilled, or fully refunded/cancelled
+export type SaleStatus = 'pending' | 'paid' | 'fulfilled' | 'refunded' | 'cancelled';
+
+// An entry of the order history (status changes and refunds)
+export interface ISaleStatusEvent {
+  status: SaleStatus; // Status of the sale after the event
+  source: 'webhook' | 'refund' | 'import'; // Order webhook, refund/cancellation applied to the sale or CSV import
+  detail?: string; // Event description (webhook topic, refund reason...)
+  at: Date; // When the event happened on the platform
+}
+
+// Whether the sale was matched to an influencer (unattributed: coupon matched no user)
+export type SaleAttributionStatus = 'attributed' | 'unattributed';
+// How the influencer was found: coupon code, tracking link, platform affiliate id or manual assignment
+export type SaleAttributionSource = 'coupon' | 'referral_link' | 'affiliate' | 'manual';
 
 // Interface representing a sale document in MongoDB.
 export interface ISale extends Document {
-  influencer: Types.ObjectId | IUser; // Reference to the influencer who made the sale
+  influencer?: Types.ObjectId | IUser; // Reference to the influencer who made the sale (absent while unattributed)
   manager?: Types.ObjectId | IUser; // Reference to the influencer's manager at the time of sale
-  orderId: string; // Unique identifier from the e-commerce platform
-  saleValue: number; // The total value of the sale
+  platform: string; // Platform the order came from (shopify, cartpanda, hotmart... or manual)
+  store: string; // Store within the platform (shop domain, store id or alias); empty when the platform has a single account
+  orderId: string; // Order identifier on the platform, unique per platform and store
+  status: SaleStatus; // Current stage of the order; commission becomes payable at the configured stage
+  statusHistory: ISaleStatusEvent[]; // Every status change and refund received for the order
+  paidAt?: Date; // When the order was paid
+  fulfilledAt?: Date; // When the order was fulfilled
+  saleValue: number; // The total value of the sale in BRL (gross: products, shipping and taxes)
+  currency: string; // Currency the order was placed in (ISO 4217)
+  originalSaleValue?: number; // Total value in the original currency
+  exchangeRate: number; // BRL value of 1 unit of the original currency used in the conversion
+  exchangeRateDate?: Date; // Day of the exchange rate used
+  // Values below (and line item prices) are converted to BRL
+  discountValue?: number; // Discounts applied to the order
+  shippingValue?: number; // Shipping charged
+  taxValue?: number; // Taxes charged
+  netValue?: number; // Net merchandise value: products after discounts, without shipping and taxes
+  commissionBase?: CommissionBase; // Base used when the influencer commission was calculated
+  lineItems: ISaleLineItem[]; // Products of the order (empty for sales without line details)
   commissionCalculated: boolean; // Flag to indicate if commission has been processed
   influencerCommissionEarned?: number; // Amount of commission earned by the influencer
   managerCommissionEarned?: number; // Amount of commission earned by the manager
+  influencerNewCustomerBonus?: number; // Part of the influencer commission that is the tier's new-customer bonus
+  managerNewCustomerBonus?: number; // Part of the manager commission that is the tier's new-customer bonus
+  influencerCommissionSteps: ISaleCommissionStep[]; // Engine rules that fired for the influencer commission
+  managerCommissionSteps: ISaleCommissionStep[]; // Engine rules that fired for the manager commission
+  influencerTierVersion?: Types.ObjectId; // Global tier set version applied to the influencer commission (empty when other tiers replaced them)
+  managerTierVersion?: Types.ObjectId; // Global tier set version applied to the manager commission (empty when other tiers replaced them)
+  influencerTierSource?: ISaleTierSource; // Tiers actually applied to the influencer commission
+  managerTierSource?: ISaleTierSource; // Tiers actually applied to the manager commission
+  commissionSettledAt?: Date; // When period volume tiers were settled for the sale (period closed)
+  customerHash?: string; // SHA-256 of the customer's e-mail (or phone); the raw values are not stored
+  isNewCustomer?: boolean; // First purchase of the customer (absent when the order had no e-mail or phone)
   couponCodeUsed?: string; // Coupon code used for the sale
+  coupon?: Types.ObjectId | ICoupon; // Coupon that attributed the sale
   transactionDate: Date; // Date and time of the transaction
   processedViaWebhook: boolean; // Indicates if the sale came via webhook
+  importedAt?: Date; // When the sale was backfilled from a platform CSV export
+  attributionStatus: SaleAttributionStatus; // Unattributed sales wait in the inbox for manual assignment
+  rawCouponCodes: string[]; // Coupon codes exactly as received from the platform
+  affiliateId?: string; // Affiliate id received from the platform (infoproduct sales)
+  referralCode?: string; // Tracking link code received with the order (ref/UTM parameters)
+  referralLink?: Types.ObjectId | IReferralLink; // Tracking link that matched the code
+  attributionSource?: SaleAttributionSource;
+  attributedBy?: Types.ObjectId | IUser; // Admin or manager who assigned an unattributed sale
+  attributedAt?: Date; // When the sale was manually assigned
+  refundStatus: 'none' | 'partial' | 'full'; // Whether the sale was (partially) refunded
+  refundedAmount: number; // Total value refunded so far
+  refunds: ISaleRefund[]; // History of refunds applied to this sale
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Commission engine step (shared by the influencer and manager commissions)
+const CommissionStepSchema = new Schema(
+  {
+    type: { type: String, enum: ['tiered', 'percentage', 'fixed', 'cap', 'minimum'], required: true },
+    name: { type: String, required: true },
+    rule: { type: Schema.Types.ObjectId },
+    amount: { type: Number, required: true },
+    detail: { type: String, default: '' },
+  },
+  { _id: false }
+);
+
+const TierSourceSchema = new Schema(
+  {
+    type: { type: String, enum: ['global', 'manager_tier_set', 'override'], required: true },
+    tierVersion: { type: Schema.Types.ObjectId, ref: 'CommissionTierVersion' },
+    tierSet: { type: Schema.Types.ObjectId, ref: 'ManagerTierSet' },
+    tierSetRevision: { type: Number },
+    override: { type: Schema.Types.ObjectId, ref: 'CommissionOverride' },
+  },
+  { _id: false }
+);
+
 const SaleSchema: Schema<ISale> = new Schema(
   {
-    influencer: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    influencer: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: function (this: ISale) { return this.attributionStatus !== 'unattributed'; }
+    },
     manager: { type: Schema.Types.ObjectId, ref: 'User' }, // Manager associated at the time of sale
-    orderId: { type: String, required: true, unique: true },
+    platform: { type: String, required: true, default: 'manual' },
+    store: { type: String, default: '', trim: true, lowercase: true },
+    orderId: { type: String, required: true },
+    status: { type: String, enum: ['pending', 'paid', 'fulfilled', 'refunded', 'cancelled'], default: 'paid' },
+    statusHistory: [{
+      _id: false,
+      status: { type: String, enum: ['pending', 'paid', 'fulfilled', 'refunded', 'cancelled'], required: true },
+      source: { type: String, enum: ['webhook', 'refund', 'import'], required: true },
+      detail: { type: String },
+      at: { type: Date, default: Date.now },
+    }],
+    paidAt: { type: Date },
+    fulfilledAt: { type: Date },
     saleValue: { type: Number, required: true, min: 0 },
+    currency: { type: String, default: 'BRL', uppercase: true },
+    originalSaleValue: { type: Number, min: 0 },
+    exchangeRate: { type: Number, default: 1, min: 0 },
+    exchangeRateDate: { type: Date },
+    discountValue: { type: Number, min: 0 },
+    shippingValue: { type: Number, min: 0 },
+    taxValue: { type: Number, min: 0 },
+    netValue: { type: Number, min: 0 },
+    commissionBase: { type: String, enum: ['gross', 'net'] },
+    lineItems: [{
+      sku: { type: String },
+      productId: { type: String },
+      title: { type: String, default: '' },
+      quantity: { type: Number, default: 1, min: 0 },
+      price: { type: Number, default: 0 },
+      discount: { type: Number, default: 0, min: 0 },
+      influencerCommission: { type: Number },
+      managerCommission: { type: Number },
+      influencerRule: { type: Schema.Types.ObjectId, ref: 'ProductCommissionRule' },
+      managerRule: { type: Schema.Types.ObjectId, ref: 'ProductCommissionRule' },
+    }],
     commissionCalculated: { type: Boolean, default: false },
     influencerCommissionEarned: { type: Number },
     managerCommissionEarned: { type: Number },
+    influencerNewCustomerBonus: { type: Number },
+    managerNewCustomerBonus: { type: Number },
+    influencerCommissionSteps: [CommissionStepSchema],
+    managerCommissionSteps: [CommissionStepSchema],
+    influencerTierVersion: { type: Schema.Types.ObjectId, ref: 'CommissionTierVersion' },
+    managerTierVersion: { type: Schema.Types.ObjectId, ref: 'CommissionTierVersion' },
+    influencerTierSource: TierSourceSchema,
+    managerTierSource: TierSourceSchema,
+    commissionSettledAt: { type: Date },
+    customerHash: { type: String },
+    isNewCustomer: { type: Boolean },
     couponCodeUsed: { type: String },
+    coupon: { type: Schema.Types.ObjectId, ref: 'Coupon' },
     transactionDate: { type: Date, default: Date.now, required: true },
     processedViaWebhook: { type: Boolean, default: false },
+    importedAt: { type: Date },
+    attributionStatus: { type: String, enum: ['attributed', 'unattributed'], default: 'attributed' },
+    rawCouponCodes: [{ type: String }],
+    affiliateId: { type: String },
+    referralCode: { type: String },
+    referralLink: { type: Schema.Types.ObjectId, ref: 'ReferralLink' },
+    attributionSource: { type: String, enum: ['coupon', 'referral_link', 'affiliate', 'manual'] },
+    attributedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    attributedAt: { type: Date },
+    refundStatus: { type: String, enum: ['none', 'partial', 'full'], default: 'none' },
+    refundedAmount: { type: Number, default: 0, min: 0 },
+    refunds: [{
+      externalRefundId: { type: String },
+      amount: { type: Number, required: true, min: 0 },
+      reason: { type: String, enum: ['refund', 'cancellation', 'chargeback'], required: true },
+      influencerCommissionReversed: { type: Number, default: 0 },
+      managerCommissionReversed: { type: Number, default: 0 },
+      refundedAt: { type: Date, default: Date.now },
+    }],
   },
   {
     timestamps: true, // Adds createdAt and updatedAt timestamps
   }
 );
 
+// The same order number can exist on different platforms and stores
+SaleSchema.index({ platform: 1, store: 1, orderId: 1 }, { unique: true });
+
 // Indexing for faster queries
+SaleSchema.index({ orderId: 1 });
 SaleSchema.index({ influencer: 1, transactionDate: -1 });
 SaleSchema.index({ manager: 1, transactionDate: -1 });
 SaleSchema.index({ couponCodeUsed: 1 });
 SaleSchema.index({ commissionCalculated: 1 });
+SaleSchema.index({ attributionStatus: 1, transactionDate: -1 });
+SaleSchema.index({ status: 1, transactionDate: -1 });
+SaleSchema.index({ customerHash: 1, transactionDate: 1 });
+
+/**
+ * Query that identifies the sale of a platform order (platform, store and order id)
+ */
+export const saleOrderKey = (platform: string, store: string | undefined, orderId: string) => ({
+  platform,
+  store: (store || '').trim().toLowerCase(),
+  orderId
+});
 
 const Sale = mongoose.model<ISale>('Sale', SaleSchema);
 
@@ -8,6 +8,12 @@ export enum UserRole {
   INFLUENCER = 'influencer',
 }
 
+// Affiliate identifier of the influencer on an infoproduct platform (Hotmart, Kiwify, Eduzz)
+export interface IAffiliateId {
+  platform: string;
+  affiliateId: string;
+}
+
 // Interface representing a document in MongoDB.
 export interface IUser extends Document {
   name: string;
@@ -19,7 +25,8 @@ export interface IUser extends Document {
   whatsappNumber?: string; // For WhatsApp notifications
   tokenWhats?: string; // For UAZapi notifications
   couponCode?: string; // Unique coupon code for influencers
-  commissionRate?: number; // Base commission rate (can be overridden by commission tiers)
+  affiliateIds: IAffiliateId[]; // Affiliate ids used to attribute infoproduct sales
+  commissionRate?: number; // Legacy fixed rate: used instead of the global tiers when above 0 and no CommissionOverride is in effect
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -39,6 +46,8 @@ export interface IUser extends Document {
     report?: string;
     reminder?: string;
     newSale?: string;
+    pendingSale?: string; // Order created, awaiting payment
+    saleConfirmed?: string; // Pending order that was paid
   };
   instagram?: string; // <-- Add instagram field
 }
@@ -54,6 +63,11 @@ const UserSchema: Schema<IUser> = new Schema(
     whatsappNumber: { type: String },
     tokenWhats: { type: String }, // <-- Adicionar campo para token UAZapi
     couponCode: { type: String, unique: true, sparse: true }, // Unique if exists, allows multiple nulls
+    affiliateIds: [{
+      _id: false,
+      platform: { type: String, required: true },
+      affiliateId: { type: String, required: true, trim: true },
+    }],
     commissionRate: { type: Number, default: 0 }, // Default rate
     // Adicionando campo para configurações de notificação
     notifications: {
@@ -72,6 +86,8 @@ const UserSchema: Schema<IUser> = new Schema(
       report: { type: String },
       reminder: { type: String },
       newSale: { type: String },
+      pendingSale: { type: String },
+      saleConfirmed: { type: String },
     },
     instagram: { type: String } // <-- Add instagram field to schema
   },
@@ -110,6 +126,9 @@ UserSchema.methods.comparePassword = async function (candidatePassword: string):
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Lookup of the influencer by platform affiliate id (uniqueness is checked by affiliateService)
+UserSchema.index({ 'affiliateIds.affiliateId': 1 });
+
 const User = mongoose.model<IUser>('User', UserSchema);
 
 export default User; 
\ No newline at end of file
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { ISale } from './Sale';
+
+export type WebhookEventStatus = 'received' | 'queued' | 'processed' | 'ignored' | 'failed' | 'rejected';
+
+// Interface representing a webhook delivery as received from the platform.
+export interface IWebhookEvent extends Document {
+  platform: string; // Platform route that received the delivery (shopify, cartpanda, generic...)
+  topic?: string; // Event topic (X-Shopify-Topic / X-WC-Webhook-Topic header or payload "event")
+  store?: string; // Store identified by the delivery headers (Shopify shop domain, WooCommerce source host)
+  headers: Record<string, unknown>; // Request headers as received
+  rawBody?: string; // Exact body received (used for replays)
+  payload?: unknown; // Parsed body, kept for querying
+  status: WebhookEventStatus; // Processing status of the last attempt
+  authenticated?: boolean; // Set once the delivery passed the platform's signature/token check (absent on events stored before the flag)
+  outcome?: string; // Detailed result of the last attempt (created, duplicate, no_coupon, applied...)
+  orderId?: string; // External order id extracted from the payload
+  sale?: Types.ObjectId | ISale; // Sale created or affected by the event
+  error?: string; // Error message of the last failed attempt
+  attempts: number; // How many times the event was processed (original delivery + replays)
+  lastProcessedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookEventSchema: Schema<IWebhookEvent> = new Schema(
+  {
+    platform: { type: String, required: true },
+    topic: { type: String },
+    store: { type: String },
+    headers: { type: Schema.Types.Mixed, default: {} },
+    rawBody: { type: String },
+    payload: { type: Schema.Types.Mixed },
+    status: { type: String, enum: ['received', 'queued', 'processed', 'ignored', 'failed', 'rejected'], default: 'received' },
+    authenticated: { type: Boolean },
+    outcome: { type: String },
+    orderId: { type: String },
+    sale: { type: Schema.Types.ObjectId, ref: 'Sale' },
+    error: { type: String },
+    attempts: { type: Number, default: 0 },
+    lastProcessedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexing for faster lookups
+WebhookEventSchema.index({ platform: 1, createdAt: -1 });
+WebhookEventSchema.index({ status: 1, createdAt: -1 });
+WebhookEventSchema.index({ orderId: 1 });
+
+const WebhookEvent = mongoose.model<IWebhookEvent>('WebhookEvent', WebhookEventSchema);
+
+export default WebhookEvent;
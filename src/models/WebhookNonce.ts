@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Interface representing a webhook delivery nonce already seen (replay protection).
+export interface IWebhookNonce extends Document {
+  platform: string; // Platform that sent the delivery
+  nonce: string; // Delivery identifier (or signature) used only once
+  deliveredAt: Date; // Timestamp declared by the platform for the delivery
+  expiresAt: Date; // After this date the nonce is purged (the timestamp check rejects it anyway)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookNonceSchema: Schema<IWebhookNonce> = new Schema(
+  {
+    platform: { type: String, required: true },
+    nonce: { type: String, required: true },
+    deliveredAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Each nonce can be stored only once per platform
+WebhookNonceSchema.index({ platform: 1, nonce: 1 }, { unique: true });
+// TTL index: MongoDB removes the document once expiresAt is reached
+WebhookNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const WebhookNonce = mongoose.model<IWebhookNonce>('WebhookNonce', WebhookNonceSchema);
+
+export default WebhookNonce;
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Interface representing a rejected (unauthenticated) webhook delivery.
+export interface IWebhookRejection extends Document {
+  platform: string; // Platform the delivery claimed to come from (shopify, cartpanda...)
+  reason: string; // Why the delivery was rejected (missing signature, mismatch, unknown store...)
+  storeDomain?: string; // Store identifier sent by the platform, if any
+  ip?: string; // Remote address of the caller
+  path: string; // Route that received the delivery
+  headers: Record<string, unknown>; // Request headers, kept for investigation
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookRejectionSchema: Schema<IWebhookRejection> = new Schema(
+  {
+    platform: { type: String, required: true },
+    reason: { type: String, required: true },
+    storeDomain: { type: String },
+    ip: { type: String },
+    path: { type: String, required: true },
+    headers: { type: Schema.Types.Mixed, default: {} },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexing for faster lookups
+WebhookRejectionSchema.index({ platform: 1, createdAt: -1 });
+
+const WebhookRejection = mongoose.model<IWebhookRejection>('WebhookRejection', WebhookRejectionSchema);
+
+export default WebhookRejection;
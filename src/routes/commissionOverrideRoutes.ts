@@ -0,0 +1,24 @@
+import express from 'express';
+import {
+  getCommissionOverrides,
+  createCommissionOverride,
+  updateCommissionOverride,
+  deleteCommissionOverride
+} from '../controllers/commissionOverrideController';
+import { protect, manager } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+// Todas as rotas exigem usuário autenticado com papel de gerente ou admin
+router.use(protect);
+router.use(manager);
+
+router.route('/')
+  .get(getCommissionOverrides) // GET /api/commission-overrides
+  .post(createCommissionOverride); // POST /api/commission-overrides
+
+router.route('/:id')
+  .put(updateCommissionOverride) // PUT /api/commission-overrides/:id
+  .delete(deleteCommissionOverride); // DELETE /api/commission-overrides/:id
+
+export default router;
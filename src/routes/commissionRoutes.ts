@@ -2,16 +2,33 @@ import express from 'express';
 import { 
   createCommissionTier,
   getCommissionTiers,
+  getCommissionTierVersions,
   updateCommissionTier,
   deleteCommissionTier,
   saveCommissionTiersBulk,
   getSales,
   processCommissions,
   createCommissionPayments,
+  createVolumeSettlement,
   getCommissionPayments,
   updatePaymentStatus,
+  getCommissionAdjustments,
+  getCommissionSettingsHandler,
+  updateCommissionSettings,
   checkCouponCodeAvailability
 } from '../controllers/commissionController';
+import {
+  getProductCommissionRules,
+  createProductCommissionRule,
+  updateProductCommissionRule,
+  deleteProductCommissionRule
+} from '../controllers/productRuleController';
+import {
+  getCommissionRules,
+  createCommissionRule,
+  updateCommissionRule,
+  deleteCommissionRule
+} from '../controllers/commissionRuleController';
 import { protect, authorize } from '../middlewares/authMiddleware';
 import { UserRole } from '../models/User';
 
@@ -29,10 +46,32 @@ router.route('/tiers')
   .post(authorize(UserRole.ADMIN) as express.RequestHandler, createCommissionTier)
   .get(authorize(UserRole.ADMIN, UserRole.MANAGER) as express.RequestHandler, getCommissionTiers);
 
+// Versões das faixas de comissão (histórico com as datas de vigência)
+router.route('/tier-versions')
+  .get(authorize(UserRole.ADMIN, UserRole.MANAGER) as express.RequestHandler, getCommissionTierVersions);
+
 router.route('/tiers/:id')
   .put(authorize(UserRole.ADMIN) as express.RequestHandler, updateCommissionTier)
   .delete(authorize(UserRole.ADMIN) as express.RequestHandler, deleteCommissionTier);
 
+// Regras de comissão por produto/coleção (apenas admin)
+router.route('/product-rules')
+  .get(authorize(UserRole.ADMIN) as express.RequestHandler, getProductCommissionRules)
+  .post(authorize(UserRole.ADMIN) as express.RequestHandler, createProductCommissionRule);
+
+router.route('/product-rules/:id')
+  .put(authorize(UserRole.ADMIN) as express.RequestHandler, updateProductCommissionRule)
+  .delete(authorize(UserRole.ADMIN) as express.RequestHandler, deleteProductCommissionRule);
+
+// Regras de comissão por venda: percentual extra, valor fixo, teto e mínimo (apenas admin)
+router.route('/rules')
+  .get(authorize(UserRole.ADMIN) as express.RequestHandler, getCommissionRules)
+  .post(authorize(UserRole.ADMIN) as express.RequestHandler, createCommissionRule);
+
+router.route('/rules/:id')
+  .put(authorize(UserRole.ADMIN) as express.RequestHandler, updateCommissionRule)
+  .delete(authorize(UserRole.ADMIN) as express.RequestHandler, deleteCommissionRule);
+
 // Rotas para vendas
 router.route('/sales')
   .get(getSales); // Acesso controlado no controller baseado no papel do usuário
@@ -44,6 +83,10 @@ router.route('/process-pending')
 router.route('/generate-payments')
   .post(authorize(UserRole.ADMIN) as express.RequestHandler, createCommissionPayments);
 
+// Fechamento das faixas por volume do período (apenas admin)
+router.route('/volume-settlements')
+  .post(authorize(UserRole.ADMIN) as express.RequestHandler, createVolumeSettlement);
+
 // Rotas para pagamentos
 router.route('/payments')
   .get(getCommissionPayments); // Acesso controlado no controller
@@ -51,6 +94,15 @@ router.route('/payments')
 router.route('/payments/:id')
   .put(authorize(UserRole.ADMIN) as express.RequestHandler, updatePaymentStatus);
 
+// Ajustes de comissão (estornos carregados para o próximo pagamento)
+router.route('/adjustments')
+  .get(authorize(UserRole.ADMIN) as express.RequestHandler, getCommissionAdjustments);
+
+// Configurações de comissão (base de cálculo: total ou valor líquido)
+router.route('/settings')
+  .get(authorize(UserRole.ADMIN) as express.RequestHandler, getCommissionSettingsHandler)
+  .put(authorize(UserRole.ADMIN) as express.RequestHandler, updateCommissionSettings);
+
 // Rota para verificar disponibilidade de cupom
 router.get('/check', checkCouponCodeAvailability);
 
@@ -0,0 +1,17 @@
+import express from 'express';
+import { getCoupons, createCoupon, updateCoupon } from '../controllers/couponController';
+import { protect, manager } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+// Todas as rotas exigem usuário autenticado com papel de gerente ou admin
+router.use(protect);
+router.use(manager);
+
+router.route('/')
+  .get(getCoupons) // GET /api/coupons
+  .post(createCoupon); // POST /api/coupons
+
+router.put('/:id', updateCoupon); // PUT /api/coupons/:id
+
+export default router;
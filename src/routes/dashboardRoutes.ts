@@ -25,13 +25,14 @@ const getAdminDashboardHandler = async (req: AuthRequest, res: Response): Promis
     const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
     const startOfPrevMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
 
-    // Total de vendas do mês atual
+    // Total de vendas do mês atual (vendas não atribuídas ficam de fora até serem atribuídas)
     const monthlySales = await Sale.aggregate([
-      { $match: { createdAt: { $gte: startOfMonth } } },
+      { $match: { createdAt: { $gte: startOfMonth }, attributionStatus: { $ne: 'unattributed' } } },
       { $group: {
           _id: null,
           count: { $sum: 1 },
           totalValue: { $sum: '$saleValue' },
+          totalNetValue: { $sum: { $ifNull: ['$netValue', '$saleValue'] } },
           totalInfluencerCommission: { $sum: '$influencerCommissionEarned' },
           totalManagerCommission: { $sum: '$managerCommissionEarned' }
         }
@@ -44,13 +45,15 @@ const getAdminDashboardHandler = async (req: AuthRequest, res: Response): Promis
           createdAt: { 
             $gte: startOfPrevMonth,
             $lt: startOfMonth 
-          } 
+          },
+          attributionStatus: { $ne: 'unattributed' }
         } 
       },
       { $group: {
           _id: null,
           count: { $sum: 1 },
-          totalValue: { $sum: '$saleValue' }
+          totalValue: { $sum: '$saleValue' },
+          totalNetValue: { $sum: { $ifNull: ['$netValue', '$saleValue'] } }
         }
       }
     ]);
@@ -77,8 +80,8 @@ const getAdminDashboardHandler = async (req: AuthRequest, res: Response): Promis
     ]);
 
     // Preparar dados para retorno
-    const currentMonthData = monthlySales[0] || { count: 0, totalValue: 0, totalInfluencerCommission: 0 };
-    const prevMonthData = prevMonthSales[0] || { count: 0, totalValue: 0 };
+    const currentMonthData = monthlySales[0] || { count: 0, totalValue: 0, totalNetValue: 0, totalInfluencerCommission: 0 };
+    const prevMonthData = prevMonthSales[0] || { count: 0, totalValue: 0, totalNetValue: 0 };
     
     // Calcular variações percentuais
     const salesGrowth = prevMonthData.count > 0 
@@ -105,7 +108,12 @@ const getAdminDashboardHandler = async (req: AuthRequest, res: Response): Promis
       revenue: {
         current: currentMonthData.totalValue,
         previous: prevMonthData.totalValue,
-        growth: revenueGrowth
+        growth: revenueGrowth,
+        // Valor líquido da mercadoria (sem frete e impostos)
+        net: {
+          current: currentMonthData.totalNetValue,
+          previous: prevMonthData.totalNetValue
+        }
       },
       commissions: {
         influencer: currentMonthData.totalInfluencerCommission || 0,
@@ -163,6 +171,7 @@ const getManagerDashboardHandler = async (req: AuthRequest, res: Response): Prom
           _id: null,
           count: { $sum: 1 },
           totalValue: { $sum: '$saleValue' },
+          totalNetValue: { $sum: { $ifNull: ['$netValue', '$saleValue'] } },
           totalManagerCommission: { $sum: '$managerCommissionEarned' }
         }
       }
@@ -184,6 +193,7 @@ const getManagerDashboardHandler = async (req: AuthRequest, res: Response): Prom
           _id: null,
           count: { $sum: 1 },
           totalValue: { $sum: '$saleValue' },
+          totalNetValue: { $sum: { $ifNull: ['$netValue', '$saleValue'] } },
           totalManagerCommission: { $sum: '$managerCommissionEarned' }
         }
       }
@@ -219,7 +229,8 @@ const getManagerDashboardHandler = async (req: AuthRequest, res: Response): Prom
           _id: '$influencer',
           sales: { $sum: 1 },
           totalValue: { $sum: '$saleValue' },
-          totalCommission: { $sum: '$influencerCommissionEarned' }
+          totalCommission: { $sum: '$influencerCommissionEarned' },
+          newCustomers: { $sum: { $cond: [{ $eq: ['$isNewCustomer', true] }, 1, 0] } }
         }
       },
       { $sort: { totalValue: -1 } },
@@ -241,13 +252,14 @@ const getManagerDashboardHandler = async (req: AuthRequest, res: Response): Prom
           email: "$influencer.email",
           totalSales: 1,
           totalCommission: 1,
+          newCustomers: 1,
         }
       }
     ]);
 
     // Preparar dados para retorno
-    const currentMonthData = monthlySales[0] || { count: 0, totalValue: 0, totalManagerCommission: 0 };
-    const prevMonthData = prevMonthSales[0] || { count: 0, totalValue: 0, totalManagerCommission: 0 };
+    const currentMonthData = monthlySales[0] || { count: 0, totalValue: 0, totalNetValue: 0, totalManagerCommission: 0 };
+    const prevMonthData = prevMonthSales[0] || { count: 0, totalValue: 0, totalNetValue: 0, totalManagerCommission: 0 };
     
     // Calcular variações percentuais
     const salesGrowth = prevMonthData.count > 0 
@@ -273,7 +285,12 @@ const getManagerDashboardHandler = async (req: AuthRequest, res: Response): Prom
       revenue: {
         current: currentMonthData.totalValue,
         previous: prevMonthData.totalValue,
-        growth: revenueGrowth
+        growth: revenueGrowth,
+        // Valor líquido da mercadoria (sem frete e impostos)
+        net: {
+          current: currentMonthData.totalNetValue,
+          previous: prevMonthData.totalNetValue
+        }
       },
       commissions: {
         current: currentMonthData.totalManagerCommission || 0,
@@ -323,7 +340,9 @@ const getInfluencerDashboardHandler = async (req: AuthRequest, res: Response): P
           _id: null,
           count: { $sum: 1 },
           totalValue: { $sum: '$saleValue' },
-          totalInfluencerCommission: { $sum: '$influencerCommissionEarned' }
+          totalNetValue: { $sum: { $ifNull: ['$netValue', '$saleValue'] } },
+          totalInfluencerCommission: { $sum: '$influencerCommissionEarned' },
+          newCustomers: { $sum: { $cond: [{ $eq: ['$isNewCustomer', true] }, 1, 0] } }
         }
       }
     ]);
@@ -344,7 +363,9 @@ const getInfluencerDashboardHandler = async (req: AuthRequest, res: Response): P
           _id: null,
           count: { $sum: 1 },
           totalValue: { $sum: '$saleValue' },
-          totalInfluencerCommission: { $sum: '$influencerCommissionEarned' }
+          totalNetValue: { $sum: { $ifNull: ['$netValue', '$saleValue'] } },
+          totalInfluencerCommission: { $sum: '$influencerCommissionEarned' },
+          newCustomers: { $sum: { $cond: [{ $eq: ['$isNewCustomer', true] }, 1, 0] } }
         }
       }
     ]);
@@ -376,8 +397,8 @@ const getInfluencerDashboardHandler = async (req: AuthRequest, res: Response): P
       .lean();
 
     // Preparar dados para retorno
-    const currentMonthData = monthlySales[0] || { count: 0, totalValue: 0, totalInfluencerCommission: 0 };
-    const prevMonthData = prevMonthSales[0] || { count: 0, totalValue: 0, totalInfluencerCommission: 0 };
+    const currentMonthData = monthlySales[0] || { count: 0, totalValue: 0, totalNetValue: 0, totalInfluencerCommission: 0 };
+    const prevMonthData = prevMonthSales[0] || { count: 0, totalValue: 0, totalNetValue: 0, totalInfluencerCommission: 0 };
     
     // Calcular variações percentuais
     const salesGrowth = prevMonthData.count > 0 
@@ -399,6 +420,9 @@ const getInfluencerDashboardHandler = async (req: AuthRequest, res: Response): P
         previous: prevMonthData.count,
         growth: salesGrowth,
         value: currentMonthData.totalValue,
+        netValue: currentMonthData.totalNetValue,
+        newCustomers: currentMonthData.newCustomers || 0,
+        previousNewCustomers: prevMonthData.newCustomers || 0,
         lastSale: {
           id: lastSale?._id,
           date: lastSale?.createdAt,
@@ -0,0 +1,28 @@
+import express from 'express';
+import {
+  getExchangeRates,
+  saveExchangeRate,
+  updateExchangeRate,
+  deleteExchangeRate,
+  importExchangeRates
+} from '../controllers/exchangeRateController';
+import { protect, admin } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+// Todas as rotas exigem usuário admin
+router.use(protect);
+router.use(admin);
+
+router.route('/')
+  .get(getExchangeRates) // GET /api/exchange-rates
+  .post(saveExchangeRate); // POST /api/exchange-rates
+
+// Carga em lote via CSV (corpo text/csv)
+router.post('/import', express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }), importExchangeRates);
+
+router.route('/:id')
+  .put(updateExchangeRate) // PUT /api/exchange-rates/:id
+  .delete(deleteExchangeRate); // DELETE /api/exchange-rates/:id
+
+export default router;
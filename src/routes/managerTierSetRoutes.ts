@@ -0,0 +1,27 @@
+import express from 'express';
+import {
+  getManagerTierSets,
+  createManagerTierSet,
+  updateManagerTierSet,
+  activateManagerTierSet,
+  deactivateManagerTierSet
+} from '../controllers/managerTierSetController';
+import { protect, manager } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+// Todas as rotas exigem usuário autenticado com papel de gerente ou admin
+router.use(protect);
+router.use(manager);
+
+router.route('/')
+  .get(getManagerTierSets) // GET /api/manager-tier-sets
+  .post(createManagerTierSet); // POST /api/manager-tier-sets
+
+router.route('/:id')
+  .put(updateManagerTierSet) // PUT /api/manager-tier-sets/:id
+  .delete(deactivateManagerTierSet); // DELETE /api/manager-tier-sets/:id
+
+router.post('/:id/activate', activateManagerTierSet); // POST /api/manager-tier-sets/:id/activate
+
+export default router;
@@ -0,0 +1,27 @@
+import express from 'express';
+import {
+  getMyReferralLinks,
+  getReferralLinks,
+  createReferralLink,
+  updateReferralLink,
+  getReferralLinkClicks
+} from '../controllers/referralLinkController';
+import { protect, manager, influencer } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+// Todas as rotas exigem usuário autenticado
+router.use(protect);
+
+// Links do próprio influenciador
+router.get('/mine', influencer, getMyReferralLinks); // GET /api/referral-links/mine
+
+// Demais rotas: gerente ou admin
+router.route('/')
+  .get(manager, getReferralLinks) // GET /api/referral-links
+  .post(manager, createReferralLink); // POST /api/referral-links
+
+router.put('/:id', manager, updateReferralLink); // PUT /api/referral-links/:id
+router.get('/:id/clicks', manager, getReferralLinkClicks); // GET /api/referral-links/:id/clicks
+
+export default router;
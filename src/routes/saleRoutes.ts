@@ -0,0 +1,28 @@
+import express from 'express';
+import {
+  getUnattributedSales,
+  getUnattributedSaleSuggestions,
+  assignUnattributedSale,
+  importSales,
+  reconcileSales
+} from '../controllers/saleController';
+import { protect, manager, admin } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+// Todas as rotas exigem usuário autenticado com papel de gerente ou admin
+router.use(protect);
+router.use(manager);
+
+// Caixa de vendas não atribuídas (cupom sem influenciador)
+router.get('/unattributed', getUnattributedSales);
+router.get('/unattributed/:id/suggestions', getUnattributedSaleSuggestions);
+router.post('/unattributed/:id/assign', assignUnattributedSale);
+
+// Importação de pedidos históricos (corpo text/csv), apenas admin
+router.post('/import', admin, express.text({ type: ['text/csv', 'text/plain'], limit: '20mb' }), importSales);
+
+// Reconciliação com os pedidos da API da loja, apenas admin
+router.post('/reconcile', admin, reconcileSales);
+
+export default router;
@@ -1,14 +1,83 @@
 import express from 'express';
-import { processSaleWebhook, processShopifyWebhook, processCartPandaWebhook } from '../controllers/webhookController';
-import { verifyWebhookToken } from '../middlewares/webhookAuthMiddleware';
+import {
+  processSaleWebhook,
+  processShopifyWebhook,
+  processCartPandaWebhook,
+  processWooCommerceWebhook,
+  processNuvemshopWebhook,
+  processYampiWebhook,
+  processHotmartWebhook,
+  processKiwifyWebhook,
+  processEduzzWebhook,
+  getWebhookRejections,
+  getWebhookEvents,
+  getWebhookEventById,
+  replayWebhookEvent,
+  replayWebhookEventsInRange,
+  simulateWebhook,
+  getIngestionJobs,
+  retryIngestionJob
+} from '../controllers/webhookController';
+import { protect, admin } from '../middlewares/authMiddleware';
+import {
+  verifyWebhookToken,
+  verifyShopifyHmac,
+  verifyCartPandaSignature,
+  verifyWooCommerceSignature,
+  verifyNuvemshopSignature,
+  verifyYampiSignature,
+  verifyHotmartHottok,
+  verifyKiwifySignature,
+  verifyEduzzApiKey,
+  RawBodyRequest
+} from '../middlewares/webhookAuthMiddleware';
+import { captureWebhookEvent } from '../middlewares/webhookEventMiddleware';
 
 const router = express.Router();
 
+// Postbacks enviados como formulário (Eduzz), mantendo o corpo bruto como no express.json do servidor
+const parseFormBody = express.urlencoded({
+  extended: true,
+  verify: (req, res, buf) => {
+    (req as RawBodyRequest).rawBody = buf;
+  }
+});
+
+// Toda entrega é gravada (captureWebhookEvent) antes da autenticação
+
 // Rota para processar webhook genérico de venda (com autenticação)
-router.post('/sale', verifyWebhookToken as express.RequestHandler, processSaleWebhook);
+router.post('/sale', captureWebhookEvent('generic'), verifyWebhookToken as express.RequestHandler, processSaleWebhook);
+
+// Shopify: assinatura HMAC verificada com o segredo da loja
+router.post('/shopify', captureWebhookEvent('shopify'), verifyShopifyHmac as express.RequestHandler, processShopifyWebhook);
+
+// CartPanda: assinatura com timestamp e proteção contra replay
+router.post('/cartpanda', captureWebhookEvent('cartpanda'), verifyCartPandaSignature as express.RequestHandler, processCartPandaWebhook);
+
+// WooCommerce, Nuvemshop e Yampi: assinatura HMAC do corpo com o segredo da plataforma
+router.post('/woocommerce', captureWebhookEvent('woocommerce'), verifyWooCommerceSignature as express.RequestHandler, processWooCommerceWebhook);
+router.post('/nuvemshop', captureWebhookEvent('nuvemshop'), verifyNuvemshopSignature as express.RequestHandler, processNuvemshopWebhook);
+router.post('/yampi', captureWebhookEvent('yampi'), verifyYampiSignature as express.RequestHandler, processYampiWebhook);
+
+// Hotmart, Kiwify e Eduzz (infoprodutos): atribuição também pelo código de afiliado
+router.post('/hotmart', captureWebhookEvent('hotmart'), verifyHotmartHottok as express.RequestHandler, processHotmartWebhook);
+router.post('/kiwify', captureWebhookEvent('kiwify'), verifyKiwifySignature as express.RequestHandler, processKiwifyWebhook);
+router.post('/eduzz', parseFormBody, captureWebhookEvent('eduzz'), verifyEduzzApiKey as express.RequestHandler, processEduzzWebhook);
+
+// Consulta das entregas rejeitadas (apenas admin)
+router.get('/rejections', protect, admin, getWebhookRejections);
+
+// Eventos recebidos e reprocessamento (apenas admin)
+router.get('/events', protect, admin, getWebhookEvents);
+router.post('/events/replay', protect, admin, replayWebhookEventsInRange);
+router.get('/events/:id', protect, admin, getWebhookEventById);
+router.post('/events/:id/replay', protect, admin, replayWebhookEvent);
+
+// Simulação de webhook sem gravar venda nem enviar WhatsApp (apenas admin)
+router.post('/simulate', protect, admin, simulateWebhook);
 
-// Rotas para processar webhooks de plataformas (sem verificação de token)
-router.post('/shopify', processShopifyWebhook);
-router.post('/cartpanda', processCartPandaWebhook);
+// Fila de ingestão e lista de mortos (apenas admin)
+router.get('/jobs', protect, admin, getIngestionJobs);
+router.post('/jobs/:id/retry', protect, admin, retryIngestionJob);
 
-export default router; 
\ No newline at end of file
+export default router;
@@ -11,6 +11,7 @@ import dotenv from 'dotenv';
 import User, { UserRole } from '../models/User';
 import CommissionTier from '../models/CommissionTier';
 import { sendWelcomeMessage } from '../services/whatsappService';
+import { setPrimaryCoupon } from '../services/couponService';
 
 // Carregar variáveis de ambiente
 dotenv.config();
@@ -151,10 +152,15 @@ async function createTestUsers() {
     
     // 3. Criar influenciador associado ao gerente
     console.log('Criando usuário influenciador...');
+    const { couponCode, ...influencerData } = testInfluencer;
     const influencer = await User.create({
-      ...testInfluencer,
+      ...influencerData,
       manager: manager._id
     });
+
+    // Registrar o cupom na coleção de cupons (espelhado em couponCode)
+    await setPrimaryCoupon(influencer, couponCode);
+    await influencer.save();
     
     // 4. Atualizar o gerente para incluir o influenciador
     await User.findByIdAndUpdate(manager._id, {
@@ -0,0 +1,51 @@
+/**
+ * Payload de exemplo do evento order.paid da CartPanda (baseado na documentação)
+ * Usado por testCartPandaWebhook.ts e testPlatformAdapters.ts
+ */
+export const cartPandaOrderPaidPayload = {
+  event: "order.paid",
+  order: {
+    id: 34488130,
+    shop_id: 131416,
+    order_number: "316360",
+    number: 316360,
+    name: "#316360",
+    subtotal_price: 189,
+    total_discounts: 28.35,
+    total_price: 160.65,
+    discount_codes: "antonio10",  // Cupom de influenciador para teste
+    email: "cliente@example.com",
+    phone: "+5511999999999",
+    processed_at: "2025-04-09 15:48:33",
+    created_at: "2025-04-09 15:48:33",
+    updated_at: "2025-04-09 15:48:45",
+    payment_status: 3,
+    payment_gateway: "cartpanda_pay",
+    payment_type: "cc",
+    line_items: [
+      {
+        id: 40595172,
+        order_id: 34488130,
+        product_id: 11581669,
+        price: 189,
+        quantity: 1,
+        sku: "1candy1oleo",
+        title: "KIT ROSA CANDY COM CLAREADOR ÍNTIMO + ÓLEO",
+        vendor: "Rosa Selvagem Brasil"
+      }
+    ],
+    customer: {
+      id: 76781449,
+      first_name: "Cliente",
+      last_name: "Teste",
+      email: "cliente@example.com",
+      phone: "+5511999999999",
+      full_name: "Cliente Teste"
+    }
+  },
+  webhook: {
+    id: 1178708,
+    endpoint: "https://api.example.com/webhook",
+    shop_id: 131416
+  }
+};
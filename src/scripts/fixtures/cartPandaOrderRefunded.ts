@@ -0,0 +1,37 @@
+import { cartPandaOrderPaidPayload } from './cartPandaOrderPaid';
+
+/**
+ * Payloads de exemplo dos eventos de estorno da CartPanda
+ * Usados por testPlatformAdapters.ts
+ */
+export const cartPandaOrderRefundedPayload = {
+  event: 'order.refunded',
+  order: {
+    ...cartPandaOrderPaidPayload.order,
+    updated_at: '2025-04-15 11:20:00'
+  },
+  webhook: cartPandaOrderPaidPayload.webhook
+};
+
+export const cartPandaPartialRefundPayload = {
+  event: 'order.partially_refunded',
+  order: {
+    ...cartPandaOrderPaidPayload.order,
+    updated_at: '2025-04-15 11:20:00'
+  },
+  refund: {
+    id: 5521,
+    amount: '40.00',
+    created_at: '2025-04-15 11:20:00'
+  },
+  webhook: cartPandaOrderPaidPayload.webhook
+};
+
+export const cartPandaChargebackPayload = {
+  event: 'order.chargeback',
+  order: {
+    ...cartPandaOrderPaidPayload.order,
+    updated_at: '2025-05-02 08:00:00'
+  },
+  webhook: cartPandaOrderPaidPayload.webhook
+};
@@ -0,0 +1,27 @@
+/**
+ * Payloads de exemplo do postback da Eduzz (enviado como formulário; os valores chegam como texto)
+ * Usados por testPlatformAdapters.ts
+ */
+export const eduzzInvoicePaidPayload = {
+  api_key: "chave-de-teste",
+  trans_cod: "48213377",
+  trans_status: "3",  // 3 = paga
+  trans_value: "147.00",
+  trans_paid: "147.00",
+  trans_currency: "BRL",
+  trans_createdate: "2025-04-09T15:40:00-03:00",
+  trans_paiddate: "2025-04-09T15:48:33-03:00",
+  product_cod: "1523987",
+  product_name: "Ebook de Teste",
+  cus_cod: "9912334",
+  cus_name: "Cliente Teste",
+  cus_email: "cliente.teste@example.com",
+  cus_cel: "11999999999",
+  aff_cod: "778812"  // Código de afiliado do influenciador para teste
+};
+
+export const eduzzInvoiceRefundedPayload = {
+  ...eduzzInvoicePaidPayload,
+  trans_status: "7",  // 7 = reembolsada
+  trans_refunddate: "2025-04-15T09:00:00-03:00"
+};
@@ -0,0 +1,52 @@
+/**
+ * Payloads de exemplo do postback da Hotmart (webhook 2.0.0)
+ * Usados por testPlatformAdapters.ts
+ */
+export const hotmartPurchaseApprovedPayload = {
+  id: "5b6a1c7e-4f0e-4c55-9a3c-2d2f6a1e9b10",
+  creation_date: 1744224512000,
+  event: "PURCHASE_APPROVED",
+  version: "2.0.0",
+  data: {
+    product: {
+      id: 3524781,
+      name: "Curso de Teste"
+    },
+    affiliates: [
+      {
+        affiliate_code: "Q58388177J",  // Código de afiliado do influenciador para teste
+        name: "Influenciador Teste"
+      }
+    ],
+    buyer: {
+      email: "cliente.teste@example.com",
+      name: "Cliente Teste",
+      checkout_phone: "5511999999999"
+    },
+    purchase: {
+      approved_date: 1744224500000,
+      order_date: 1744224400000,
+      price: {
+        value: 297,
+        currency_value: "BRL"
+      },
+      offer: {
+        code: "k2pasun0",
+        coupon_code: "TESTE10"
+      },
+      status: "APPROVED",
+      transaction: "HP16015479281022"
+    }
+  }
+};
+
+export const hotmartPurchaseRefundedPayload = {
+  ...hotmartPurchaseApprovedPayload,
+  id: "0c8e3f2d-6b1a-4a7e-8d55-1f9e2c3b4a21",
+  creation_date: 1744829312000,
+  event: "PURCHASE_REFUNDED",
+  data: {
+    ...hotmartPurchaseApprovedPayload.data,
+    purchase: { ...hotmartPurchaseApprovedPayload.data.purchase, status: "REFUNDED" }
+  }
+};
@@ -0,0 +1,39 @@
+/**
+ * Payloads de exemplo do webhook da Kiwify (compra aprovada e chargeback)
+ * Usados por testPlatformAdapters.ts
+ */
+export const kiwifyOrderPaidPayload = {
+  order_id: "a1b2c3d4-0000-4e5f-9a8b-123456789abc",
+  order_ref: "K7dG3pQ",
+  order_status: "paid",
+  webhook_event_type: "order_approved",
+  payment_method: "credit_card",
+  created_at: "2025-04-09 15:45:00",
+  approved_date: "2025-04-09 15:48:33",
+  coupon_code: null,
+  Product: {
+    product_id: "f1e2d3c4-1111-4b2a-8c9d-abcdef123456",
+    product_name: "Mentoria de Teste"
+  },
+  Customer: {
+    full_name: "Cliente Teste",
+    email: "cliente.teste@example.com",
+    mobile: "+5511999999999"
+  },
+  Commissions: {
+    charge_amount: 19700,  // Valores em centavos
+    product_base_price: 19700,
+    currency: "BRL",
+    commissioned_stores: [
+      { id: "store-produtor", type: "producer", value: 12805 },
+      { id: "store-afiliado", affiliate_id: "AFK12345", type: "affiliate", value: 5910 }  // Afiliado para teste
+    ]
+  }
+};
+
+export const kiwifyOrderChargebackPayload = {
+  ...kiwifyOrderPaidPayload,
+  order_status: "chargedback",
+  webhook_event_type: "chargeback",
+  updated_at: "2025-04-20 10:00:00"
+};
@@ -0,0 +1,59 @@
+/**
+ * Payloads de exemplo da Nuvemshop
+ * - nuvemshopWebhookPayload: notificação enviada pelo webhook (apenas store_id, event e id)
+ * - nuvemshopOrderPayload: pedido retornado por GET /v1/{store_id}/orders/{id}
+ * Usados por testNuvemshopWebhook.ts e testPlatformAdapters.ts
+ */
+export const nuvemshopWebhookPayload = {
+  store_id: 1234567,
+  event: "order/paid",
+  id: 871254203
+};
+
+export const nuvemshopOrderPayload = {
+  id: 871254203,
+  number: 1042,
+  token: "b3ae1d1a2ef1c8c6d5d4a19d4c3b2a10",
+  store_id: "1234567",
+  contact_email: "cliente.nuvem@example.com",
+  contact_phone: "+5511988887777",
+  subtotal: "199.80",
+  discount: "19.98",
+  discount_coupon: "19.98",
+  discount_gateway: "0.00",
+  total: "194.82",
+  currency: "BRL",
+  shipping_cost_customer: "15.00",
+  coupon: [
+    {
+      id: 1811,
+      code: "TESTE10",  // Cupom de influenciador para teste
+      type: "percentage",
+      value: "10.00"
+    }
+  ],
+  status: "open",
+  payment_status: "paid",
+  shipping_status: "unpacked",
+  customer: {
+    id: 44120087,
+    name: "Cliente Teste",
+    email: "cliente.nuvem@example.com",
+    phone: "+5511988887777"
+  },
+  products: [
+    {
+      id: 1069053829,
+      product_id: 56781234,
+      variant_id: 87234561,
+      name: "Kit Skincare (Vitamina C)",
+      price: "99.90",
+      quantity: 2,
+      sku: "KIT-SKIN-VC"
+    }
+  ],
+  created_at: "2025-04-09T18:48:33+0000",
+  updated_at: "2025-04-09T18:50:12+0000",
+  paid_at: "2025-04-09T18:50:10+0000",
+  cancelled_at: null
+};
@@ -0,0 +1,28 @@
+/**
+ * Payload de exemplo de um pedido pago da Shopify
+ * Usado por testShopifyWebhook.ts e testPlatformAdapters.ts
+ */
+export const shopifyOrderPayload = {
+  id: 'TEST-1001',
+  total_price: "150.00",
+  discount_codes: [
+    {
+      code: 'TESTE10',
+      amount: "15.00",
+      type: "percentage"
+    }
+  ],
+  customer: {
+    first_name: "Cliente",
+    last_name: "Teste",
+    email: "cliente.teste@example.com"
+  },
+  line_items: [
+    {
+      title: "Produto de Teste",
+      quantity: 1,
+      price: "150.00"
+    }
+  ],
+  created_at: '2025-04-09T15:48:33-03:00'
+};
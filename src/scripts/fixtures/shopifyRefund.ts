@@ -0,0 +1,33 @@
+/**
+ * Payloads de exemplo dos tópicos refunds/create e orders/cancelled da Shopify
+ * Usados por testPlatformAdapters.ts
+ */
+export const shopifyRefundPayload = {
+  id: 890088186047,
+  order_id: 'TEST-1001',
+  created_at: '2025-04-12T10:15:00-03:00',
+  note: 'Produto devolvido',
+  refund_line_items: [
+    {
+      quantity: 1,
+      line_item_id: 866550311766439020,
+      subtotal: 50.0
+    }
+  ],
+  transactions: [
+    {
+      id: 179259969,
+      kind: 'refund',
+      status: 'success',
+      amount: '50.00',
+      currency: 'BRL'
+    }
+  ]
+};
+
+export const shopifyOrderCancelledPayload = {
+  id: 'TEST-1001',
+  total_price: '150.00',
+  cancelled_at: '2025-04-10T09:00:00-03:00',
+  cancel_reason: 'customer'
+};
@@ -0,0 +1,81 @@
+/**
+ * Payload de exemplo do webhook order.updated do WooCommerce (pedido no formato da REST API v3)
+ * Usado por testWooCommerceWebhook.ts e testPlatformAdapters.ts
+ */
+export const wooCommerceOrderPayload = {
+  id: 727,
+  parent_id: 0,
+  number: "727",
+  order_key: "wc_order_58d2d042d1d",
+  created_via: "checkout",
+  status: "processing",
+  currency: "BRL",
+  date_created: "2025-04-09T15:48:33",
+  date_created_gmt: "2025-04-09T18:48:33",
+  date_modified: "2025-04-09T15:50:12",
+  date_modified_gmt: "2025-04-09T18:50:12",
+  date_paid: "2025-04-09T15:50:10",
+  date_paid_gmt: "2025-04-09T18:50:10",
+  discount_total: "18.00",
+  discount_tax: "0.00",
+  shipping_total: "20.00",
+  shipping_tax: "0.00",
+  cart_tax: "0.00",
+  total: "182.00",
+  total_tax: "0.00",
+  prices_include_tax: false,
+  customer_id: 26,
+  billing: {
+    first_name: "Cliente",
+    last_name: "Teste",
+    email: "cliente.woo@example.com",
+    phone: "(11) 99999-9999"
+  },
+  payment_method: "pix",
+  line_items: [
+    {
+      id: 315,
+      name: "Sérum Facial Vitamina C",
+      product_id: 93,
+      variation_id: 0,
+      quantity: 2,
+      subtotal: "120.00",
+      subtotal_tax: "0.00",
+      total: "108.00",
+      total_tax: "0.00",
+      sku: "SERUM-VITC",
+      price: 54
+    },
+    {
+      id: 316,
+      name: "Hidratante Corporal",
+      product_id: 22,
+      variation_id: 0,
+      quantity: 1,
+      subtotal: "60.00",
+      subtotal_tax: "0.00",
+      total: "54.00",
+      total_tax: "0.00",
+      sku: "HIDRA-CORP",
+      price: 54
+    }
+  ],
+  coupon_lines: [
+    {
+      id: 318,
+      code: "teste10",  // Cupom de influenciador para teste
+      discount: "18.00",
+      discount_tax: "0.00"
+    }
+  ],
+  refunds: []
+};
+
+// Mesmo pedido após um reembolso parcial de R$ 50,00
+export const wooCommercePartialRefundPayload = {
+  ...wooCommerceOrderPayload,
+  date_modified_gmt: "2025-04-15T14:20:00",
+  refunds: [
+    { id: 731, reason: "Produto danificado", total: "-50.00" }
+  ]
+};
@@ -0,0 +1,82 @@
+/**
+ * Payload de exemplo do evento order.paid da Yampi
+ * Usado por testYampiWebhook.ts e testPlatformAdapters.ts
+ */
+export const yampiOrderPaidPayload = {
+  event: "order.paid",
+  time: "2025-04-09 15:50:12",
+  merchant: {
+    id: 8812,
+    alias: "loja-teste"
+  },
+  resource: {
+    id: 30491872,
+    number: 1587,
+    value_total: 167.4,
+    value_products: 179,
+    value_shipment: 15.25,
+    value_discount: 26.85,
+    value_tax: 0,
+    promocode: {
+      data: {
+        id: 552,
+        code: "teste15"  // Cupom de influenciador para teste
+      }
+    },
+    status: {
+      data: {
+        id: 4,
+        alias: "paid",
+        name: "Pagamento aprovado"
+      }
+    },
+    customer: {
+      data: {
+        id: 9821344,
+        name: "Cliente Teste",
+        email: "cliente.yampi@example.com",
+        phone: {
+          full_number: "5511977776666"
+        }
+      }
+    },
+    items: {
+      data: [
+        {
+          id: 61234511,
+          product_id: 4412301,
+          quantity: 1,
+          price: 179,
+          sku: {
+            data: {
+              id: 8812301,
+              sku: "KIT-ROSA-01",
+              title: "Kit Rosa Candy"
+            }
+          }
+        }
+      ]
+    },
+    created_at: {
+      date: "2025-04-09 15:48:33.000000",
+      timezone_type: 3,
+      timezone: "America/Sao_Paulo"
+    },
+    updated_at: {
+      date: "2025-04-09 15:50:12.000000",
+      timezone_type: 3,
+      timezone: "America/Sao_Paulo"
+    }
+  }
+};
+
+// Mesmo pedido após o cancelamento
+export const yampiOrderCancelledPayload = {
+  ...yampiOrderPaidPayload,
+  event: "order.status.updated",
+  resource: {
+    ...yampiOrderPaidPayload.resource,
+    status: { data: { id: 9, alias: "cancelled", name: "Cancelado" } },
+    updated_at: { date: "2025-04-15 11:20:00.000000", timezone_type: 3, timezone: "America/Sao_Paulo" }
+  }
+};
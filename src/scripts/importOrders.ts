@@ -0,0 +1,130 @@
+/**
+ * Script de importação de pedidos históricos a partir do CSV exportado da plataforma
+ *
+ * Usado na entrada de uma nova marca, para carregar os pedidos anteriores aos webhooks.
+ * Os pedidos passam pelo mesmo pipeline dos webhooks (atribuição pelo cupom e comissão),
+ * sem enviar avisos de WhatsApp. Pedidos já registrados são listados como duplicados e não mudam.
+ * Rode primeiro com --dry-run para conferir influenciadores, cupons desconhecidos e duplicados.
+ *
+ * Para executar:
+ *   npx ts-node src/scripts/importOrders.ts <arquivo.csv> --platform shopify [--store loja.myshopify.com]
+ *     [--preset shopify] [--map coupon=Cupom --map date="Data do pedido"] [--dry-run]
+ */
+
+import fs from 'fs';
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { ImportColumnMapping, importOrdersCsv, resolveColumnMapping } from '../services/orderImportService';
+import { getPlatformAdapter, SalePlatform } from '../services/platformAdapters';
+
+// Carregar variáveis de ambiente
+dotenv.config();
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+
+// Valor de uma opção "--nome valor" (a última informada)
+const getOption = (name: string): string | undefined => {
+  const index = args.lastIndexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+// Colunas informadas com "--map campo=coluna" (pode repetir)
+const getMapping = (): Partial<ImportColumnMapping> => {
+  const mapping: Record<string, string> = {};
+  args.forEach((arg, index) => {
+    if (arg !== '--map' || !args[index + 1]) return;
+    const [field, ...column] = args[index + 1].split('=');
+    mapping[field] = column.join('=');
+  });
+  return mapping;
+};
+
+// Conexão com o MongoDB
+async function connectToDatabase() {
+  const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/influencer_hub';
+
+  try {
+    console.log('Conectando ao MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('Conectado ao MongoDB com sucesso!');
+    return true;
+  } catch (error) {
+    console.error('Erro ao conectar ao MongoDB:', error);
+    return false;
+  }
+}
+
+async function importOrders(file: string, platform: SalePlatform) {
+  getPlatformAdapter(platform); // Lança erro para plataforma desconhecida
+  const options = {
+    platform,
+    store: getOption('store'),
+    preset: getOption('preset'),
+    mapping: getMapping(),
+    dryRun
+  };
+  console.log('Colunas usadas:', resolveColumnMapping(options));
+
+  const result = await importOrdersCsv(fs.readFileSync(file, 'utf8'), options);
+
+  console.log(`\nResumo da importação${dryRun ? ' (simulação, nada foi gravado)' : ''}:`);
+  console.log(`Linhas lidas: ${result.totalRows}`);
+  console.log(`Pedidos: ${result.totalOrders}`);
+  Object.entries(result.summary).forEach(([status, count]) => console.log(`  ${status}: ${count}`));
+
+  const matched = result.orders.filter(order => order.influencer);
+  if (matched.length > 0) {
+    console.log('Influenciadores encontrados:');
+    const byInfluencer: Record<string, number> = {};
+    matched.forEach(order => {
+      const key = `${order.influencer!.name} <${order.influencer!.email}>`;
+      byInfluencer[key] = (byInfluencer[key] || 0) + 1;
+    });
+    Object.entries(byInfluencer).forEach(([influencer, count]) => console.log(`  ${influencer}: ${count} pedidos`));
+  }
+
+  const unknownCoupons = Array.from(new Set(
+    result.orders.filter(order => order.status === 'unknown_coupon').map(order => order.couponCode)
+  ));
+  if (unknownCoupons.length > 0) {
+    console.log(`Cupons sem influenciador: ${unknownCoupons.join(', ')}`);
+  }
+
+  const duplicates = result.orders.filter(order => order.status === 'duplicate');
+  if (duplicates.length > 0) {
+    console.log(`Pedidos já registrados: ${duplicates.map(order => order.orderId).join(', ')}`);
+  }
+
+  console.log(`Pedidos estornados/cancelados ignorados: ${result.skipped.length}`);
+  const failures = [...result.errors, ...result.orders.filter(order => order.status === 'error')];
+  console.log(`Linhas com erro: ${failures.length}`);
+  failures.forEach(failure => console.log(`  - linha ${failure.line}${failure.orderId ? ` (pedido ${failure.orderId})` : ''}: ${failure.message}`));
+}
+
+// Executar a importação
+async function run() {
+  const file = args[0];
+  const platform = getOption('platform') as SalePlatform | undefined;
+  if (!file || file.startsWith('--') || !platform) {
+    console.error('Uso: npx ts-node src/scripts/importOrders.ts <arquivo.csv> --platform <plataforma> [--store <loja>] [--preset <preset>] [--map campo=coluna] [--dry-run]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const connected = await connectToDatabase();
+  if (connected) {
+    try {
+      await importOrders(file, platform);
+    } catch (error) {
+      console.error('Erro durante a importação dos pedidos:', error);
+      process.exitCode = 1;
+    }
+
+    // Fechar conexão
+    await mongoose.disconnect();
+    console.log('Desconectado do MongoDB');
+  }
+}
+
+run();
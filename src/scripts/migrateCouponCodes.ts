@@ -0,0 +1,95 @@
+/**
+ * Script de migração dos cupons de User.couponCode para a coleção de cupons
+ *
+ * Cada influenciador com couponCode ganha um cupom principal (isPrimary) na coleção `coupons`.
+ * Códigos que colidem sem diferenciar maiúsculas/minúsculas (ex.: LAIS15 e lais15 de usuários
+ * diferentes) não são migrados e aparecem no relatório para resolução manual.
+ * O script pode ser executado mais de uma vez: cupons já migrados são mantidos.
+ *
+ * Para executar: npx ts-node src/scripts/migrateCouponCodes.ts [--dry-run]
+ */
+
+import mongoose, { Types } from 'mongoose';
+import dotenv from 'dotenv';
+import User from '../models/User';
+import Coupon, { normalizeCode } from '../models/Coupon';
+
+// Carregar variáveis de ambiente
+dotenv.config();
+
+const dryRun = process.argv.includes('--dry-run');
+
+// Conexão com o MongoDB
+async function connectToDatabase() {
+  const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/influencer_hub';
+
+  try {
+    console.log('Conectando ao MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('Conectado ao MongoDB com sucesso!');
+    return true;
+  } catch (error) {
+    console.error('Erro ao conectar ao MongoDB:', error);
+    return false;
+  }
+}
+
+async function migrateCoupons() {
+  const users = await User.find({ couponCode: { $exists: true, $nin: [null, ''] } }).select('name email couponCode');
+  console.log(`${users.length} usuários com couponCode encontrados${dryRun ? ' (simulação, nada será gravado)' : ''}.`);
+
+  let created = 0;
+  let alreadyMigrated = 0;
+  const conflicts: string[] = [];
+
+  for (const user of users) {
+    const code = user.couponCode!.trim();
+    const userId = user._id as Types.ObjectId;
+    const existing = await Coupon.findOne({ normalizedCode: normalizeCode(code) });
+
+    if (existing && existing.owner.toString() !== userId.toString()) {
+      conflicts.push(`${code} (${user.email}) colide com ${existing.code} de ${existing.owner}`);
+      continue;
+    }
+
+    if (existing) {
+      alreadyMigrated++;
+      if (!dryRun && !existing.isPrimary) {
+        existing.isPrimary = true;
+        await existing.save();
+      }
+      continue;
+    }
+
+    if (!dryRun) {
+      await Coupon.create({ code, owner: userId, isPrimary: true });
+    }
+    created++;
+    console.log(`Cupom ${code} -> ${user.name} (${user.email})`);
+  }
+
+  console.log('\nResumo da migração:');
+  console.log(`Cupons criados: ${created}`);
+  console.log(`Já migrados: ${alreadyMigrated}`);
+  console.log(`Conflitos: ${conflicts.length}`);
+  conflicts.forEach(conflict => console.log(`  - ${conflict}`));
+}
+
+// Executar a migração
+async function run() {
+  const connected = await connectToDatabase();
+  if (connected) {
+    try {
+      await migrateCoupons();
+    } catch (error) {
+      console.error('Erro durante a migração de cupons:', error);
+      process.exitCode = 1;
+    }
+
+    // Fechar conexão
+    await mongoose.disconnect();
+    console.log('Desconectado do MongoDB');
+  }
+}
+
+run();
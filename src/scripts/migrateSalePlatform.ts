@@ -0,0 +1,238 @@
+/**
+ * Script de migração da identidade dos pedidos para (plataforma, loja, orderId)
+ *
+ * Vendas antigas só tinham o orderId, único no sistema inteiro. Este script preenche
+ * `platform` e `store` das vendas existentes e troca o índice único de orderId pelo
+ * índice composto (platform, store, orderId). A plataforma é inferida nesta ordem:
+ * 1. Evento de webhook que criou a venda (plataforma da rota e loja dos headers/payload)
+ * 2. Eventos de webhook com o mesmo orderId, quando todos são da mesma plataforma
+ * 3. Vendas não recebidas por webhook (processedViaWebhook = false): "manual"
+ * 4. IDs numéricos longos (formato dos IDs de pedido da Shopify): "shopify"
+ * 5. Demais vendas de webhook: "generic" (listadas no relatório para conferência)
+ * Vendas da Shopify sem loja identificada recebem a loja de --store ou, sem a opção, a única loja
+ * configurada em SHOPIFY_WEBHOOK_SECRETS; sem loja, estornos e novas etapas dos webhooks não as encontrariam.
+ * O script pode ser executado mais de uma vez: vendas que já têm plataforma são mantidas, e vendas
+ * da Shopify já migradas sem loja têm a loja preenchida.
+ *
+ * Para executar: npx ts-node src/scripts/migrateSalePlatform.ts [--store loja.myshopify.com] [--dry-run]
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Sale from '../models/Sale';
+import WebhookEvent, { IWebhookEvent } from '../models/WebhookEvent';
+import { getWebhookStoreFromHeaders } from '../middlewares/webhookEventMiddleware';
+
+// Carregar variáveis de ambiente
+dotenv.config();
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+
+// Valor de uma opção "--nome valor" (a última informada)
+const getOption = (name: string): string | undefined => {
+  const index = args.lastIndexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+/**
+ * Loja usada nas vendas da Shopify sem loja identificada: a opção --store ou,
+ * se houver apenas uma loja em SHOPIFY_WEBHOOK_SECRETS, essa loja
+ */
+const getDefaultShopifyStore = (): string => {
+  const option = getOption('store');
+  if (option) return option.trim().toLowerCase();
+
+  const stores = (process.env.SHOPIFY_WEBHOOK_SECRETS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.includes(':'))
+    .map(entry => entry.substring(0, entry.indexOf(':')).trim().toLowerCase());
+  return stores.length === 1 ? stores[0] : '';
+};
+
+const defaultShopifyStore = getDefaultShopifyStore();
+
+// Conexão com o MongoDB
+async function connectToDatabase() {
+  const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/influencer_hub';
+
+  try {
+    console.log('Conectando ao MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('Conectado ao MongoDB com sucesso!');
+    return true;
+  } catch (error) {
+    console.error('Erro ao conectar ao MongoDB:', error);
+    return false;
+  }
+}
+
+/**
+ * Loja de um evento: headers da entrega (Shopify, WooCommerce) ou payload (CartPanda, Nuvemshop, Yampi)
+ */
+const getEventStore = (event: IWebhookEvent): string => {
+  const payload: any = event.payload || {};
+  const store = event.store
+    || getWebhookStoreFromHeaders(event.headers || {})
+    || payload.order?.shop_id
+    || payload.store_id
+    || payload.merchant?.alias;
+  return store ? store.toString().trim().toLowerCase() : '';
+};
+
+/**
+ * Loja da venda: a identificada ou, para a Shopify, a loja padrão
+ */
+const getShopifyStore = (platform: string, store: string): string =>
+  store || (platform === 'shopify' ? defaultShopifyStore : '');
+
+/**
+ * Indica se já existe outra venda com a mesma chave (ex.: criada por um webhook recebido depois
+ * da primeira migração); nesse caso a venda fica para conferência manual
+ */
+const hasDuplicateKey = async (sale: any, platform: string, store: string): Promise<boolean> => {
+  const duplicate = await Sale.collection.findOne({ _id: { $ne: sale._id }, platform, store, orderId: sale.orderId });
+  return !!duplicate;
+};
+
+/**
+ * Infere plataforma e loja de uma venda antiga, com a regra usada (para o relatório)
+ */
+async function inferSaleIdentity(sale: any): Promise<{ platform: string; store: string; rule: string }> {
+  const creatingEvent = await WebhookEvent.findOne({ sale: sale._id }).sort({ createdAt: 1 });
+  if (creatingEvent) {
+    return { platform: creatingEvent.platform, store: getShopifyStore(creatingEvent.platform, getEventStore(creatingEvent)), rule: 'evento da venda' };
+  }
+
+  const orderEvents = await WebhookEvent.find({ orderId: sale.orderId }).sort({ createdAt: 1 });
+  const platforms = Array.from(new Set(orderEvents.map(event => event.platform)));
+  if (platforms.length === 1) {
+    return { platform: platforms[0], store: getShopifyStore(platforms[0], getEventStore(orderEvents[0])), rule: 'eventos do pedido' };
+  }
+
+  if (!sale.processedViaWebhook) {
+    return { platform: 'manual', store: '', rule: 'venda manual' };
+  }
+
+  if (/^\d{10,}$/.test(sale.orderId)) {
+    return { platform: 'shopify', store: defaultShopifyStore, rule: 'formato do ID' };
+  }
+
+  return { platform: 'generic', store: '', rule: 'padrão' };
+}
+
+async function migrateSales() {
+  // Eventos antigos não tinham a loja gravada; preenche a partir dos headers
+  const eventsWithoutStore = await WebhookEvent.find({ store: { $exists: false }, platform: { $in: ['shopify', 'woocommerce'] } });
+  let eventsUpdated = 0;
+  for (const event of eventsWithoutStore) {
+    const store = getWebhookStoreFromHeaders(event.headers || {});
+    if (!store) continue;
+    eventsUpdated++;
+    if (!dryRun) {
+      await WebhookEvent.updateOne({ _id: event._id }, { store });
+    }
+  }
+
+  // Consulta direta na coleção: o modelo preencheria o padrão de platform ao carregar
+  const sales = await Sale.collection
+    .find({ $or: [{ platform: { $exists: false } }, { platform: null }] })
+    .project({ orderId: 1, processedViaWebhook: 1 })
+    .toArray();
+  console.log(`${sales.length} vendas sem plataforma encontradas${dryRun ? ' (simulação, nada será gravado)' : ''}.`);
+
+  const byRule: Record<string, number> = {};
+  const byPlatform: Record<string, number> = {};
+  const toReview: string[] = [];
+  const conflicts: string[] = [];
+
+  for (const sale of sales) {
+    const { platform, store, rule } = await inferSaleIdentity(sale);
+    byRule[rule] = (byRule[rule] || 0) + 1;
+    byPlatform[platform] = (byPlatform[platform] || 0) + 1;
+    if (rule === 'padrão' || rule === 'formato do ID') {
+      toReview.push(`${sale._id} (pedido ${sale.orderId}) -> ${platform}${store ? ` (${store})` : ''}`);
+    }
+
+    if (await hasDuplicateKey(sale, platform, store)) {
+      conflicts.push(`${sale._id} (pedido ${sale.orderId}) -> ${platform}/${store || '(sem loja)'}`);
+      continue;
+    }
+    if (!dryRun) {
+      await Sale.collection.updateOne({ _id: sale._id }, { $set: { platform, store } });
+    }
+  }
+
+  // Vendas da Shopify já migradas sem loja (execuções anteriores do script)
+  const shopifyWithoutStore = await Sale.collection
+    .find({ platform: 'shopify', $or: [{ store: { $exists: false } }, { store: null }, { store: '' }] })
+    .project({ orderId: 1, processedViaWebhook: 1 })
+    .toArray();
+  let storesFilled = 0;
+  const withoutStore: string[] = [];
+
+  for (const sale of shopifyWithoutStore) {
+    const { platform, store } = await inferSaleIdentity(sale);
+    if (platform !== 'shopify' || !store) {
+      withoutStore.push(`${sale._id} (pedido ${sale.orderId})`);
+      continue;
+    }
+    if (await hasDuplicateKey(sale, platform, store)) {
+      conflicts.push(`${sale._id} (pedido ${sale.orderId}) -> ${platform}/${store}`);
+      continue;
+    }
+    storesFilled++;
+    if (!dryRun) {
+      await Sale.collection.updateOne({ _id: sale._id }, { $set: { store } });
+    }
+  }
+
+  // Troca o índice único antigo de orderId pelo índice composto do modelo
+  const indexes = await Sale.collection.indexes();
+  const legacyIndex = indexes.find(index => index.name === 'orderId_1' && index.unique);
+  if (legacyIndex && !dryRun) {
+    await Sale.collection.dropIndex('orderId_1');
+    console.log('Índice único antigo orderId_1 removido');
+  }
+  if (!dryRun) {
+    await Sale.createIndexes();
+    console.log('Índices da coleção de vendas atualizados');
+  }
+
+  console.log('\nResumo da migração:');
+  console.log(`Eventos com loja preenchida: ${eventsUpdated}`);
+  console.log(`Vendas atualizadas: ${sales.length}`);
+  Object.entries(byPlatform).forEach(([platform, count]) => console.log(`  ${platform}: ${count}`));
+  console.log('Regra usada:');
+  Object.entries(byRule).forEach(([rule, count]) => console.log(`  ${rule}: ${count}`));
+  console.log(`Inferidas por heurística (conferir): ${toReview.length}`);
+  toReview.forEach(entry => console.log(`  - ${entry}`));
+  console.log(`Vendas da Shopify com loja preenchida: ${storesFilled}`);
+  console.log(`Vendas da Shopify ainda sem loja (informe --store): ${withoutStore.length}`);
+  withoutStore.forEach(entry => console.log(`  - ${entry}`));
+  console.log(`Conflitos com outra venda do mesmo pedido (não alteradas, conferir): ${conflicts.length}`);
+  conflicts.forEach(entry => console.log(`  - ${entry}`));
+  if (legacyIndex && dryRun) {
+    console.log('Índice único antigo orderId_1 será removido');
+  }
+}
+
+// Executar a migração
+async function run() {
+  const connected = await connectToDatabase();
+  if (connected) {
+    try {
+      await migrateSales();
+    } catch (error) {
+      console.error('Erro durante a migração das vendas:', error);
+      process.exitCode = 1;
+    }
+
+    // Fechar conexão
+    await mongoose.disconnect();
+    console.log('Desconectado do MongoDB');
+  }
+}
+
+run();
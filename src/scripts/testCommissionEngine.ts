@@ -0,0 +1,163 @@
+/**
+ * Script para testar o motor de comissão: regra escalonada (faixas por venda ou por volume do período,
+ * retroativas ou marginais), percentual extra, valor fixo, teto e mínimo garantido, e a explicação das regras
+ * Não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testCommissionEngine.ts
+ */
+
+import assert from 'assert';
+import {
+  evaluateCommission,
+  selectTier,
+  getMarginalPercentage,
+  getVolumePeriod,
+  CommissionEngineRule,
+  CommissionInput,
+  TierLike
+} from '../services/commissionEngine';
+import { ProductRuleLike } from '../services/productCommissionService';
+import { test, runTests } from './testHarness';
+
+const tiers: TierLike[] = [
+  { _id: 'bronze', name: 'Bronze', minSalesValue: 0, commissionPercentage: 5 },
+  { _id: 'prata', name: 'Prata', minSalesValue: 500, commissionPercentage: 10, newCustomerBonus: 15 }
+];
+
+const tieredRule: CommissionEngineRule = { type: 'tiered', name: 'Faixas de comissão', tiers };
+
+const input = (overrides: Partial<CommissionInput> = {}): CommissionInput => ({
+  role: 'influencer',
+  baseValue: 1000,
+  remainingRatio: 1,
+  isNewCustomer: false,
+  lineItems: [],
+  productRules: [],
+  ...overrides
+});
+
+test('faixa de maior valor mínimo alcançado', () => {
+  assert.strictEqual(selectTier(tiers, 499.99)?.name, 'Bronze');
+  assert.strictEqual(selectTier(tiers, 500)?.name, 'Prata');
+  assert.strictEqual(selectTier([], 1000), null);
+});
+
+test('regra escalonada aplica o percentual da faixa e explica a faixa usada', () => {
+  const result = evaluateCommission(input(), [tieredRule]);
+  assert.strictEqual(result.commission, 100);
+  assert.strictEqual(result.tier?.name, 'Prata');
+  assert.strictEqual(result.explanation.length, 1);
+  assert.strictEqual(result.explanation[0].fired, true);
+  assert.strictEqual(result.explanation[0].rule, 'prata');
+  assert.match(result.explanation[0].detail, /Faixa Prata: 10%/);
+});
+
+test('faixa com bônus de cliente novo e itens com regra de produto', () => {
+  const productRules: ProductRuleLike[] = [
+    { name: 'Acessórios', scope: 'product', productIds: [], skus: ['ACC'], type: 'excluded', appliesTo: 'both', priority: 0 }
+  ];
+  const result = evaluateCommission(
+    input({
+      isNewCustomer: true,
+      lineItems: [{ sku: 'KIT', quantity: 1, price: 800 }, { sku: 'ACC', quantity: 1, price: 200 }],
+      productRules
+    }),
+    [tieredRule]
+  );
+  assert.strictEqual(result.commission, 95); // 10% de 800 + bônus de 15
+  assert.strictEqual(result.bonus, 15);
+  assert.strictEqual(result.lines.length, 2);
+  assert.match(result.explanation[0].detail, /1 item\(ns\) com regra de produto/);
+});
+
+test('sem faixa aplicável a regra escalonada não dispara', () => {
+  const result = evaluateCommission(input({ baseValue: 100 }), [{ type: 'tiered', name: 'Faixas', tiers: [tiers[1]] }]);
+  assert.strictEqual(result.commission, 0);
+  assert.strictEqual(result.explanation[0].fired, false);
+});
+
+test('percentual extra e valor fixo somam à comissão', () => {
+  const result = evaluateCommission(input(), [
+    tieredRule,
+    { type: 'percentage', name: 'Campanha', percentage: 2 },
+    { type: 'fixed', name: 'Bônus por venda', amount: 5 }
+  ]);
+  assert.strictEqual(result.commission, 125);
+  assert.deepStrictEqual(result.explanation.map(step => step.amount), [100, 20, 5]);
+});
+
+test('teto limita a comissão acumulada', () => {
+  const result = evaluateCommission(input(), [tieredRule, { type: 'cap', name: 'Teto', amount: 60 }]);
+  assert.strictEqual(result.commission, 60);
+  assert.strictEqual(result.explanation[1].amount, -40);
+  assert.strictEqual(result.explanation[1].fired, true);
+});
+
+test('mínimo garantido completa a comissão e não dispara acima do mínimo', () => {
+  const low = evaluateCommission(input({ baseValue: 100 }), [tieredRule, { type: 'minimum', name: 'Mínimo', amount: 10 }]);
+  assert.strictEqual(low.commission, 10);
+  assert.strictEqual(low.explanation[1].amount, 5);
+
+  const high = evaluateCommission(input(), [tieredRule, { type: 'minimum', name: 'Mínimo', amount: 10 }]);
+  assert.strictEqual(high.commission, 100);
+  assert.strictEqual(high.explanation[1].fired, false);
+});
+
+test('valor fixo e mínimo acompanham a parte não estornada', () => {
+  const result = evaluateCommission(input({ baseValue: 50, remainingRatio: 0.5 }), [
+    { type: 'fixed', name: 'Bônus por venda', amount: 10 },
+    { type: 'minimum', name: 'Mínimo', amount: 20 }
+  ]);
+  assert.strictEqual(result.commission, 10);
+  assert.deepStrictEqual(result.explanation.map(step => step.amount), [5, 5]);
+});
+
+test('a ordem das regras muda o resultado', () => {
+  const capFirst = evaluateCommission(input(), [{ type: 'cap', name: 'Teto', amount: 60 }, tieredRule]);
+  assert.strictEqual(capFirst.commission, 100);
+  assert.strictEqual(capFirst.explanation[0].fired, false);
+});
+
+const volumeTiers: TierLike[] = [
+  { _id: 'base', name: 'Base', minSalesValue: 0, maxSalesValue: 10000, commissionPercentage: 10 },
+  { _id: 'meta', name: 'Meta', minSalesValue: 10000, commissionPercentage: 15 }
+];
+
+test('faixa respeita o valor máximo', () => {
+  const capped: TierLike[] = [{ name: 'Até 1000', minSalesValue: 0, maxSalesValue: 1000, commissionPercentage: 5 }];
+  assert.strictEqual(selectTier(capped, 1000)?.name, 'Até 1000');
+  assert.strictEqual(selectTier(capped, 1000.01), null);
+  assert.strictEqual(selectTier(volumeTiers, 10000)?.name, 'Meta');
+});
+
+test('faixa retroativa escolhida pelo volume do período', () => {
+  const result = evaluateCommission(input({ baseValue: 1000 }), [{ type: 'tiered', name: 'Faixas', tiers: volumeTiers, lookupValue: 12000 }]);
+  assert.strictEqual(result.commission, 150);
+  assert.strictEqual(result.tier?.name, 'Meta');
+  assert.match(result.explanation[0].detail, /Faixa Meta pelo volume de R\$ 12000.00: 15%/);
+});
+
+test('faixas marginais dividem a venda entre as faixas', () => {
+  assert.strictEqual(getMarginalPercentage(volumeTiers, 9000, 11000, false), 12.5);
+  assert.strictEqual(getMarginalPercentage(volumeTiers, 0, 1000, false), 10);
+
+  const result = evaluateCommission(input({ baseValue: 2000 }), [{ type: 'tiered', name: 'Faixas', tiers: volumeTiers, marginalFrom: 9000 }]);
+  assert.strictEqual(result.commission, 250); // 1000 a 10% + 1000 a 15%
+  assert.strictEqual(result.tier?.name, 'Meta');
+  assert.match(result.explanation[0].detail, /12.50% efetivo/);
+});
+
+test('período de medição mensal e trimestral no fuso de Brasília', () => {
+  const monthly = getVolumePeriod(new Date('2024-05-15T13:00:00Z'), 'monthly');
+  assert.deepStrictEqual(monthly, { start: new Date('2024-05-01T03:00:00Z'), end: new Date('2024-06-01T03:00:00Z') });
+  const quarterly = getVolumePeriod(new Date('2024-11-30T12:00:00Z'), 'quarterly');
+  assert.deepStrictEqual(quarterly, { start: new Date('2024-10-01T03:00:00Z'), end: new Date('2025-01-01T03:00:00Z') });
+  // 31/05 às 23:30 em Brasília já é junho em UTC, mas ainda pertence a maio
+  assert.deepStrictEqual(getVolumePeriod(new Date('2024-06-01T02:30:00Z'), 'monthly')?.start, new Date('2024-05-01T03:00:00Z'));
+  // Com horário de verão (2018), o mês começa à meia-noite no deslocamento -02:00
+  assert.deepStrictEqual(getVolumePeriod(new Date('2018-12-10T12:00:00Z'), 'monthly')?.start, new Date('2018-12-01T02:00:00Z'));
+  assert.strictEqual(getVolumePeriod(new Date(), 'order'), null);
+});
+
+// Executar os testes
+runTests();
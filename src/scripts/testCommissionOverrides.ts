@@ -0,0 +1,93 @@
+/**
+ * Script para testar as sobrescritas de comissão por usuário: escolha pela vigência,
+ * taxa legada do cadastro e troca das faixas globais (percentual fixo, faixas próprias e multiplicador)
+ * Não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testCommissionOverrides.ts
+ */
+
+import assert from 'assert';
+import { selectOverride, resolveOverride, applyOverrideToRules, CommissionOverrideLike } from '../services/commissionOverrideService';
+import { evaluateCommission, CommissionEngineRule, CommissionInput } from '../services/commissionEngine';
+import { test, runTests } from './testHarness';
+
+const globalRules: CommissionEngineRule[] = [
+  {
+    type: 'tiered',
+    name: 'Faixas de comissão',
+    tiers: [
+      { _id: 'base', name: 'Base', minSalesValue: 0, commissionPercentage: 10, newCustomerPercentage: 12 },
+      { _id: 'alta', name: 'Alta', minSalesValue: 1000, commissionPercentage: 60 }
+    ]
+  },
+  { type: 'fixed', name: 'Bônus por venda', amount: 2 }
+];
+
+const input = (overrides: Partial<CommissionInput> = {}): CommissionInput => ({
+  role: 'influencer',
+  baseValue: 500,
+  remainingRatio: 1,
+  isNewCustomer: false,
+  lineItems: [],
+  productRules: [],
+  ...overrides
+});
+
+const january: CommissionOverrideLike = {
+  _id: 'jan',
+  type: 'percentage',
+  percentage: 20,
+  effectiveFrom: new Date('2024-01-01T00:00:00Z'),
+  effectiveTo: new Date('2024-01-31T23:59:59Z')
+};
+const fromMarch: CommissionOverrideLike = { _id: 'mar', type: 'multiplier', multiplier: 1.5, effectiveFrom: new Date('2024-03-01T00:00:00Z') };
+
+test('sobrescrita escolhida pela vigência da data da venda', () => {
+  const overrides = [january, fromMarch];
+  assert.strictEqual(selectOverride(overrides, new Date('2024-01-15T12:00:00Z'))?._id, 'jan');
+  assert.strictEqual(selectOverride(overrides, new Date('2024-02-10T12:00:00Z')), null);
+  assert.strictEqual(selectOverride(overrides, new Date('2025-06-01T12:00:00Z'))?._id, 'mar');
+});
+
+test('taxa do cadastro vale só sem sobrescrita vigente', () => {
+  const userOverrides = { overrides: [january], commissionRate: 7 };
+  assert.strictEqual(resolveOverride(userOverrides, new Date('2024-01-10T00:00:00Z'))?._id, 'jan');
+  const legacy = resolveOverride(userOverrides, new Date('2024-05-10T00:00:00Z'));
+  assert.strictEqual(legacy?.type, 'percentage');
+  assert.strictEqual(legacy?.percentage, 7);
+  assert.strictEqual(resolveOverride({ overrides: [], commissionRate: 0 }, new Date()), null);
+});
+
+test('percentual fixo substitui as faixas globais e mantém as demais regras', () => {
+  const rules = applyOverrideToRules(globalRules, january);
+  const result = evaluateCommission(input(), rules);
+  assert.strictEqual(result.commission, 102); // 20% de 500 + bônus fixo de 2
+  assert.strictEqual(result.explanation[0].name, 'Comissão individual de 20%');
+  assert.strictEqual(result.explanation[0].rule, 'jan');
+});
+
+test('faixas próprias do usuário', () => {
+  const custom: CommissionOverrideLike = {
+    type: 'tiers',
+    effectiveFrom: new Date(0),
+    tiers: [{ name: 'VIP', minSalesValue: 0, commissionPercentage: 25 }]
+  };
+  const result = evaluateCommission(input(), applyOverrideToRules(globalRules, custom));
+  assert.strictEqual(result.tier?.name, 'VIP');
+  assert.strictEqual(result.commission, 127);
+});
+
+test('multiplicador aplica-se aos percentuais globais, limitado a 100%', () => {
+  const rules = applyOverrideToRules(globalRules, { ...fromMarch, multiplier: 2 });
+  const tiered = rules[0] as Extract<CommissionEngineRule, { type: 'tiered' }>;
+  assert.deepStrictEqual(tiered.tiers.map(tier => tier.commissionPercentage), [20, 100]);
+  assert.strictEqual(tiered.tiers[0].newCustomerPercentage, 24);
+  assert.strictEqual(evaluateCommission(input({ isNewCustomer: true }), rules).commission, 122);
+});
+
+test('sem sobrescrita as regras globais ficam iguais', () => {
+  assert.strictEqual(applyOverrideToRules(globalRules, null), globalRules);
+});
+
+// Executar os testes
+runTests();
@@ -0,0 +1,130 @@
+/**
+ * Script para testar as versões das faixas de comissão: escolha da versão pela data da venda
+ * (início incluído, fim excluído), cópia das faixas para uma nova versão, gravação da versão sem transação
+ * e origem das faixas gravada na venda
+ * Os models do Mongoose são substituídos por stubs; não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testCommissionTierVersions.ts
+ */
+
+import assert from 'assert';
+import { Types } from 'mongoose';
+import CommissionTierVersion from '../models/CommissionTierVersion';
+import CommissionTier from '../models/CommissionTier';
+import {
+  selectTierVersion, toTierData, createTierVersion, TierVersionConflictError, TierVersionLike
+} from '../services/commissionTierVersionService';
+import { describeTierSource } from '../services/commissionService';
+import { test, stub, queryResult, runTests } from './testHarness';
+
+const versions: TierVersionLike[] = [
+  { _id: 'v1', version: 1, effectiveFrom: new Date(0), effectiveTo: new Date('2024-03-01T00:00:00Z') },
+  { _id: 'v2', version: 2, effectiveFrom: new Date('2024-03-01T00:00:00Z'), effectiveTo: new Date('2024-06-01T00:00:00Z') },
+  { _id: 'v3', version: 3, effectiveFrom: new Date('2024-06-01T00:00:00Z') }
+];
+
+test('versão escolhida pela data da venda', () => {
+  assert.strictEqual(selectTierVersion(versions, new Date('2023-12-31T10:00:00Z'))?.version, 1);
+  assert.strictEqual(selectTierVersion(versions, new Date('2024-04-15T10:00:00Z'))?.version, 2);
+  assert.strictEqual(selectTierVersion(versions, new Date('2026-01-01T00:00:00Z'))?.version, 3);
+});
+
+test('início da versão incluído e fim excluído', () => {
+  assert.strictEqual(selectTierVersion(versions, new Date('2024-02-29T23:59:59.999Z'))?.version, 1);
+  assert.strictEqual(selectTierVersion(versions, new Date('2024-03-01T00:00:00Z'))?.version, 2);
+  assert.strictEqual(selectTierVersion(versions, new Date('2024-06-01T00:00:00Z'))?.version, 3);
+});
+
+test('sem versão vigente na data', () => {
+  const scheduled: TierVersionLike[] = [{ version: 1, effectiveFrom: new Date('2030-01-01T00:00:00Z') }];
+  assert.strictEqual(selectTierVersion(scheduled, new Date('2024-01-01T00:00:00Z')), null);
+  assert.strictEqual(selectTierVersion([], new Date()), null);
+});
+
+test('cópia da faixa para a nova versão sem identificador e sem condições removidas', () => {
+  const copy = toTierData({
+    _id: 'faixa',
+    name: 'Prata',
+    minSalesValue: 500,
+    maxSalesValue: null,
+    commissionPercentage: 10,
+    newCustomerPercentage: null,
+    newCustomerBonus: 15
+  });
+  assert.deepStrictEqual(copy, {
+    name: 'Prata',
+    minSalesValue: 500,
+    maxSalesValue: undefined,
+    commissionPercentage: 10,
+    newCustomerPercentage: undefined,
+    newCustomerBonus: 15
+  });
+});
+
+test('versão global só é gravada quando as faixas globais foram aplicadas', () => {
+  const version = new CommissionTierVersion({ appliesTo: 'influencer', version: 2, effectiveFrom: new Date(0) });
+  const tierSet = { _id: new Types.ObjectId(), name: 'Equipe Sul', tiers: [], revision: 3 };
+  const overrideId = new Types.ObjectId();
+
+  assert.deepStrictEqual(describeTierSource(version, null, null), { type: 'global', tierVersion: version._id });
+  assert.deepStrictEqual(describeTierSource(version, tierSet, null), { type: 'manager_tier_set', tierSet: tierSet._id, tierSetRevision: 3 });
+  assert.deepStrictEqual(
+    describeTierSource(version, tierSet, { _id: overrideId, type: 'percentage', percentage: 12, effectiveFrom: new Date(0) }),
+    { type: 'override', override: overrideId }
+  );
+  // O multiplicador aplica-se às faixas globais ou da equipe, que ficam registradas
+  assert.deepStrictEqual(
+    describeTierSource(version, null, { _id: overrideId, type: 'multiplier', multiplier: 1.5, effectiveFrom: new Date(0) }),
+    { type: 'override', tierVersion: version._id, override: overrideId }
+  );
+  assert.strictEqual(describeTierSource(version, tierSet, { _id: overrideId, type: 'multiplier', multiplier: 1.5, effectiveFrom: new Date(0) }).tierVersion, undefined);
+});
+
+// Nova versão sobre a versão 2 vigente, com as gravações registradas
+const stubTierVersionWrites = (conflict: boolean) => {
+  const latest = new CommissionTierVersion({ appliesTo: 'influencer', version: 2, effectiveFrom: new Date('2024-03-01T00:00:00Z') });
+  const writes: { insertedTiers: any[]; createdVersion?: any; deletedFilter?: any; closed?: any } = { insertedTiers: [] };
+  stub(CommissionTierVersion, 'findOne', () => queryResult(latest));
+  stub(CommissionTier, 'insertMany', async (docs: any[]) => {
+    writes.insertedTiers.push(...docs);
+    return docs;
+  });
+  stub(CommissionTierVersion, 'create', async (data: any) => {
+    if (conflict) throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    writes.createdVersion = data;
+    return new CommissionTierVersion(data);
+  });
+  stub(CommissionTier, 'deleteMany', (filter: any) => {
+    writes.deletedFilter = filter;
+    return queryResult({ deletedCount: writes.insertedTiers.length });
+  });
+  stub(CommissionTierVersion, 'updateOne', (filter: any, update: any) => {
+    writes.closed = { filter, update };
+    return queryResult({});
+  });
+  return { latest, writes };
+};
+
+const newTiers = [{ name: 'Ouro', minSalesValue: 0, commissionPercentage: 12 }];
+const from = new Date('2025-01-01T00:00:00Z');
+
+test('nova versão é gravada sem transação: faixas, versão e fim da versão anterior', async () => {
+  const { latest, writes } = stubTierVersionWrites(false);
+  const { version } = await createTierVersion('influencer', newTiers, from);
+
+  assert.strictEqual(version.version, 3);
+  assert.strictEqual(String(writes.insertedTiers[0].tierVersion), String(version._id));
+  assert.strictEqual(String(writes.createdVersion._id), String(version._id));
+  assert.deepStrictEqual(writes.closed, { filter: { _id: latest._id }, update: { effectiveTo: from } });
+});
+
+test('versão salva ao mesmo tempo por outra requisição: faixas removidas e conflito', async () => {
+  const { writes } = stubTierVersionWrites(true);
+  await assert.rejects(createTierVersion('influencer', newTiers, from), TierVersionConflictError);
+
+  assert.strictEqual(String(writes.deletedFilter.tierVersion), String(writes.insertedTiers[0].tierVersion));
+  assert.strictEqual(writes.closed, undefined);
+});
+
+// Executar os testes
+runTests();
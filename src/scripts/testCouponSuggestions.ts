@@ -0,0 +1,160 @@
+/**
+ * Script para testar a comparação aproximada de cupons usada nas sugestões
+ * de atribuição de vendas não atribuídas, a atribuição manual e a liberação dos cupons de usuários removidos.
+ * Os models do Mongoose são substituídos por stubs; não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testCouponSuggestions.ts
+ */
+
+import assert from 'assert';
+import { Types } from 'mongoose';
+import Sale from '../models/Sale';
+import User, { UserRole } from '../models/User';
+import IngestionJob from '../models/IngestionJob';
+import Coupon from '../models/Coupon';
+import { normalizeCouponCode, couponSimilarity, assignSaleToInfluencer } from '../services/attributionService';
+import { isCouponCodeAvailable, setPrimaryCoupon, releaseUserCoupons } from '../services/couponService';
+import { test, stub, queryResult, runTests } from './testHarness';
+
+test('normaliza caixa, espaços, pontuação e acentos', () => {
+  assert.strictEqual(normalizeCouponCode(' Laís-10 '), 'lais10');
+});
+
+test('cupons iguais com caixa diferente têm similaridade 1', () => {
+  assert.strictEqual(couponSimilarity('antonio10', 'ANTONIO10'), 1);
+});
+
+test('erro de digitação ainda é sugerido', () => {
+  assert.ok(couponSimilarity('ANTONOI10', 'ANTONIO10') >= 0.7);
+});
+
+test('cupom antigo contido no atual é sugerido', () => {
+  assert.ok(couponSimilarity('LAIS', 'LAIS15') >= 0.5);
+});
+
+test('cupons diferentes não são sugeridos', () => {
+  assert.ok(couponSimilarity('BLACKFRIDAY', 'ANTONIO10') < 0.5);
+});
+
+test('cupom vazio não tem similaridade', () => {
+  assert.strictEqual(couponSimilarity('', 'ANTONIO10'), 0);
+});
+
+test('atribuição manual grava o influenciador e enfileira a comissão uma única vez', async () => {
+  const sale = new Sale({
+    orderId: '1001', platform: 'shopify', store: 'loja.myshopify.com', saleValue: 150, status: 'paid',
+    attributionStatus: 'unattributed', couponCodeUsed: 'MARIA1O', commissionCalculated: false, transactionDate: new Date()
+  });
+  // Atualização condicional: só a primeira atribuição encontra a venda ainda não atribuída
+  const filters: any[] = [];
+  stub(Sale, 'findOneAndUpdate', (filter: any, update: any) => {
+    filters.push(filter);
+    if (sale.attributionStatus !== filter.attributionStatus) return queryResult(null);
+    sale.set(update.$set);
+    return queryResult(sale);
+  });
+  const created: any[] = [];
+  stub(IngestionJob, 'create', async (data: any) => {
+    created.push(data);
+    return new IngestionJob(data);
+  });
+
+  const influencer = new User({ name: 'Maria', email: 'maria@example.com', role: UserRole.INFLUENCER, manager: new Types.ObjectId() });
+  const adminId = new Types.ObjectId();
+  const [first, second] = await Promise.all([
+    assignSaleToInfluencer(sale, influencer, adminId),
+    assignSaleToInfluencer(sale, influencer, adminId)
+  ]);
+
+  assert.deepStrictEqual(filters[0], { _id: sale._id, attributionStatus: 'unattributed' });
+  assert.ok(first);
+  assert.strictEqual(second, null);
+  assert.strictEqual(String(sale.influencer), String(influencer._id));
+  assert.strictEqual(String(sale.manager), String(influencer.manager));
+  assert.strictEqual(sale.attributionStatus, 'attributed');
+  assert.strictEqual(sale.attributionSource, 'manual');
+  assert.strictEqual(String(sale.attributedBy), String(adminId));
+  assert.ok(sale.attributedAt);
+  // Comissão e notificação seguem pela fila, como nas vendas atribuídas pelo webhook
+  assert.strictEqual(created.length, 1);
+  assert.strictEqual(created[0].type, 'commission');
+  assert.strictEqual(created[0].sale, sale._id);
+  assert.strictEqual(first.job.type, 'commission');
+});
+
+// Coleção de cupons e usuários existentes em memória
+const stubCouponStore = (userIds: Types.ObjectId[]) => {
+  let coupons: any[] = [];
+  const users = new Set(userIds.map(String));
+  stub(Coupon, 'findOne', (filter: any) =>
+    queryResult(coupons.find(coupon => coupon.normalizedCode === filter.normalizedCode) || null));
+  stub(Coupon, 'create', async (data: any) => {
+    const coupon = new Coupon(data);
+    await coupon.validate();
+    if (coupons.some(existing => existing.normalizedCode === coupon.normalizedCode)) {
+      throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    }
+    coupons.push(coupon);
+    return coupon;
+  });
+  stub(Coupon, 'updateMany', () => queryResult({}));
+  stub(Coupon, 'deleteOne', (filter: any) => {
+    coupons = coupons.filter(coupon => String(coupon._id) !== String(filter._id));
+    return queryResult({});
+  });
+  stub(Coupon, 'deleteMany', (filter: any) => {
+    coupons = coupons.filter(coupon => String(coupon.owner) !== String(filter.owner));
+    return queryResult({});
+  });
+  stub(User, 'exists', (filter: any) => queryResult(users.has(String(filter._id)) ? { _id: filter._id } : null));
+  return { removeUser: (userId: Types.ObjectId) => users.delete(String(userId)), coupons: () => coupons };
+};
+
+test('cupom de usuário removido é liberado e pode ser criado por outro influenciador', async () => {
+  const previous = new User({ name: 'Lais', email: 'lais@example.com', role: UserRole.INFLUENCER });
+  const next = new User({ name: 'Laís Souza', email: 'lais.souza@example.com', role: UserRole.INFLUENCER });
+  const store = stubCouponStore([previous._id as Types.ObjectId, next._id as Types.ObjectId]);
+
+  await setPrimaryCoupon(previous, 'LAIS15');
+  assert.strictEqual(await isCouponCodeAvailable('lais15'), false);
+
+  // Remoção do usuário (DELETE /api/users/:id)
+  store.removeUser(previous._id as Types.ObjectId);
+  await releaseUserCoupons(previous._id as Types.ObjectId);
+
+  assert.strictEqual(await isCouponCodeAvailable('lais15'), true);
+  const coupon = await setPrimaryCoupon(next, 'lais15');
+  assert.strictEqual(String(coupon?.owner), String(next._id));
+  assert.strictEqual(next.couponCode, 'lais15');
+  assert.strictEqual(store.coupons().length, 1);
+});
+
+test('cupom inativo de usuário apagado antes da liberação não reserva mais o código', async () => {
+  const deletedId = new Types.ObjectId();
+  const next = new User({ name: 'Bruna', email: 'bruna@example.com', role: UserRole.INFLUENCER });
+  const store = stubCouponStore([deletedId, next._id as Types.ObjectId]);
+  const inactive = await Coupon.create({ code: 'BRUNA10', owner: deletedId, isPrimary: true });
+  inactive.isActive = false;
+  store.removeUser(deletedId);
+
+  assert.strictEqual(await isCouponCodeAvailable('BRUNA10'), true);
+  assert.strictEqual(store.coupons().length, 0);
+  const coupon = await setPrimaryCoupon(next, 'BRUNA10');
+  assert.strictEqual(String(coupon?.owner), String(next._id));
+});
+
+test('cupom inativo de usuário existente continua reservado para ele', async () => {
+  const owner = new User({ name: 'Ana', email: 'ana@example.com', role: UserRole.INFLUENCER });
+  const other = new Types.ObjectId();
+  stubCouponStore([owner._id as Types.ObjectId, other]);
+  const coupon = await Coupon.create({ code: 'ANA5', owner: owner._id, isPrimary: true });
+  coupon.isActive = false;
+
+  assert.strictEqual(await isCouponCodeAvailable('ana5'), false);
+  assert.strictEqual(await isCouponCodeAvailable('ana5', owner._id as Types.ObjectId), true);
+  await assert.rejects(setPrimaryCoupon(new User({ _id: other, name: 'Outro', email: 'outro@example.com' }), 'ANA5'),
+    /já está em uso/);
+});
+
+// Executar os testes
+runTests();
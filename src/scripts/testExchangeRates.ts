@@ -0,0 +1,48 @@
+/**
+ * Script para testar a leitura do CSV de cotações e a conversão para BRL
+ * Não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testExchangeRates.ts
+ */
+
+import assert from 'assert';
+import { parseCsv } from '../utils/csv';
+import { parseRateDate, convertToBaseCurrency } from '../services/exchangeRateService';
+import { test, runTests } from './testHarness';
+
+test('csv: lê cabeçalho e linhas separados por vírgula', () => {
+  const rows = parseCsv('date,currency,rate\n2025-04-09,USD,5.8123\n2025-04-09,EUR,6.35\n');
+  assert.deepStrictEqual(rows, [
+    { date: '2025-04-09', currency: 'USD', rate: '5.8123' },
+    { date: '2025-04-09', currency: 'EUR', rate: '6.35' }
+  ]);
+});
+
+test('csv: detecta ponto e vírgula e ignora BOM e linhas em branco', () => {
+  const rows = parseCsv('\uFEFFData;Moeda;Taxa\r\n09/04/2025;USD;5,8123\r\n\r\n');
+  assert.deepStrictEqual(rows, [{ data: '09/04/2025', moeda: 'USD', taxa: '5,8123' }]);
+});
+
+test('csv: respeita campos entre aspas', () => {
+  const rows = parseCsv('name,note\n"Silva, Ana","disse ""olá""\nem duas linhas"\n');
+  assert.deepStrictEqual(rows, [{ name: 'Silva, Ana', note: 'disse "olá"\nem duas linhas' }]);
+});
+
+test('cotação: datas ISO e brasileiras viram o mesmo dia', () => {
+  assert.strictEqual(parseRateDate('2025-04-09')?.toISOString(), '2025-04-09T00:00:00.000Z');
+  assert.strictEqual(parseRateDate('09/04/2025')?.toISOString(), '2025-04-09T00:00:00.000Z');
+  assert.strictEqual(parseRateDate(new Date('2025-04-09T18:48:33Z'))?.toISOString(), '2025-04-09T00:00:00.000Z');
+});
+
+test('cotação: data inválida retorna null', () => {
+  assert.strictEqual(parseRateDate('ontem'), null);
+  assert.strictEqual(parseRateDate(undefined), null);
+});
+
+test('cotação: conversão arredonda para centavos', () => {
+  assert.strictEqual(convertToBaseCurrency(19.99, 5.8123), 116.19);
+  assert.strictEqual(convertToBaseCurrency(100, 1), 100);
+});
+
+// Executar os testes
+runTests();
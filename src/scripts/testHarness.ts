@@ -0,0 +1,79 @@
+/**
+ * Funções compartilhadas pelos scripts de teste (src/scripts/test*.ts): registro dos casos,
+ * execução com resumo e substituição temporária de métodos (ex.: consultas dos models do Mongoose),
+ * para testar serviços que usam o banco sem precisar de um MongoDB rodando.
+ */
+
+type TestCase = { name: string; run: () => void | Promise<void> };
+
+// Preparação e limpeza do script (ex.: servidor stub local)
+export interface TestHooks {
+  before?: () => void | Promise<void>;
+  after?: () => void | Promise<void>;
+}
+
+const tests: TestCase[] = [];
+// Métodos substituídos no teste atual, restaurados ao fim dele
+const restorers: (() => void)[] = [];
+
+/**
+ * Registra um caso de teste
+ */
+const test = (name: string, run: TestCase['run']) => {
+  tests.push({ name, run });
+};
+
+/**
+ * Substitui um método do objeto até o fim do teste atual (ex.: Sale.findOne ou o save de um documento)
+ */
+const stub = <T extends object>(target: T, method: keyof T & string, implementation: (...args: any[]) => any) => {
+  const hadOwn = Object.prototype.hasOwnProperty.call(target, method);
+  const original = (target as any)[method];
+  (target as any)[method] = implementation;
+  restorers.push(() => {
+    if (hadOwn) (target as any)[method] = original;
+    else delete (target as any)[method];
+  });
+};
+
+/**
+ * Resultado de consulta do Mongoose para os stubs: aceita sort/select/limit encadeados e resolve com o valor
+ */
+const queryResult = <T>(value: T) => {
+  const query: any = {
+    then: (resolve: (value: T) => unknown, reject?: (error: unknown) => unknown) => Promise.resolve(value).then(resolve, reject)
+  };
+  for (const method of ['sort', 'select', 'limit', 'skip', 'populate', 'session', 'lean']) {
+    query[method] = () => query;
+  }
+  return query;
+};
+
+/**
+ * Executa os casos registrados, na ordem, e encerra com código 1 se algum falhar
+ */
+const runTests = async (hooks: TestHooks = {}) => {
+  if (hooks.before) await hooks.before();
+
+  let failures = 0;
+  for (const { name, run } of tests) {
+    try {
+      await run();
+      console.log(`✔ ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.error(`✘ ${name}`);
+      console.error(`  ${error.message}`);
+    } finally {
+      while (restorers.length > 0) restorers.pop()!();
+    }
+  }
+
+  if (hooks.after) await hooks.after();
+  console.log(`\n${tests.length - failures}/${tests.length} testes passaram`);
+  if (failures > 0) {
+    process.exit(1);
+  }
+};
+
+export { test, stub, queryResult, runTests };
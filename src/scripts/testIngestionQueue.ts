@@ -0,0 +1,227 @@
+/**
+ * Script para testar a fila de ingestão de vendas e o reprocessamento de eventos de webhook:
+ * backoff exponencial, lista de mortos, nova tentativa da atribuição, filtro dos eventos reprocessáveis
+ * e remoção das credenciais dos eventos gravados
+ * Os models do Mongoose são substituídos por stubs; não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testIngestionQueue.ts
+ */
+
+import assert from 'assert';
+import { Types } from 'mongoose';
+import IngestionJob, { IIngestionJob } from '../models/IngestionJob';
+import WebhookEvent from '../models/WebhookEvent';
+import WebhookRejection from '../models/WebhookRejection';
+import Sale from '../models/Sale';
+import { enqueueJob, failJob, retryDeadJob } from '../services/jobQueueService';
+import { isReplayableEvent, replayWebhookEvents } from '../services/webhookEventService';
+import { processIngestionJobs, ingestionTask } from '../jobs/ingestionWorker';
+import { captureWebhookEvent } from '../middlewares/webhookEventMiddleware';
+import { WebhookRequest, recordWebhookRejection } from '../middlewares/webhookAuthMiddleware';
+import { cartPandaOrderPaidPayload } from './fixtures/cartPandaOrderPaid';
+import { cartPandaOrderRefundedPayload } from './fixtures/cartPandaOrderRefunded';
+import { test, stub, queryResult, runTests } from './testHarness';
+
+const buildJob = (fields: Record<string, unknown> = {}) => {
+  const job = new IngestionJob({ type: 'attribution', status: 'running', attempts: 1, maxAttempts: 5, ...fields });
+  stub(job, 'save', async () => job);
+  return job;
+};
+
+const buildEvent = (payload: unknown, fields: Record<string, unknown> = {}) => {
+  const event = new WebhookEvent({ platform: 'cartpanda', headers: {}, payload, status: 'queued', authenticated: true, attempts: 0, ...fields });
+  stub(event, 'save', async () => event);
+  return event;
+};
+
+// A fila entrega o job uma única vez, como a reserva atômica de claimNextJob
+const claimOnce = (job: IIngestionJob) => {
+  let claimed = false;
+  stub(IngestionJob, 'findOneAndUpdate', () => {
+    const next = claimed ? null : job;
+    claimed = true;
+    return queryResult(next);
+  });
+};
+
+// Jobs criados durante o teste
+const captureEnqueuedJobs = () => {
+  const created: any[] = [];
+  stub(IngestionJob, 'create', async (data: any) => {
+    created.push(data);
+    return new IngestionJob(data);
+  });
+  return created;
+};
+
+const secondsUntil = (date: Date) => Math.round((date.getTime() - Date.now()) / 1000);
+
+test('fila: falha reagenda com backoff exponencial limitado a 1 hora', async () => {
+  const first = buildJob({ attempts: 1 });
+  await failJob(first, new Error('timeout'));
+  assert.strictEqual(first.status, 'queued');
+  assert.strictEqual(secondsUntil(first.nextRunAt), 30);
+
+  const third = buildJob({ attempts: 3 });
+  await failJob(third, new Error('timeout'));
+  assert.strictEqual(secondsUntil(third.nextRunAt), 120);
+
+  const late = buildJob({ attempts: 10, maxAttempts: 20 });
+  await failJob(late, new Error('timeout'));
+  assert.strictEqual(secondsUntil(late.nextRunAt), 3600);
+});
+
+test('fila: esgotadas as tentativas ou com erro não recuperável, o job vai para a lista de mortos', async () => {
+  const exhausted = buildJob({ attempts: 5, maxAttempts: 5 });
+  await failJob(exhausted, new Error('sem cotação'));
+  assert.strictEqual(exhausted.status, 'dead');
+  assert.ok(exhausted.deadAt);
+  assert.strictEqual(exhausted.lastError, 'sem cotação');
+  assert.strictEqual(exhausted.failures.length, 1);
+
+  const invalid = buildJob({ attempts: 1 });
+  await failJob(invalid, new Error('payload inválido'), false);
+  assert.strictEqual(invalid.status, 'dead');
+});
+
+test('fila: job morto recolocado na fila volta a ter todas as tentativas', async () => {
+  const previous = process.env.INGESTION_JOB_MAX_ATTEMPTS;
+  process.env.INGESTION_JOB_MAX_ATTEMPTS = '3';
+  try {
+    const job = buildJob({ status: 'dead', attempts: 5, deadAt: new Date() });
+    await retryDeadJob(job);
+    assert.strictEqual(job.status, 'queued');
+    assert.strictEqual(job.attempts, 0);
+    assert.strictEqual(job.maxAttempts, 3);
+    assert.strictEqual(job.deadAt, undefined);
+
+    const created = captureEnqueuedJobs();
+    await enqueueJob('commission', { sale: new Types.ObjectId() });
+    assert.strictEqual(created[0].maxAttempts, 3);
+  } finally {
+    if (previous === undefined) delete process.env.INGESTION_JOB_MAX_ATTEMPTS;
+    else process.env.INGESTION_JOB_MAX_ATTEMPTS = previous;
+  }
+});
+
+test('worker: payload inválido vai direto para a lista de mortos', async () => {
+  const event = buildEvent({ orderValue: 200, couponCode: 'TESTE10' }, { platform: 'generic' });
+  const job = buildJob({ event: event._id });
+  claimOnce(job);
+  stub(WebhookEvent, 'findById', () => queryResult(event));
+
+  assert.strictEqual(await processIngestionJobs(), 1);
+  assert.strictEqual(job.status, 'dead');
+  assert.strictEqual(event.status, 'failed');
+  assert.ok(event.error);
+});
+
+test('worker: nova tentativa da atribuição enfileira a comissão da venda já registrada', async () => {
+  const event = buildEvent(cartPandaOrderPaidPayload);
+  // A tentativa anterior registrou a venda e falhou antes de enfileirar a comissão
+  const sale = new Sale({
+    orderId: '34488130', platform: 'cartpanda', store: '131416', influencer: new Types.ObjectId(),
+    saleValue: 160.65, status: 'paid', commissionCalculated: false, transactionDate: new Date()
+  });
+  stub(Sale, 'findOne', () => queryResult(sale));
+  stub(WebhookEvent, 'findById', () => queryResult(event));
+  stub(IngestionJob, 'exists', () => queryResult(null));
+  const created = captureEnqueuedJobs();
+
+  claimOnce(buildJob({ event: event._id, attempts: 2 }));
+  await processIngestionJobs();
+  assert.strictEqual(event.outcome, 'duplicate');
+  assert.strictEqual(created.length, 1);
+  assert.strictEqual(created[0].type, 'commission');
+  assert.strictEqual(created[0].sale, sale._id);
+
+  // Com o job de comissão já criado (ou a comissão calculada), nada é enfileirado de novo
+  stub(IngestionJob, 'exists', () => queryResult({ _id: new Types.ObjectId() }));
+  claimOnce(buildJob({ event: event._id, attempts: 3 }));
+  await processIngestionJobs();
+  sale.commissionCalculated = true;
+  stub(IngestionJob, 'exists', () => queryResult(null));
+  claimOnce(buildJob({ event: event._id, attempts: 4 }));
+  await processIngestionJobs();
+  assert.strictEqual(created.length, 1);
+});
+
+test('reprocessamento: eventos rejeitados ou não autenticados não são reprocessados', () => {
+  assert.strictEqual(isReplayableEvent({ status: 'failed', authenticated: true }), true);
+  // Eventos anteriores ao campo authenticated continuam reprocessáveis
+  assert.strictEqual(isReplayableEvent({ status: 'processed', authenticated: undefined }), true);
+  assert.strictEqual(isReplayableEvent({ status: 'rejected', authenticated: false }), false);
+  assert.strictEqual(isReplayableEvent({ status: 'failed', authenticated: false }), false);
+});
+
+test('reprocessamento: processa os eventos do filtro e grava o resultado', async () => {
+  const event = buildEvent(cartPandaOrderRefundedPayload, { status: 'failed', attempts: 1 });
+  let query: any;
+  stub(WebhookEvent, 'find', (filter: any) => {
+    query = filter;
+    return queryResult([event]);
+  });
+  stub(Sale, 'findOne', () => queryResult(null));
+
+  const result = await replayWebhookEvents({ platform: 'cartpanda' }, 10);
+  assert.deepStrictEqual(query.$and, [
+    { platform: 'cartpanda' },
+    { status: { $ne: 'rejected' }, authenticated: { $ne: false } }
+  ]);
+  assert.strictEqual(result.total, 1);
+  assert.deepStrictEqual(result.summary, { ignored: 1 });
+  assert.strictEqual(event.outcome, 'sale_not_found');
+  assert.strictEqual(event.attempts, 2);
+});
+
+test('eventos e rejeições gravados não contêm tokens nem assinaturas', async () => {
+  const secrets = ['hottok-secreto', 'token-secreto', 'hmac-secreto', 'chave-eduzz', 'assinatura-kiwify'];
+  const rawBody = JSON.stringify({ api_key: 'chave-eduzz', hottok: 'hottok-secreto', trans_cod: '123' });
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'x-hotmart-hottok': 'hottok-secreto',
+    'webhook-token': 'token-secreto',
+    'x-shopify-hmac-sha256': 'hmac-secreto',
+    'x-shopify-shop-domain': 'loja.myshopify.com'
+  };
+  const req = {
+    headers,
+    get: (name: string) => headers[name.toLowerCase()],
+    rawBody: Buffer.from(rawBody),
+    body: JSON.parse(rawBody),
+    originalUrl: '/api/webhooks/kiwify?signature=assinatura-kiwify&origem=teste',
+    ip: '127.0.0.1'
+  } as unknown as WebhookRequest;
+
+  const stored: any[] = [];
+  stub(WebhookEvent, 'create', async (data: any) => {
+    stored.push(data);
+    return new WebhookEvent(data);
+  });
+  stub(WebhookRejection, 'create', async (data: any) => {
+    stored.push(data);
+    return new WebhookRejection(data);
+  });
+
+  await captureWebhookEvent('hotmart')(req, {} as any, () => undefined);
+  stub(req.webhookEvent!, 'save', async () => req.webhookEvent);
+  await recordWebhookRejection(req, 'kiwify', 'Assinatura não confere');
+
+  assert.strictEqual(stored.length, 2);
+  const serialized = JSON.stringify(stored);
+  for (const secret of secrets) {
+    assert.ok(!serialized.includes(secret), `credencial gravada: ${secret}`);
+  }
+  // O restante da entrega continua disponível para consulta e reprocessamento
+  assert.strictEqual(stored[0].store, 'loja.myshopify.com');
+  assert.strictEqual(JSON.parse(stored[0].rawBody).trans_cod, '123');
+  assert.strictEqual(stored[0].payload.trans_cod, '123');
+  assert.strictEqual(stored[1].path, '/api/webhooks/kiwify?signature=%5Bremovido%5D&origem=teste');
+});
+
+// Executar os testes (o worker agendado na importação é parado ao fim)
+runTests({
+  after: () => {
+    ingestionTask.stop();
+  }
+});
@@ -0,0 +1,148 @@
+/**
+ * Script para testar os conjuntos de faixas dos gerentes: validação com os limites do admin,
+ * aplicação dos limites no cálculo (inclusive nas sobrescritas definidas por gerentes), ordem de resolução (sobrescrita individual, equipe e faixas globais)
+ * e conjunto em vigor na data da venda, refeito pelo histórico
+ * Não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testManagerTierSets.ts
+ */
+
+import assert from 'assert';
+import { Types } from 'mongoose';
+import ManagerTierSet from '../models/ManagerTierSet';
+import {
+  validateTierSetTiers, applyTierSetBounds, applyTierSetToRules, selectManagerTierSet, ManagerTierSetLike
+} from '../services/managerTierSetService';
+import { applyOverrideToRules } from '../services/commissionOverrideService';
+import { evaluateCommission, CommissionEngineRule, CommissionInput } from '../services/commissionEngine';
+import { test, runTests } from './testHarness';
+
+const globalRules: CommissionEngineRule[] = [
+  { type: 'tiered', name: 'Faixas de comissão', tiers: [{ _id: 'global', name: 'Global', minSalesValue: 0, commissionPercentage: 10 }] },
+  { type: 'cap', name: 'Teto', amount: 150 }
+];
+
+const teamSet: ManagerTierSetLike = {
+  name: 'Equipe Sul',
+  tiers: [
+    { _id: 'entrada', name: 'Entrada', minSalesValue: 0, commissionPercentage: 12 },
+    { _id: 'top', name: 'Top', minSalesValue: 800, commissionPercentage: 20, newCustomerBonus: 30 }
+  ]
+};
+
+const input = (overrides: Partial<CommissionInput> = {}): CommissionInput => ({
+  role: 'influencer',
+  baseValue: 1000,
+  remainingRatio: 1,
+  isNewCustomer: false,
+  lineItems: [],
+  productRules: [],
+  ...overrides
+});
+
+test('faixas válidas dentro dos limites', () => {
+  assert.strictEqual(validateTierSetTiers(teamSet.tiers, { maxPercentage: 20, maxNewCustomerBonus: 30 }), null);
+  assert.strictEqual(validateTierSetTiers(teamSet.tiers), null);
+});
+
+test('faixas acima dos limites do admin são recusadas', () => {
+  assert.match(validateTierSetTiers(teamSet.tiers, { maxPercentage: 15 })!, /Top ultrapassa o percentual máximo/);
+  assert.match(validateTierSetTiers(teamSet.tiers, { maxNewCustomerBonus: 10 })!, /bônus máximo/);
+  assert.match(
+    validateTierSetTiers([{ name: 'Nova', minSalesValue: 0, commissionPercentage: 5, newCustomerPercentage: 18 }], { maxPercentage: 15 })!,
+    /percentual máximo/
+  );
+});
+
+test('faixas incompletas ou com intervalo inválido são recusadas', () => {
+  assert.ok(validateTierSetTiers([]));
+  assert.ok(validateTierSetTiers([{ name: 'Sem percentual', minSalesValue: 0 }]));
+  assert.match(validateTierSetTiers([{ name: 'Invertida', minSalesValue: 500, maxSalesValue: 100, commissionPercentage: 5 }])!, /maxSalesValue/);
+});
+
+test('faixas da equipe substituem as globais e mantêm as demais regras', () => {
+  const result = evaluateCommission(input({ isNewCustomer: true }), applyTierSetToRules(globalRules, teamSet));
+  assert.strictEqual(result.tier?.name, 'Top');
+  assert.strictEqual(result.commission, 150); // 20% de 1000 + bônus de 30, limitado pelo teto
+  assert.strictEqual(result.explanation[0].name, 'Faixas da equipe (Equipe Sul)');
+});
+
+test('limites reduzidos depois da ativação valem no cálculo', () => {
+  const bounded = applyTierSetBounds(teamSet.tiers, { maxPercentage: 15, maxNewCustomerBonus: 10 });
+  assert.deepStrictEqual(bounded.map(tier => tier.commissionPercentage), [12, 15]);
+  assert.strictEqual(bounded[1].newCustomerBonus, 10);
+  assert.strictEqual(bounded[0].newCustomerBonus, undefined);
+});
+
+test('sobrescrita individual vale antes das faixas da equipe', () => {
+  const teamRules = applyTierSetToRules(globalRules, teamSet);
+  const rules = applyOverrideToRules(teamRules, { type: 'percentage', percentage: 8, effectiveFrom: new Date(0), setByRole: 'manager' });
+  assert.strictEqual(evaluateCommission(input(), rules).commission, 80);
+
+  const multiplied = applyOverrideToRules(teamRules, { type: 'multiplier', multiplier: 0.5, effectiveFrom: new Date(0), setByRole: 'manager' });
+  assert.strictEqual(evaluateCommission(input(), multiplied).commission, 100);
+});
+
+test('sobrescrita de gerente fica dentro dos limites do admin', () => {
+  const bounds = { maxPercentage: 15, maxNewCustomerBonus: 10 };
+  const teamRules = applyTierSetToRules(globalRules, teamSet, bounds);
+
+  const fixed = applyOverrideToRules(teamRules, { type: 'percentage', percentage: 100, effectiveFrom: new Date(0), setByRole: 'manager' }, bounds);
+  assert.strictEqual(evaluateCommission(input({ baseValue: 500 }), fixed).commission, 75); // 15% de 500, não 100%
+
+  const multiplied = applyOverrideToRules(teamRules, { type: 'multiplier', multiplier: 5, effectiveFrom: new Date(0) }, bounds);
+  const result = evaluateCommission(input({ baseValue: 500, isNewCustomer: true }), multiplied);
+  assert.strictEqual(result.commission, 75); // Faixa Entrada: 12% x 5 limitado a 15%
+
+  const custom = applyOverrideToRules(teamRules, {
+    type: 'tiers',
+    effectiveFrom: new Date(0),
+    setByRole: 'manager',
+    tiers: [{ name: 'VIP', minSalesValue: 0, commissionPercentage: 40, newCustomerBonus: 50 }]
+  }, bounds);
+  assert.strictEqual(evaluateCommission(input({ baseValue: 100, isNewCustomer: true }), custom).commission, 25); // 15% + bônus de 10
+});
+
+test('sobrescrita de admin não é limitada', () => {
+  const bounds = { maxPercentage: 15 };
+  const rules = applyOverrideToRules(globalRules, { type: 'percentage', percentage: 30, effectiveFrom: new Date(0), setByRole: 'admin' }, bounds);
+  assert.strictEqual(evaluateCommission(input({ baseValue: 400 }), rules).commission, 120);
+});
+
+test('sem conjunto ativo a equipe usa as faixas globais', () => {
+  assert.strictEqual(applyTierSetToRules(globalRules, null), globalRules);
+});
+
+test('conjunto em vigor na data da venda é refeito pelo histórico', () => {
+  const manager = new Types.ObjectId();
+  const tiers = (percentage: number) => [{ name: 'Entrada', minSalesValue: 0, commissionPercentage: percentage }];
+  const at = (date: string) => new Date(`${date}T12:00:00Z`);
+  // Conjunto A: ativado em 01/03 com 12%, alterado para 15% em 10/03 e desativado em 20/03 (ativação do B)
+  const setA = new ManagerTierSet({
+    manager, name: 'A', tiers: tiers(15), isActive: false,
+    history: [
+      { action: 'created', at: at('2025-02-20'), name: 'A', tiers: tiers(12) },
+      { action: 'activated', at: at('2025-03-01'), name: 'A', tiers: tiers(12) },
+      { action: 'updated', at: at('2025-03-10'), name: 'A', tiers: tiers(15) },
+      { action: 'deactivated', at: at('2025-03-20'), name: 'A', tiers: tiers(15) }
+    ]
+  });
+  const setB = new ManagerTierSet({
+    manager, name: 'B', tiers: tiers(18), isActive: true,
+    history: [
+      { action: 'created', at: at('2025-03-15'), name: 'B', tiers: tiers(18) },
+      { action: 'activated', at: at('2025-03-20'), name: 'B', tiers: tiers(18) }
+    ]
+  });
+  const percentageAt = (date: string) => selectManagerTierSet([setA, setB], at(date))?.tiers[0].commissionPercentage;
+
+  assert.strictEqual(selectManagerTierSet([setA, setB], at('2025-02-25')), null);
+  assert.strictEqual(percentageAt('2025-03-05'), 12);
+  assert.strictEqual(percentageAt('2025-03-12'), 15);
+  assert.strictEqual(selectManagerTierSet([setA, setB], at('2025-03-12'))!.revision, 3);
+  assert.strictEqual(percentageAt('2025-03-25'), 18);
+  assert.strictEqual(selectManagerTierSet([setA, setB], at('2025-03-25'))!.name, 'B');
+});
+
+// Executar os testes
+runTests();
@@ -0,0 +1,55 @@
+/**
+ * Script para testar a identificação de clientes novos pelo hash do e-mail/telefone
+ * e as condições de primeira compra das faixas de comissão (percentual e bônus)
+ * Não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testNewCustomers.ts
+ */
+
+import assert from 'assert';
+import { hashCustomerIdentifier, applyNewCustomerTerms } from '../services/customerService';
+import { test, runTests } from './testHarness';
+
+const tier = { commissionPercentage: 10, newCustomerPercentage: 15, newCustomerBonus: 20 };
+
+test('e-mail é normalizado antes do hash', () => {
+  const hash = hashCustomerIdentifier({ email: '  Maria@Exemplo.com ' });
+  assert.match(hash || '', /^[0-9a-f]{64}$/);
+  assert.strictEqual(hash, hashCustomerIdentifier({ email: 'maria@exemplo.com', phone: '11999990000' }));
+});
+
+test('sem e-mail usa o telefone só com dígitos', () => {
+  const hash = hashCustomerIdentifier({ phone: '+55 (11) 99999-0000' });
+  assert.ok(hash);
+  assert.strictEqual(hash, hashCustomerIdentifier({ phone: '5511999990000' }));
+  assert.notStrictEqual(hash, hashCustomerIdentifier({ email: 'maria@exemplo.com' }));
+});
+
+test('pedido sem e-mail nem telefone fica sem hash', () => {
+  assert.strictEqual(hashCustomerIdentifier(undefined), undefined);
+  assert.strictEqual(hashCustomerIdentifier({ email: ' ', phone: '' }), undefined);
+});
+
+test('cliente novo usa o percentual e o bônus de primeira compra', () => {
+  assert.deepStrictEqual(applyNewCustomerTerms(tier, true), { percentage: 15, bonus: 20 });
+});
+
+test('cliente recorrente usa o percentual da faixa sem bônus', () => {
+  assert.deepStrictEqual(applyNewCustomerTerms(tier, false), { percentage: 10, bonus: 0 });
+});
+
+test('faixa sem percentual de cliente novo mantém o percentual da faixa', () => {
+  assert.deepStrictEqual(applyNewCustomerTerms({ commissionPercentage: 10, newCustomerBonus: 5 }, true), { percentage: 10, bonus: 5 });
+});
+
+test('bônus é reduzido na proporção do valor estornado', () => {
+  assert.deepStrictEqual(applyNewCustomerTerms(tier, true, 0.25), { percentage: 15, bonus: 5 });
+  assert.deepStrictEqual(applyNewCustomerTerms(tier, true, 0), { percentage: 15, bonus: 0 });
+});
+
+test('sem faixa não há comissão nem bônus', () => {
+  assert.deepStrictEqual(applyNewCustomerTerms(null, true), { percentage: 0, bonus: 0 });
+});
+
+// Executar os testes
+runTests();
@@ -0,0 +1,74 @@
+/**
+ * Script para testar o endpoint de webhook da Nuvemshop
+ * 
+ * Este script envia uma requisição de teste para o endpoint do webhook da Nuvemshop
+ * simulando o evento de pagamento de pedido (order/paid).
+ *
+ * A Nuvemshop envia apenas { store_id, event, id } e o backend busca o pedido na API da loja.
+ * Por padrão o script envia o pedido completo junto com o evento, o que dispensa o acesso à API;
+ * use --notification para enviar só a notificação (exige NUVEMSHOP_ACCESS_TOKEN no servidor).
+ * 
+ * Para executar: npx ts-node src/scripts/testNuvemshopWebhook.ts [--notification]
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { nuvemshopWebhookPayload, nuvemshopOrderPayload } from './fixtures/nuvemshopOrder';
+
+// Carregar variáveis de ambiente
+dotenv.config();
+
+// URL do webhook e segredo do app
+const WEBHOOK_URL = process.env.API_URL ? `${process.env.API_URL}/api/webhooks/nuvemshop` : 'http://localhost:5000/api/webhooks/nuvemshop';
+const NUVEMSHOP_APP_SECRET = process.env.NUVEMSHOP_APP_SECRET || 'seu_segredo_de_webhook';
+
+// Notificação de exemplo da Nuvemshop, com ou sem o pedido completo
+const webhookPayload = process.argv.includes('--notification')
+  ? nuvemshopWebhookPayload
+  : { ...nuvemshopOrderPayload, ...nuvemshopWebhookPayload };
+
+// Função para enviar o webhook
+async function sendWebhook() {
+  console.log(`Enviando webhook para: ${WEBHOOK_URL}`);
+  
+  try {
+    // Assinar o corpo com o segredo do app (HMAC-SHA256 em hexadecimal)
+    const body = JSON.stringify(webhookPayload);
+    const signature = crypto
+      .createHmac('sha256', NUVEMSHOP_APP_SECRET)
+      .update(body)
+      .digest('hex');
+
+    // Enviar requisição POST para o endpoint do webhook
+    const response = await axios.post(WEBHOOK_URL, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Linkedstore-Hmac-Sha256': signature
+      }
+    });
+    
+    // Exibir resposta
+    console.log('Resposta:');
+    console.log(`Status: ${response.status}`);
+    console.log('Dados:');
+    console.log(JSON.stringify(response.data, null, 2));
+  } catch (error: any) {
+    console.error('Erro ao enviar webhook:');
+    if (error.response) {
+      // O servidor respondeu com um status de erro
+      console.error(`Status: ${error.response.status}`);
+      console.error('Dados:');
+      console.error(JSON.stringify(error.response.data, null, 2));
+    } else if (error.request) {
+      // A requisição foi feita mas não houve resposta
+      console.error('Sem resposta do servidor');
+    } else {
+      // Ocorreu um erro ao configurar a requisição
+      console.error(`Erro: ${error.message}`);
+    }
+  }
+}
+
+// Executar o envio do webhook
+sendWebhook();
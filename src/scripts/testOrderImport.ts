@@ -0,0 +1,100 @@
+/**
+ * Script para testar a leitura dos CSVs de pedidos históricos (mapeamento de colunas e agrupamento)
+ * Não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testOrderImport.ts
+ */
+
+import assert from 'assert';
+import { buildOrdersFromCsv, parseImportDate, resolveColumnMapping } from '../services/orderImportService';
+import { test, runTests } from './testHarness';
+
+// Exportação da Shopify: uma linha por item, valores do pedido só na primeira linha
+const SHOPIFY_CSV = [
+  'Name,Email,Financial Status,Fulfillment Status,Currency,Subtotal,Shipping,Taxes,Total,Discount Code,Discount Amount,Created at,Lineitem quantity,Lineitem name,Lineitem price,Lineitem sku,Lineitem discount,Billing Name,Id',
+  '#1001,ana@example.com,paid,fulfilled,BRL,135.00,15.00,0.00,150.00,MARIA10,15.00,2025-04-09 15:48:33 -0300,1,Camiseta,100.00,CAM-01,10.00,Ana Souza,5678901234',
+  '#1001,,,,,,,,,,,,1,Boné,50.00,BON-01,5.00,,5678901234',
+  '#1002,joao@example.com,pending,,USD,20.00,0.00,0.00,20.00,,0.00,2025-04-10 10:00:00 -0300,1,Caneca,20.00,CAN-01,0.00,João,5678901235',
+  '#1003,bia@example.com,refunded,,BRL,80.00,0.00,0.00,80.00,JOAO5,0.00,2025-04-11 09:00:00 -0300,1,Meia,80.00,MEI-01,0.00,Bia,5678901236'
+].join('\n');
+
+test('mapeamento: usa o preset da plataforma', () => {
+  const mapping = resolveColumnMapping({ platform: 'shopify' });
+  assert.strictEqual(mapping.orderId, 'id');
+  assert.strictEqual(mapping.coupon, 'discount code');
+});
+
+test('mapeamento: colunas informadas substituem o preset (sem diferenciar maiúsculas)', () => {
+  const mapping = resolveColumnMapping({ platform: 'cartpanda', mapping: { coupon: 'Cupom', date: ' Data do Pedido ' } });
+  assert.strictEqual(mapping.coupon, 'cupom');
+  assert.strictEqual(mapping.date, 'data do pedido');
+  assert.strictEqual(mapping.total, 'total_price');
+});
+
+test('mapeamento: exige pedido, total e data e rejeita preset desconhecido', () => {
+  assert.throws(() => resolveColumnMapping({ platform: 'generic' }), /orderId, total, date/);
+  assert.throws(() => resolveColumnMapping({ platform: 'generic', preset: 'magento' }), /magento/);
+  assert.doesNotThrow(() => resolveColumnMapping({ platform: 'generic', mapping: { orderId: 'pedido', total: 'valor', date: 'data' } }));
+});
+
+test('shopify: agrupa as linhas de itens no mesmo pedido', () => {
+  const { totalRows, orders } = buildOrdersFromCsv(SHOPIFY_CSV, { platform: 'shopify', store: 'loja.myshopify.com' });
+  assert.strictEqual(totalRows, 4);
+  const [{ line, order }] = orders;
+  assert.strictEqual(line, 2);
+  assert.strictEqual(order.externalOrderId, '5678901234');
+  assert.strictEqual(order.storeId, 'loja.myshopify.com');
+  assert.strictEqual(order.status, 'fulfilled');
+  assert.strictEqual(order.grossValue, 150);
+  assert.strictEqual(order.discounts, 15);
+  assert.strictEqual(order.netValue, 135);
+  assert.deepStrictEqual(order.couponCodes, ['MARIA10']);
+  assert.strictEqual(order.createdAt.toISOString(), '2025-04-09T18:48:33.000Z');
+  assert.deepStrictEqual(order.customer, { name: 'Ana Souza', email: 'ana@example.com' });
+  assert.deepStrictEqual(order.lineItems.map(item => [item.sku, item.quantity, item.price, item.discount]), [
+    ['CAM-01', 1, 100, 10],
+    ['BON-01', 1, 50, 5]
+  ]);
+});
+
+test('shopify: pedido pendente em outra moeda e estornado ignorado', () => {
+  const { orders, skipped, errors } = buildOrdersFromCsv(SHOPIFY_CSV, { platform: 'shopify' });
+  assert.strictEqual(orders.length, 2);
+  assert.strictEqual(orders[1].order.status, 'pending');
+  assert.strictEqual(orders[1].order.currency, 'USD');
+  assert.deepStrictEqual(orders[1].order.couponCodes, []);
+  assert.deepStrictEqual(skipped, [{ line: 5, orderId: '5678901236', message: 'Pedido refunded' }]);
+  assert.deepStrictEqual(errors, []);
+});
+
+test('csv em português: ponto e vírgula, valores e datas brasileiros e vários cupons', () => {
+  const csv = 'Pedido;Valor;Data;Cupom;Situação\n#501;R$ 1.234,50;09/04/2025 15:48;MARIA10, VERAO;Pago\n';
+  const { orders } = buildOrdersFromCsv(csv, {
+    platform: 'generic',
+    mapping: { orderId: 'Pedido', total: 'Valor', date: 'Data', coupon: 'Cupom', status: 'Situação' }
+  });
+  const { order } = orders[0];
+  assert.strictEqual(order.externalOrderId, '501');
+  assert.strictEqual(order.grossValue, 1234.5);
+  assert.strictEqual(order.status, 'paid');
+  assert.deepStrictEqual(order.couponCodes, ['MARIA10', 'VERAO']);
+  assert.strictEqual(order.createdAt.getTime(), new Date(2025, 3, 9, 15, 48).getTime());
+});
+
+test('erros: linha sem pedido, total ou data inválidos e situação desconhecida', () => {
+  const csv = 'id,total_price,created_at,payment_status\n,10,2025-04-09,paid\n2,abc,2025-04-09,paid\n3,10,ontem,paid\n4,10,2025-04-09,em análise\n';
+  const { orders, errors } = buildOrdersFromCsv(csv, { platform: 'cartpanda' });
+  assert.strictEqual(orders.length, 0);
+  assert.deepStrictEqual(errors.map(error => [error.line, error.orderId]), [[2, undefined], [3, '2'], [4, '3'], [5, '4']]);
+  assert.match(errors[3].message, /em análise/);
+});
+
+test('data: formatos aceitos e inválidos', () => {
+  assert.strictEqual(parseImportDate('2025-04-09T18:48:33Z')?.toISOString(), '2025-04-09T18:48:33.000Z');
+  assert.strictEqual(parseImportDate('09/04/2025')?.getTime(), new Date(2025, 3, 9).getTime());
+  assert.strictEqual(parseImportDate(''), null);
+  assert.strictEqual(parseImportDate('31/31/2025 99:99'), null);
+});
+
+// Executar os testes
+runTests();
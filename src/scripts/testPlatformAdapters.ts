@@ -0,0 +1,523 @@
+/**
+ * Script para testar os adapters de plataforma com os payloads de exemplo
+ *
+ * Cada adapter deve converter os fixtures de src/scripts/fixtures em um pedido normalizado.
+ * Não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testPlatformAdapters.ts
+ */
+
+import assert from 'assert';
+import { getPlatformAdapter, InvalidPayloadError, IgnoredEventError } from '../services/platformAdapters';
+import { shopifyOrderPayload } from './fixtures/shopifyOrder';
+import { cartPandaOrderPaidPayload } from './fixtures/cartPandaOrderPaid';
+import { shopifyRefundPayload, shopifyOrderCancelledPayload } from './fixtures/shopifyRefund';
+import {
+  cartPandaOrderRefundedPayload,
+  cartPandaPartialRefundPayload,
+  cartPandaChargebackPayload
+} from './fixtures/cartPandaOrderRefunded';
+import { wooCommerceOrderPayload, wooCommercePartialRefundPayload } from './fixtures/wooCommerceOrder';
+import { nuvemshopWebhookPayload, nuvemshopOrderPayload } from './fixtures/nuvemshopOrder';
+import { yampiOrderPaidPayload, yampiOrderCancelledPayload } from './fixtures/yampiOrder';
+import { hotmartPurchaseApprovedPayload, hotmartPurchaseRefundedPayload } from './fixtures/hotmartPurchase';
+import { kiwifyOrderPaidPayload, kiwifyOrderChargebackPayload } from './fixtures/kiwifyOrder';
+import { eduzzInvoicePaidPayload, eduzzInvoiceRefundedPayload } from './fixtures/eduzzPostback';
+import { test, runTests } from './testHarness';
+
+// --- Shopify ---
+const shopify = getPlatformAdapter('shopify');
+
+test('shopify: normaliza o pedido de exemplo', () => {
+  const order = shopify.normalize(shopifyOrderPayload);
+  assert.strictEqual(order.platform, 'shopify');
+  assert.strictEqual(order.externalOrderId, 'TEST-1001');
+  assert.strictEqual(order.grossValue, 150);
+  assert.strictEqual(order.netValue, 150);
+  assert.deepStrictEqual(order.couponCodes, ['TESTE10']);
+  assert.strictEqual(order.customer?.email, 'cliente.teste@example.com');
+  assert.strictEqual(order.customer?.name, 'Cliente Teste');
+  assert.strictEqual(order.lineItems.length, 1);
+  assert.deepStrictEqual(order.lineItems[0], {
+    sku: undefined,
+    productId: undefined,
+    title: 'Produto de Teste',
+    quantity: 1,
+    price: 150,
+    discount: 0
+  });
+  assert.strictEqual(order.createdAt.toISOString(), '2025-04-09T18:48:33.000Z');
+});
+
+test('shopify: etapa do pedido pelo financial_status e fulfillment_status', () => {
+  assert.strictEqual(shopify.normalize(shopifyOrderPayload).status, 'paid');
+  assert.strictEqual(shopify.normalize({ ...shopifyOrderPayload, financial_status: 'pending' }).status, 'pending');
+  assert.strictEqual(shopify.normalize({ ...shopifyOrderPayload, financial_status: 'paid', fulfillment_status: 'fulfilled' }).status, 'fulfilled');
+  assert.throws(() => shopify.normalize({ ...shopifyOrderPayload, financial_status: 'voided' }), IgnoredEventError);
+});
+
+test('shopify: aceita o pedido dentro de "order"', () => {
+  const order = shopify.normalize({ order: shopifyOrderPayload });
+  assert.strictEqual(order.externalOrderId, 'TEST-1001');
+  assert.strictEqual(order.grossValue, 150);
+});
+
+test('shopify: pedido sem cupom não tem couponCodes', () => {
+  const order = shopify.normalize({ ...shopifyOrderPayload, discount_codes: [] });
+  assert.deepStrictEqual(order.couponCodes, []);
+});
+
+test('shopify: usa current_total_price quando total_price não existe', () => {
+  const { total_price, ...withoutTotal } = shopifyOrderPayload;
+  const order = shopify.normalize({ ...withoutTotal, current_total_price: '99.90' });
+  assert.strictEqual(order.grossValue, 99.9);
+});
+
+test('shopify: valor líquido exclui frete e impostos', () => {
+  const order = shopify.normalize({
+    ...shopifyOrderPayload,
+    total_price: '190.00',
+    subtotal_price: '135.00',
+    total_discounts: '15.00',
+    total_tax: '10.00',
+    shipping_lines: [{ price: '30.00' }, { price: '15.00' }]
+  });
+  assert.strictEqual(order.grossValue, 190);
+  assert.strictEqual(order.discounts, 15);
+  assert.strictEqual(order.shipping, 45);
+  assert.strictEqual(order.taxes, 10);
+  assert.strictEqual(order.netValue, 135);
+});
+
+test('shopify: impostos incluídos no preço saem do valor líquido', () => {
+  const order = shopify.normalize({
+    ...shopifyOrderPayload,
+    subtotal_price: '135.00',
+    total_tax: '12.50',
+    taxes_included: true,
+    total_shipping_price_set: { shop_money: { amount: '20.00' } }
+  });
+  assert.strictEqual(order.shipping, 20);
+  assert.strictEqual(order.netValue, 122.5);
+});
+
+test('shopify: desconto do item vem de discount_allocations', () => {
+  const order = shopify.normalize({
+    ...shopifyOrderPayload,
+    line_items: [{ ...shopifyOrderPayload.line_items[0], discount_allocations: [{ amount: '10.00' }, { amount: '5.00' }] }]
+  });
+  assert.strictEqual(order.lineItems[0].discount, 15);
+});
+
+test('shopify: usa a moeda da loja informada no pedido', () => {
+  assert.strictEqual(shopify.normalize(shopifyOrderPayload).currency, 'BRL');
+  assert.strictEqual(shopify.normalize({ ...shopifyOrderPayload, currency: 'usd' }).currency, 'USD');
+});
+
+test('shopify: payload sem pedido é inválido', () => {
+  assert.throws(() => shopify.normalize({}), InvalidPayloadError);
+});
+
+test('shopify: refunds/create soma as transações de reembolso', () => {
+  const [refund] = shopify.normalizeRefunds!(shopifyRefundPayload, 'refunds/create');
+  assert.ok(refund);
+  assert.strictEqual(refund.externalOrderId, 'TEST-1001');
+  assert.strictEqual(refund.externalRefundId, '890088186047');
+  assert.strictEqual(refund.amount, 50);
+  assert.strictEqual(refund.reason, 'refund');
+});
+
+test('shopify: orders/cancelled é um estorno total', () => {
+  const [refund] = shopify.normalizeRefunds!(shopifyOrderCancelledPayload, 'orders/cancelled');
+  assert.ok(refund);
+  assert.strictEqual(refund.externalOrderId, 'TEST-1001');
+  assert.strictEqual(refund.amount, undefined);
+  assert.strictEqual(refund.reason, 'cancellation');
+});
+
+test('shopify: pedidos pagos não são estornos', () => {
+  assert.deepStrictEqual(shopify.normalizeRefunds!(shopifyOrderPayload, 'orders/paid'), []);
+});
+
+// --- CartPanda ---
+const cartPanda = getPlatformAdapter('cartpanda');
+
+test('cartpanda: normaliza o evento order.paid de exemplo', () => {
+  const order = cartPanda.normalize(cartPandaOrderPaidPayload);
+  assert.strictEqual(order.platform, 'cartpanda');
+  assert.strictEqual(order.externalOrderId, '34488130');
+  assert.strictEqual(order.storeId, '131416');
+  assert.strictEqual(order.grossValue, 160.65);
+  assert.strictEqual(order.netValue, 160.65);
+  assert.deepStrictEqual(order.couponCodes, ['antonio10']);
+  assert.strictEqual(order.customer?.name, 'Cliente Teste');
+  assert.strictEqual(order.customer?.phone, '+5511999999999');
+  assert.deepStrictEqual(order.lineItems, [{
+    sku: '1candy1oleo',
+    productId: '11581669',
+    title: 'KIT ROSA CANDY COM CLAREADOR ÍNTIMO + ÓLEO',
+    quantity: 1,
+    price: 189,
+    discount: 0
+  }]);
+});
+
+test('cartpanda: separa descontos, frete e impostos', () => {
+  const order = cartPanda.normalize({
+    ...cartPandaOrderPaidPayload,
+    order: { ...cartPandaOrderPaidPayload.order, total_price: 185.65, total_shipping_price: '25,00', total_tax: 0 }
+  });
+  assert.strictEqual(order.grossValue, 185.65);
+  assert.strictEqual(order.discounts, 28.35);
+  assert.strictEqual(order.shipping, 25);
+  assert.strictEqual(order.taxes, 0);
+  assert.strictEqual(order.netValue, 160.65);
+});
+
+test('cartpanda: pedido sem moeda é considerado em BRL', () => {
+  const order = cartPanda.normalize(cartPandaOrderPaidPayload);
+  assert.strictEqual(order.currency, 'BRL');
+});
+
+test('cartpanda: aceita cupons em array de objetos', () => {
+  const order = cartPanda.normalize({
+    ...cartPandaOrderPaidPayload,
+    order: { ...cartPandaOrderPaidPayload.order, discount_codes: [{ code: 'LAIS15 ' }] }
+  });
+  assert.deepStrictEqual(order.couponCodes, ['LAIS15']);
+});
+
+test('cartpanda: aceita valor total em texto no formato brasileiro', () => {
+  const order = cartPanda.normalize({
+    ...cartPandaOrderPaidPayload,
+    order: { ...cartPandaOrderPaidPayload.order, total_price: 'R$ 1.160,65' }
+  });
+  assert.strictEqual(order.grossValue, 1160.65);
+});
+
+test('cartpanda: order.created é pendente até o pagamento', () => {
+  assert.strictEqual(cartPanda.normalize(cartPandaOrderPaidPayload).status, 'paid');
+  const created = { ...cartPandaOrderPaidPayload, event: 'order.created' };
+  assert.strictEqual(cartPanda.normalize(created).status, 'pending');
+  assert.strictEqual(cartPanda.normalize({ ...created, order: { ...created.order, payment_status: 'paid' } }).status, 'paid');
+});
+
+test('cartpanda: eventos que não são de pedido são inválidos', () => {
+  assert.throws(
+    () => cartPanda.normalize({ ...cartPandaOrderPaidPayload, event: 'order.abandoned' }),
+    InvalidPayloadError
+  );
+});
+
+test('cartpanda: order.refunded é um estorno total', () => {
+  const [refund] = cartPanda.normalizeRefunds!(cartPandaOrderRefundedPayload);
+  assert.ok(refund);
+  assert.strictEqual(refund.externalOrderId, '34488130');
+  assert.strictEqual(refund.storeId, '131416');
+  assert.strictEqual(refund.amount, undefined);
+  assert.strictEqual(refund.reason, 'refund');
+});
+
+test('cartpanda: order.partially_refunded usa o valor do estorno', () => {
+  const [refund] = cartPanda.normalizeRefunds!(cartPandaPartialRefundPayload);
+  assert.ok(refund);
+  assert.strictEqual(refund.externalRefundId, '5521');
+  assert.strictEqual(refund.amount, 40);
+});
+
+test('cartpanda: order.chargeback é tratado como chargeback', () => {
+  const [refund] = cartPanda.normalizeRefunds!(cartPandaChargebackPayload);
+  assert.strictEqual(refund?.reason, 'chargeback');
+});
+
+test('cartpanda: order.paid não é estorno', () => {
+  assert.deepStrictEqual(cartPanda.normalizeRefunds!(cartPandaOrderPaidPayload), []);
+});
+
+// --- WooCommerce ---
+const wooCommerce = getPlatformAdapter('woocommerce');
+
+test('woocommerce: normaliza o pedido de exemplo', () => {
+  const order = wooCommerce.normalize(wooCommerceOrderPayload);
+  assert.strictEqual(order.platform, 'woocommerce');
+  assert.strictEqual(order.externalOrderId, '727');
+  assert.strictEqual(order.grossValue, 182);
+  assert.strictEqual(order.discounts, 18);
+  assert.strictEqual(order.shipping, 20);
+  assert.strictEqual(order.netValue, 162);
+  assert.deepStrictEqual(order.couponCodes, ['teste10']);
+  assert.strictEqual(order.customer?.name, 'Cliente Teste');
+  assert.deepStrictEqual(order.lineItems[0], {
+    sku: 'SERUM-VITC',
+    productId: '93',
+    title: 'Sérum Facial Vitamina C',
+    quantity: 2,
+    price: 60,
+    discount: 12
+  });
+  assert.strictEqual(order.createdAt.toISOString(), '2025-04-09T18:50:10.000Z');
+});
+
+test('woocommerce: pedido aguardando pagamento é pendente e concluído é enviado', () => {
+  assert.strictEqual(wooCommerce.normalize(wooCommerceOrderPayload).status, 'paid');
+  assert.strictEqual(wooCommerce.normalize({ ...wooCommerceOrderPayload, status: 'on-hold' }).status, 'pending');
+  assert.strictEqual(wooCommerce.normalize({ ...wooCommerceOrderPayload, status: 'completed' }).status, 'fulfilled');
+});
+
+test('woocommerce: pedido com pagamento falho é ignorado', () => {
+  assert.throws(() => wooCommerce.normalize({ ...wooCommerceOrderPayload, status: 'failed' }), IgnoredEventError);
+});
+
+test('woocommerce: pedido pago sem reembolsos não é estorno', () => {
+  assert.deepStrictEqual(wooCommerce.normalizeRefunds!(wooCommerceOrderPayload), []);
+});
+
+test('woocommerce: reembolso parcial usa o ID do reembolso', () => {
+  const [refund] = wooCommerce.normalizeRefunds!(wooCommercePartialRefundPayload);
+  assert.strictEqual(refund?.externalRefundId, '731');
+  assert.strictEqual(refund?.amount, 50);
+  assert.strictEqual(refund?.reason, 'refund');
+  assert.strictEqual(refund?.fromOrderUpdate, true);
+});
+
+test('woocommerce: todos os reembolsos do pedido, do mais antigo ao mais recente', () => {
+  const refunds = wooCommerce.normalizeRefunds!({
+    ...wooCommercePartialRefundPayload,
+    refunds: [{ id: 735, total: '-20.00' }, ...wooCommercePartialRefundPayload.refunds]
+  });
+  assert.deepStrictEqual(refunds.map(refund => [refund.externalRefundId, refund.amount]), [['731', 50], ['735', 20]]);
+});
+
+test('woocommerce: status refunded e cancelled são estornos totais', () => {
+  assert.strictEqual(wooCommerce.normalizeRefunds!({ ...wooCommerceOrderPayload, status: 'refunded' })[0]?.amount, undefined);
+  assert.strictEqual(wooCommerce.normalizeRefunds!({ ...wooCommerceOrderPayload, status: 'cancelled' })[0]?.reason, 'cancellation');
+
+  // Reembolsos listados são aplicados antes do estorno total do restante
+  const refunds = wooCommerce.normalizeRefunds!({ ...wooCommercePartialRefundPayload, status: 'refunded' });
+  assert.deepStrictEqual(refunds.map(refund => refund.externalRefundId), ['731', 'refund-727']);
+  assert.ok(refunds.every(refund => !refund.fromOrderUpdate));
+});
+
+// --- Nuvemshop ---
+const nuvemshop = getPlatformAdapter('nuvemshop');
+
+test('nuvemshop: valida a notificação do webhook', () => {
+  assert.deepStrictEqual(nuvemshop.parseNotification!(nuvemshopWebhookPayload), { externalOrderId: '871254203' });
+  assert.throws(() => nuvemshop.parseNotification!({ ...nuvemshopWebhookPayload, event: 'order/packed' }), IgnoredEventError);
+  assert.throws(() => nuvemshop.parseNotification!({ event: 'order/paid' }), InvalidPayloadError);
+});
+
+test('nuvemshop: normaliza o pedido buscado na API', () => {
+  const order = nuvemshop.normalize(nuvemshopOrderPayload);
+  assert.strictEqual(order.platform, 'nuvemshop');
+  assert.strictEqual(order.externalOrderId, '871254203');
+  assert.strictEqual(order.storeId, '1234567');
+  assert.strictEqual(order.grossValue, 194.82);
+  assert.strictEqual(order.shipping, 15);
+  assert.strictEqual(order.netValue, 179.82);
+  assert.deepStrictEqual(order.couponCodes, ['TESTE10']);
+  assert.strictEqual(order.lineItems[0].sku, 'KIT-SKIN-VC');
+  assert.strictEqual(order.createdAt.toISOString(), '2025-04-09T18:50:10.000Z');
+});
+
+test('nuvemshop: notificação sem o pedido não pode ser normalizada', () => {
+  assert.throws(() => nuvemshop.normalize(nuvemshopWebhookPayload), InvalidPayloadError);
+});
+
+test('nuvemshop: pagamento pendente gera pedido pendente e enviado fica concluído', () => {
+  assert.strictEqual(nuvemshop.normalize({ ...nuvemshopOrderPayload, payment_status: 'pending' }).status, 'pending');
+  assert.strictEqual(nuvemshop.normalize({ ...nuvemshopOrderPayload, shipping_status: 'shipped' }).status, 'fulfilled');
+  assert.throws(() => nuvemshop.normalize({ ...nuvemshopOrderPayload, payment_status: 'abandoned' }), IgnoredEventError);
+});
+
+test('nuvemshop: pedido completo não é buscado novamente na API', async () => {
+  assert.strictEqual(await nuvemshop.fetchOrderPayload!(nuvemshopOrderPayload), nuvemshopOrderPayload);
+});
+
+test('nuvemshop: pagamento estornado e pedido cancelado são estornos', () => {
+  assert.deepStrictEqual(nuvemshop.normalizeRefunds!(nuvemshopOrderPayload), []);
+  assert.strictEqual(nuvemshop.normalizeRefunds!({ ...nuvemshopOrderPayload, payment_status: 'refunded' })[0]?.reason, 'refund');
+  assert.strictEqual(nuvemshop.normalizeRefunds!({ ...nuvemshopOrderPayload, event: 'order/cancelled' })[0]?.reason, 'cancellation');
+});
+
+// --- Yampi ---
+const yampi = getPlatformAdapter('yampi');
+
+test('yampi: normaliza o evento order.paid de exemplo', () => {
+  const order = yampi.normalize(yampiOrderPaidPayload);
+  assert.strictEqual(order.platform, 'yampi');
+  assert.strictEqual(order.externalOrderId, '30491872');
+  assert.strictEqual(order.storeId, 'loja-teste');
+  assert.strictEqual(order.grossValue, 167.4);
+  assert.strictEqual(order.shipping, 15.25);
+  assert.strictEqual(order.netValue, 152.15);
+  assert.deepStrictEqual(order.couponCodes, ['teste15']);
+  assert.strictEqual(order.customer?.phone, '5511977776666');
+  assert.deepStrictEqual(order.lineItems, [{
+    sku: 'KIT-ROSA-01',
+    productId: '4412301',
+    title: 'Kit Rosa Candy',
+    quantity: 1,
+    price: 179,
+    discount: 0
+  }]);
+});
+
+test('yampi: pedido aguardando pagamento é pendente', () => {
+  const payload = {
+    ...yampiOrderPaidPayload,
+    event: 'order.created',
+    resource: { ...yampiOrderPaidPayload.resource, status: { data: { alias: 'waiting_payment' } } }
+  };
+  assert.strictEqual(yampi.normalize(payload).status, 'pending');
+  const delivered = { ...payload, event: 'order.status.updated', resource: { ...payload.resource, status: { data: { alias: 'delivered' } } } };
+  assert.strictEqual(yampi.normalize(delivered).status, 'fulfilled');
+});
+
+test('yampi: pedido com status sem venda é ignorado', () => {
+  const payload = {
+    ...yampiOrderPaidPayload,
+    event: 'order.status.updated',
+    resource: { ...yampiOrderPaidPayload.resource, status: { data: { alias: 'payment_refused' } } }
+  };
+  assert.throws(() => yampi.normalize(payload), IgnoredEventError);
+});
+
+test('yampi: pedido cancelado é estorno total', () => {
+  assert.deepStrictEqual(yampi.normalizeRefunds!(yampiOrderPaidPayload), []);
+  const [refund] = yampi.normalizeRefunds!(yampiOrderCancelledPayload);
+  assert.strictEqual(refund?.reason, 'cancellation');
+  assert.strictEqual(refund?.externalOrderId, '30491872');
+});
+
+// --- Hotmart ---
+const hotmart = getPlatformAdapter('hotmart');
+
+test('hotmart: normaliza a compra aprovada com afiliado e cupom', () => {
+  const order = hotmart.normalize(hotmartPurchaseApprovedPayload);
+  assert.strictEqual(order.platform, 'hotmart');
+  assert.strictEqual(order.externalOrderId, 'HP16015479281022');
+  assert.strictEqual(order.grossValue, 297);
+  assert.strictEqual(order.netValue, 297);
+  assert.strictEqual(order.currency, 'BRL');
+  assert.deepStrictEqual(order.couponCodes, ['TESTE10']);
+  assert.deepStrictEqual(order.affiliateIds, ['Q58388177J']);
+  assert.strictEqual(order.customer?.email, 'cliente.teste@example.com');
+  assert.strictEqual(order.lineItems[0].productId, '3524781');
+  assert.strictEqual(order.createdAt.getTime(), 1744224500000);
+});
+
+test('hotmart: boleto impresso é pendente e compra completa é concluída', () => {
+  assert.strictEqual(hotmart.normalize(hotmartPurchaseApprovedPayload).status, 'paid');
+  assert.strictEqual(hotmart.normalize({ ...hotmartPurchaseApprovedPayload, event: 'PURCHASE_BILLET_PRINTED' }).status, 'pending');
+  assert.strictEqual(hotmart.normalize({ ...hotmartPurchaseApprovedPayload, event: 'PURCHASE_COMPLETE' }).status, 'fulfilled');
+});
+
+test('hotmart: eventos que não são de compra são ignorados', () => {
+  assert.throws(
+    () => hotmart.normalize({ ...hotmartPurchaseApprovedPayload, event: 'PURCHASE_EXPIRED' }),
+    IgnoredEventError
+  );
+});
+
+test('hotmart: PURCHASE_REFUNDED gera estorno total', () => {
+  const [refund] = hotmart.normalizeRefunds!(hotmartPurchaseRefundedPayload);
+  assert.ok(refund);
+  assert.strictEqual(refund!.externalOrderId, 'HP16015479281022');
+  assert.strictEqual(refund!.reason, 'refund');
+  assert.strictEqual(refund!.amount, undefined);
+  assert.deepStrictEqual(hotmart.normalizeRefunds!(hotmartPurchaseApprovedPayload), []);
+});
+
+// --- Kiwify ---
+const kiwify = getPlatformAdapter('kiwify');
+
+test('kiwify: normaliza o pedido pago convertendo centavos', () => {
+  const order = kiwify.normalize(kiwifyOrderPaidPayload);
+  assert.strictEqual(order.platform, 'kiwify');
+  assert.strictEqual(order.externalOrderId, 'a1b2c3d4-0000-4e5f-9a8b-123456789abc');
+  assert.strictEqual(order.grossValue, 197);
+  assert.deepStrictEqual(order.couponCodes, []);
+  assert.deepStrictEqual(order.affiliateIds, ['AFK12345']);
+  assert.strictEqual(order.customer?.name, 'Cliente Teste');
+  assert.strictEqual(order.lineItems[0].title, 'Mentoria de Teste');
+});
+
+test('kiwify: pedido aguardando pagamento é pendente e recusado é ignorado', () => {
+  assert.strictEqual(kiwify.normalize({ ...kiwifyOrderPaidPayload, order_status: 'waiting_payment' }).status, 'pending');
+  assert.throws(() => kiwify.normalize({ ...kiwifyOrderPaidPayload, order_status: 'refused' }), IgnoredEventError);
+});
+
+test('kiwify: chargeback gera estorno total', () => {
+  const [refund] = kiwify.normalizeRefunds!(kiwifyOrderChargebackPayload);
+  assert.ok(refund);
+  assert.strictEqual(refund!.reason, 'chargeback');
+  assert.strictEqual(refund!.externalOrderId, 'a1b2c3d4-0000-4e5f-9a8b-123456789abc');
+  // Sem ID do estorno: estornos em datas diferentes não são duplicados
+  assert.notStrictEqual(
+    kiwify.normalizeRefunds!({ ...kiwifyOrderChargebackPayload, updated_at: '2025-04-25 10:00:00' })[0]?.externalRefundId,
+    refund!.externalRefundId
+  );
+});
+
+// --- Eduzz ---
+const eduzz = getPlatformAdapter('eduzz');
+
+test('eduzz: normaliza a fatura paga com afiliado', () => {
+  const order = eduzz.normalize(eduzzInvoicePaidPayload);
+  assert.strictEqual(order.platform, 'eduzz');
+  assert.strictEqual(order.externalOrderId, '48213377');
+  assert.strictEqual(order.grossValue, 147);
+  assert.deepStrictEqual(order.couponCodes, []);
+  assert.deepStrictEqual(order.affiliateIds, ['778812']);
+  assert.strictEqual(order.customer?.externalId, '9912334');
+  assert.strictEqual(order.createdAt.toISOString(), '2025-04-09T18:48:33.000Z');
+});
+
+test('eduzz: fatura aberta é pendente e payload sem trans_cod é inválido', () => {
+  assert.strictEqual(eduzz.normalize({ ...eduzzInvoicePaidPayload, trans_status: '1' }).status, 'pending');
+  assert.throws(() => eduzz.normalize({ ...eduzzInvoicePaidPayload, trans_status: '6' }), IgnoredEventError);
+  const { trans_cod, ...withoutId } = eduzzInvoicePaidPayload;
+  assert.throws(() => eduzz.normalize(withoutId), InvalidPayloadError);
+});
+
+test('eduzz: fatura reembolsada gera estorno total', () => {
+  const [refund] = eduzz.normalizeRefunds!(eduzzInvoiceRefundedPayload);
+  assert.ok(refund);
+  assert.strictEqual(refund!.reason, 'refund');
+  assert.strictEqual(refund!.externalOrderId, '48213377');
+});
+
+// --- Webhook genérico ---
+const generic = getPlatformAdapter('generic');
+
+test('generic: normaliza o payload do /sale', () => {
+  const order = generic.normalize({ orderId: 'ABC-1', orderValue: 200, couponCode: 'TESTE10' });
+  assert.strictEqual(order.externalOrderId, 'ABC-1');
+  assert.strictEqual(order.grossValue, 200);
+  assert.deepStrictEqual(order.couponCodes, ['TESTE10']);
+});
+
+test('generic: valor líquido desconta frete e impostos informados', () => {
+  const order = generic.normalize({ orderId: 'ABC-2', orderValue: 230, couponCode: 'TESTE10', shipping: 20, taxes: '10,00' });
+  assert.strictEqual(order.grossValue, 230);
+  assert.strictEqual(order.netValue, 200);
+});
+
+test('generic: aceita a moeda do pedido', () => {
+  const order = generic.normalize({ orderId: 'ABC-3', orderValue: 50, couponCode: 'TESTE10', currency: 'EUR' });
+  assert.strictEqual(order.currency, 'EUR');
+});
+
+test('generic: aceita o status do pedido', () => {
+  assert.strictEqual(generic.normalize({ orderId: 'ABC-4', orderValue: 50, couponCode: 'TESTE10' }).status, 'paid');
+  assert.strictEqual(generic.normalize({ orderId: 'ABC-4', orderValue: 50, couponCode: 'TESTE10', status: 'pending' }).status, 'pending');
+  assert.throws(() => generic.normalize({ orderId: 'ABC-4', orderValue: 50, couponCode: 'TESTE10', status: 'lost' }), InvalidPayloadError);
+});
+
+test('generic: payload sem cupom é inválido', () => {
+  assert.throws(() => generic.normalize({ orderId: 'ABC-1', orderValue: 200 }), InvalidPayloadError);
+});
+
+// Executar os testes
+runTests();
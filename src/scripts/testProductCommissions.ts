@@ -0,0 +1,106 @@
+/**
+ * Script para testar o cálculo de comissão item a item com regras de produto/coleção
+ * Não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testProductCommissions.ts
+ */
+
+import assert from 'assert';
+import { computeLineCommissions, findRuleForLine, ProductRuleLike } from '../services/productCommissionService';
+import { test, runTests } from './testHarness';
+
+const kitRule: ProductRuleLike = {
+  _id: 'kits',
+  name: 'Kits',
+  scope: 'collection',
+  productIds: ['100', '101'],
+  skus: [],
+  type: 'percentage',
+  commissionPercentage: 5,
+  appliesTo: 'both',
+  priority: 0
+};
+
+const specialKitRule: ProductRuleLike = {
+  ...kitRule,
+  _id: 'kit-101',
+  name: 'Kit 101',
+  scope: 'product',
+  productIds: ['101'],
+  commissionPercentage: 8
+};
+
+const accessoryExclusion: ProductRuleLike = {
+  _id: 'acessorios',
+  name: 'Acessórios',
+  scope: 'collection',
+  productIds: [],
+  skus: ['ACC-1'],
+  type: 'excluded',
+  appliesTo: 'influencer',
+  priority: 0
+};
+
+const rules = [kitRule, specialKitRule, accessoryExclusion];
+
+test('itens sem regra usam o percentual da faixa', () => {
+  const result = computeLineCommissions(
+    [{ productId: '1', quantity: 2, price: 50 }],
+    100,
+    10,
+    rules,
+    'influencer'
+  );
+  assert.strictEqual(result.total, 10);
+  assert.strictEqual(result.lines[0].source, 'tier');
+});
+
+test('regra de produto prevalece sobre a de coleção', () => {
+  const rule = findRuleForLine({ productId: '101', quantity: 1, price: 10 }, rules, 'influencer');
+  assert.strictEqual(rule?.name, 'Kit 101');
+});
+
+test('comissão é somada item a item com regras, exclusões e faixa', () => {
+  const result = computeLineCommissions(
+    [
+      { productId: '100', quantity: 1, price: 100 }, // Kits: 5%
+      { sku: 'ACC-1', quantity: 2, price: 25 }, // Excluído para influenciador
+      { productId: '9', quantity: 1, price: 60, discount: 10 } // Faixa: 10%
+    ],
+    200,
+    10,
+    rules,
+    'influencer'
+  );
+  assert.deepStrictEqual(result.lines.map(line => line.source), ['rule', 'excluded', 'tier']);
+  assert.deepStrictEqual(result.lines.map(line => line.commission), [5, 0, 5]);
+  assert.strictEqual(result.total, 10);
+});
+
+test('exclusão só vale para o papel configurado', () => {
+  const result = computeLineCommissions([{ sku: 'ACC-1', quantity: 1, price: 100 }], 100, 3, rules, 'manager');
+  assert.strictEqual(result.lines[0].source, 'tier');
+  assert.strictEqual(result.total, 3);
+});
+
+test('base menor que o valor dos itens é distribuída proporcionalmente', () => {
+  // Base líquida de 50 (ex.: venda estornada pela metade)
+  const result = computeLineCommissions(
+    [{ productId: '100', quantity: 1, price: 50 }, { productId: '9', quantity: 1, price: 50 }],
+    50,
+    10,
+    rules,
+    'influencer'
+  );
+  assert.deepStrictEqual(result.lines.map(line => line.commissionableValue), [25, 25]);
+  assert.strictEqual(result.total, 3.75);
+});
+
+test('itens sem valor usam a faixa sobre a base inteira', () => {
+  const result = computeLineCommissions([{ productId: '100', quantity: 1, price: 0 }], 80, 10, rules, 'influencer');
+  assert.strictEqual(result.total, 8);
+  assert.deepStrictEqual(result.lines, []);
+});
+
+// Executar os testes
+runTests();
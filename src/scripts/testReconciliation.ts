@@ -0,0 +1,224 @@
+/**
+ * Script para testar a consulta de pedidos nas APIs da Shopify e da CartPanda e a comparação com as vendas
+ * As APIs são simuladas por um servidor HTTP local; não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testReconciliation.ts
+ */
+
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { getPlatformAdapter, ListedOrder, UnknownStoreError } from '../services/platformAdapters';
+import { axiosHttpClient } from '../services/platformAdapters/httpClient';
+import { diffOrders, ReconciliationSale } from '../services/reconciliationService';
+import { test, runTests } from './testHarness';
+
+// Requisições recebidas pelo servidor stub
+const requests: { url: string; headers: http.IncomingHttpHeaders }[] = [];
+
+const shopifyOrder = (id: number, extra: Record<string, unknown> = {}) => ({
+  id,
+  financial_status: 'paid',
+  currency: 'BRL',
+  total_price: '150.00',
+  subtotal_price: '135.00',
+  total_discounts: '15.00',
+  total_tax: '0.00',
+  discount_codes: [{ code: 'MARIA10' }],
+  line_items: [],
+  created_at: '2025-04-09T15:48:33-03:00',
+  ...extra
+});
+
+/**
+ * Servidor stub: Shopify em duas páginas (header Link) e CartPanda paginada (last_page)
+ */
+const server = http.createServer((req, res) => {
+  requests.push({ url: req.url || '', headers: req.headers });
+  const url = new URL(req.url || '', 'http://localhost');
+  const send = (body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  if (url.pathname === '/shopify/orders.json') {
+    if (url.searchParams.get('page_info') === 'pagina2') {
+      return send({
+        orders: [
+          shopifyOrder(1003, { financial_status: 'refunded', refunds: [{ transactions: [{ kind: 'refund', status: 'success', amount: '150.00' }] }] }),
+          shopifyOrder(1004, { financial_status: 'voided' })
+        ]
+      });
+    }
+    const port = (server.address() as AddressInfo).port;
+    return send(
+      { orders: [shopifyOrder(1001), shopifyOrder(1002, { discount_codes: [] })] },
+      { Link: `<http://127.0.0.1:${port}/shopify/orders.json?limit=250&page_info=pagina2>; rel="next"` }
+    );
+  }
+
+  if (url.pathname === '/cartpanda/minhaloja/orders') {
+    const page = Number(url.searchParams.get('page'));
+    const orders = page === 1
+      ? [{ id: 501, shop_id: 77, payment_status: 'paid', total_price: '99.90', discount_codes: 'JOAO5' }]
+      : [{ id: 502, shop_id: 77, payment_status: 'pending', total_price: '49.90', discount_codes: 'JOAO5' },
+         { id: 503, shop_id: 77, payment_status: 'declined', total_price: '10.00', discount_codes: 'JOAO5' }];
+    return send({ orders: { data: orders, current_page: page, last_page: 2 } });
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+const query = { startDate: new Date('2025-04-01T00:00:00Z'), endDate: new Date('2025-04-30T23:59:59Z') };
+
+test('shopify: segue a paginação do header Link e envia o token da loja', async () => {
+  requests.length = 0;
+  const listed = await getPlatformAdapter('shopify').listOrders!({ ...query, store: 'Loja.myshopify.com' }, axiosHttpClient);
+
+  assert.deepStrictEqual(listed.map(({ order }) => order.externalOrderId), ['1001', '1002', '1003']);
+  assert.strictEqual(listed[0].order.storeId, 'Loja.myshopify.com');
+  assert.deepStrictEqual(listed[2], { ...listed[2], refundedAmount: 150, fullyRefunded: true });
+
+  assert.strictEqual(requests.length, 2);
+  assert.strictEqual(requests[0].headers['x-shopify-access-token'], 'token-loja');
+  assert.match(requests[0].url, /status=any/);
+  assert.match(requests[0].url, /created_at_min=2025-04-01/);
+  assert.doesNotMatch(requests[1].url, /created_at_min/);
+});
+
+test('cartpanda: percorre as páginas e usa o shop_id como loja', async () => {
+  requests.length = 0;
+  const listed = await getPlatformAdapter('cartpanda').listOrders!({ ...query, store: 'minhaloja' }, axiosHttpClient);
+
+  assert.deepStrictEqual(listed.map(({ order }) => [order.externalOrderId, order.status, order.storeId]), [
+    ['501', 'paid', '77'],
+    ['502', 'pending', '77']
+  ]);
+  assert.strictEqual(requests.length, 2);
+  assert.strictEqual(requests[0].headers.authorization, 'Bearer token-cartpanda');
+});
+
+test('lojas não configuradas ou fora do domínio da plataforma não são consultadas', async () => {
+  const previous = process.env.SHOPIFY_ADMIN_ACCESS_TOKEN;
+  // O token padrão não vale para lojas informadas na requisição
+  process.env.SHOPIFY_ADMIN_ACCESS_TOKEN = 'token-global';
+  process.env.CARTPANDA_API_TOKEN = 'token-global';
+  requests.length = 0;
+  try {
+    await assert.rejects(
+      getPlatformAdapter('shopify').listOrders!({ ...query, store: 'outra.myshopify.com' }, axiosHttpClient),
+      (error: Error) => error instanceof UnknownStoreError && /outra\.myshopify\.com/.test(error.message)
+    );
+    await assert.rejects(
+      getPlatformAdapter('shopify').listOrders!({ ...query, store: 'atacante.example.com' }, axiosHttpClient),
+      UnknownStoreError
+    );
+    await assert.rejects(
+      getPlatformAdapter('cartpanda').listOrders!({ ...query, store: 'outraloja' }, axiosHttpClient),
+      UnknownStoreError
+    );
+    await assert.rejects(
+      getPlatformAdapter('cartpanda').listOrders!({ ...query, store: '../minhaloja' }, axiosHttpClient),
+      UnknownStoreError
+    );
+    assert.strictEqual(requests.length, 0);
+  } finally {
+    if (previous === undefined) delete process.env.SHOPIFY_ADMIN_ACCESS_TOKEN;
+    else process.env.SHOPIFY_ADMIN_ACCESS_TOKEN = previous;
+    delete process.env.CARTPANDA_API_TOKEN;
+  }
+});
+
+// Pedido consultado para os testes de comparação
+const listedOrder = (id: string, grossValue: number, extra: Partial<ListedOrder> = {}, couponCodes = ['MARIA10']): ListedOrder => ({
+  order: {
+    externalOrderId: id,
+    platform: 'shopify',
+    storeId: 'Loja.myshopify.com',
+    status: 'paid',
+    currency: 'BRL',
+    grossValue,
+    discounts: 0,
+    shipping: 0,
+    taxes: 0,
+    netValue: grossValue,
+    couponCodes,
+    lineItems: [],
+    createdAt: new Date('2025-04-09T18:48:33Z'),
+    receivedAt: new Date()
+  },
+  refundedAmount: 0,
+  fullyRefunded: false,
+  ...extra
+});
+
+const sale = (orderId: string, extra: Partial<ReconciliationSale> = {}): ReconciliationSale => ({
+  _id: `venda-${orderId}`,
+  orderId,
+  store: 'loja.myshopify.com',
+  saleValue: 150,
+  status: 'paid',
+  refundStatus: 'none',
+  refundedAmount: 0,
+  influencerCommissionEarned: 15,
+  managerCommissionEarned: 3,
+  ...extra
+});
+
+test('comparação: vendas ausentes só para pedidos com cupom e não estornados', () => {
+  const issues = diffOrders([
+    listedOrder('1', 150),
+    listedOrder('2', 150, {}, []),
+    listedOrder('3', 150, { fullyRefunded: true, refundedAmount: 150 })
+  ], []);
+  assert.deepStrictEqual(issues.map(issue => [issue.type, issue.orderId, issue.store]), [['missing_sale', '1', 'loja.myshopify.com']]);
+});
+
+test('comparação: divergência de valor usa o total na moeda original', () => {
+  const issues = diffOrders([
+    listedOrder('1', 150),
+    listedOrder('2', 20),
+    listedOrder('3', 140)
+  ], [
+    sale('1'),
+    sale('2', { saleValue: 116.19, originalSaleValue: 20, exchangeRate: 5.8095 }),
+    sale('3')
+  ]);
+  assert.deepStrictEqual(issues.map(issue => [issue.type, issue.orderId, issue.saleValue]), [['value_mismatch', '3', 150]]);
+});
+
+test('comparação: estorno na plataforma não aplicado a venda comissionada', () => {
+  const issues = diffOrders([
+    listedOrder('1', 150, { fullyRefunded: true, refundedAmount: 150 }),
+    listedOrder('2', 150, { refundedAmount: 50 }),
+    listedOrder('3', 150, { refundedAmount: 50 }),
+    listedOrder('4', 150, { fullyRefunded: true, refundedAmount: 150 }),
+    listedOrder('5', 150, { fullyRefunded: true, refundedAmount: 150 })
+  ], [
+    sale('1'),
+    sale('2'),
+    sale('3', { refundStatus: 'partial', refundedAmount: 50 }),
+    sale('4', { status: 'refunded', refundStatus: 'full', refundedAmount: 150 }),
+    sale('5', { influencerCommissionEarned: 0, managerCommissionEarned: 0 })
+  ]);
+  assert.deepStrictEqual(issues.map(issue => [issue.type, issue.orderId]), [
+    ['refunded_with_commission', '1'],
+    ['refunded_with_commission', '2']
+  ]);
+});
+
+// Executar os testes com o servidor stub no lugar das APIs das lojas
+runTests({
+  before: async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as AddressInfo).port;
+    process.env.SHOPIFY_ADMIN_API_URL = `http://127.0.0.1:${port}/shopify`;
+    process.env.SHOPIFY_ADMIN_ACCESS_TOKENS = 'loja.myshopify.com:token-loja';
+    process.env.CARTPANDA_API_URL = `http://127.0.0.1:${port}/cartpanda`;
+    process.env.CARTPANDA_API_TOKENS = 'minhaloja:token-cartpanda';
+  },
+  after: () => {
+    server.close();
+  }
+});
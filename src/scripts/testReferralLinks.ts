@@ -0,0 +1,112 @@
+/**
+ * Script para testar a leitura dos links de indicação nos pedidos da Shopify e da CartPanda
+ * e a montagem da URL de redirecionamento com os parâmetros ref e UTM
+ * Não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testReferralLinks.ts
+ */
+
+import assert from 'assert';
+import { getPlatformAdapter } from '../services/platformAdapters';
+import { extractReferralCodes } from '../services/platformAdapters/parsing';
+import { buildReferralRedirectUrl, hashUserAgent, getReferralLinkUrl, isValidDestinationUrl } from '../services/referralLinkService';
+import { shopifyOrderPayload } from './fixtures/shopifyOrder';
+import { cartPandaOrderPaidPayload } from './fixtures/cartPandaOrderPaid';
+import { test, runTests } from './testHarness';
+
+test('parâmetro ref da URL de entrada (caminho e query)', () => {
+  assert.deepStrictEqual(extractReferralCodes(['/products/kit?ref=maria&variant=1'], []), ['maria']);
+});
+
+test('utm_campaign só conta com utm_medium=referral', () => {
+  assert.deepStrictEqual(
+    extractReferralCodes(['https://loja.com/?utm_source=influencer&utm_medium=referral&utm_campaign=joao'], []),
+    ['joao']
+  );
+  assert.deepStrictEqual(extractReferralCodes(['/?utm_source=google&utm_medium=cpc&utm_campaign=verao'], []), []);
+});
+
+test('note_attributes e objeto de UTMs, sem repetir códigos', () => {
+  const codes = extractReferralCodes(
+    ['/?ref=maria'],
+    [[{ name: 'ref', value: 'maria' }, { name: 'UTM_MEDIUM', value: 'referral' }, { name: 'utm_campaign', value: 'maria-bf' }], { ref: 'ana' }]
+  );
+  assert.deepStrictEqual(codes, ['maria', 'maria-bf', 'ana']);
+});
+
+test('valores ausentes ou inválidos são ignorados', () => {
+  assert.deepStrictEqual(extractReferralCodes([undefined, null, '', '/sem-query'], [undefined, 'texto', [{ value: 'x' }]]), []);
+});
+
+test('shopify: link de indicação pelo landing_site e note_attributes', () => {
+  const order = getPlatformAdapter('shopify').normalize({
+    ...shopifyOrderPayload,
+    landing_site: '/collections/all?ref=MARIA',
+    note_attributes: [{ name: 'ref', value: 'joao' }]
+  });
+  assert.deepStrictEqual(order.referralCodes, ['MARIA', 'joao']);
+});
+
+test('shopify: pedido sem link não traz códigos', () => {
+  assert.deepStrictEqual(getPlatformAdapter('shopify').normalize(shopifyOrderPayload).referralCodes, []);
+});
+
+test('cartpanda: link de indicação pelas UTMs do pedido', () => {
+  const order = getPlatformAdapter('cartpanda').normalize({
+    ...cartPandaOrderPaidPayload,
+    order: { ...cartPandaOrderPaidPayload.order, utm_source: 'influencer', utm_medium: 'referral', utm_campaign: 'ana' }
+  });
+  assert.deepStrictEqual(order.referralCodes, ['ana']);
+});
+
+test('destino aceito apenas nos domínios da loja', () => {
+  const previous = process.env.REFERRAL_ALLOWED_DOMAINS;
+  try {
+    delete process.env.REFERRAL_ALLOWED_DOMAINS;
+    assert.strictEqual(isValidDestinationUrl('https://loja.com/produto'), false);
+
+    process.env.REFERRAL_ALLOWED_DOMAINS = 'loja.com, Minhaloja.myshopify.com';
+    assert.strictEqual(isValidDestinationUrl('https://loja.com/produto'), true);
+    assert.strictEqual(isValidDestinationUrl('https://www.loja.com/produto?variant=2'), true);
+    assert.strictEqual(isValidDestinationUrl('http://minhaloja.myshopify.com/'), true);
+    assert.strictEqual(isValidDestinationUrl('https://golpe.com/?loja.com'), false);
+    assert.strictEqual(isValidDestinationUrl('https://loja.com.golpe.com/'), false);
+    assert.strictEqual(isValidDestinationUrl('https://outraloja.com/'), false);
+    assert.strictEqual(isValidDestinationUrl('javascript://loja.com/%0aalert(1)'), false);
+  } finally {
+    if (previous === undefined) delete process.env.REFERRAL_ALLOWED_DOMAINS;
+    else process.env.REFERRAL_ALLOWED_DOMAINS = previous;
+  }
+});
+
+test('redirecionamento mantém os parâmetros do destino e substitui ref e UTMs', () => {
+  const url = new URL(buildReferralRedirectUrl({
+    code: 'maria',
+    destinationUrl: 'https://loja.com/produto?variant=2&utm_source=antigo'
+  }));
+  assert.strictEqual(url.origin + url.pathname, 'https://loja.com/produto');
+  assert.strictEqual(url.searchParams.get('variant'), '2');
+  assert.strictEqual(url.searchParams.get('ref'), 'maria');
+  assert.strictEqual(url.searchParams.get('utm_source'), 'influencer');
+  assert.strictEqual(url.searchParams.get('utm_medium'), 'referral');
+  assert.strictEqual(url.searchParams.get('utm_campaign'), 'maria');
+  // A URL gerada é lida de volta como o mesmo código
+  assert.deepStrictEqual(extractReferralCodes([url.toString()], []), ['maria']);
+});
+
+test('URL pública do link usa REFERRAL_BASE_URL', () => {
+  process.env.REFERRAL_BASE_URL = 'https://api.exemplo.com/';
+  assert.strictEqual(getReferralLinkUrl('maria'), 'https://api.exemplo.com/r/maria');
+  delete process.env.REFERRAL_BASE_URL;
+  assert.strictEqual(getReferralLinkUrl('maria'), '/r/maria');
+});
+
+test('hash do User-Agent não expõe o valor original', () => {
+  const hash = hashUserAgent('Mozilla/5.0');
+  assert.match(hash || '', /^[0-9a-f]{64}$/);
+  assert.strictEqual(hash, hashUserAgent('Mozilla/5.0'));
+  assert.strictEqual(hashUserAgent(undefined), undefined);
+});
+
+// Executar os testes
+runTests();
@@ -0,0 +1,208 @@
+/**
+ * Script para testar a aplicação de estornos às vendas: redução proporcional das comissões,
+ * desconto no pagamento pendente, ajuste negativo quando o pagamento já foi pago, aplicação do ajuste
+ * no próximo pagamento e deduplicação
+ * Os models do Mongoose são substituídos por stubs; não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testRefunds.ts
+ */
+
+import assert from 'assert';
+import { Types } from 'mongoose';
+import Sale from '../models/Sale';
+import CommissionPayment from '../models/CommissionPayment';
+import CommissionAdjustment from '../models/CommissionAdjustment';
+import CommissionSettings from '../models/CommissionSettings';
+import User, { UserRole } from '../models/User';
+import { NormalizedRefund } from '../services/platformAdapters';
+import { applyRefund, applyRefunds, getNewRefunds } from '../services/refundService';
+import { generateCommissionPayments } from '../services/commissionService';
+import { test, stub, queryResult, runTests } from './testHarness';
+
+const influencerId = new Types.ObjectId();
+const managerId = new Types.ObjectId();
+
+// Venda de R$ 200 com R$ 20 de comissão do influenciador (R$ 4 de bônus de cliente novo) e R$ 10 do gerente
+const buildSale = (fields: Record<string, unknown> = {}) => {
+  const sale = new Sale({
+    orderId: '1001',
+    platform: 'cartpanda',
+    store: 'minhaloja',
+    influencer: influencerId,
+    manager: managerId,
+    saleValue: 200,
+    influencerCommissionEarned: 20,
+    managerCommissionEarned: 10,
+    influencerNewCustomerBonus: 4,
+    commissionCalculated: true,
+    status: 'paid',
+    transactionDate: new Date('2025-04-09T12:00:00Z'),
+    ...fields
+  });
+  stub(sale, 'save', async () => sale);
+  return sale;
+};
+
+const refund = (fields: Partial<NormalizedRefund> = {}): NormalizedRefund => ({
+  externalOrderId: '1001',
+  platform: 'cartpanda',
+  storeId: 'minhaloja',
+  externalRefundId: 'r-1',
+  amount: 50,
+  reason: 'refund',
+  refundedAt: new Date('2025-04-15T12:00:00Z'),
+  ...fields
+});
+
+// Sem pagamento gerado para a venda
+const withoutPayments = () => stub(CommissionPayment, 'findOne', () => queryResult(null));
+
+test('estorno parcial reduz as comissões na proporção do valor estornado', async () => {
+  const sale = buildSale();
+  stub(Sale, 'findOne', () => queryResult(sale));
+  withoutPayments();
+
+  const result = await applyRefund(refund());
+  assert.strictEqual(result.status, 'applied');
+  assert.strictEqual(result.refundedAmount, 50);
+  assert.strictEqual(result.influencerCommissionReversed, 5);
+  assert.strictEqual(result.managerCommissionReversed, 2.5);
+  assert.strictEqual(sale.influencerCommissionEarned, 15);
+  assert.strictEqual(sale.managerCommissionEarned, 7.5);
+  assert.strictEqual(sale.influencerNewCustomerBonus, 3);
+  assert.strictEqual(sale.refundStatus, 'partial');
+  assert.strictEqual(sale.status, 'paid');
+  assert.strictEqual(sale.refunds.length, 1);
+});
+
+test('segundo estorno é proporcional ao valor restante e completa o estorno total', async () => {
+  const sale = buildSale();
+  stub(Sale, 'findOne', () => queryResult(sale));
+  withoutPayments();
+
+  await applyRefund(refund());
+  const result = await applyRefund(refund({ externalRefundId: 'r-2', amount: 500 }));
+  // Limitado ao valor restante (R$ 150), que leva toda a comissão restante
+  assert.strictEqual(result.refundedAmount, 150);
+  assert.strictEqual(result.influencerCommissionReversed, 15);
+  assert.strictEqual(sale.influencerCommissionEarned, 0);
+  assert.strictEqual(sale.managerCommissionEarned, 0);
+  assert.strictEqual(sale.refundStatus, 'full');
+  assert.strictEqual(sale.status, 'refunded');
+
+  assert.strictEqual((await applyRefund(refund({ externalRefundId: 'r-3' }))).status, 'already_refunded');
+});
+
+test('estorno repetido é duplicado e venda inexistente não é encontrada', async () => {
+  const sale = buildSale();
+  stub(Sale, 'findOne', () => queryResult(sale));
+  withoutPayments();
+
+  await applyRefund(refund());
+  const duplicate = await applyRefund(refund());
+  assert.strictEqual(duplicate.status, 'duplicate');
+  assert.strictEqual(sale.refundedAmount, 50);
+
+  stub(Sale, 'findOne', () => queryResult(null));
+  assert.strictEqual((await applyRefund(refund())).status, 'sale_not_found');
+});
+
+test('estorno em outra moeda usa a cotação da venda', async () => {
+  const sale = buildSale({ exchangeRate: 5 });
+  stub(Sale, 'findOne', () => queryResult(sale));
+  withoutPayments();
+
+  const result = await applyRefund(refund({ amount: 10 }));
+  assert.strictEqual(result.refundedAmount, 50);
+});
+
+test('pagamento pendente é descontado e pagamento já pago gera ajuste negativo', async () => {
+  const sale = buildSale();
+  stub(Sale, 'findOne', () => queryResult(sale));
+
+  const paidPayment = new CommissionPayment({ user: influencerId, roleAtPayment: 'influencer', status: 'paid', commissionEarned: 100, totalSalesValue: 1000 });
+  const pendingPayment = new CommissionPayment({ user: managerId, roleAtPayment: 'manager', status: 'pending', commissionEarned: 50, totalSalesValue: 1000 });
+  stub(pendingPayment, 'save', async () => pendingPayment);
+  stub(CommissionPayment, 'findOne', (filter: any) =>
+    queryResult(filter.roleAtPayment === 'influencer' ? paidPayment : pendingPayment));
+
+  const created: any[] = [];
+  stub(CommissionAdjustment, 'create', async (data: any) => {
+    created.push(data);
+    return new CommissionAdjustment(data);
+  });
+
+  const result = await applyRefund(refund());
+  // Influenciador: pagamento já pago, ajuste de -5 para o próximo pagamento
+  assert.strictEqual(created.length, 1);
+  assert.strictEqual(created[0].amount, -5);
+  assert.strictEqual(created[0].roleAtPayment, 'influencer');
+  assert.strictEqual(created[0].sourcePayment, paidPayment._id);
+  assert.strictEqual(result.adjustments.length, 1);
+  assert.strictEqual(paidPayment.commissionEarned, 100);
+  // Gerente: pagamento pendente reduzido diretamente
+  assert.strictEqual(pendingPayment.commissionEarned, 47.5);
+  assert.strictEqual(pendingPayment.totalSalesValue, 950);
+});
+
+test('reembolsos do mesmo payload: só os novos são aplicados e o resultado é somado', async () => {
+  const sale = buildSale();
+  stub(Sale, 'findOne', () => queryResult(sale));
+  withoutPayments();
+
+  await applyRefund(refund());
+  const refunds = [refund(), refund({ externalRefundId: 'r-2', amount: 20 })];
+  assert.deepStrictEqual((await getNewRefunds(refunds)).map(item => item.externalRefundId), ['r-2']);
+
+  const result = await applyRefunds([...refunds, refund({ externalRefundId: 'r-3', amount: 30 })]);
+  assert.strictEqual(result.status, 'applied');
+  assert.strictEqual(result.refundedAmount, 50);
+  assert.strictEqual(sale.refundedAmount, 100);
+  assert.strictEqual((await getNewRefunds(refunds)).length, 0);
+});
+
+test('ajuste negativo entra no pagamento sem vendas novas e o saldo restante fica para o próximo', async () => {
+  const influencer = new User({ name: 'Maria', email: 'maria@example.com', role: UserRole.INFLUENCER });
+  const adjustment = new CommissionAdjustment({ user: influencer._id, roleAtPayment: 'influencer', amount: -30, reason: 'Reembolso do pedido 1001' });
+
+  // Período sem vendas pagáveis: só o ajuste pendente do influenciador
+  stub(Sale, 'countDocuments', () => queryResult(0));
+  stub(Sale, 'find', () => queryResult([]));
+  stub(CommissionSettings, 'findOneAndUpdate', () => queryResult(new CommissionSettings({ key: 'global' })));
+  stub(CommissionAdjustment, 'distinct', (_field: string, filter: any) =>
+    queryResult(filter.roleAtPayment === 'influencer' ? [influencer._id] : []));
+  stub(CommissionAdjustment, 'find', () => queryResult([adjustment]));
+  const applied: any[] = [];
+  stub(CommissionAdjustment, 'updateMany', (filter: any, update: any) => {
+    applied.push({ filter, update });
+    return queryResult({});
+  });
+  const carried: any[] = [];
+  stub(CommissionAdjustment, 'create', async (data: any) => {
+    carried.push(data);
+    return new CommissionAdjustment(data);
+  });
+  stub(User, 'findById', () => queryResult(influencer));
+  const payments: any[] = [];
+  stub(CommissionPayment, 'create', async (data: any) => {
+    payments.push(data);
+    return new CommissionPayment(data);
+  });
+
+  const result = await generateCommissionPayments(new Date('2025-05-01T00:00:00Z'), new Date('2025-05-31T23:59:59Z'));
+  assert.strictEqual(result.influencerPayments, 1);
+  assert.strictEqual(payments[0].sales.length, 0);
+  assert.strictEqual(payments[0].adjustmentsTotal, -30);
+  assert.strictEqual(payments[0].commissionEarned, 0);
+  assert.strictEqual(payments[0].balanceCarriedForward, -30);
+  // O ajuste original é aplicado e o saldo vira um novo ajuste pendente ligado ao pagamento
+  assert.deepStrictEqual(applied[0].filter._id.$in, [adjustment._id]);
+  assert.strictEqual(carried.length, 1);
+  assert.strictEqual(carried[0].amount, -30);
+  assert.strictEqual(carried[0].status, 'pending');
+  assert.strictEqual(String(carried[0].user), String(influencer._id));
+  assert.ok(carried[0].sourcePayment);
+});
+
+// Executar os testes
+runTests();
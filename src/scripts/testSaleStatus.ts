@@ -0,0 +1,78 @@
+/**
+ * Script para testar o ciclo de vida dos pedidos (pendente, pago, enviado, estornado)
+ * e o filtro de vendas com comissão a pagar.
+ * Não precisa de banco de dados nem do servidor rodando.
+ *
+ * Para executar: npx ts-node src/scripts/testSaleStatus.ts
+ */
+
+import assert from 'assert';
+import Sale from '../models/Sale';
+import { initialStatusFields, advanceSaleStatus, recordRefundStatus, payableSalesFilter } from '../services/saleStatusService';
+import { test, runTests } from './testHarness';
+
+const createdAt = new Date('2025-04-09T18:48:33Z');
+const paidAt = new Date('2025-04-11T10:00:00Z');
+
+// Venda em memória (não é gravada)
+const buildSale = (status: 'pending' | 'paid' | 'fulfilled') =>
+  new Sale({ orderId: 'TEST-1', saleValue: 100, transactionDate: createdAt, ...initialStatusFields(status, createdAt) });
+
+test('status: pedido pendente não tem data de pagamento', () => {
+  const sale = buildSale('pending');
+  assert.strictEqual(sale.status, 'pending');
+  assert.strictEqual(sale.paidAt, undefined);
+  assert.strictEqual(sale.statusHistory.length, 1);
+});
+
+test('status: pedido pago na criação usa a data do pedido', () => {
+  const sale = buildSale('paid');
+  assert.strictEqual(sale.paidAt?.toISOString(), createdAt.toISOString());
+});
+
+test('status: pagamento de pedido pendente avança e registra o histórico', () => {
+  const sale = buildSale('pending');
+  assert.strictEqual(advanceSaleStatus(sale, 'paid', paidAt), true);
+  assert.strictEqual(sale.status, 'paid');
+  assert.strictEqual(sale.paidAt?.toISOString(), paidAt.toISOString());
+  assert.deepStrictEqual(sale.statusHistory.map(entry => entry.status), ['pending', 'paid']);
+});
+
+test('status: envio direto de pedido pendente preenche pagamento e envio', () => {
+  const sale = buildSale('pending');
+  advanceSaleStatus(sale, 'fulfilled', paidAt);
+  assert.strictEqual(sale.status, 'fulfilled');
+  assert.ok(sale.paidAt);
+  assert.ok(sale.fulfilledAt);
+});
+
+test('status: entrega fora de ordem não faz o pedido voltar de etapa', () => {
+  const sale = buildSale('fulfilled');
+  assert.strictEqual(advanceSaleStatus(sale, 'paid', paidAt), false);
+  assert.strictEqual(advanceSaleStatus(sale, 'fulfilled', paidAt), false);
+  assert.strictEqual(sale.status, 'fulfilled');
+  assert.strictEqual(sale.statusHistory.length, 1);
+});
+
+test('status: estorno parcial mantém a etapa e estorno total encerra o pedido', () => {
+  const sale = buildSale('paid');
+  recordRefundStatus(sale, 'refund', 30, false, paidAt);
+  assert.strictEqual(sale.status, 'paid');
+  recordRefundStatus(sale, 'cancellation', 70, true, paidAt);
+  assert.strictEqual(sale.status, 'cancelled');
+  assert.strictEqual(sale.statusHistory.length, 3);
+  assert.strictEqual(advanceSaleStatus(sale, 'fulfilled', paidAt), false);
+});
+
+test('comissão: filtro usa a data da etapa configurada', () => {
+  const periodStart = new Date('2025-04-01T00:00:00Z');
+  const periodEnd = new Date('2025-04-30T23:59:59Z');
+  const filter = payableSalesFilter('fulfilled', periodStart, periodEnd);
+  const [inPeriod, confirmedLater] = filter.$or as any[];
+  assert.deepStrictEqual(inPeriod.$or[1], { fulfilledAt: { $exists: true } });
+  assert.deepStrictEqual(confirmedLater.fulfilledAt, { $gte: periodStart, $lte: periodEnd });
+  assert.deepStrictEqual(confirmedLater.transactionDate, { $lt: periodStart });
+});
+
+// Executar os testes
+runTests();
@@ -8,36 +8,26 @@
  */
 
 import axios from 'axios';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
+import { shopifyOrderPayload } from './fixtures/shopifyOrder';
 
 dotenv.config();
 
 // Configurações
 const API_URL = process.env.API_URL || 'http://localhost:3001';
-const WEBHOOK_TOKEN = process.env.WEBHOOK_TOKEN || 'YOUR_WEBHOOK_SECRET_TOKEN_HERE';
+const SHOPIFY_WEBHOOK_SECRET = process.env.SHOPIFY_WEBHOOK_SECRET || 'YOUR_SHOPIFY_WEBHOOK_SECRET_HERE';
+const SHOP_DOMAIN = process.env.SHOPIFY_SHOP_DOMAIN || 'loja-teste.myshopify.com';
 const COUPON_CODE = process.argv[2] || 'TESTE10'; // Você pode passar o cupom como argumento ou usar o padrão
 
-// Dados simulados de um pedido da Shopify
+// Dados simulados de um pedido da Shopify (id único e cupom escolhido)
 const mockShopifyOrder = {
+  ...shopifyOrderPayload,
   id: `TEST-${Date.now()}`,
-  total_price: "150.00",
   discount_codes: [
     {
-      code: COUPON_CODE,
-      amount: "15.00",
-      type: "percentage"
-    }
-  ],
-  customer: {
-    first_name: "Cliente",
-    last_name: "Teste",
-    email: "cliente.teste@example.com"
-  },
-  line_items: [
-    {
-      title: "Produto de Teste",
-      quantity: 1,
-      price: "150.00"
+      ...shopifyOrderPayload.discount_codes[0],
+      code: COUPON_CODE
     }
   ],
   created_at: new Date().toISOString()
@@ -48,13 +38,18 @@ async function sendTestWebhook() {
   try {
     console.log(`Enviando webhook de teste com cupom: ${COUPON_CODE}`);
     
+    // A assinatura é calculada sobre o corpo exato enviado, como faz a Shopify
+    const body = JSON.stringify(mockShopifyOrder);
+    const hmac = crypto.createHmac('sha256', SHOPIFY_WEBHOOK_SECRET).update(body).digest('base64');
+
     const response = await axios.post(
       `${API_URL}/api/webhooks/shopify`, 
-      mockShopifyOrder,
+      body,
       {
         headers: {
           'Content-Type': 'application/json',
-          'webhook-token': WEBHOOK_TOKEN
+          'X-Shopify-Hmac-Sha256': hmac,
+          'X-Shopify-Shop-Domain': SHOP_DOMAIN
         }
       }
     );
@@ -62,16 +57,9 @@ async function sendTestWebhook() {
     console.log('Resposta do servidor:');
     console.log(JSON.stringify(response.data, null, 2));
     
-    if (response.data.processed === false) {
-      console.log('\nATENÇÃO: A venda não foi processada. Verifique se:');
-      console.log('1. O código do cupom existe no sistema');
-      console.log('2. O cupom está associado a um influenciador');
-    } else if (response.data.saleId) {
-      console.log('\nSucesso! A venda foi registrada com ID:', response.data.saleId);
-      console.log(`Comissão do influenciador: R$ ${response.data.influencerCommission.toFixed(2)}`);
-      if (response.data.managerCommission > 0) {
-        console.log(`Comissão do gestor: R$ ${response.data.managerCommission.toFixed(2)}`);
-      }
+    if (response.status === 202) {
+      console.log('\nWebhook enfileirado. Evento:', response.data.eventId);
+      console.log('A venda será registrada pelo worker da fila. Acompanhe em GET /api/webhooks/events/' + response.data.eventId);
     }
     
   } catch (error: any) {
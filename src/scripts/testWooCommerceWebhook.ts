@@ -0,0 +1,71 @@
+/**
+ * Script para testar o endpoint de webhook do WooCommerce
+ * 
+ * Este script envia uma requisição de teste para o endpoint do webhook do WooCommerce
+ * simulando a atualização de um pedido pago (status processing).
+ * 
+ * Para executar: npx ts-node src/scripts/testWooCommerceWebhook.ts
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { wooCommerceOrderPayload } from './fixtures/wooCommerceOrder';
+
+// Carregar variáveis de ambiente
+dotenv.config();
+
+// URL do webhook e segredo de assinatura
+const WEBHOOK_URL = process.env.API_URL ? `${process.env.API_URL}/api/webhooks/woocommerce` : 'http://localhost:5000/api/webhooks/woocommerce';
+const WOOCOMMERCE_WEBHOOK_SECRET = process.env.WOOCOMMERCE_WEBHOOK_SECRET || 'seu_segredo_de_webhook';
+
+// Payload de exemplo do WooCommerce (pedido no formato da REST API v3)
+const webhookPayload = wooCommerceOrderPayload;
+
+// Função para enviar o webhook
+async function sendWebhook() {
+  console.log(`Enviando webhook para: ${WEBHOOK_URL}`);
+  
+  try {
+    // Assinar o corpo com o segredo do webhook (HMAC-SHA256 em base64)
+    const body = JSON.stringify(webhookPayload);
+    const signature = crypto
+      .createHmac('sha256', WOOCOMMERCE_WEBHOOK_SECRET)
+      .update(body)
+      .digest('base64');
+
+    // Enviar requisição POST para o endpoint do webhook
+    const response = await axios.post(WEBHOOK_URL, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-WC-Webhook-Signature': signature,
+        'X-WC-Webhook-Topic': 'order.updated',
+        'X-WC-Webhook-Source': 'https://loja-teste.example.com/',
+        'X-WC-Webhook-Delivery-ID': crypto.randomUUID()
+      }
+    });
+    
+    // Exibir resposta
+    console.log('Resposta:');
+    console.log(`Status: ${response.status}`);
+    console.log('Dados:');
+    console.log(JSON.stringify(response.data, null, 2));
+  } catch (error: any) {
+    console.error('Erro ao enviar webhook:');
+    if (error.response) {
+      // O servidor respondeu com um status de erro
+      console.error(`Status: ${error.response.status}`);
+      console.error('Dados:');
+      console.error(JSON.stringify(error.response.data, null, 2));
+    } else if (error.request) {
+      // A requisição foi feita mas não houve resposta
+      console.error('Sem resposta do servidor');
+    } else {
+      // Ocorreu um erro ao configurar a requisição
+      console.error(`Erro: ${error.message}`);
+    }
+  }
+}
+
+// Executar o envio do webhook
+sendWebhook();
@@ -0,0 +1,68 @@
+/**
+ * Script para testar o endpoint de webhook da Yampi
+ * 
+ * Este script envia uma requisição de teste para o endpoint do webhook da Yampi
+ * simulando o evento de pagamento de pedido (order.paid).
+ * 
+ * Para executar: npx ts-node src/scripts/testYampiWebhook.ts
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { yampiOrderPaidPayload } from './fixtures/yampiOrder';
+
+// Carregar variáveis de ambiente
+dotenv.config();
+
+// URL do webhook e segredo de assinatura
+const WEBHOOK_URL = process.env.API_URL ? `${process.env.API_URL}/api/webhooks/yampi` : 'http://localhost:5000/api/webhooks/yampi';
+const YAMPI_WEBHOOK_SECRET = process.env.YAMPI_WEBHOOK_SECRET || 'seu_segredo_de_webhook';
+
+// Payload de exemplo da Yampi
+const webhookPayload = yampiOrderPaidPayload;
+
+// Função para enviar o webhook
+async function sendWebhook() {
+  console.log(`Enviando webhook para: ${WEBHOOK_URL}`);
+  
+  try {
+    // Assinar o corpo com a chave secreta do webhook (HMAC-SHA256 em base64)
+    const body = JSON.stringify(webhookPayload);
+    const signature = crypto
+      .createHmac('sha256', YAMPI_WEBHOOK_SECRET)
+      .update(body)
+      .digest('base64');
+
+    // Enviar requisição POST para o endpoint do webhook
+    const response = await axios.post(WEBHOOK_URL, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Yampi-Hmac-SHA256': signature
+      }
+    });
+    
+    // Exibir resposta
+    console.log('Resposta:');
+    console.log(`Status: ${response.status}`);
+    console.log('Dados:');
+    console.log(JSON.stringify(response.data, null, 2));
+  } catch (error: any) {
+    console.error('Erro ao enviar webhook:');
+    if (error.response) {
+      // O servidor respondeu com um status de erro
+      console.error(`Status: ${error.response.status}`);
+      console.error('Dados:');
+      console.error(JSON.stringify(error.response.data, null, 2));
+    } else if (error.request) {
+      // A requisição foi feita mas não houve resposta
+      console.error('Sem resposta do servidor');
+    } else {
+      // Ocorreu um erro ao configurar a requisição
+      console.error(`Erro: ${error.message}`);
+    }
+  }
+}
+
+// Executar o envio do webhook
+sendWebhook();
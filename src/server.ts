@@ -10,12 +10,23 @@ import userRoutes from './routes/userRoutes'; // Import user routes
 import managerRoutes from './routes/managerRoutes'; // <-- Importar as novas rotas
 import whatsappRoutes from './routes/whatsappRoutes'; // <-- Importar
 import debugRoutes from './routes/debugRoutes'; // <-- Import debug routes
+import saleRoutes from './routes/saleRoutes';
+import couponRoutes from './routes/couponRoutes';
+import exchangeRateRoutes from './routes/exchangeRateRoutes';
+import referralLinkRoutes from './routes/referralLinkRoutes';
+import commissionOverrideRoutes from './routes/commissionOverrideRoutes';
+import managerTierSetRoutes from './routes/managerTierSetRoutes';
+import { redirectReferralLink } from './controllers/referralLinkController';
+import { RawBodyRequest } from './middlewares/webhookAuthMiddleware';
 // import { errorHandler, notFound } from './middlewares/errorMiddleware'; // Temporarily commented out
 import cors from 'cors'; // Instalaremos isso a seguir
 import jwt from 'jsonwebtoken';
 
-// Import the scheduler to initialize the cron job
+// Import the schedulers to initialize the cron jobs
 import './jobs/reportScheduler';
+import './jobs/ingestionWorker';
+import './jobs/reconciliationScheduler';
+import './jobs/volumeSettlementScheduler';
 
 dotenv.config();
 connectDB(); // Connect to MongoDB
@@ -28,7 +39,12 @@ const HOST: string = '0.0.0.0';
 
 // Middleware para CORS e parsing do body
 app.use(cors());
-app.use(express.json());
+// O corpo bruto é mantido para a verificação de assinatura dos webhooks
+app.use(express.json({
+  verify: (req, res, buf) => {
+    (req as RawBodyRequest).rawBody = buf;
+  }
+}));
 
 app.get('/', (req: Request, res: Response) => {
   res.send('Influencer Hub Backend is running!');
@@ -88,6 +104,15 @@ app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/users', userRoutes); // Mount user routes
 app.use('/api/manager', managerRoutes); // <-- Registrar as novas rotas
 app.use('/api/whatsapp', whatsappRoutes); // <-- Registrar
+app.use('/api/sales', saleRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/referral-links', referralLinkRoutes);
+app.use('/api/commission-overrides', commissionOverrideRoutes);
+app.use('/api/manager-tier-sets', managerTierSetRoutes);
+
+// Links de indicação dos influenciadores (público): registra o clique e redireciona para a loja
+app.get('/r/:code', redirectReferralLink);
 app.use('/api/debug', debugRoutes); // Mount debug routes (Consider removing/protecting in production)
 
 // Rota de teste para o endpoint de desconexão do WhatsApp
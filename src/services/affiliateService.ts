@@ -0,0 +1,62 @@
+import { Types } from 'mongoose';
+import User, { IAffiliateId, UserRole } from '../models/User';
+import { AFFILIATE_PLATFORMS, SalePlatform } from './platformAdapters';
+
+/**
+ * Valida e normaliza a lista de afiliados recebida no perfil ([{ platform, affiliateId }]).
+ * Lança erro com mensagem para o usuário se algum item for inválido.
+ */
+const parseAffiliateIds = (value: unknown): IAffiliateId[] => {
+  if (!Array.isArray(value)) {
+    throw new Error('affiliateIds deve ser uma lista de { platform, affiliateId }');
+  }
+
+  const entries: IAffiliateId[] = [];
+  for (const item of value) {
+    const platform = typeof item?.platform === 'string' ? item.platform.trim().toLowerCase() : '';
+    const affiliateId = item?.affiliateId !== undefined && item?.affiliateId !== null ? String(item.affiliateId).trim() : '';
+
+    if (!AFFILIATE_PLATFORMS.includes(platform as SalePlatform)) {
+      throw new Error(`Plataforma de afiliado inválida: ${platform || '(vazia)'}. Use ${AFFILIATE_PLATFORMS.join(', ')}`);
+    }
+    if (!affiliateId) {
+      throw new Error(`Informe o ID de afiliado da plataforma ${platform}`);
+    }
+    if (!entries.some(entry => entry.platform === platform && entry.affiliateId === affiliateId)) {
+      entries.push({ platform, affiliateId });
+    }
+  }
+  return entries;
+};
+
+/**
+ * Retorna o primeiro afiliado da lista já vinculado a outro usuário na mesma plataforma
+ * @param ownerId Usuário dono dos afiliados (não conta como conflito)
+ */
+const findAffiliateConflict = async (entries: IAffiliateId[], ownerId?: Types.ObjectId | string) => {
+  for (const entry of entries) {
+    const existing = await User.findOne({
+      affiliateIds: { $elemMatch: { platform: entry.platform, affiliateId: entry.affiliateId } },
+      ...(ownerId ? { _id: { $ne: ownerId } } : {})
+    }).select('_id');
+    if (existing) return entry;
+  }
+  return null;
+};
+
+/**
+ * Localiza o influenciador pelo primeiro identificador de afiliado vinculado ao seu perfil
+ * @returns Influenciador e o identificador encontrado
+ */
+const findInfluencerByAffiliate = async (platform: SalePlatform, affiliateIds: string[]) => {
+  for (const affiliateId of affiliateIds) {
+    const influencer = await User.findOne({
+      role: UserRole.INFLUENCER,
+      affiliateIds: { $elemMatch: { platform, affiliateId } }
+    });
+    if (influencer) return { influencer, affiliateId };
+  }
+  return null;
+};
+
+export { parseAffiliateIds, findAffiliateConflict, findInfluencerByAffiliate };
@@ -0,0 +1,138 @@
+import { Types } from 'mongoose';
+import User, { IUser, UserRole } from '../models/User';
+import Coupon from '../models/Coupon';
+import Sale, { ISale } from '../models/Sale';
+import { enqueueJob } from './jobQueueService';
+
+export interface CouponSuggestion {
+  influencerId: Types.ObjectId;
+  name: string;
+  email: string;
+  couponCode: string;
+  score: number; // Similaridade entre 0 e 1
+}
+
+// Similaridade mínima para um cupom ser sugerido
+const MIN_SUGGESTION_SCORE = 0.5;
+
+/**
+ * Normaliza um cupom para comparação: sem acentos, espaços, pontuação e caixa
+ */
+const normalizeCouponCode = (code: string): string =>
+  code
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+/**
+ * Distância de edição (Levenshtein) entre dois textos
+ */
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similaridade entre um cupom recebido e um cupom cadastrado.
+ * Cupons iguais após a normalização (caixa, espaços) valem 1; um contido no outro
+ * (ex.: "LAIS" e "LAIS10") recebe bônus sobre a distância de edição.
+ */
+const couponSimilarity = (received: string, registered: string): number => {
+  const a = normalizeCouponCode(received);
+  const b = normalizeCouponCode(registered);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const distanceScore = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+  const containmentScore = a.includes(b) || b.includes(a)
+    ? Math.min(a.length, b.length) / Math.max(a.length, b.length) * 0.5 + 0.4
+    : 0;
+
+  return Math.round(Math.max(distanceScore, containmentScore) * 100) / 100;
+};
+
+/**
+ * Sugere influenciadores cujo cupom se parece com os cupons recebidos em uma venda
+ * @param couponCodes Cupons como recebidos da plataforma
+ * @param managerId Se informado, considera apenas os influenciadores desse gerente
+ * @param limit Quantidade máxima de sugestões
+ */
+const suggestInfluencersForCoupons = async (
+  couponCodes: string[],
+  managerId?: Types.ObjectId | string,
+  limit = 5
+): Promise<CouponSuggestion[]> => {
+  const influencerQuery: any = { role: UserRole.INFLUENCER };
+  if (managerId) influencerQuery.manager = managerId;
+  const influencers = await User.find(influencerQuery).select('name email');
+  const influencersById = new Map(influencers.map(influencer => [(influencer._id as Types.ObjectId).toString(), influencer]));
+
+  // Todos os cupons ativos dos influenciadores (principal, aliases e campanhas)
+  const coupons = await Coupon.find({ owner: { $in: Array.from(influencersById.keys()) }, isActive: true });
+
+  // Melhor cupom de cada influenciador
+  const bestByInfluencer = new Map<string, CouponSuggestion>();
+  for (const coupon of coupons) {
+    const influencer = influencersById.get(coupon.owner.toString());
+    if (!influencer) continue;
+
+    const score = Math.max(0, ...couponCodes.map(code => couponSimilarity(code, coupon.code)));
+    const current = bestByInfluencer.get(coupon.owner.toString());
+    if (score >= MIN_SUGGESTION_SCORE && (!current || score > current.score)) {
+      bestByInfluencer.set(coupon.owner.toString(), {
+        influencerId: influencer._id as Types.ObjectId,
+        name: influencer.name,
+        email: influencer.email,
+        couponCode: coupon.code,
+        score
+      });
+    }
+  }
+
+  const suggestions = Array.from(bestByInfluencer.values());
+  return suggestions.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/**
+ * Atribui uma venda não atribuída a um influenciador e enfileira o fluxo normal
+ * de comissão e notificação. A atualização só acontece se a venda ainda estiver
+ * não atribuída, para que atribuições simultâneas não enfileirem duas comissões.
+ * @param sale Venda não atribuída
+ * @param influencer Influenciador escolhido
+ * @param assignedBy Admin ou gerente que fez a atribuição
+ * @returns Venda atribuída e job de comissão, ou null se a venda já foi atribuída
+ */
+const assignSaleToInfluencer = async (sale: ISale, influencer: IUser, assignedBy: Types.ObjectId) => {
+  const assigned = await Sale.findOneAndUpdate(
+    { _id: sale._id, attributionStatus: 'unattributed' },
+    {
+      $set: {
+        influencer: influencer._id,
+        manager: influencer.manager,
+        attributionStatus: 'attributed',
+        attributionSource: 'manual',
+        attributedBy: assignedBy,
+        attributedAt: new Date(),
+        commissionCalculated: false
+      }
+    },
+    { new: true }
+  );
+  if (!assigned) return null;
+
+  console.log(`[attribution] Venda ${assigned._id} (pedido ${assigned.orderId}) atribuída a ${influencer.email}`);
+
+  const job = await enqueueJob('commission', { sale: assigned._id as Types.ObjectId });
+  return { sale: assigned, job };
+};
+
+export { normalizeCouponCode, couponSimilarity, suggestInfluencersForCoupons, assignSaleToInfluencer };
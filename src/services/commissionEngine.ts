@@ -0,0 +1,238 @@
+import { computeLineCommissions, LineCommission, LineItemLike, ProductRuleLike } from './productCommissionService';
+import { applyNewCustomerTerms, NewCustomerTierLike } from './customerService';
+import { TierMeasurement } from '../models/CommissionSettings';
+
+export type CommissionRole = 'influencer' | 'manager';
+
+// Fuso dos períodos de volume, o mesmo do fechamento agendado (o mês vira à meia-noite de Brasília)
+const VOLUME_PERIOD_TIMEZONE = 'America/Sao_Paulo';
+
+// Campos da faixa usados pela regra escalonada (documento do Mongo ou objeto simples)
+export interface TierLike extends NewCustomerTierLike {
+  _id?: unknown;
+  name: string;
+  minSalesValue: number;
+  maxSalesValue?: number | null;
+}
+
+/**
+ * Regras que o motor sabe compor, aplicadas na ordem da lista sobre a comissão acumulada:
+ * - tiered: faixa aplicável ao valor (com regras de produto e condições de cliente novo). Com lookupValue,
+ *   a faixa é escolhida por esse valor (volume do período) em vez da base da venda; com marginalFrom, cada
+ *   parte do volume da venda (de marginalFrom até marginalFrom + base) paga o percentual da sua faixa
+ * - percentage: percentual extra sobre a base
+ * - fixed: valor fixo por venda
+ * - cap: teto da comissão
+ * - minimum: comissão mínima garantida
+ */
+export type CommissionEngineRule =
+  | { type: 'tiered'; name: string; tiers: TierLike[]; lookupValue?: number; marginalFrom?: number }
+  | { type: 'percentage'; name: string; percentage: number; rule?: unknown }
+  | { type: 'fixed' | 'cap' | 'minimum'; name: string; amount: number; rule?: unknown };
+
+// Venda normalizada para o cálculo de um papel
+export interface CommissionInput {
+  role: CommissionRole;
+  baseValue: number; // Base de comissão (total ou líquido), já descontados estornos
+  remainingRatio: number; // Parte da venda não estornada (0 a 1)
+  isNewCustomer: boolean;
+  lineItems: LineItemLike[];
+  productRules: ProductRuleLike[];
+}
+
+// Passo do cálculo: o que cada regra fez com a comissão
+export interface CommissionRuleExplanation {
+  type: CommissionEngineRule['type'];
+  name: string;
+  rule?: unknown; // Regra de comissão ou, na regra escalonada, a faixa aplicada
+  fired: boolean;
+  amount: number; // Variação na comissão (negativa quando o teto corta o valor)
+  detail: string;
+}
+
+// Resultado do motor para um papel
+export interface CommissionEvaluation {
+  commission: number;
+  lines: LineCommission[]; // Comissão item a item (da regra escalonada)
+  tier: TierLike | null; // Faixa aplicada pela regra escalonada
+  bonus: number; // Bônus de cliente novo da faixa, incluído na comissão
+  explanation: CommissionRuleExplanation[];
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+const formatCurrency = (value: number) => `R$ ${value.toFixed(2)}`;
+
+/**
+ * Faixa de maior valor mínimo que o valor informado alcança, respeitando o valor máximo da faixa
+ */
+const selectTier = <T extends TierLike>(tiers: T[], value: number): T | null => {
+  const reached = tiers.filter(tier =>
+    tier.minSalesValue <= value && (tier.maxSalesValue === undefined || tier.maxSalesValue === null || value <= tier.maxSalesValue)
+  );
+  return reached.sort((a, b) => b.minSalesValue - a.minSalesValue)[0] || null;
+};
+
+/**
+ * Percentual efetivo de um trecho do volume pago de forma marginal: cada parte do trecho recebe o
+ * percentual da faixa em que cai (a faixa vai do seu mínimo até o seu máximo ou o mínimo da próxima)
+ * @param from Volume acumulado antes da venda
+ * @param to Volume acumulado com a venda
+ */
+const getMarginalPercentage = (tiers: TierLike[], from: number, to: number, isNewCustomer: boolean): number => {
+  if (to <= from) return applyNewCustomerTerms(selectTier(tiers, from), isNewCustomer).percentage;
+
+  const sorted = [...tiers].sort((a, b) => a.minSalesValue - b.minSalesValue);
+  const weighted = sorted.reduce((sum, tier, index) => {
+    const next = sorted[index + 1];
+    const upper = Math.min(tier.maxSalesValue ?? Infinity, next ? next.minSalesValue : Infinity);
+    const overlap = Math.min(to, upper) - Math.max(from, tier.minSalesValue);
+    return overlap > 0 ? sum + overlap * applyNewCustomerTerms(tier, isNewCustomer).percentage : sum;
+  }, 0);
+  return weighted / (to - from);
+};
+
+/**
+ * Data e hora da data no fuso dos períodos de volume
+ */
+const getZonedParts = (date: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: VOLUME_PERIOD_TIMEZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return { year: value('year'), month: value('month') - 1, day: value('day'), hour: value('hour'), minute: value('minute'), second: value('second') };
+};
+
+/**
+ * Meia-noite do primeiro dia do mês no fuso dos períodos de volume (o mês pode passar de 11)
+ */
+const getZonedMonthStart = (year: number, month: number) => {
+  const localMidnight = Date.UTC(year, month, 1);
+  const offsetAt = (instant: number) => {
+    const parts = getZonedParts(new Date(instant));
+    return Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second) - instant;
+  };
+  // O deslocamento é recalculado no instante encontrado, para os fusos com horário de verão
+  const guess = localMidnight - offsetAt(localMidnight);
+  return new Date(localMidnight - offsetAt(guess));
+};
+
+/**
+ * Período de medição do volume que contém a data (início incluído, fim excluído), em meses do fuso de Brasília
+ * @returns null quando as faixas são medidas por venda
+ */
+const getVolumePeriod = (date: Date, measurement: TierMeasurement) => {
+  if (measurement === 'order') return null;
+  const { year, month } = getZonedParts(date);
+  const firstMonth = measurement === 'quarterly' ? Math.floor(month / 3) * 3 : month;
+  const length = measurement === 'quarterly' ? 3 : 1;
+  return {
+    start: getZonedMonthStart(year, firstMonth),
+    end: getZonedMonthStart(year, firstMonth + length)
+  };
+};
+
+/**
+ * Aplica a regra escalonada: percentual da faixa (ou o de cliente novo) sobre a base, item a item
+ * quando a venda tem itens, mais o bônus de primeira compra
+ */
+const evaluateTieredRule = (rule: Extract<CommissionEngineRule, { type: 'tiered' }>, input: CommissionInput) => {
+  const isMarginal = rule.marginalFrom !== undefined;
+  const volumeEnd = isMarginal ? rule.marginalFrom! + input.baseValue : rule.lookupValue;
+  const tier = selectTier(rule.tiers, volumeEnd ?? input.baseValue);
+  const terms = applyNewCustomerTerms(tier, input.isNewCustomer, input.remainingRatio);
+  const percentage = isMarginal
+    ? getMarginalPercentage(rule.tiers, rule.marginalFrom!, volumeEnd!, input.isNewCustomer)
+    : terms.percentage;
+  const { bonus } = terms;
+
+  const { total, lines } = input.lineItems.length > 0
+    ? computeLineCommissions(input.lineItems, input.baseValue, percentage, input.productRules, input.role)
+    : { total: roundCurrency(input.baseValue * (percentage / 100)), lines: [] as LineCommission[] };
+  const amount = roundCurrency(total + bonus);
+
+  let tierDetail = tier ? `Faixa ${tier.name}: ${percentage}% sobre ${formatCurrency(input.baseValue)}` : 'Nenhuma faixa aplicável';
+  if (isMarginal) {
+    tierDetail = `Faixas marginais no volume de ${formatCurrency(rule.marginalFrom!)} a ${formatCurrency(volumeEnd!)}: ${percentage.toFixed(2)}% efetivo sobre ${formatCurrency(input.baseValue)}`;
+  } else if (volumeEnd !== undefined) {
+    tierDetail = tier
+      ? `Faixa ${tier.name} pelo volume de ${formatCurrency(volumeEnd)}: ${percentage}% sobre ${formatCurrency(input.baseValue)}`
+      : `Nenhuma faixa aplicável ao volume de ${formatCurrency(volumeEnd)}`;
+  }
+  const details = [tierDetail];
+  const ruleLines = lines.filter(line => line.source !== 'tier').length;
+  if (ruleLines > 0) details.push(`${ruleLines} item(ns) com regra de produto`);
+  if (bonus > 0) details.push(`bônus de cliente novo de ${formatCurrency(bonus)}`);
+
+  return { amount, lines, tier, bonus, fired: !!tier || amount > 0, detail: details.join('; ') };
+};
+
+/**
+ * Calcula a comissão de um papel aplicando as regras em sequência e explica o que cada uma fez
+ * @param input Venda normalizada e papel
+ * @param rules Regras na ordem de aplicação
+ */
+const evaluateCommission = (input: CommissionInput, rules: CommissionEngineRule[]): CommissionEvaluation => {
+  const remainingRatio = Math.max(0, input.remainingRatio);
+  let commission = 0;
+  let lines: LineCommission[] = [];
+  let tier: TierLike | null = null;
+  let bonus = 0;
+  const explanation: CommissionRuleExplanation[] = [];
+
+  for (const rule of rules) {
+    let amount = 0;
+    let detail: string;
+    let fired: boolean | undefined;
+
+    switch (rule.type) {
+      case 'tiered': {
+        const result = evaluateTieredRule(rule, input);
+        ({ amount, detail, fired } = result);
+        lines = result.lines;
+        tier = result.tier;
+        bonus = result.bonus;
+        break;
+      }
+      case 'percentage':
+        amount = roundCurrency(input.baseValue * (rule.percentage / 100));
+        detail = `${rule.percentage}% sobre ${formatCurrency(input.baseValue)}`;
+        break;
+      case 'fixed':
+        // Valor fixo reduzido na proporção do valor estornado
+        amount = roundCurrency(rule.amount * remainingRatio);
+        detail = `Valor fixo de ${formatCurrency(amount)}`;
+        break;
+      case 'cap':
+        amount = commission > rule.amount ? roundCurrency(rule.amount - commission) : 0;
+        detail = amount < 0 ? `Comissão limitada a ${formatCurrency(rule.amount)}` : `Comissão abaixo do teto de ${formatCurrency(rule.amount)}`;
+        break;
+      case 'minimum': {
+        const minimum = roundCurrency(rule.amount * remainingRatio);
+        amount = commission < minimum ? roundCurrency(minimum - commission) : 0;
+        detail = amount > 0 ? `Comissão completada até o mínimo de ${formatCurrency(minimum)}` : `Comissão acima do mínimo de ${formatCurrency(minimum)}`;
+        break;
+      }
+    }
+
+    commission = roundCurrency(Math.max(0, commission + amount));
+    explanation.push({
+      type: rule.type,
+      name: rule.name,
+      rule: rule.type === 'tiered' ? tier?._id : rule.rule,
+      fired: fired ?? amount !== 0,
+      amount,
+      detail
+    });
+  }
+
+  return { commission, lines, tier, bonus, explanation };
+};
+
+export { selectTier, getMarginalPercentage, getVolumePeriod, evaluateCommission };
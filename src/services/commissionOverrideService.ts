@@ -0,0 +1,124 @@
+import { Types } from 'mongoose';
+import CommissionOverride, { CommissionOverrideSetter, CommissionOverrideType } from '../models/CommissionOverride';
+import User from '../models/User';
+import { CommissionEngineRule, CommissionRole, TierLike } from './commissionEngine';
+import { applyTierSetBounds, TierSetBounds } from './managerTierSetService';
+
+// Campos da sobrescrita usados no cálculo (documento do Mongo ou objeto simples)
+export interface CommissionOverrideLike {
+  _id?: unknown;
+  type: CommissionOverrideType;
+  percentage?: number | null;
+  multiplier?: number | null;
+  tiers?: TierLike[];
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+  setByRole?: CommissionOverrideSetter;
+}
+
+// Sobrescritas de um usuário: registros ativos e a taxa legada do cadastro (User.commissionRate)
+export interface UserCommissionOverrides {
+  overrides: CommissionOverrideLike[];
+  commissionRate: number;
+}
+
+const NO_OVERRIDES: UserCommissionOverrides = { overrides: [], commissionRate: 0 };
+
+/**
+ * Sobrescrita vigente na data (início e fim incluídos); havendo mais de uma, vale a de início mais recente
+ */
+const selectOverride = <T extends CommissionOverrideLike>(overrides: T[], date: Date): T | null => {
+  const effective = overrides.filter(override =>
+    override.effectiveFrom <= date && (!override.effectiveTo || date <= override.effectiveTo)
+  );
+  return effective.sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())[0] || null;
+};
+
+/**
+ * Sobrescrita aplicável à venda: registro vigente na data ou, sem registro, a taxa do cadastro do usuário
+ * (commissionRate maior que zero equivale a um percentual fixo sem prazo)
+ */
+const resolveOverride = (userOverrides: UserCommissionOverrides, date: Date): CommissionOverrideLike | null => {
+  const override = selectOverride(userOverrides.overrides, date);
+  if (override) return override;
+  if (userOverrides.commissionRate > 0) {
+    // A taxa do cadastro é definida pelo admin
+    return { type: 'percentage', percentage: userOverrides.commissionRate, effectiveFrom: new Date(0), setByRole: 'admin' };
+  }
+  return null;
+};
+
+type TieredRule = Extract<CommissionEngineRule, { type: 'tiered' }>;
+
+/**
+ * Regra escalonada com as faixas da sobrescrita: percentual fixo, faixas próprias
+ * ou faixas globais com os percentuais multiplicados (limitados a 100%)
+ */
+const overrideTieredRule = (rule: TieredRule, override: CommissionOverrideLike): TieredRule => {
+  if (override.type === 'percentage') {
+    const percentage = override.percentage || 0;
+    return {
+      ...rule,
+      name: `Comissão individual de ${percentage}%`,
+      tiers: [{ _id: override._id, name: 'Comissão individual', minSalesValue: 0, commissionPercentage: percentage }]
+    };
+  }
+
+  if (override.type === 'tiers') {
+    return { ...rule, name: 'Faixas individuais', tiers: override.tiers || [] };
+  }
+
+  const multiplier = override.multiplier ?? 1;
+  const multiply = (percentage: number) => Math.min(100, Math.round(percentage * multiplier * 100) / 100);
+  return {
+    ...rule,
+    name: `${rule.name} (multiplicador ${multiplier}x)`,
+    tiers: rule.tiers.map(tier => ({
+      _id: tier._id,
+      name: tier.name,
+      minSalesValue: tier.minSalesValue,
+      maxSalesValue: tier.maxSalesValue,
+      commissionPercentage: multiply(tier.commissionPercentage),
+      newCustomerPercentage: tier.newCustomerPercentage !== undefined && tier.newCustomerPercentage !== null
+        ? multiply(tier.newCustomerPercentage)
+        : tier.newCustomerPercentage,
+      newCustomerBonus: tier.newCustomerBonus
+    }))
+  };
+};
+
+/**
+ * Troca a regra escalonada (global ou da equipe) pela regra da sobrescrita do usuário.
+ * Sobrescritas que não foram definidas por um admin ficam dentro dos limites das faixas dos gerentes.
+ */
+const applyOverrideToRules = (
+  rules: CommissionEngineRule[],
+  override: CommissionOverrideLike | null,
+  bounds: TierSetBounds = {}
+): CommissionEngineRule[] => {
+  if (!override) return rules;
+
+  return rules.map((rule): CommissionEngineRule => {
+    if (rule.type !== 'tiered') return rule;
+    const overridden = overrideTieredRule(rule, override);
+    return override.setByRole === 'admin' ? overridden : { ...overridden, tiers: applyTierSetBounds(overridden.tiers, bounds) };
+  });
+};
+
+/**
+ * Carrega as sobrescritas ativas do usuário para o papel e a taxa do cadastro
+ */
+const getUserCommissionOverrides = async (
+  userId: Types.ObjectId | string | undefined,
+  role: CommissionRole
+): Promise<UserCommissionOverrides> => {
+  if (!userId) return NO_OVERRIDES;
+
+  const [overrides, user] = await Promise.all([
+    CommissionOverride.find({ user: userId, appliesTo: role, isActive: true }),
+    User.findById(userId).select('commissionRate')
+  ]);
+  return { overrides, commissionRate: user?.commissionRate || 0 };
+};
+
+export { selectOverride, resolveOverride, applyOverrideToRules, getUserCommissionOverrides };
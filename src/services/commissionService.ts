@@ -1,56 +1,521 @@
-import SaleModel, { ISale } from '../models/Sale';
+import SaleModel, { ISale, ISaleTierSource } from '../models/Sale';
 import UserModel, { IUser } from '../models/User';
-import CommissionTier from '../models/CommissionTier';
 import CommissionPayment from '../models/CommissionPayment';
+import CommissionSettings, { CommissionBase, ICommissionSettings, VolumeTierMode } from '../models/CommissionSettings';
+import CommissionAdjustment from '../models/CommissionAdjustment';
+import CommissionTierVersion, { ICommissionTierVersion } from '../models/CommissionTierVersion';
+import { IManagerTierSet } from '../models/ManagerTierSet';
 import { sendSalesReport } from './whatsappService';
+import ProductCommissionRule, { IProductCommissionRule } from '../models/ProductCommissionRule';
+import { carryForwardBalance, collectPendingAdjustments, getUsersWithPendingAdjustments, markAdjustmentsApplied } from './refundService';
+import CommissionRule from '../models/CommissionRule';
+import {
+  evaluateCommission,
+  getVolumePeriod,
+  CommissionEngineRule,
+  CommissionEvaluation,
+  CommissionRole,
+  CommissionRuleExplanation,
+  TierLike
+} from './commissionEngine';
+import { payableSalesFilter } from './saleStatusService';
+import { applyOverrideToRules, CommissionOverrideLike, getUserCommissionOverrides, resolveOverride } from './commissionOverrideService';
+import {
+  applyTierSetToRules,
+  getActivatedManagerTierSets,
+  getManagerTierSetAt,
+  getTierSetBounds,
+  selectManagerTierSet,
+  ManagerTierSetLike
+} from './managerTierSetService';
+import { getTierVersionAt, getVersionTiers, selectTierVersion } from './commissionTierVersionService';
 import { Types } from 'mongoose';
 
+// Contexto das faixas por volume passado à regra escalonada
+export interface VolumeTierContext {
+  lookupValue?: number; // Volume usado para escolher a faixa (modo retroativo)
+  marginalFrom?: number; // Volume acumulado antes da venda (modo marginal)
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Obtém as configurações globais de comissão, criando o documento padrão se ainda não existir
+ */
+const getCommissionSettings = async (): Promise<ICommissionSettings> => {
+  return CommissionSettings.findOneAndUpdate(
+    { key: 'global' },
+    { $setOnInsert: { key: 'global' } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+};
+
+/**
+ * Base de comissão de um conjunto de faixas: a configuração do conjunto, se houver, ou a global
+ */
+const resolveCommissionBase = (settings: ICommissionSettings, role: 'influencer' | 'manager'): CommissionBase => {
+  return settings.tierSetCommissionBase?.[role] || settings.commissionBase || 'gross';
+};
+
+/**
+ * Valor sobre o qual a comissão da venda é calculada: total (bruto) ou valor líquido da mercadoria,
+ * descontada a parte já estornada. Vendas antigas sem valor líquido usam o total.
+ */
+const getCommissionableValue = (sale: ISale, base: CommissionBase): number => {
+  const value = base === 'net' && sale.netValue !== undefined && sale.netValue !== null ? sale.netValue : sale.saleValue;
+  if (!sale.refundedAmount || sale.saleValue <= 0) return value;
+  return value * Math.max(0, 1 - sale.refundedAmount / sale.saleValue);
+};
+
+/**
+ * Forma de pagamento das faixas por volume de um conjunto de faixas (padrão: retroativa)
+ */
+const resolveVolumeMode = (settings: ICommissionSettings, role: CommissionRole): VolumeTierMode => {
+  return settings.tierSetVolumeMode?.[role] || 'retroactive';
+};
+
+/**
+ * Regras do motor para um papel: a regra escalonada com as faixas da versão informada
+ * (sem versão, as faixas anteriores ao versionamento), seguida das regras por venda ativas
+ * (bônus, teto e mínimo) na ordem configurada
+ */
+const getRoleCommissionRules = async (
+  role: CommissionRole,
+  tierVersion: ICommissionTierVersion | null
+): Promise<CommissionEngineRule[]> => {
+  const [tiers, saleRules] = await Promise.all([
+    getVersionTiers(role, tierVersion),
+    CommissionRule.find({ isActive: true, appliesTo: { $in: [role, 'both'] } }).sort({ order: 1, createdAt: 1 })
+  ]);
+
+  return [
+    { type: 'tiered', name: tierVersion ? `Faixas de comissão (versão ${tierVersion.version})` : 'Faixas de comissão', tiers },
+    ...saleRules.map((rule): CommissionEngineRule => rule.type === 'percentage'
+      ? { type: 'percentage', name: rule.name, percentage: rule.percentage || 0, rule: rule._id }
+      : { type: rule.type, name: rule.name, amount: rule.amount || 0, rule: rule._id })
+  ];
+};
+
+/**
+ * Volume da venda nas faixas por período: a base de comissão, sem vendas canceladas ou estornadas
+ */
+const getVolumeValue = (sale: ISale, base: CommissionBase): number =>
+  sale.status === 'cancelled' || sale.status === 'refunded' ? 0 : getCommissionableValue(sale, base);
+
+/**
+ * Contexto de volume da regra escalonada: faixa pelo volume informado (retroativa)
+ * ou faixas marginais a partir do volume anterior à venda
+ */
+const toVolumeContext = (volumeBefore: number, volume: number, mode: VolumeTierMode): VolumeTierContext =>
+  mode === 'marginal' ? { marginalFrom: volumeBefore } : { lookupValue: volume };
+
+/**
+ * Contexto provisório das faixas por volume: o volume do influenciador (ou do gerente) no período
+ * até a venda, somado à própria venda. A taxa definitiva é acertada no fechamento do período.
+ */
+const getProvisionalVolumeContext = async (
+  sale: ISale,
+  role: CommissionRole,
+  base: CommissionBase,
+  settings: ICommissionSettings
+): Promise<VolumeTierContext> => {
+  const period = getVolumePeriod(sale.transactionDate, settings.tierSetMeasurement?.[role] || 'order');
+  const owner = role === 'influencer' ? sale.influencer : sale.manager;
+  if (!period || !owner) return {};
+
+  const previousSales = await SaleModel.find({
+    [role]: owner,
+    _id: { $ne: sale._id },
+    attributionStatus: { $ne: 'unattributed' },
+    transactionDate: { $gte: period.start, $lt: sale.transactionDate }
+  }).select('saleValue netValue refundedAmount status');
+
+  const volumeBefore = previousSales.reduce((sum, previous) => sum + getVolumeValue(previous, base), 0);
+  return toVolumeContext(volumeBefore, volumeBefore + getVolumeValue(sale, base), resolveVolumeMode(settings, role));
+};
+
+/**
+ * Calcula a comissão de um papel sobre a venda pelo motor de comissão. Com itens, a faixa é aplicada
+ * item a item (regras de produto e, sem regra, a faixa); sem itens, à venda inteira.
+ * Na primeira compra do cliente, a faixa pode usar outro percentual e somar um bônus fixo.
+ * @param rules Regras do papel (getUserCommissionRules)
+ * @param volume Contexto das faixas por volume (vazio quando as faixas são medidas por venda)
+ */
+const calculateRoleCommission = (
+  sale: ISale,
+  role: CommissionRole,
+  base: CommissionBase,
+  productRules: IProductCommissionRule[],
+  rules: CommissionEngineRule[],
+  volume: VolumeTierContext
+): CommissionEvaluation => {
+  const remainingRatio = sale.saleValue > 0 ? 1 - (sale.refundedAmount || 0) / sale.saleValue : 1;
+  return evaluateCommission(
+    {
+      role,
+      baseValue: getCommissionableValue(sale, base),
+      remainingRatio,
+      isNewCustomer: !!sale.isNewCustomer,
+      lineItems: sale.lineItems || [],
+      productRules
+    },
+    rules.map(rule => rule.type === 'tiered' ? { ...rule, ...volume } : rule)
+  );
+};
+
+/**
+ * Origem das faixas aplicadas: sobrescrita individual, conjunto do gerente (com a alteração em vigor)
+ * ou versão global. O multiplicador guarda também as faixas que multiplicou.
+ */
+const describeTierSource = (
+  tierVersion: ICommissionTierVersion | null | undefined,
+  tierSet: ManagerTierSetLike | null,
+  override: CommissionOverrideLike | null
+): ISaleTierSource => {
+  const overrideId = override?._id as Types.ObjectId | undefined;
+  if (override && override.type !== 'multiplier') return { type: 'override', override: overrideId };
+
+  const base: ISaleTierSource = tierSet
+    ? { type: 'manager_tier_set', tierSet: tierSet._id as Types.ObjectId, tierSetRevision: tierSet.revision }
+    : { type: 'global', tierVersion: tierVersion?._id as Types.ObjectId | undefined };
+  return override ? { ...base, type: 'override', override: overrideId } : base;
+};
+
+/**
+ * Regras do motor para o responsável pela comissão (influenciador ou gerente) na data da venda.
+ * As faixas são resolvidas nesta ordem: sobrescrita individual vigente, conjunto de faixas do gerente
+ * da equipe em vigor na data da venda (apenas comissão de influenciador) e faixas globais da versão
+ * vigente na data da venda (ou da versão informada).
+ */
+const getUserCommissionRules = async (
+  sale: ISale,
+  role: CommissionRole,
+  settings: ICommissionSettings,
+  explicitTierVersion?: ICommissionTierVersion
+) => {
+  const userId = (role === 'influencer' ? sale.influencer : sale.manager) as Types.ObjectId | undefined;
+  const tierVersion = explicitTierVersion || await getTierVersionAt(role, sale.transactionDate);
+  const [roleRules, userOverrides, tierSet] = await Promise.all([
+    getRoleCommissionRules(role, tierVersion),
+    getUserCommissionOverrides(userId, role),
+    role === 'influencer' ? getManagerTierSetAt(sale.manager as Types.ObjectId | undefined, sale.transactionDate) : null
+  ]);
+  const bounds = getTierSetBounds(settings);
+  const override = resolveOverride(userOverrides, sale.transactionDate);
+  const teamRules = applyTierSetToRules(roleRules, tierSet, bounds);
+  return {
+    rules: applyOverrideToRules(teamRules, override, bounds),
+    tierSource: describeTierSource(tierVersion, tierSet, override)
+  };
+};
+
+/**
+ * Calcula as comissões de influenciador e gerente de uma venda, cada uma sobre a base configurada.
+ * Faixas por volume usam o volume do período até a venda, salvo contexto informado (fechamento).
+ * As faixas globais são as da versão vigente na data da venda, salvo versão informada para o papel.
+ */
+const calculateSaleCommissions = async (
+  sale: ISale,
+  volume: Partial<Record<CommissionRole, VolumeTierContext>> = {},
+  tierVersions: Partial<Record<CommissionRole, ICommissionTierVersion>> = {}
+) => {
+  const settings = await getCommissionSettings();
+  const influencerBase = resolveCommissionBase(settings, 'influencer');
+  const managerBase = resolveCommissionBase(settings, 'manager');
+  const productRules = sale.lineItems?.length ? await ProductCommissionRule.find({ isActive: true }) : [];
+
+  const influencerRules = await getUserCommissionRules(sale, 'influencer', settings, tierVersions.influencer);
+  const influencer = calculateRoleCommission(
+    sale, 'influencer', influencerBase, productRules,
+    influencerRules.rules,
+    volume.influencer ?? await getProvisionalVolumeContext(sale, 'influencer', influencerBase, settings)
+  );
+  const managerRules = sale.manager ? await getUserCommissionRules(sale, 'manager', settings, tierVersions.manager) : null;
+  const manager: CommissionEvaluation = managerRules
+    ? calculateRoleCommission(
+      sale, 'manager', managerBase, productRules,
+      managerRules.rules,
+      volume.manager ?? await getProvisionalVolumeContext(sale, 'manager', managerBase, settings)
+    )
+    : { commission: 0, lines: [], tier: null, bonus: 0, explanation: [] };
+
+  return {
+    influencerCommission: influencer.commission,
+    managerCommission: manager.commission,
+    commissionBase: influencerBase,
+    influencerLines: influencer.lines,
+    managerLines: manager.lines,
+    influencerTier: influencer.tier,
+    managerTier: manager.tier,
+    influencerNewCustomerBonus: influencer.bonus,
+    managerNewCustomerBonus: manager.bonus,
+    influencerExplanation: influencer.explanation,
+    managerExplanation: manager.explanation,
+    influencerTierSource: influencerRules.tierSource,
+    managerTierSource: managerRules?.tierSource
+  };
+};
+
+/**
+ * Passos do cálculo gravados na venda: apenas as regras que alteraram a comissão
+ */
+const toSaleCommissionSteps = (explanation: CommissionRuleExplanation[]) =>
+  explanation
+    .filter(step => step.fired)
+    .map(step => ({ type: step.type, name: step.name, rule: step.rule as Types.ObjectId | undefined, amount: step.amount, detail: step.detail }));
+
+/**
+ * Grava na venda (e em cada item) a comissão calculada para um papel e a origem das faixas usadas.
+ * A versão global só é gravada quando as faixas globais foram de fato aplicadas.
+ */
+const writeRoleCommission = (
+  sale: ISale,
+  role: CommissionRole,
+  evaluation: Omit<CommissionEvaluation, 'tier'>,
+  tierSource?: ISaleTierSource
+) => {
+  const steps = toSaleCommissionSteps(evaluation.explanation);
+  if (role === 'influencer') {
+    sale.influencerCommissionEarned = evaluation.commission;
+    sale.influencerNewCustomerBonus = evaluation.bonus || undefined;
+    sale.influencerCommissionSteps = steps;
+    sale.influencerTierVersion = tierSource?.tierVersion;
+    sale.influencerTierSource = tierSource;
+  } else {
+    sale.managerCommissionEarned = evaluation.commission;
+    sale.managerNewCustomerBonus = evaluation.bonus || undefined;
+    sale.managerCommissionSteps = steps;
+    sale.managerTierVersion = tierSource?.tierVersion;
+    sale.managerTierSource = tierSource;
+  }
+
+  sale.lineItems.forEach((line, index) => {
+    const lineCommission = evaluation.lines[index];
+    if (role === 'influencer') {
+      line.influencerCommission = lineCommission?.commission;
+      line.influencerRule = lineCommission?.rule;
+    } else {
+      line.managerCommission = lineCommission?.commission;
+      line.managerRule = lineCommission?.rule;
+    }
+  });
+};
+
+/**
+ * Calcula as comissões da venda e grava na venda e em cada item
+ * @param tierVersions Versão das faixas a usar por papel (padrão: a vigente na data da venda)
+ */
+const applySaleCommissions = async (sale: ISale, tierVersions: Partial<Record<CommissionRole, ICommissionTierVersion>> = {}) => {
+  const result = await calculateSaleCommissions(sale, {}, tierVersions);
+
+  sale.commissionBase = result.commissionBase;
+  writeRoleCommission(sale, 'influencer', {
+    commission: result.influencerCommission,
+    lines: result.influencerLines,
+    bonus: result.influencerNewCustomerBonus,
+    explanation: result.influencerExplanation
+  }, result.influencerTierSource);
+  writeRoleCommission(sale, 'manager', {
+    commission: result.managerCommission,
+    lines: result.managerLines,
+    bonus: result.managerNewCustomerBonus,
+    explanation: result.managerExplanation
+  }, result.managerTierSource);
+  sale.commissionCalculated = true;
+  await sale.save();
+
+  return result;
+};
+
+/**
+ * Reflete a diferença de comissão de uma venda recalculada no pagamento que a inclui.
+ * Pagamento ainda não pago: o valor é corrigido diretamente.
+ * Pagamento já pago: cria um ajuste (positivo ou negativo) para o próximo pagamento.
+ */
+const adjustPaymentCommission = async (sale: ISale, role: CommissionRole, difference: number, reason: string) => {
+  const userId = role === 'influencer' ? sale.influencer : sale.manager;
+  if (!userId || difference === 0) return null;
+
+  const payment = await CommissionPayment.findOne({ sales: sale._id, roleAtPayment: role, user: userId })
+    .sort({ calculationDate: -1 });
+  if (!payment) return null;
+
+  if (payment.status === 'paid') {
+    const adjustment = await CommissionAdjustment.create({
+      user: userId,
+      roleAtPayment: role,
+      sale: sale._id,
+      amount: difference,
+      reason,
+      sourcePayment: payment._id,
+      status: 'pending'
+    });
+    return { adjustment };
+  }
+
+  payment.commissionEarned = roundCurrency(Math.max(0, payment.commissionEarned + difference));
+  await payment.save();
+  return { payment };
+};
+
 /**
- * Calcula a comissão para uma venda baseada nas faixas de comissão e tipo de usuário
- * @param saleValue Valor da venda
- * @param role Tipo de usuário (influencer ou manager)
- * @returns Valor da comissão calculada
+ * Fecha as faixas por volume de um papel no período de medição que contém a data: recalcula a comissão
+ * de cada venda pelo volume final do período (modo retroativo) ou pelas faixas marginais do volume
+ * acumulado (modo marginal) e corrige os pagamentos que já incluem as vendas.
+ * Pode ser executado mais de uma vez; as vendas só são marcadas como acertadas depois do fim do período.
+ * @returns null quando as faixas do papel são medidas por venda
  */
-const calculateCommissionForSale = async (saleValue: number, role: 'influencer' | 'manager') => {
-  const tiers = await CommissionTier.find({ 
-    appliesTo: role, 
-    isActive: true,
-    minSalesValue: { $lte: saleValue }
-  }).sort({ minSalesValue: -1 });
+const settleVolumeTiers = async (role: CommissionRole, referenceDate: Date) => {
+  const settings = await getCommissionSettings();
+  const measurement = settings.tierSetMeasurement?.[role] || 'order';
+  const period = getVolumePeriod(referenceDate, measurement);
+  if (!period) return null;
+
+  const mode = resolveVolumeMode(settings, role);
+  const base = resolveCommissionBase(settings, role);
+  const periodClosed = period.end <= new Date();
+
+  const sales = await SaleModel.find({
+    [role]: { $exists: true, $ne: null },
+    attributionStatus: { $ne: 'unattributed' },
+    transactionDate: { $gte: period.start, $lt: period.end }
+  }).sort({ transactionDate: 1, _id: 1 });
+  const productRules = sales.some(sale => sale.lineItems?.length) ? await ProductCommissionRule.find({ isActive: true }) : [];
+  const tierVersions = await CommissionTierVersion.find({ appliesTo: role });
+  const bounds = getTierSetBounds(settings);
+
+  // Regras por versão das faixas vigente na data da venda e, na comissão de influenciador,
+  // pelo conjunto de faixas do gerente da equipe em vigor na data da venda
+  const rulesByKey = new Map<string, CommissionEngineRule[]>();
+  const tierSetsByManager = new Map<string, IManagerTierSet[]>();
+  const getSaleRules = async (sale: ISale) => {
+    const tierVersion = selectTierVersion(tierVersions, sale.transactionDate);
+    const versionKey = tierVersion ? (tierVersion._id as Types.ObjectId).toString() : 'legacy';
+    if (!rulesByKey.has(versionKey)) {
+      rulesByKey.set(versionKey, await getRoleCommissionRules(role, tierVersion));
+    }
+    const managerId = role === 'influencer' && sale.manager ? sale.manager.toString() : null;
+    if (managerId && !tierSetsByManager.has(managerId)) {
+      tierSetsByManager.set(managerId, await getActivatedManagerTierSets(managerId));
+    }
+    const tierSet = managerId ? selectManagerTierSet(tierSetsByManager.get(managerId)!, sale.transactionDate) : null;
+    const teamKey = tierSet ? `${versionKey}:${tierSet._id}:${tierSet.revision}` : versionKey;
+    if (!rulesByKey.has(teamKey)) {
+      rulesByKey.set(teamKey, applyTierSetToRules(rulesByKey.get(versionKey)!, tierSet, bounds));
+    }
+    return { rules: rulesByKey.get(teamKey)!, tierVersion, tierSet };
+  };
+
+  // Agrupar as vendas do período por influenciador (ou gerente)
+  const salesByOwner = new Map<string, ISale[]>();
+  for (const sale of sales) {
+    const ownerId = (role === 'influencer' ? sale.influencer : sale.manager)!.toString();
+    if (!salesByOwner.has(ownerId)) {
+      salesByOwner.set(ownerId, []);
+    }
+    salesByOwner.get(ownerId)!.push(sale);
+  }
+
+  const reason = `Fechamento das faixas por volume de ${period.start.toLocaleDateString()} a ${new Date(period.end.getTime() - 1).toLocaleDateString()}`;
+  const owners = [];
+  let paymentsUpdated = 0;
+  let adjustmentsCreated = 0;
+
+  for (const [ownerId, ownerSales] of salesByOwner.entries()) {
+    const userOverrides = await getUserCommissionOverrides(ownerId, role);
+    const volume = ownerSales.reduce((sum, sale) => sum + getVolumeValue(sale, base), 0);
+    let volumeBefore = 0;
+    let commissionBefore = 0;
+    let commissionAfter = 0;
+    let salesRecalculated = 0;
+    let tier: TierLike | null = null;
+
+    for (const sale of ownerSales) {
+      const context = toVolumeContext(volumeBefore, volume, mode);
+      volumeBefore += getVolumeValue(sale, base);
+      // Vendas ainda sem comissão entram no volume e são calculadas pelo processamento pendente
+      if (!sale.commissionCalculated) continue;
+
+      const previousCommission = (role === 'influencer' ? sale.influencerCommissionEarned : sale.managerCommissionEarned) || 0;
+      const { rules, tierVersion, tierSet } = await getSaleRules(sale);
+      const override = resolveOverride(userOverrides, sale.transactionDate);
+      const saleRules = applyOverrideToRules(rules, override, bounds);
+      const evaluation = calculateRoleCommission(sale, role, base, productRules, saleRules, context);
+      writeRoleCommission(sale, role, evaluation, describeTierSource(tierVersion, tierSet, override));
+      if (periodClosed) sale.commissionSettledAt = new Date();
+      await sale.save();
+
+      const result = await adjustPaymentCommission(sale, role, roundCurrency(evaluation.commission - previousCommission), `${reason} (pedido ${sale.orderId})`);
+      if (result?.payment) paymentsUpdated++;
+      if (result?.adjustment) adjustmentsCreated++;
+
+      tier = evaluation.tier;
+      commissionBefore += previousCommission;
+      commissionAfter += evaluation.commission;
+      salesRecalculated++;
+    }
 
-  if (tiers.length === 0) return 0;
+    owners.push({
+      user: ownerId,
+      volume: roundCurrency(volume),
+      tier: tier ? tier.name : null,
+      salesRecalculated,
+      commissionBefore: roundCurrency(commissionBefore),
+      commissionAfter: roundCurrency(commissionAfter)
+    });
+  }
+
+  console.log(`[commissionService] Faixas por volume de ${role} acertadas (${period.start.toISOString()} a ${period.end.toISOString()}, ${mode}): ${owners.length} usuário(s)`);
+
+  return {
+    role,
+    measurement,
+    mode,
+    periodStart: period.start,
+    periodEnd: period.end,
+    periodClosed,
+    owners,
+    paymentsUpdated,
+    adjustmentsCreated
+  };
+};
 
-  const applicableTier = tiers[0];
-  return saleValue * (applicableTier.commissionPercentage / 100);
+/**
+ * Fecha as faixas por volume de todos os períodos de medição que cobrem o intervalo, nos dois papéis
+ */
+const settleVolumeTiersInRange = async (start: Date, end: Date) => {
+  const settings = await getCommissionSettings();
+  const results = [];
+  for (const role of ['influencer', 'manager'] as const) {
+    const measurement = settings.tierSetMeasurement?.[role] || 'order';
+    let period = getVolumePeriod(start, measurement);
+    while (period && period.start <= end) {
+      results.push(await settleVolumeTiers(role, period.start));
+      period = getVolumePeriod(period.end, measurement);
+    }
+  }
+  return results;
 };
 
 /**
  * Processa todas as vendas pendentes de cálculo de comissão
+ * @param tierVersion Versão das faixas a usar no papel dela (padrão: a vigente na data de cada venda)
  * @returns Objeto com o número de vendas processadas e comissões calculadas
  */
-const processPendingCommissions = async () => {
-  const pendingSales = await SaleModel.find({ commissionCalculated: false });
+const processPendingCommissions = async (tierVersion?: ICommissionTierVersion) => {
+  // Vendas não atribuídas só têm comissão depois de atribuídas a um influenciador
+  const pendingSales = await SaleModel.find({ commissionCalculated: false, attributionStatus: { $ne: 'unattributed' } });
   
   let totalProcessed = 0;
   let totalInfluencerCommission = 0;
   let totalManagerCommission = 0;
   
   for (const sale of pendingSales) {
-    // Calcular comissão do influenciador
-    const influencerCommission = await calculateCommissionForSale(sale.saleValue, 'influencer');
-    
-    // Calcular comissão do manager (se existir)
-    let managerCommission = 0;
-    if (sale.manager) {
-      managerCommission = await calculateCommissionForSale(sale.saleValue, 'manager');
-    }
-    
-    // Atualizar a venda com os valores calculados
-    await SaleModel.findByIdAndUpdate(sale._id, {
-      commissionCalculated: true,
-      influencerCommissionEarned: influencerCommission,
-      managerCommissionEarned: managerCommission
-    });
+    // Calcular e gravar as comissões de influenciador e manager (se existir)
+    const { influencerCommission, managerCommission } = await applySaleCommissions(
+      sale,
+      tierVersion ? { [tierVersion.appliesTo]: tierVersion } : {}
+    );
     
     totalProcessed++;
     totalInfluencerCommission += influencerCommission;
@@ -74,18 +539,31 @@ const generateCommissionPayments = async (periodStart: Date, periodEnd: Date) =>
   // Garantir que todas as vendas do período tenham comissões calculadas
   const uncalculatedSales = await SaleModel.countDocuments({
     transactionDate: { $gte: periodStart, $lte: periodEnd },
-    commissionCalculated: false
+    commissionCalculated: false,
+    attributionStatus: { $ne: 'unattributed' }
   });
   
   if (uncalculatedSales > 0) {
     await processPendingCommissions();
   }
+
+  // Faixas por volume: acerta as comissões dos períodos de medição que cobrem o período de pagamento
+  await settleVolumeTiersInRange(periodStart, periodEnd);
   
-  // Buscar todas as vendas do período que já têm comissões calculadas
-  const sales = await SaleModel.find({
-    transactionDate: { $gte: periodStart, $lte: periodEnd },
-    commissionCalculated: true
+  // Buscar as vendas do período com comissão calculada que já atingiram a etapa em que a comissão é paga
+  // (pedidos pendentes ficam de fora até o pagamento)
+  const { payableStatus } = await getCommissionSettings();
+  const payableSales = await SaleModel.find({
+    commissionCalculated: true,
+    ...payableSalesFilter(payableStatus, periodStart, periodEnd)
   }).populate<{ influencer: IUser, manager?: IUser }>('influencer').populate<{ influencer: IUser, manager?: IUser }>('manager');
+
+  // Vendas de períodos anteriores confirmadas agora entram uma única vez
+  const lateSaleIds = payableSales.filter(sale => sale.transactionDate < periodStart).map(sale => sale._id);
+  const alreadyPaidIds = lateSaleIds.length > 0
+    ? (await CommissionPayment.distinct('sales', { sales: { $in: lateSaleIds } })).map(id => id.toString())
+    : [];
+  const sales = payableSales.filter(sale => !alreadyPaidIds.includes((sale._id as Types.ObjectId).toString()));
   
   // Mapear vendas por influenciador e manager using ISale
   const influencerSalesMap = new Map<string, (ISale & { influencer: IUser, manager?: IUser })[]>();
@@ -110,6 +588,14 @@ const generateCommissionPayments = async (periodStart: Date, periodEnd: Date) =>
         managerSalesMap.get(managerIdStr)!.push(sale);
     }
   }
+
+  // Usuários sem vendas novas, mas com ajustes pendentes (ex.: estorno de comissão já paga), também entram
+  for (const influencerId of await getUsersWithPendingAdjustments('influencer')) {
+    if (!influencerSalesMap.has(influencerId)) influencerSalesMap.set(influencerId, []);
+  }
+  for (const managerId of await getUsersWithPendingAdjustments('manager')) {
+    if (!managerSalesMap.has(managerId)) managerSalesMap.set(managerId, []);
+  }
   
   // Gerar pagamentos para influenciadores
   const influencerPayments = [];
@@ -117,9 +603,14 @@ const generateCommissionPayments = async (periodStart: Date, periodEnd: Date) =>
     const influencer = await UserModel.findById(influencerId);
     if (!influencer) continue;
     
-    // Add explicit types to reduce parameters
-    const totalSalesValue = influencerSales.reduce((sum: number, sale: ISale) => sum + sale.saleValue, 0);
-    const totalCommission = influencerSales.reduce((sum: number, sale: ISale) => sum + (sale.influencerCommissionEarned || 0), 0);
+    // Add explicit types to reduce parameters (valor estornado não conta como venda)
+    const totalSalesValue = influencerSales.reduce((sum: number, sale: ISale) => sum + sale.saleValue - (sale.refundedAmount || 0), 0);
+    const salesCommission = influencerSales.reduce((sum: number, sale: ISale) => sum + (sale.influencerCommissionEarned || 0), 0);
+    
+    // Ajustes pendentes (ex.: estornos de comissões já pagas) entram neste pagamento;
+    // o saldo negativo que passar da comissão fica para o próximo
+    const { adjustments, adjustmentsTotal, commissionEarned: totalCommission, balanceCarriedForward } =
+      await collectPendingAdjustments(influencerId, 'influencer', salesCommission);
     
     const payment = await CommissionPayment.create({
       user: influencerId,
@@ -127,11 +618,16 @@ const generateCommissionPayments = async (periodStart: Date, periodEnd: Date) =>
       sales: influencerSales.map((sale: ISale) => sale._id as Types.ObjectId),
       totalSalesValue,
       commissionEarned: totalCommission,
+      adjustments: adjustments.map(adjustment => adjustment._id as Types.ObjectId),
+      adjustmentsTotal,
+      balanceCarriedForward,
       paymentPeriodStart: periodStart,
       paymentPeriodEnd: periodEnd,
       calculationDate: new Date(),
       status: 'pending'
     });
+    await markAdjustmentsApplied(adjustments, payment._id as Types.ObjectId);
+    await carryForwardBalance(payment, balanceCarriedForward);
     
     influencerPayments.push(payment);
     
@@ -177,9 +673,14 @@ const generateCommissionPayments = async (periodStart: Date, periodEnd: Date) =>
     const manager = await UserModel.findById(managerId);
     if (!manager) continue;
     
-    // Add explicit types to reduce parameters
-    const totalSalesValue = managerSales.reduce((sum: number, sale: ISale) => sum + sale.saleValue, 0);
-    const totalCommission = managerSales.reduce((sum: number, sale: ISale) => sum + (sale.managerCommissionEarned || 0), 0);
+    // Add explicit types to reduce parameters (valor estornado não conta como venda)
+    const totalSalesValue = managerSales.reduce((sum: number, sale: ISale) => sum + sale.saleValue - (sale.refundedAmount || 0), 0);
+    const salesCommission = managerSales.reduce((sum: number, sale: ISale) => sum + (sale.managerCommissionEarned || 0), 0);
+    
+    // Ajustes pendentes (ex.: estornos de comissões já pagas) entram neste pagamento;
+    // o saldo negativo que passar da comissão fica para o próximo
+    const { adjustments, adjustmentsTotal, commissionEarned: totalCommission, balanceCarriedForward } =
+      await collectPendingAdjustments(managerId, 'manager', salesCommission);
     
     const payment = await CommissionPayment.create({
       user: managerId,
@@ -187,11 +688,16 @@ const generateCommissionPayments = async (periodStart: Date, periodEnd: Date) =>
       sales: managerSales.map((sale: ISale) => sale._id as Types.ObjectId),
       totalSalesValue,
       commissionEarned: totalCommission,
+      adjustments: adjustments.map(adjustment => adjustment._id as Types.ObjectId),
+      adjustmentsTotal,
+      balanceCarriedForward,
       paymentPeriodStart: periodStart,
       paymentPeriodEnd: periodEnd,
       calculationDate: new Date(),
       status: 'pending'
     });
+    await markAdjustmentsApplied(adjustments, payment._id as Types.ObjectId);
+    await carryForwardBalance(payment, balanceCarriedForward);
     
     managerPayments.push(payment);
   }
@@ -210,7 +716,12 @@ const generateCommissionPayments = async (periodStart: Date, periodEnd: Date) =>
 };
 
 export {
-  calculateCommissionForSale,
+  getCommissionSettings,
+  describeTierSource,
+  calculateSaleCommissions,
+  applySaleCommissions,
   processPendingCommissions,
+  settleVolumeTiers,
+  settleVolumeTiersInRange,
   generateCommissionPayments
 }; 
\ No newline at end of file
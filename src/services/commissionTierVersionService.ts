@@ -0,0 +1,153 @@
+import { Types } from 'mongoose';
+import CommissionTier, { ICommissionTier } from '../models/CommissionTier';
+import CommissionTierVersion, { ICommissionTierVersion } from '../models/CommissionTierVersion';
+import { CommissionRole, TierLike } from './commissionEngine';
+
+// Campos da versão usados na escolha pela data (documento do Mongo ou objeto simples)
+export interface TierVersionLike {
+  _id?: unknown;
+  version: number;
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+}
+
+// Faixa de uma nova versão, sem identificador nem conjunto
+export type TierVersionTierData = Omit<TierLike, '_id'>;
+
+// Outra versão com o mesmo número foi salva ao mesmo tempo (índice único por papel e versão)
+export class TierVersionConflictError extends Error {
+  constructor(role: CommissionRole, version: number) {
+    super(`A versão ${version} das faixas de ${role} acabou de ser salva por outra requisição; recarregue as faixas e tente novamente`);
+    this.name = 'TierVersionConflictError';
+  }
+}
+
+// Erro de chave duplicada do MongoDB
+const isDuplicateKeyError = (error: any) => error?.code === 11000;
+
+/**
+ * Versão vigente na data: início incluído e fim excluído (o fim é o início da versão seguinte);
+ * havendo mais de uma, vale a de início mais recente
+ */
+const selectTierVersion = <T extends TierVersionLike>(versions: T[], date: Date): T | null => {
+  const effective = versions.filter(version =>
+    version.effectiveFrom <= date && (!version.effectiveTo || date < version.effectiveTo)
+  );
+  return effective.sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())[0] || null;
+};
+
+/**
+ * Campos de uma faixa copiados para uma nova versão
+ */
+const toTierData = (tier: TierLike): TierVersionTierData => ({
+  name: tier.name,
+  minSalesValue: tier.minSalesValue,
+  maxSalesValue: tier.maxSalesValue ?? undefined,
+  commissionPercentage: tier.commissionPercentage,
+  newCustomerPercentage: tier.newCustomerPercentage ?? undefined,
+  newCustomerBonus: tier.newCustomerBonus ?? undefined
+});
+
+/**
+ * Versão do conjunto de faixas do papel vigente na data (null antes da primeira versão)
+ */
+const getTierVersionAt = async (role: CommissionRole, date: Date) => {
+  return CommissionTierVersion.findOne({
+    appliesTo: role,
+    effectiveFrom: { $lte: date },
+    $or: [{ effectiveTo: { $exists: false } }, { effectiveTo: null }, { effectiveTo: { $gt: date } }]
+  }).sort({ effectiveFrom: -1 });
+};
+
+/**
+ * Última versão salva do conjunto de faixas do papel (pode começar no futuro)
+ */
+const getLatestTierVersion = async (role: CommissionRole) => {
+  return CommissionTierVersion.findOne({ appliesTo: role }).sort({ effectiveFrom: -1 });
+};
+
+/**
+ * Faixas de uma versão; sem versão, as faixas ativas anteriores ao versionamento
+ */
+const getVersionTiers = async (role: CommissionRole, version: ICommissionTierVersion | null): Promise<ICommissionTier[]> => {
+  if (version) {
+    return CommissionTier.find({ tierVersion: version._id }).sort({ minSalesValue: 1 });
+  }
+  return CommissionTier.find({ appliesTo: role, isActive: true, tierVersion: { $exists: false } }).sort({ minSalesValue: 1 });
+};
+
+/**
+ * Na primeira versão salva, as faixas ativas anteriores ao versionamento viram a versão 1,
+ * vigente desde sempre, para que as vendas antigas continuem com as taxas que usaram.
+ * Pode ser repetido: se outra requisição criou a versão 1 antes, ela é usada.
+ */
+const ensureInitialTierVersion = async (role: CommissionRole) => {
+  const latest = await getLatestTierVersion(role);
+  if (latest) return latest;
+
+  const legacyFilter = { appliesTo: role, isActive: true, tierVersion: { $exists: false } };
+  if (await CommissionTier.countDocuments(legacyFilter) === 0) return null;
+
+  let initialVersion: ICommissionTierVersion;
+  try {
+    initialVersion = await CommissionTierVersion.create({
+      appliesTo: role, version: 1, effectiveFrom: new Date(0), notes: 'Faixas anteriores ao versionamento'
+    });
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) throw error;
+    initialVersion = (await CommissionTierVersion.findOne({ appliesTo: role, version: 1 }))!;
+  }
+  await CommissionTier.updateMany(legacyFilter, { tierVersion: initialVersion._id });
+  return initialVersion;
+};
+
+/**
+ * Salva uma nova versão do conjunto de faixas do papel. A versão anterior passa a terminar
+ * no início da nova; nenhuma faixa existente é alterada ou removida.
+ * O início da nova versão deve ser posterior ao da última versão (validado pelo chamador).
+ *
+ * Não usa transação (funciona em MongoDB standalone): as faixas são gravadas primeiro com o
+ * identificador da nova versão e a versão só passa a existir no insert dela, protegido pelo índice
+ * único (papel, versão). Se outra requisição salvar a mesma versão antes, as faixas gravadas são
+ * removidas e TierVersionConflictError é lançado. Enquanto a versão anterior não recebe o fim,
+ * a escolha pela data já prefere a versão de início mais recente.
+ */
+const createTierVersion = async (
+  role: CommissionRole,
+  tiers: TierVersionTierData[],
+  effectiveFrom: Date,
+  createdBy?: Types.ObjectId,
+  notes?: string
+) => {
+  const previousVersion = await ensureInitialTierVersion(role);
+  const versionNumber = (previousVersion?.version || 0) + 1;
+  const versionId = new Types.ObjectId();
+
+  const createdTiers = await CommissionTier.insertMany(
+    tiers.map(tier => ({ ...tier, appliesTo: role, tierVersion: versionId, isActive: true }))
+  );
+
+  let version: ICommissionTierVersion;
+  try {
+    version = await CommissionTierVersion.create({ _id: versionId, appliesTo: role, version: versionNumber, effectiveFrom, notes, createdBy });
+  } catch (error) {
+    await CommissionTier.deleteMany({ tierVersion: versionId });
+    if (isDuplicateKeyError(error)) throw new TierVersionConflictError(role, versionNumber);
+    throw error;
+  }
+
+  if (previousVersion) {
+    await CommissionTierVersion.updateOne({ _id: previousVersion._id }, { effectiveTo: effectiveFrom });
+  }
+
+  return { version, tiers: createdTiers };
+};
+
+export {
+  selectTierVersion,
+  toTierData,
+  getTierVersionAt,
+  getLatestTierVersion,
+  getVersionTiers,
+  createTierVersion
+};
@@ -0,0 +1,110 @@
+import { Types } from 'mongoose';
+import Coupon, { ICoupon, normalizeCode } from '../models/Coupon';
+import User, { IUser } from '../models/User';
+
+/**
+ * Cupom que reserva o código (sem diferenciar maiúsculas/minúsculas). Cupons de usuários já removidos
+ * (desativados antes de serem apagados junto com o dono) são apagados e liberam o código.
+ */
+const findReservedCoupon = async (code: string): Promise<ICoupon | null> => {
+  const coupon = await Coupon.findOne({ normalizedCode: normalizeCode(code) });
+  if (!coupon || await User.exists({ _id: coupon.owner })) return coupon;
+
+  await Coupon.deleteOne({ _id: coupon._id });
+  return null;
+};
+
+/**
+ * Verifica se um código de cupom está livre (sem diferenciar maiúsculas/minúsculas).
+ * Cupons inativos continuam reservados para o dono enquanto ele existir.
+ * @param code Código desejado
+ * @param ownerId Se informado, cupons desse usuário não contam como conflito
+ */
+const isCouponCodeAvailable = async (code: string, ownerId?: Types.ObjectId | string): Promise<boolean> => {
+  const existing = await findReservedCoupon(code);
+  if (!existing) return true;
+  return !!ownerId && existing.owner.toString() === ownerId.toString();
+};
+
+/**
+ * Localiza o cupom ativo e válido na data informada
+ * @param code Código como recebido da plataforma
+ * @param at Data da venda (para a janela de validade)
+ */
+const resolveCoupon = async (code: string, at: Date = new Date()): Promise<ICoupon | null> => {
+  const coupon = await Coupon.findOne({ normalizedCode: normalizeCode(code), isActive: true });
+  if (!coupon) return null;
+  if (coupon.validFrom && at < coupon.validFrom) return null;
+  if (coupon.validUntil && at > coupon.validUntil) return null;
+  return coupon;
+};
+
+/**
+ * Localiza o influenciador pelo primeiro cupom do pedido que corresponda a um cupom válido
+ * @returns Influenciador, código como recebido e o cupom encontrado
+ */
+const findInfluencerByCoupons = async (couponCodes: string[], at: Date = new Date()) => {
+  for (const couponCode of couponCodes) {
+    const coupon = await resolveCoupon(couponCode, at);
+    if (!coupon) continue;
+
+    const influencer = await User.findById(coupon.owner);
+    if (influencer) return { influencer, couponCode, coupon };
+  }
+  return null;
+};
+
+/**
+ * Define o cupom principal de um influenciador (espelhado em User.couponCode).
+ * O cupom principal anterior é desativado; um cupom já existente do próprio usuário é reaproveitado.
+ * Lança erro se o código pertencer a outro usuário. Não salva o usuário.
+ */
+const setPrimaryCoupon = async (user: IUser, code?: string | null) => {
+  const userId = user._id as Types.ObjectId;
+
+  // Desativa o cupom principal atual
+  const deactivatePrevious = (exceptId?: unknown) => Coupon.updateMany(
+    { owner: userId, isPrimary: true, ...(exceptId ? { _id: { $ne: exceptId } } : {}) },
+    { isPrimary: false, isActive: false }
+  );
+
+  if (!code) {
+    await deactivatePrevious();
+    user.couponCode = undefined;
+    return null;
+  }
+
+  let coupon = await findReservedCoupon(code);
+  if (coupon && coupon.owner.toString() !== userId.toString()) {
+    throw new Error('Este código de cupom já está em uso');
+  }
+
+  if (coupon) {
+    coupon.code = code.trim();
+    coupon.isActive = true;
+    coupon.isPrimary = true;
+    await coupon.save();
+  } else {
+    coupon = await Coupon.create({ code, owner: userId, isPrimary: true });
+  }
+
+  await deactivatePrevious(coupon._id);
+  user.couponCode = coupon.code;
+  return coupon;
+};
+
+/**
+ * Apaga todos os cupons de um usuário removido, liberando os códigos para outros usuários.
+ * As vendas já atribuídas mantêm o código usado (couponCodeUsed).
+ */
+const releaseUserCoupons = async (userId: Types.ObjectId | string) => {
+  await Coupon.deleteMany({ owner: userId });
+};
+
+export {
+  isCouponCodeAvailable,
+  resolveCoupon,
+  findInfluencerByCoupons,
+  setPrimaryCoupon,
+  releaseUserCoupons
+};
@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import Sale from '../models/Sale';
+import { NormalizedCustomer } from './platformAdapters';
+
+// Campos da faixa usados nas condições de cliente novo
+export interface NewCustomerTierLike {
+  commissionPercentage: number;
+  newCustomerPercentage?: number | null;
+  newCustomerBonus?: number | null;
+}
+
+/**
+ * Identificador do cliente para comparação entre pedidos: e-mail em minúsculas ou,
+ * sem e-mail, o telefone só com dígitos (com o prefixo do tipo para não confundir os dois)
+ */
+const getCustomerIdentifier = (customer?: NormalizedCustomer): string | undefined => {
+  const email = customer?.email?.trim().toLowerCase();
+  if (email) return `email:${email}`;
+
+  const phone = customer?.phone?.replace(/\D/g, '');
+  if (phone) return `phone:${phone}`;
+  return undefined;
+};
+
+/**
+ * Hash SHA-256 do identificador do cliente; o e-mail e o telefone não são gravados na venda.
+ * CUSTOMER_HASH_SALT é somado ao identificador e não deve mudar depois que houver vendas.
+ * @returns undefined se o pedido não tiver e-mail nem telefone
+ */
+const hashCustomerIdentifier = (customer?: NormalizedCustomer): string | undefined => {
+  const identifier = getCustomerIdentifier(customer);
+  if (!identifier) return undefined;
+  return crypto.createHash('sha256').update(`${process.env.CUSTOMER_HASH_SALT || ''}${identifier}`).digest('hex');
+};
+
+/**
+ * Campos de cliente da venda: hash do identificador e se é a primeira compra.
+ * A compra é de cliente novo quando não há venda anterior (em qualquer plataforma) com o mesmo hash;
+ * pedidos sem e-mail nem telefone ficam sem a indicação.
+ */
+const getCustomerFields = async (customer: NormalizedCustomer | undefined, orderDate: Date) => {
+  const customerHash = hashCustomerIdentifier(customer);
+  if (!customerHash) return {};
+
+  const previousSale = await Sale.exists({ customerHash, transactionDate: { $lt: orderDate } });
+  return { customerHash, isNewCustomer: !previousSale };
+};
+
+/**
+ * Condições da faixa para a venda: percentual para cliente novo (se configurado) no lugar do percentual
+ * da faixa e bônus fixo, reduzido na proporção do valor já estornado
+ * @param remainingRatio Parte da venda não estornada (0 a 1)
+ */
+const applyNewCustomerTerms = (tier: NewCustomerTierLike | null, isNewCustomer: boolean, remainingRatio = 1) => {
+  if (!tier) return { percentage: 0, bonus: 0 };
+  if (!isNewCustomer) return { percentage: tier.commissionPercentage, bonus: 0 };
+
+  const percentage = tier.newCustomerPercentage ?? tier.commissionPercentage;
+  const bonus = Math.round((tier.newCustomerBonus || 0) * Math.max(0, remainingRatio) * 100) / 100;
+  return { percentage, bonus };
+};
+
+export { hashCustomerIdentifier, getCustomerFields, applyNewCustomerTerms };
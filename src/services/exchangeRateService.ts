@@ -0,0 +1,115 @@
+import { Types } from 'mongoose';
+import ExchangeRate, { toRateDate } from '../models/ExchangeRate';
+import { parseCsv } from '../utils/csv';
+import { parseAmount, roundAmount } from './platformAdapters/parsing';
+
+// Moeda em que comissões, dashboards e relatórios são calculados
+export const BASE_CURRENCY = 'BRL';
+
+// Erro lançado quando não há cotação cadastrada para converter uma venda
+export class MissingExchangeRateError extends Error {
+  constructor(currency: string, at: Date) {
+    super(`Nenhuma cotação de ${currency} cadastrada até ${at.toISOString().substring(0, 10)}`);
+    this.name = 'MissingExchangeRateError';
+  }
+}
+
+/**
+ * Converte uma data de cotação em texto ("2025-04-09" ou "09/04/2025") no dia correspondente
+ * @returns Data à meia-noite UTC ou null se o texto não for uma data válida
+ */
+const parseRateDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : toRateDate(value);
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  const brazilian = text.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  const date = brazilian
+    ? new Date(Date.UTC(Number(brazilian[3]), Number(brazilian[2]) - 1, Number(brazilian[1])))
+    : new Date(text);
+  return isNaN(date.getTime()) ? null : toRateDate(date);
+};
+
+/**
+ * Cotação em BRL válida na data: a do próprio dia ou, se não houver (fim de semana, feriado),
+ * a mais recente anterior. BRL sempre tem cotação 1.
+ * Lança MissingExchangeRateError se não houver cotação cadastrada até a data.
+ */
+const getExchangeRate = async (currency: string, at: Date) => {
+  const code = currency.toUpperCase();
+  if (code === BASE_CURRENCY) return { rate: 1, date: toRateDate(at) };
+
+  const exchangeRate = await ExchangeRate.findOne({ currency: code, date: { $lte: toRateDate(at) } })
+    .sort({ date: -1 });
+  if (!exchangeRate) {
+    throw new MissingExchangeRateError(code, at);
+  }
+
+  return { rate: exchangeRate.rate, date: exchangeRate.date };
+};
+
+/**
+ * Converte um valor para BRL com a cotação informada
+ */
+const convertToBaseCurrency = (amount: number, rate: number): number => roundAmount(amount * rate);
+
+/**
+ * Cria ou atualiza a cotação de uma moeda em um dia
+ */
+const upsertExchangeRate = async (
+  currency: string,
+  date: Date,
+  rate: number,
+  source: 'manual' | 'csv',
+  updatedBy?: Types.ObjectId | string
+) => {
+  return ExchangeRate.findOneAndUpdate(
+    { currency: currency.toUpperCase(), date: toRateDate(date) },
+    { rate, source, updatedBy },
+    { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+};
+
+/**
+ * Carrega cotações de um CSV com as colunas date (ou data), currency (ou moeda) e rate (ou taxa).
+ * Linhas inválidas são ignoradas e listadas em errors; as válidas substituem a cotação do dia.
+ */
+const importExchangeRatesCsv = async (text: string, updatedBy?: Types.ObjectId | string) => {
+  const rows = parseCsv(text);
+  const errors: { line: number; message: string }[] = [];
+  let imported = 0;
+
+  for (const [index, row] of rows.entries()) {
+    const line = index + 2; // Linha 1 é o cabeçalho
+    const date = parseRateDate(row.date ?? row.data);
+    const currency = (row.currency ?? row.moeda ?? '').toUpperCase();
+    const rate = parseAmount(row.rate ?? row.taxa);
+
+    if (!date) {
+      errors.push({ line, message: 'Data inválida' });
+      continue;
+    }
+    if (!/^[A-Z]{3}$/.test(currency) || currency === BASE_CURRENCY) {
+      errors.push({ line, message: `Moeda inválida: ${currency || '(vazia)'}` });
+      continue;
+    }
+    if (isNaN(rate) || rate <= 0) {
+      errors.push({ line, message: 'Cotação inválida' });
+      continue;
+    }
+
+    await upsertExchangeRate(currency, date, rate, 'csv', updatedBy);
+    imported++;
+  }
+
+  console.log(`[exchangeRate] ${imported} cotações importadas via CSV (${errors.length} linhas com erro)`);
+  return { total: rows.length, imported, errors };
+};
+
+export {
+  parseRateDate,
+  getExchangeRate,
+  convertToBaseCurrency,
+  upsertExchangeRate,
+  importExchangeRatesCsv
+};
@@ -0,0 +1,88 @@
+import { Types } from 'mongoose';
+import IngestionJob, { IIngestionJob, IngestionJobType } from '../models/IngestionJob';
+
+// Backoff exponencial: 30s, 1min, 2min, 4min... limitado a 1 hora
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Jobs em execução há mais tempo que isso são considerados abandonados (worker reiniciado)
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+const getMaxAttempts = (): number => {
+  const configured = parseInt(process.env.INGESTION_JOB_MAX_ATTEMPTS || '', 10);
+  return isNaN(configured) || configured <= 0 ? 5 : configured;
+};
+
+/**
+ * Coloca uma etapa do pipeline na fila
+ */
+const enqueueJob = async (type: IngestionJobType, refs: { event?: Types.ObjectId; sale?: Types.ObjectId }) => {
+  return IngestionJob.create({
+    type,
+    event: refs.event,
+    sale: refs.sale,
+    maxAttempts: getMaxAttempts(),
+    nextRunAt: new Date()
+  });
+};
+
+/**
+ * Reserva o próximo job pronto para execução (operação atômica)
+ */
+const claimNextJob = async (): Promise<IIngestionJob | null> => {
+  const now = new Date();
+  return IngestionJob.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'queued', nextRunAt: { $lte: now } },
+        { status: 'running', lockedAt: { $lt: new Date(now.getTime() - STALE_LOCK_MS) } }
+      ]
+    },
+    { $set: { status: 'running', lockedAt: now }, $inc: { attempts: 1 } },
+    { sort: { nextRunAt: 1 }, new: true }
+  );
+};
+
+const completeJob = async (job: IIngestionJob) => {
+  job.status = 'completed';
+  job.completedAt = new Date();
+  job.lockedAt = undefined;
+  await job.save();
+};
+
+/**
+ * Registra a falha de um job: reagenda com backoff ou envia para a lista de mortos.
+ * Erros não recuperáveis (retryable = false) vão direto para a lista de mortos.
+ */
+const failJob = async (job: IIngestionJob, error: Error, retryable = true) => {
+  job.lastError = error.message;
+  job.failures.push({ message: error.message, failedAt: new Date() });
+  job.lockedAt = undefined;
+
+  if (!retryable || job.attempts >= job.maxAttempts) {
+    job.status = 'dead';
+    job.deadAt = new Date();
+    console.error(`[jobQueue] Job ${job._id} (${job.type}) movido para a lista de mortos após ${job.attempts} tentativas: ${error.message}`);
+  } else {
+    const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, job.attempts - 1), MAX_RETRY_DELAY_MS);
+    job.status = 'queued';
+    job.nextRunAt = new Date(Date.now() + delay);
+    console.warn(`[jobQueue] Job ${job._id} (${job.type}) falhou (tentativa ${job.attempts}/${job.maxAttempts}), nova tentativa em ${Math.round(delay / 1000)}s: ${error.message}`);
+  }
+
+  await job.save();
+};
+
+/**
+ * Recoloca um job morto na fila, com novas tentativas
+ */
+const retryDeadJob = async (job: IIngestionJob) => {
+  job.status = 'queued';
+  job.attempts = 0;
+  job.maxAttempts = getMaxAttempts();
+  job.nextRunAt = new Date();
+  job.deadAt = undefined;
+  await job.save();
+  return job;
+};
+
+export { enqueueJob, claimNextJob, completeJob, failJob, retryDeadJob };
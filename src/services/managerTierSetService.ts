@@ -0,0 +1,166 @@
+import { Types } from 'mongoose';
+import ManagerTierSet, { IManagerTierSet } from '../models/ManagerTierSet';
+import { ICommissionSettings } from '../models/CommissionSettings';
+import { CommissionEngineRule, TierLike } from './commissionEngine';
+
+// Limites definidos pelo admin para as faixas dos gerentes (sem valor: sem limite)
+export interface TierSetBounds {
+  maxPercentage?: number | null;
+  maxNewCustomerBonus?: number | null;
+}
+
+// Conjunto de faixas do gerente usado no cálculo (documento do Mongo ou objeto simples)
+export interface ManagerTierSetLike {
+  _id?: unknown;
+  name: string;
+  tiers: TierLike[];
+  revision?: number; // Alteração do histórico em vigor (1 = criação)
+}
+
+const hasBound = (value: number | null | undefined): value is number => value !== undefined && value !== null;
+
+/**
+ * Valida as faixas de um conjunto do gerente: campos obrigatórios, intervalo de valores
+ * e limites de percentual e bônus definidos pelo admin
+ * @returns Mensagem de erro ou null se válidas
+ */
+const validateTierSetTiers = (tiers: unknown, bounds: TierSetBounds = {}): string | null => {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return 'Informe ao menos uma faixa em tiers';
+  }
+
+  for (const tier of tiers) {
+    if (!tier?.name || typeof tier.minSalesValue !== 'number' || tier.minSalesValue < 0
+      || typeof tier.commissionPercentage !== 'number' || tier.commissionPercentage < 0 || tier.commissionPercentage > 100) {
+      return 'Cada faixa precisa de name, minSalesValue (>= 0) e commissionPercentage (0 a 100)';
+    }
+    if (hasBound(tier.maxSalesValue) && (typeof tier.maxSalesValue !== 'number' || tier.maxSalesValue < tier.minSalesValue)) {
+      return `maxSalesValue da faixa ${tier.name} deve ser maior ou igual a minSalesValue`;
+    }
+    if (hasBound(tier.newCustomerPercentage)
+      && (typeof tier.newCustomerPercentage !== 'number' || tier.newCustomerPercentage < 0 || tier.newCustomerPercentage > 100)) {
+      return `newCustomerPercentage da faixa ${tier.name} deve ser um número entre 0 e 100`;
+    }
+    if (hasBound(tier.newCustomerBonus) && (typeof tier.newCustomerBonus !== 'number' || tier.newCustomerBonus < 0)) {
+      return `newCustomerBonus da faixa ${tier.name} deve ser um número maior ou igual a 0`;
+    }
+
+    if (hasBound(bounds.maxPercentage)
+      && (tier.commissionPercentage > bounds.maxPercentage || (tier.newCustomerPercentage ?? 0) > bounds.maxPercentage)) {
+      return `A faixa ${tier.name} ultrapassa o percentual máximo permitido (${bounds.maxPercentage}%)`;
+    }
+    if (hasBound(bounds.maxNewCustomerBonus) && (tier.newCustomerBonus ?? 0) > bounds.maxNewCustomerBonus) {
+      return `A faixa ${tier.name} ultrapassa o bônus máximo de cliente novo permitido (R$ ${bounds.maxNewCustomerBonus})`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Aplica os limites atuais às faixas do gerente (o admin pode reduzir os limites depois da ativação)
+ */
+const applyTierSetBounds = (tiers: TierLike[], bounds: TierSetBounds = {}): TierLike[] =>
+  tiers.map(tier => ({
+    _id: tier._id,
+    name: tier.name,
+    minSalesValue: tier.minSalesValue,
+    maxSalesValue: tier.maxSalesValue,
+    commissionPercentage: hasBound(bounds.maxPercentage)
+      ? Math.min(tier.commissionPercentage, bounds.maxPercentage)
+      : tier.commissionPercentage,
+    newCustomerPercentage: hasBound(bounds.maxPercentage) && hasBound(tier.newCustomerPercentage)
+      ? Math.min(tier.newCustomerPercentage, bounds.maxPercentage)
+      : tier.newCustomerPercentage,
+    newCustomerBonus: hasBound(bounds.maxNewCustomerBonus) && hasBound(tier.newCustomerBonus)
+      ? Math.min(tier.newCustomerBonus, bounds.maxNewCustomerBonus)
+      : tier.newCustomerBonus
+  }));
+
+/**
+ * Troca as faixas globais da regra escalonada pelas faixas do conjunto ativo do gerente da equipe
+ */
+const applyTierSetToRules = (
+  rules: CommissionEngineRule[],
+  tierSet: ManagerTierSetLike | null,
+  bounds: TierSetBounds = {}
+): CommissionEngineRule[] => {
+  if (!tierSet) return rules;
+
+  return rules.map((rule): CommissionEngineRule => rule.type === 'tiered'
+    ? { ...rule, name: `Faixas da equipe (${tierSet.name})`, tiers: applyTierSetBounds(tierSet.tiers, bounds) }
+    : rule);
+};
+
+/**
+ * Conjunto de faixas ativo do gerente, se houver
+ */
+const getActiveManagerTierSet = async (managerId: Types.ObjectId | string | undefined) => {
+  if (!managerId) return null;
+  return ManagerTierSet.findOne({ manager: managerId, isActive: true });
+};
+
+/**
+ * Estado de um conjunto de faixas em uma data, refeito pelo histórico de alterações: nome e faixas
+ * da última alteração até a data, se o conjunto estava ativo nela
+ */
+const getTierSetStateAt = (tierSet: IManagerTierSet, date: Date) => {
+  let state: ManagerTierSetLike | null = null;
+  let activatedAt: Date | null = null;
+
+  // O histórico é gravado em ordem cronológica
+  for (let index = 0; index < tierSet.history.length; index++) {
+    const change = tierSet.history[index];
+    if (change.at > date) break;
+    if (change.action === 'activated') activatedAt = change.at;
+    if (change.action === 'deactivated') activatedAt = null;
+    state = { _id: tierSet._id, name: change.name, tiers: change.tiers, revision: index + 1 };
+  }
+
+  return state && activatedAt ? { tierSet: state, activatedAt } : null;
+};
+
+/**
+ * Conjunto de faixas do gerente em vigor na data (o ativado por último entre os ativos nela),
+ * com as faixas como estavam naquela data
+ */
+const selectManagerTierSet = (tierSets: IManagerTierSet[], date: Date): ManagerTierSetLike | null => {
+  let selected: { tierSet: ManagerTierSetLike; activatedAt: Date } | null = null;
+  for (const tierSet of tierSets) {
+    const state = getTierSetStateAt(tierSet, date);
+    if (state && (!selected || state.activatedAt > selected.activatedAt)) selected = state;
+  }
+  return selected ? selected.tierSet : null;
+};
+
+/**
+ * Conjuntos do gerente que já foram ativados alguma vez (candidatos a estar em vigor em uma data)
+ */
+const getActivatedManagerTierSets = async (managerId: Types.ObjectId | string | undefined) => {
+  if (!managerId) return [];
+  return ManagerTierSet.find({ manager: managerId, 'history.action': 'activated' });
+};
+
+/**
+ * Conjunto de faixas do gerente em vigor na data da venda, se houver
+ */
+const getManagerTierSetAt = async (managerId: Types.ObjectId | string | undefined, date: Date) =>
+  selectManagerTierSet(await getActivatedManagerTierSets(managerId), date);
+
+/**
+ * Limites das faixas dos gerentes nas configurações de comissão
+ */
+const getTierSetBounds = (settings: ICommissionSettings): TierSetBounds => ({
+  maxPercentage: settings.managerTierSetBounds?.maxPercentage,
+  maxNewCustomerBonus: settings.managerTierSetBounds?.maxNewCustomerBonus
+});
+
+export {
+  validateTierSetTiers,
+  applyTierSetBounds,
+  applyTierSetToRules,
+  getActiveManagerTierSet,
+  selectManagerTierSet,
+  getActivatedManagerTierSets,
+  getManagerTierSetAt,
+  getTierSetBounds
+};
@@ -0,0 +1,389 @@
+import Sale, { saleOrderKey } from '../models/Sale';
+import { parseCsv, CsvRow } from '../utils/csv';
+import { NormalizedLineItem, NormalizedOrder, OrderStatus, SalePlatform } from './platformAdapters';
+import { parseAmount, parseCurrency, roundAmount } from './platformAdapters/parsing';
+import { findInfluencerByCoupons } from './couponService';
+import { getExchangeRate } from './exchangeRateService';
+import { ingestOrder } from './saleIngestionService';
+
+// Colunas do CSV usadas na importação (nomes do cabeçalho, sem diferenciar maiúsculas)
+export interface ImportColumnMapping {
+  orderId: string;
+  total: string;
+  date: string;
+  coupon?: string; // Um ou mais cupons separados por vírgula ou ponto e vírgula
+  currency?: string;
+  discounts?: string;
+  shipping?: string;
+  taxes?: string;
+  status?: string; // Situação do pagamento
+  fulfillmentStatus?: string; // Situação do envio
+  customerName?: string;
+  customerEmail?: string;
+  // Exportações com uma linha por item (Shopify) repetem o pedido e trazem os itens nestas colunas
+  lineItemName?: string;
+  lineItemSku?: string;
+  lineItemQuantity?: string;
+  lineItemPrice?: string;
+  lineItemDiscount?: string;
+}
+
+// Mapeamentos prontos para as exportações de pedidos das plataformas
+const IMPORT_PRESETS: Record<string, ImportColumnMapping> = {
+  // Shopify: Pedidos > Exportar (uma linha por item; os valores do pedido vêm só na primeira)
+  shopify: {
+    orderId: 'id',
+    total: 'total',
+    date: 'created at',
+    coupon: 'discount code',
+    currency: 'currency',
+    discounts: 'discount amount',
+    shipping: 'shipping',
+    taxes: 'taxes',
+    status: 'financial status',
+    fulfillmentStatus: 'fulfillment status',
+    customerName: 'billing name',
+    customerEmail: 'email',
+    lineItemName: 'lineitem name',
+    lineItemSku: 'lineitem sku',
+    lineItemQuantity: 'lineitem quantity',
+    lineItemPrice: 'lineitem price',
+    lineItemDiscount: 'lineitem discount'
+  },
+  // CartPanda: exportação de pedidos (uma linha por pedido)
+  cartpanda: {
+    orderId: 'id',
+    total: 'total_price',
+    date: 'created_at',
+    coupon: 'discount_codes',
+    currency: 'currency',
+    discounts: 'total_discounts',
+    shipping: 'total_shipping_price',
+    taxes: 'total_tax',
+    status: 'payment_status',
+    fulfillmentStatus: 'fulfillment_status',
+    customerName: 'customer_name',
+    customerEmail: 'email'
+  }
+};
+
+// Situações de pagamento/envio reconhecidas (Shopify, CartPanda e exportações em português)
+const PENDING_STATUSES = ['pending', 'authorized', 'partially_paid', 'waiting_payment', 'pendente', 'aguardando pagamento'];
+const PAID_STATUSES = ['paid', 'partially_refunded', 'processing', 'approved', 'pago', 'aprovado'];
+const FULFILLED_STATUSES = ['fulfilled', 'completed', 'delivered', 'shipped', 'enviado', 'entregue'];
+const SKIPPED_STATUSES = ['refunded', 'voided', 'expired', 'cancelled', 'canceled', 'chargeback', 'estornado', 'reembolsado', 'cancelado'];
+
+export interface ImportOptions {
+  platform: SalePlatform;
+  store?: string; // Loja de origem (domínio, id ou alias), igual à informada pelos webhooks
+  preset?: string; // Mapeamento pronto (shopify, cartpanda); o padrão é o da plataforma
+  mapping?: Partial<ImportColumnMapping>; // Colunas que substituem as do mapeamento pronto
+  dryRun?: boolean; // Apenas gera o relatório, sem gravar vendas (padrão: true)
+}
+
+// Pedido lido do CSV, com a linha em que começa
+export interface ImportedOrder {
+  line: number;
+  order: NormalizedOrder;
+}
+
+export interface ImportRowError {
+  line: number;
+  orderId?: string;
+  message: string;
+}
+
+// Situação de um pedido no relatório da importação
+export type ImportOrderStatus =
+  | 'matched' | 'unknown_coupon' | 'no_coupon' | 'duplicate' // Simulação
+  | 'created' | 'error'; // Gravação (unknown_coupon e no_coupon também aparecem aqui)
+
+export interface ImportOrderReport {
+  line: number;
+  orderId: string;
+  status: ImportOrderStatus;
+  couponCode?: string;
+  influencer?: { id: string; name: string; email: string };
+  saleId?: string;
+  message?: string;
+}
+
+/**
+ * Mapeamento final: preset escolhido (ou o da plataforma) com as colunas informadas por cima,
+ * todas em minúsculas como o cabeçalho lido pelo parseCsv.
+ * Lança erro se o preset não existir ou se faltarem as colunas obrigatórias.
+ */
+const resolveColumnMapping = (options: Pick<ImportOptions, 'platform' | 'preset' | 'mapping'>): ImportColumnMapping => {
+  const presetName = options.preset || options.platform;
+  const preset = IMPORT_PRESETS[presetName];
+  if (options.preset && !preset) {
+    throw new Error(`Mapeamento pronto desconhecido: ${options.preset} (disponíveis: ${Object.keys(IMPORT_PRESETS).join(', ')})`);
+  }
+
+  const merged: Record<string, string> = { ...(preset || {}) };
+  for (const [field, column] of Object.entries(options.mapping || {})) {
+    if (typeof column === 'string' && column.trim()) merged[field] = column.trim().toLowerCase();
+  }
+
+  const missing = ['orderId', 'total', 'date'].filter(field => !merged[field]);
+  if (missing.length > 0) {
+    throw new Error(`Informe a coluna do CSV para: ${missing.join(', ')}`);
+  }
+  return merged as unknown as ImportColumnMapping;
+};
+
+/**
+ * Data do pedido no CSV: ISO/formato da Shopify ("2025-04-09 15:48:33 -0300")
+ * ou brasileiro ("09/04/2025 15:48", no fuso do servidor). Retorna null se inválida.
+ */
+const parseImportDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const brazilian = value.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!brazilian) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const [day, month, year, hours, minutes, seconds] = [1, 2, 3, 4, 5, 6].map(index => +(brazilian[index] || 0));
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Rejeita datas que o construtor "corrigiria" (ex.: 31/02 ou 25:00)
+  const isExact = date.getDate() === day && date.getMonth() === month - 1 && date.getHours() === hours && date.getMinutes() === minutes;
+  return isExact ? date : null;
+};
+
+/**
+ * Etapa do pedido pela situação de pagamento e envio.
+ * @returns null para pedidos estornados/cancelados, undefined para situação desconhecida
+ */
+const parseImportStatus = (paymentStatus = '', fulfillmentStatus = ''): OrderStatus | null | undefined => {
+  const payment = paymentStatus.trim().toLowerCase();
+  if (SKIPPED_STATUSES.includes(payment)) return null;
+
+  let status: OrderStatus | undefined;
+  if (!payment || PAID_STATUSES.includes(payment)) status = 'paid';
+  else if (PENDING_STATUSES.includes(payment)) status = 'pending';
+  else if (FULFILLED_STATUSES.includes(payment)) status = 'fulfilled';
+  if (!status) return undefined;
+
+  const fulfilled = FULFILLED_STATUSES.includes(fulfillmentStatus.trim().toLowerCase());
+  return status === 'paid' && fulfilled ? 'fulfilled' : status;
+};
+
+const amountOrZero = (value: string | undefined): number => {
+  const amount = parseAmount(value);
+  return isNaN(amount) ? 0 : amount;
+};
+
+/**
+ * Item do pedido de uma linha do CSV, quando a exportação traz itens
+ */
+const parseLineItem = (row: CsvRow, mapping: ImportColumnMapping): NormalizedLineItem | null => {
+  const title = mapping.lineItemName ? row[mapping.lineItemName] : undefined;
+  if (!title) return null;
+
+  const quantity = parseInt(mapping.lineItemQuantity ? row[mapping.lineItemQuantity] : '', 10);
+  return {
+    sku: (mapping.lineItemSku && row[mapping.lineItemSku]) || undefined,
+    title,
+    quantity: isNaN(quantity) ? 1 : quantity,
+    price: amountOrZero(mapping.lineItemPrice ? row[mapping.lineItemPrice] : undefined),
+    discount: amountOrZero(mapping.lineItemDiscount ? row[mapping.lineItemDiscount] : undefined)
+  };
+};
+
+/**
+ * Lê o CSV exportado da plataforma e monta os pedidos normalizados, sem acessar o banco.
+ * Linhas seguidas do mesmo pedido (exportações com uma linha por item) viram um único pedido;
+ * os valores do pedido vêm da primeira linha que tiver o total preenchido.
+ * Pedidos estornados ou cancelados são ignorados (não geram comissão).
+ */
+const buildOrdersFromCsv = (text: string, options: Pick<ImportOptions, 'platform' | 'store' | 'preset' | 'mapping'>) => {
+  const mapping = resolveColumnMapping(options);
+  const rows = parseCsv(text);
+  const errors: ImportRowError[] = [];
+  const skipped: ImportRowError[] = [];
+  const groups = new Map<string, { line: number; rows: CsvRow[] }>();
+
+  for (const [index, row] of rows.entries()) {
+    const line = index + 2; // Linha 1 é o cabeçalho
+    const orderId = (row[mapping.orderId] || '').replace(/^#/, '');
+    if (!orderId) {
+      errors.push({ line, message: `Coluna "${mapping.orderId}" vazia ou ausente` });
+      continue;
+    }
+    const group = groups.get(orderId);
+    if (group) group.rows.push(row);
+    else groups.set(orderId, { line, rows: [row] });
+  }
+
+  const orders: ImportedOrder[] = [];
+  const receivedAt = new Date();
+
+  for (const [orderId, { line, rows: orderRows }] of groups) {
+    const main = orderRows.find(row => !!row[mapping.total]) || orderRows[0];
+    const grossValue = parseAmount(main[mapping.total]);
+    if (isNaN(grossValue) || grossValue < 0) {
+      errors.push({ line, orderId, message: `Total inválido: ${main[mapping.total] || '(vazio)'}` });
+      continue;
+    }
+    const createdAt = parseImportDate(main[mapping.date]);
+    if (!createdAt) {
+      errors.push({ line, orderId, message: `Data inválida: ${main[mapping.date] || '(vazia)'}` });
+      continue;
+    }
+    const paymentStatus = mapping.status ? main[mapping.status] : undefined;
+    const status = parseImportStatus(paymentStatus, mapping.fulfillmentStatus ? main[mapping.fulfillmentStatus] : undefined);
+    if (status === null) {
+      skipped.push({ line, orderId, message: `Pedido ${paymentStatus}` });
+      continue;
+    }
+    if (status === undefined) {
+      errors.push({ line, orderId, message: `Situação de pagamento desconhecida: ${paymentStatus}` });
+      continue;
+    }
+
+    const shipping = amountOrZero(mapping.shipping ? main[mapping.shipping] : undefined);
+    const taxes = amountOrZero(mapping.taxes ? main[mapping.taxes] : undefined);
+    const couponCodes = (mapping.coupon ? main[mapping.coupon] || '' : '')
+      .split(/[,;]/)
+      .map(code => code.trim())
+      .filter(Boolean);
+    const customerName = mapping.customerName ? main[mapping.customerName] : undefined;
+    const customerEmail = mapping.customerEmail ? main[mapping.customerEmail] : undefined;
+
+    orders.push({
+      line,
+      order: {
+        externalOrderId: orderId,
+        platform: options.platform,
+        storeId: options.store || undefined,
+        status,
+        currency: parseCurrency(mapping.currency ? main[mapping.currency] : undefined),
+        grossValue,
+        discounts: amountOrZero(mapping.discounts ? main[mapping.discounts] : undefined),
+        shipping,
+        taxes,
+        netValue: roundAmount(Math.max(grossValue - shipping - taxes, 0)),
+        couponCodes,
+        customer: customerName || customerEmail ? { name: customerName || undefined, email: customerEmail || undefined } : undefined,
+        lineItems: orderRows
+          .map(row => parseLineItem(row, mapping))
+          .filter((item): item is NormalizedLineItem => item !== null),
+        createdAt,
+        receivedAt
+      }
+    });
+  }
+
+  return { totalRows: rows.length, orders, skipped, errors };
+};
+
+/**
+ * Simula a importação de um pedido: duplicidade, cotação da moeda e influenciador do cupom
+ */
+const previewImportedOrder = async ({ line, order }: ImportedOrder): Promise<ImportOrderReport> => {
+  const report: ImportOrderReport = { line, orderId: order.externalOrderId, status: 'no_coupon' };
+
+  const existingSale = await Sale.findOne(saleOrderKey(order.platform, order.storeId, order.externalOrderId)).select('_id');
+  if (existingSale) {
+    return { ...report, status: 'duplicate', saleId: existingSale._id!.toString(), message: 'Venda já registrada' };
+  }
+
+  try {
+    await getExchangeRate(order.currency, order.createdAt);
+  } catch (error: any) {
+    return { ...report, status: 'error', message: error.message };
+  }
+
+  if (order.couponCodes.length === 0) return report;
+
+  const match = await findInfluencerByCoupons(order.couponCodes, order.createdAt);
+  if (!match) {
+    return { ...report, status: 'unknown_coupon', couponCode: order.couponCodes[0] };
+  }
+  return {
+    ...report,
+    status: 'matched',
+    couponCode: match.coupon.code,
+    influencer: { id: match.influencer._id!.toString(), name: match.influencer.name, email: match.influencer.email }
+  };
+};
+
+/**
+ * Grava um pedido importado pelo mesmo pipeline dos webhooks (atribuição e comissão), sem notificação.
+ * Pedidos já registrados não são alterados.
+ */
+const commitImportedOrder = async ({ line, order }: ImportedOrder): Promise<ImportOrderReport> => {
+  const report: ImportOrderReport = { line, orderId: order.externalOrderId, status: 'no_coupon' };
+
+  const existingSale = await Sale.findOne(saleOrderKey(order.platform, order.storeId, order.externalOrderId)).select('_id');
+  if (existingSale) {
+    return { ...report, status: 'duplicate', saleId: existingSale._id!.toString(), message: 'Venda já registrada' };
+  }
+
+  try {
+    const result = await ingestOrder(order, { notify: false, imported: true });
+    if (result.status === 'duplicate') {
+      return { ...report, status: 'duplicate', saleId: result.sale?._id?.toString(), message: result.message };
+    }
+    if (result.status === 'no_coupon' || result.status === 'unknown_coupon' || result.status === 'unknown_affiliate') {
+      return {
+        ...report,
+        status: result.status === 'no_coupon' ? 'no_coupon' : 'unknown_coupon',
+        couponCode: result.couponCode,
+        saleId: result.sale?._id?.toString(),
+        message: result.message
+      };
+    }
+    return {
+      ...report,
+      status: 'created',
+      couponCode: result.couponCode,
+      saleId: result.sale?._id?.toString(),
+      influencer: result.influencer
+        ? { id: result.influencer._id!.toString(), name: result.influencer.name, email: result.influencer.email }
+        : undefined,
+      message: `Comissão do influenciador: R$ ${result.influencerCommission.toFixed(2)}`
+    };
+  } catch (error: any) {
+    return { ...report, status: 'error', message: error.message };
+  }
+};
+
+/**
+ * Importa pedidos históricos de um CSV exportado da plataforma.
+ * Em simulação (padrão) apenas relata influenciadores encontrados, cupons desconhecidos e duplicados;
+ * com dryRun false grava as vendas pelo pipeline de atribuição e comissão, sem avisos de WhatsApp.
+ * Lança erro se o mapeamento de colunas for inválido.
+ */
+const importOrdersCsv = async (text: string, options: ImportOptions) => {
+  const dryRun = options.dryRun !== false;
+  const { totalRows, orders, skipped, errors } = buildOrdersFromCsv(text, options);
+
+  const reports: ImportOrderReport[] = [];
+  for (const importedOrder of orders) {
+    reports.push(dryRun ? await previewImportedOrder(importedOrder) : await commitImportedOrder(importedOrder));
+  }
+
+  const summary: Record<string, number> = {};
+  reports.forEach(report => {
+    summary[report.status] = (summary[report.status] || 0) + 1;
+  });
+
+  console.log(`[orderImport] ${dryRun ? 'Simulação' : 'Importação'} de ${orders.length} pedidos ${options.platform}` +
+    `${options.store ? ` (${options.store})` : ''}: ${JSON.stringify(summary)}, ${skipped.length} ignorados, ${errors.length} linhas com erro`);
+
+  return {
+    dryRun,
+    platform: options.platform,
+    store: options.store || '',
+    totalRows,
+    totalOrders: orders.length,
+    summary,
+    orders: reports,
+    skipped,
+    errors
+  };
+};
+
+export { IMPORT_PRESETS, resolveColumnMapping, parseImportDate, buildOrdersFromCsv, importOrdersCsv };
@@ -0,0 +1,221 @@
+import {
+  PlatformAdapter, NormalizedOrder, NormalizedRefund, OrderStatus, RefundReason, ListedOrder, InvalidPayloadError, UnknownStoreError
+} from './types';
+import { parseAmount, firstAmount, roundAmount, parseDate, parseCurrency, firstId, extractReferralCodes } from './parsing';
+import { getConfiguredStoreToken } from './storeTokens';
+
+/**
+ * Extrai os cupons da CartPanda, que podem vir como texto ("lais15"),
+ * array de textos, array de objetos { code } ou um único objeto { code }
+ */
+const extractCouponCodes = (discountCodes: any): string[] => {
+  if (!discountCodes) return [];
+  if (typeof discountCodes === 'string') {
+    return discountCodes.trim() ? [discountCodes.trim()] : [];
+  }
+  if (Array.isArray(discountCodes)) {
+    return discountCodes
+      .map(discount => (typeof discount === 'string' ? discount : discount?.code))
+      .filter(Boolean)
+      .map((code: string) => code.trim());
+  }
+  if (typeof discountCodes === 'object' && discountCodes.code) {
+    return [discountCodes.code.trim()];
+  }
+  return [];
+};
+
+// Eventos de pedido da CartPanda e a etapa correspondente
+const ORDER_EVENTS: Record<string, OrderStatus> = {
+  'order.created': 'pending',
+  'order.paid': 'paid',
+  'order.fulfilled': 'fulfilled'
+};
+
+// Eventos de estorno da CartPanda e o motivo correspondente
+const REFUND_EVENTS: Record<string, RefundReason> = {
+  'order.refunded': 'refund',
+  'order.partially_refunded': 'refund',
+  'order.cancelled': 'cancellation',
+  'order.chargeback': 'chargeback'
+};
+
+// payment_status de pedidos consultados na API: aguardando pagamento, recusados e estornados
+const PENDING_PAYMENT_STATUSES = ['pending', 'waiting_payment', 'unpaid'];
+const FAILED_PAYMENT_STATUSES = ['declined', 'failed', 'expired', 'voided'];
+const REFUNDED_PAYMENT_STATUSES = ['refunded', 'chargeback', 'cancelled'];
+// fulfillment_status de pedido enviado
+const FULFILLED_STATUSES = ['fulfilled', 'shipped', 'delivered'];
+
+// Limite de páginas da listagem, para não repetir indefinidamente se a API ignorar o parâmetro page
+const MAX_LIST_PAGES = 500;
+// Slug de loja aceito na consulta à API (vai no caminho da URL)
+const CARTPANDA_STORE_SLUG = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * URL base da API da CartPanda; CARTPANDA_API_URL permite apontar para outro servidor (ex.: stub local nos testes)
+ */
+const getApiUrl = () => process.env.CARTPANDA_API_URL || 'https://accounts.cartpanda.com/api/v3';
+
+/**
+ * Evento de webhook equivalente à situação de um pedido consultado na API
+ * @returns null para pedidos com pagamento recusado ou expirado
+ */
+const getOrderEvent = (order: any): string | null => {
+  const paymentStatus = String(order.payment_status || '').toLowerCase();
+  if (FAILED_PAYMENT_STATUSES.includes(paymentStatus)) return null;
+  if (FULFILLED_STATUSES.includes(String(order.fulfillment_status || '').toLowerCase())) return 'order.fulfilled';
+  return PENDING_PAYMENT_STATUSES.includes(paymentStatus) ? 'order.created' : 'order.paid';
+};
+
+/**
+ * Adapter para pedidos da CartPanda (eventos order.created, order.paid e order.fulfilled) e seus estornos
+ */
+const cartPandaAdapter: PlatformAdapter = {
+  platform: 'cartpanda',
+
+  normalize(payload: any): NormalizedOrder {
+    const eventStatus = ORDER_EVENTS[payload?.event];
+    if (!payload?.order || !eventStatus) {
+      throw new InvalidPayloadError('Formato incorreto do webhook da CartPanda. Evento de pedido não suportado ou objeto order não encontrado.');
+    }
+
+    const order = payload.order;
+    const externalOrderId = firstId(order.id, order.order_number, order.number, order.name);
+    const grossValue = parseAmount(order.total_price);
+
+    if (!externalOrderId || isNaN(grossValue)) {
+      throw new InvalidPayloadError('Dados da venda incompletos. Necessário ID do pedido e valor total.');
+    }
+
+    // order.created de pedido já pago (cartão aprovado na hora) conta como pago
+    const status = eventStatus === 'pending' && order.payment_status === 'paid' ? 'paid' : eventStatus;
+
+    // subtotal_price da CartPanda vem antes dos descontos e sem frete
+    const subtotal = parseAmount(order.subtotal_price);
+    const discounts = firstAmount(order.total_discounts);
+    const shipping = firstAmount(order.total_shipping_price, order.shipping_price);
+    const taxes = firstAmount(order.total_tax);
+    const netValue = isNaN(subtotal) ? grossValue - shipping - taxes : subtotal - discounts;
+
+    const customer = order.customer || order.email
+      ? {
+          externalId: firstId(order.customer?.id),
+          name: order.customer?.full_name
+            || [order.customer?.first_name, order.customer?.last_name].filter(Boolean).join(' ')
+            || undefined,
+          email: order.customer?.email || order.email,
+          phone: order.customer?.phone || order.phone
+        }
+      : undefined;
+
+    return {
+      externalOrderId,
+      platform: 'cartpanda',
+      storeId: firstId(order.shop_id),
+      status,
+      currency: parseCurrency(order.currency, order.currency_code),
+      grossValue,
+      discounts,
+      shipping,
+      taxes,
+      netValue: roundAmount(Math.max(0, netValue)),
+      couponCodes: extractCouponCodes(order.discount_codes),
+      // Link de indicação: URL de entrada, atributos do pedido e UTMs (no pedido ou em order.utm)
+      referralCodes: extractReferralCodes(
+        [order.landing_site, order.landing_page],
+        [order.note_attributes, order.utm, order]
+      ),
+      customer,
+      lineItems: (order.line_items || []).map((item: any) => ({
+        sku: item.sku || undefined,
+        productId: firstId(item.product_id),
+        title: item.title || item.name || '',
+        quantity: Number(item.quantity) || 1,
+        price: parseAmount(item.price) || 0,
+        discount: firstAmount(item.total_discount, item.discount)
+      })),
+      createdAt: parseDate(order.processed_at, order.created_at),
+      receivedAt: new Date()
+    };
+  },
+
+  normalizeRefunds(payload: any): NormalizedRefund[] {
+    const reason = REFUND_EVENTS[payload?.event];
+    if (!reason) return [];
+
+    const order = payload.order;
+    const externalOrderId = firstId(order?.id, order?.order_number, order?.number, order?.name);
+    if (!externalOrderId) {
+      throw new InvalidPayloadError(`Evento ${payload.event} da CartPanda sem ID do pedido.`);
+    }
+
+    // Estorno parcial informa o valor devolvido; sem valor, o estorno é total
+    const refund = payload.refund || {};
+    const amount = parseAmount(refund.amount ?? order.refunded_amount ?? order.total_refunded);
+
+    return [{
+      externalOrderId,
+      platform: 'cartpanda',
+      storeId: firstId(order.shop_id),
+      externalRefundId: firstId(refund.id) || [payload.event, externalOrderId, order.updated_at].filter(Boolean).join('-'),
+      amount: isNaN(amount) ? undefined : amount,
+      reason,
+      refundedAt: parseDate(refund.created_at, order.updated_at)
+    }];
+  },
+
+  /**
+   * Lista os pedidos do período na API da CartPanda (GET /{slug}/orders), página a página.
+   * Só lojas listadas em CARTPANDA_API_TOKENS (pares "slug:token") são consultadas.
+   * A loja das vendas continua sendo o shop_id do pedido, como nos webhooks.
+   */
+  async listOrders(query, http): Promise<ListedOrder[]> {
+    if (!CARTPANDA_STORE_SLUG.test(query.store)) {
+      throw new UnknownStoreError(`Slug de loja CartPanda inválido: ${query.store}`);
+    }
+    const token = getConfiguredStoreToken(query.store, 'CARTPANDA_API_TOKENS');
+    if (!token) {
+      throw new UnknownStoreError(`Nenhum token da API da CartPanda configurado para a loja ${query.store} em CARTPANDA_API_TOKENS`);
+    }
+    const headers = { 'Authorization': `Bearer ${token}`, 'Accept': 'application/json' };
+
+    const listed: ListedOrder[] = [];
+    for (let page = 1; page <= MAX_LIST_PAGES; page++) {
+      const response = await http.get(`${getApiUrl()}/${query.store}/orders`, {
+        headers,
+        params: {
+          created_at_min: query.startDate.toISOString(),
+          created_at_max: query.endDate.toISOString(),
+          page
+        }
+      });
+
+      // Resposta paginada ({ orders: { data, last_page } }) ou lista simples ({ orders: [...] })
+      const body = response.data || {};
+      const pageData = body.orders && !Array.isArray(body.orders) ? body.orders : body;
+      const orders: any[] = Array.isArray(pageData.data) ? pageData.data : Array.isArray(body.orders) ? body.orders : [];
+
+      for (const order of orders) {
+        const event = getOrderEvent(order);
+        if (!event) continue;
+
+        const paymentStatus = String(order.payment_status || '').toLowerCase();
+        const refundedAmount = parseAmount(order.refunded_amount ?? order.total_refunded);
+        listed.push({
+          order: cartPandaAdapter.normalize({ event, order }),
+          refundedAmount: isNaN(refundedAmount) ? 0 : refundedAmount,
+          fullyRefunded: REFUNDED_PAYMENT_STATUSES.includes(paymentStatus) || !!order.cancelled_at
+        });
+      }
+
+      const lastPage = Number(pageData.last_page);
+      const hasNextPage = lastPage ? page < lastPage : !!pageData.next_page_url;
+      if (orders.length === 0 || !hasNextPage) break;
+    }
+
+    return listed;
+  }
+};
+
+export default cartPandaAdapter;
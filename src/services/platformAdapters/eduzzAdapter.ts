@@ -0,0 +1,102 @@
+import { PlatformAdapter, NormalizedOrder, NormalizedRefund, OrderStatus, RefundReason, InvalidPayloadError, IgnoredEventError } from './types';
+import { parseAmount, firstAmount, parseDate, parseCurrency, firstId } from './parsing';
+
+// Códigos de trans_status da Eduzz que geram venda
+const ORDER_STATUSES: Record<string, OrderStatus> = {
+  '1': 'pending', // Aberta (boleto ou PIX aguardando pagamento)
+  '3': 'paid' // Paga
+};
+const REFUND_STATUSES: Record<string, RefundReason> = {
+  '4': 'cancellation', // Cancelada
+  '7': 'refund' // Reembolsada
+};
+
+/**
+ * Adapter para o postback da Eduzz (campos trans_*, cus_*, product_* e aff_*,
+ * enviados como formulário ou JSON). Faturas abertas (trans_status 1) geram venda pendente e pagas (3), venda paga.
+ */
+const eduzzAdapter: PlatformAdapter = {
+  platform: 'eduzz',
+
+  normalize(payload: any): NormalizedOrder {
+    const externalOrderId = firstId(payload?.trans_cod);
+    const status = firstId(payload?.trans_status);
+    if (!externalOrderId || !status) {
+      throw new InvalidPayloadError('Formato incorreto do postback da Eduzz. trans_cod ou trans_status não encontrados.');
+    }
+
+    const orderStatus = ORDER_STATUSES[status];
+    if (!orderStatus) {
+      throw new IgnoredEventError(`Fatura ${externalOrderId} da Eduzz com status ${status} não gera venda`);
+    }
+
+    const grossValue = parseAmount(payload.trans_paid ?? payload.trans_value);
+    if (isNaN(grossValue)) {
+      throw new InvalidPayloadError('Dados da venda incompletos. Necessário o valor da fatura.');
+    }
+
+    const couponCodes = [payload.trans_coupon, payload.coupon]
+      .filter((code): code is string => typeof code === 'string' && code.trim() !== '')
+      .map(code => code.trim());
+
+    const affiliateId = firstId(payload.aff_cod);
+
+    return {
+      externalOrderId,
+      platform: 'eduzz',
+      status: orderStatus,
+      currency: parseCurrency(payload.trans_currency),
+      grossValue,
+      discounts: firstAmount(payload.trans_discount),
+      shipping: 0,
+      taxes: 0,
+      netValue: grossValue, // Produto digital: sem frete nem impostos discriminados
+      couponCodes,
+      affiliateIds: affiliateId && affiliateId !== '0' ? [affiliateId] : [],
+      customer: payload.cus_email || payload.cus_name
+        ? {
+            externalId: firstId(payload.cus_cod),
+            name: payload.cus_name || undefined,
+            email: payload.cus_email || undefined,
+            phone: payload.cus_cel || payload.cus_tel || undefined
+          }
+        : undefined,
+      lineItems: payload.product_cod
+        ? [{
+            productId: firstId(payload.product_cod),
+            title: payload.product_name || '',
+            quantity: 1,
+            price: grossValue,
+            discount: 0
+          }]
+        : [],
+      createdAt: parseDate(payload.trans_paiddate, payload.trans_createdate),
+      receivedAt: new Date()
+    };
+  },
+
+  /**
+   * Faturas canceladas (4) ou reembolsadas (7) são estornos totais.
+   * A Eduzz não envia ID do estorno: o identificador inclui a data do estorno, e só reenvios do mesmo estorno são duplicados.
+   */
+  normalizeRefunds(payload: any): NormalizedRefund[] {
+    const status = firstId(payload?.trans_status);
+    const reason = status ? REFUND_STATUSES[status] : undefined;
+    if (!reason) return [];
+
+    const externalOrderId = firstId(payload.trans_cod);
+    if (!externalOrderId) {
+      throw new InvalidPayloadError('Estorno da Eduzz sem trans_cod.');
+    }
+
+    return [{
+      externalOrderId,
+      platform: 'eduzz',
+      externalRefundId: [reason, externalOrderId, payload.trans_refunddate || payload.trans_updatedate].filter(Boolean).join('-'),
+      reason,
+      refundedAt: parseDate(payload.trans_refunddate, payload.trans_updatedate)
+    }];
+  }
+};
+
+export default eduzzAdapter;
@@ -0,0 +1,56 @@
+import { PlatformAdapter, NormalizedOrder, OrderStatus, InvalidPayloadError } from './types';
+import { parseAmount, firstAmount, roundAmount, parseCurrency, firstId } from './parsing';
+
+const ORDER_STATUSES: OrderStatus[] = ['pending', 'paid', 'fulfilled'];
+
+/**
+ * Adapter para o webhook genérico de venda (/api/webhooks/sale)
+ * Payload: { orderId, orderValue, couponCode, status?, currency?, discounts?, shipping?, taxes?, customerData? }
+ * status aceita "pending", "paid" (padrão) ou "fulfilled".
+ * orderValue é o total cobrado; o valor líquido desconta frete e impostos informados.
+ */
+const genericAdapter: PlatformAdapter = {
+  platform: 'generic',
+
+  normalize(payload: any): NormalizedOrder {
+    const { orderId, orderValue, couponCode, status, currency, discounts, shipping, taxes, customerData } = payload || {};
+    const externalOrderId = firstId(orderId);
+    const grossValue = parseAmount(orderValue);
+
+    if (!externalOrderId || !orderValue || isNaN(grossValue) || !couponCode) {
+      throw new InvalidPayloadError('Dados da venda incompletos. Necessário orderId, orderValue e couponCode.');
+    }
+
+    if (status !== undefined && !ORDER_STATUSES.includes(status)) {
+      throw new InvalidPayloadError('Status do pedido inválido. Use pending, paid ou fulfilled.');
+    }
+
+    const shippingValue = firstAmount(shipping);
+    const taxValue = firstAmount(taxes);
+
+    return {
+      externalOrderId,
+      platform: 'generic',
+      status: status || 'paid',
+      currency: parseCurrency(currency),
+      grossValue,
+      discounts: firstAmount(discounts),
+      shipping: shippingValue,
+      taxes: taxValue,
+      netValue: roundAmount(Math.max(0, grossValue - shippingValue - taxValue)),
+      couponCodes: [couponCode.toString()],
+      customer: customerData
+        ? {
+            name: customerData.name,
+            email: customerData.email,
+            phone: customerData.phone
+          }
+        : undefined,
+      lineItems: [],
+      createdAt: new Date(),
+      receivedAt: new Date()
+    };
+  }
+};
+
+export default genericAdapter;
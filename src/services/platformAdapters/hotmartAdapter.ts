@@ -0,0 +1,112 @@
+import { PlatformAdapter, NormalizedOrder, NormalizedRefund, OrderStatus, RefundReason, InvalidPayloadError, IgnoredEventError } from './types';
+import { parseAmount, parseDate, parseCurrency, firstId } from './parsing';
+
+// Eventos de compra e a etapa correspondente (PURCHASE_COMPLETE chega ao fim do prazo de garantia)
+const ORDER_EVENTS: Record<string, OrderStatus> = {
+  PURCHASE_BILLET_PRINTED: 'pending',
+  PURCHASE_APPROVED: 'paid',
+  PURCHASE_COMPLETE: 'fulfilled'
+};
+
+// Eventos de estorno e o motivo correspondente
+const REFUND_EVENTS: Record<string, RefundReason> = {
+  PURCHASE_REFUNDED: 'refund',
+  PURCHASE_CHARGEBACK: 'chargeback',
+  PURCHASE_CANCELED: 'cancellation'
+};
+
+/**
+ * Extrai os dados da compra do postback (webhook versão 2.0.0)
+ */
+const extractPurchase = (payload: any) => {
+  const data = payload?.data;
+  const transaction = firstId(data?.purchase?.transaction);
+  if (!payload?.event || !data?.purchase || !transaction) {
+    throw new InvalidPayloadError('Formato incorreto do postback da Hotmart. Evento ou transação não encontrados.');
+  }
+  return { data, purchase: data.purchase, transaction };
+};
+
+/**
+ * Adapter para postbacks da Hotmart (webhook 2.0.0).
+ * A transação é o ID do pedido; o afiliado vem em data.affiliates[].affiliate_code.
+ */
+const hotmartAdapter: PlatformAdapter = {
+  platform: 'hotmart',
+
+  normalize(payload: any): NormalizedOrder {
+    const { data, purchase, transaction } = extractPurchase(payload);
+
+    const status = ORDER_EVENTS[payload.event];
+    if (!status) {
+      throw new IgnoredEventError(`Evento ${payload.event} da Hotmart não gera venda`);
+    }
+
+    const grossValue = parseAmount(purchase.price?.value);
+    if (isNaN(grossValue)) {
+      throw new InvalidPayloadError('Dados da venda incompletos. Necessário o valor da compra.');
+    }
+
+    const couponCodes = [purchase.offer?.coupon_code, purchase.coupon?.code]
+      .filter((code): code is string => typeof code === 'string' && code.trim() !== '')
+      .map(code => code.trim());
+
+    const affiliateIds: string[] = (Array.isArray(data.affiliates) ? data.affiliates : [])
+      .map((affiliate: any) => firstId(affiliate?.affiliate_code))
+      .filter(Boolean);
+
+    const customer = data.buyer
+      ? {
+          name: data.buyer.name || undefined,
+          email: data.buyer.email || undefined,
+          phone: data.buyer.checkout_phone || data.buyer.phone || undefined
+        }
+      : undefined;
+
+    return {
+      externalOrderId: transaction,
+      platform: 'hotmart',
+      status,
+      currency: parseCurrency(purchase.price?.currency_value),
+      grossValue,
+      discounts: 0,
+      shipping: 0,
+      taxes: 0,
+      netValue: grossValue, // Produto digital: sem frete nem impostos discriminados
+      couponCodes,
+      affiliateIds,
+      customer,
+      lineItems: data.product
+        ? [{
+            productId: firstId(data.product.id),
+            title: data.product.name || '',
+            quantity: 1,
+            price: grossValue,
+            discount: 0
+          }]
+        : [],
+      // Datas da Hotmart vêm em milissegundos Unix
+      createdAt: parseDate(purchase.approved_date, purchase.order_date, payload.creation_date),
+      receivedAt: new Date()
+    };
+  },
+
+  /**
+   * Eventos tratados: PURCHASE_REFUNDED (reembolso), PURCHASE_CHARGEBACK e PURCHASE_CANCELED, sempre totais
+   */
+  normalizeRefunds(payload: any): NormalizedRefund[] {
+    const reason = REFUND_EVENTS[payload?.event];
+    if (!reason) return [];
+
+    const { transaction } = extractPurchase(payload);
+    return [{
+      externalOrderId: transaction,
+      platform: 'hotmart',
+      externalRefundId: `${payload.event}-${transaction}`,
+      reason,
+      refundedAt: parseDate(payload.creation_date)
+    }];
+  }
+};
+
+export default hotmartAdapter;
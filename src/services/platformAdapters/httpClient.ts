@@ -0,0 +1,14 @@
+import axios from 'axios';
+import { HttpClient } from './types';
+
+/**
+ * Cliente HTTP padrão das consultas às APIs das lojas
+ */
+const axiosHttpClient: HttpClient = {
+  async get(url, options = {}) {
+    const response = await axios.get(url, { headers: options.headers, params: options.params });
+    return { data: response.data, headers: response.headers as Record<string, any> };
+  }
+};
+
+export { axiosHttpClient };
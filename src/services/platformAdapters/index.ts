@@ -0,0 +1,44 @@
+import { PlatformAdapter, SalePlatform } from './types';
+import shopifyAdapter from './shopifyAdapter';
+import cartPandaAdapter from './cartPandaAdapter';
+import wooCommerceAdapter from './wooCommerceAdapter';
+import nuvemshopAdapter from './nuvemshopAdapter';
+import yampiAdapter from './yampiAdapter';
+import hotmartAdapter from './hotmartAdapter';
+import kiwifyAdapter from './kiwifyAdapter';
+import eduzzAdapter from './eduzzAdapter';
+import genericAdapter from './genericAdapter';
+
+// Registro dos adapters disponíveis, indexados pela plataforma
+const adapters = new Map<SalePlatform, PlatformAdapter>();
+
+/**
+ * Registra (ou substitui) o adapter de uma plataforma
+ */
+const registerPlatformAdapter = (adapter: PlatformAdapter) => {
+  adapters.set(adapter.platform, adapter);
+};
+
+/**
+ * Obtém o adapter de uma plataforma; lança erro se não houver adapter registrado
+ */
+const getPlatformAdapter = (platform: SalePlatform): PlatformAdapter => {
+  const adapter = adapters.get(platform);
+  if (!adapter) {
+    throw new Error(`Nenhum adapter registrado para a plataforma ${platform}`);
+  }
+  return adapter;
+};
+
+registerPlatformAdapter(shopifyAdapter);
+registerPlatformAdapter(cartPandaAdapter);
+registerPlatformAdapter(wooCommerceAdapter);
+registerPlatformAdapter(nuvemshopAdapter);
+registerPlatformAdapter(yampiAdapter);
+registerPlatformAdapter(hotmartAdapter);
+registerPlatformAdapter(kiwifyAdapter);
+registerPlatformAdapter(eduzzAdapter);
+registerPlatformAdapter(genericAdapter);
+
+export { registerPlatformAdapter, getPlatformAdapter };
+export * from './types';
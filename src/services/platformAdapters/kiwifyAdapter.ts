@@ -0,0 +1,116 @@
+import { PlatformAdapter, NormalizedOrder, NormalizedRefund, OrderStatus, RefundReason, InvalidPayloadError, IgnoredEventError } from './types';
+import { parseAmount, roundAmount, parseDate, parseCurrency, firstId } from './parsing';
+
+// Status de pedido e a etapa correspondente (boleto e PIX gerados ficam em waiting_payment)
+const ORDER_STATUSES: Record<string, OrderStatus> = {
+  waiting_payment: 'pending',
+  paid: 'paid'
+};
+
+// Status de pedido estornado e o motivo correspondente
+const REFUND_STATUSES: Record<string, RefundReason> = {
+  refunded: 'refund',
+  chargedback: 'chargeback'
+};
+
+// A Kiwify informa os valores em centavos
+const fromCents = (value: unknown) => {
+  const amount = parseAmount(value);
+  return isNaN(amount) ? NaN : roundAmount(amount / 100);
+};
+
+/**
+ * Adapter para webhooks da Kiwify (compra aprovada, reembolso e chargeback).
+ * O afiliado vem em Commissions.commissioned_stores (type "affiliate").
+ */
+const kiwifyAdapter: PlatformAdapter = {
+  platform: 'kiwify',
+
+  normalize(payload: any): NormalizedOrder {
+    const externalOrderId = firstId(payload?.order_id, payload?.order_ref);
+    if (!externalOrderId || !payload?.order_status) {
+      throw new InvalidPayloadError('Formato incorreto do webhook da Kiwify. order_id ou order_status não encontrados.');
+    }
+
+    const status = ORDER_STATUSES[payload.order_status];
+    if (!status) {
+      throw new IgnoredEventError(`Pedido ${externalOrderId} da Kiwify com status ${payload.order_status} não gera venda`);
+    }
+
+    const commissions = payload.Commissions || {};
+    const grossValue = fromCents(commissions.charge_amount ?? commissions.product_base_price);
+    if (isNaN(grossValue)) {
+      throw new InvalidPayloadError('Dados da venda incompletos. Necessário o valor cobrado (Commissions.charge_amount).');
+    }
+
+    const couponCodes = [payload.coupon_code, payload.coupon?.code]
+      .filter((code): code is string => typeof code === 'string' && code.trim() !== '')
+      .map(code => code.trim());
+
+    const commissionedStores: any[] = Array.isArray(commissions.commissioned_stores) ? commissions.commissioned_stores : [];
+    const affiliateIds = [
+      ...commissionedStores
+        .filter(store => store?.type === 'affiliate')
+        .map(store => firstId(store.affiliate_id, store.id)),
+      firstId(payload.affiliate_id)
+    ].filter((id): id is string => !!id);
+
+    const customer = payload.Customer
+      ? {
+          name: payload.Customer.full_name || undefined,
+          email: payload.Customer.email || undefined,
+          phone: payload.Customer.mobile || undefined
+        }
+      : undefined;
+
+    return {
+      externalOrderId,
+      platform: 'kiwify',
+      status,
+      currency: parseCurrency(commissions.currency, commissions.product_base_price_currency),
+      grossValue,
+      discounts: 0,
+      shipping: 0,
+      taxes: 0,
+      netValue: grossValue, // Produto digital: sem frete nem impostos discriminados
+      couponCodes,
+      affiliateIds,
+      customer,
+      lineItems: payload.Product
+        ? [{
+            productId: firstId(payload.Product.product_id),
+            title: payload.Product.product_name || '',
+            quantity: 1,
+            price: grossValue,
+            discount: 0
+          }]
+        : [],
+      createdAt: parseDate(payload.approved_date, payload.created_at),
+      receivedAt: new Date()
+    };
+  },
+
+  /**
+   * Pedidos com status refunded ou chargedback são estornos totais.
+   * A Kiwify não envia ID do estorno: o identificador inclui a data do estorno, e só reenvios do mesmo estorno são duplicados.
+   */
+  normalizeRefunds(payload: any): NormalizedRefund[] {
+    const reason = REFUND_STATUSES[payload?.order_status];
+    if (!reason) return [];
+
+    const externalOrderId = firstId(payload.order_id, payload.order_ref);
+    if (!externalOrderId) {
+      throw new InvalidPayloadError('Estorno da Kiwify sem order_id.');
+    }
+
+    return [{
+      externalOrderId,
+      platform: 'kiwify',
+      externalRefundId: [payload.order_status, externalOrderId, payload.refunded_at || payload.updated_at].filter(Boolean).join('-'),
+      reason,
+      refundedAt: parseDate(payload.refunded_at, payload.updated_at)
+    }];
+  }
+};
+
+export default kiwifyAdapter;
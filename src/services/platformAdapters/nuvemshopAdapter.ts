@@ -0,0 +1,169 @@
+import axios from 'axios';
+import { PlatformAdapter, NormalizedOrder, NormalizedRefund, OrderStatus, InvalidPayloadError, IgnoredEventError } from './types';
+import { parseAmount, firstAmount, roundAmount, parseDate, parseCurrency, firstId } from './parsing';
+import { getStoreToken } from './storeTokens';
+
+const NUVEMSHOP_API_URL = process.env.NUVEMSHOP_API_URL || 'https://api.nuvemshop.com.br/v1';
+
+// Eventos de pedido tratados; os demais (order/packed, order/edited...) são ignorados
+const HANDLED_EVENTS = ['order/created', 'order/paid', 'order/fulfilled', 'order/updated', 'order/cancelled'];
+
+// payment_status de pedido criado e ainda não pago
+const PENDING_PAYMENT_STATUSES = ['pending', 'authorized'];
+// shipping_status de pedido já enviado
+const SHIPPED_STATUSES = ['shipped', 'delivered'];
+
+// Token de acesso da loja: NUVEMSHOP_ACCESS_TOKENS ("store_id:token,...") ou NUVEMSHOP_ACCESS_TOKEN
+const getAccessToken = (storeId?: string) => getStoreToken(storeId, 'NUVEMSHOP_ACCESS_TOKENS', 'NUVEMSHOP_ACCESS_TOKEN');
+
+// O pedido completo tem os produtos; a notificação do webhook traz só store_id, event e id
+const isFullOrder = (payload: any) => Array.isArray(payload?.products);
+
+/**
+ * Adapter para pedidos da Nuvemshop. O webhook envia apenas { store_id, event, id };
+ * o pedido é buscado na API da loja (GET /{store_id}/orders/{id}) antes de normalizar.
+ * Pedidos com pagamento pendente geram venda pendente; enviados (shipping_status) ficam como concluídos.
+ */
+const nuvemshopAdapter: PlatformAdapter = {
+  platform: 'nuvemshop',
+
+  parseNotification(payload: any, topic?: string) {
+    const externalOrderId = firstId(payload?.id);
+    if (!externalOrderId) {
+      throw new InvalidPayloadError('Formato incorreto do webhook da Nuvemshop. ID do pedido não encontrado.');
+    }
+
+    const event = payload.event || topic;
+    if (!HANDLED_EVENTS.includes(event)) {
+      throw new IgnoredEventError(`Evento ${event || '(vazio)'} da Nuvemshop não gera venda nem estorno`);
+    }
+
+    return { externalOrderId };
+  },
+
+  async fetchOrderPayload(payload: any): Promise<any> {
+    if (isFullOrder(payload)) return payload;
+
+    const storeId = firstId(payload?.store_id);
+    const orderId = firstId(payload?.id);
+    if (!storeId || !orderId) {
+      throw new InvalidPayloadError('Notificação da Nuvemshop sem store_id ou ID do pedido.');
+    }
+
+    const token = getAccessToken(storeId);
+    if (!token) {
+      throw new Error(`Nenhum token de acesso da Nuvemshop configurado para a loja ${storeId}`);
+    }
+
+    const response = await axios.get(`${NUVEMSHOP_API_URL}/${storeId}/orders/${orderId}`, {
+      headers: {
+        // A Nuvemshop usa "Authentication" (e não "Authorization") e exige User-Agent identificando o app
+        'Authentication': `bearer ${token}`,
+        'User-Agent': process.env.NUVEMSHOP_USER_AGENT || 'influencer-commissions',
+        'Accept': 'application/json'
+      }
+    });
+
+    return { ...response.data, event: payload.event, store_id: storeId };
+  },
+
+  normalize(payload: any): NormalizedOrder {
+    const order = payload?.order || payload;
+    if (!isFullOrder(order)) {
+      throw new InvalidPayloadError('Pedido da Nuvemshop incompleto. Produtos do pedido não encontrados.');
+    }
+
+    const externalOrderId = firstId(order.id, order.number);
+    const grossValue = parseAmount(order.total);
+
+    if (!externalOrderId || isNaN(grossValue)) {
+      throw new InvalidPayloadError('Dados da venda incompletos. Necessário ID do pedido e valor total.');
+    }
+
+    let status: OrderStatus;
+    if (order.payment_status === 'paid') {
+      status = SHIPPED_STATUSES.includes(order.shipping_status) ? 'fulfilled' : 'paid';
+    } else if (PENDING_PAYMENT_STATUSES.includes(order.payment_status)) {
+      status = 'pending';
+    } else {
+      throw new IgnoredEventError(`Pedido ${externalOrderId} com pagamento ${order.payment_status || '(vazio)'} não gera venda`);
+    }
+
+    // subtotal da Nuvemshop é a soma dos produtos antes dos descontos, sem frete
+    const subtotal = parseAmount(order.subtotal);
+    const discounts = firstAmount(order.discount);
+    const shipping = firstAmount(order.shipping_cost_customer, order.shipping);
+    const taxes = 0; // A Nuvemshop não discrimina impostos no pedido
+    const netValue = isNaN(subtotal) ? grossValue - shipping : subtotal - discounts;
+
+    const couponCodes: string[] = (Array.isArray(order.coupon) ? order.coupon : [])
+      .map((coupon: any) => (typeof coupon === 'string' ? coupon : coupon?.code))
+      .filter(Boolean)
+      .map((code: string) => code.trim());
+
+    const customer = order.customer
+      ? {
+          externalId: firstId(order.customer.id),
+          name: order.customer.name || undefined,
+          email: order.customer.email || order.contact_email,
+          phone: order.customer.phone || order.contact_phone
+        }
+      : undefined;
+
+    return {
+      externalOrderId,
+      platform: 'nuvemshop',
+      storeId: firstId(payload.store_id, order.store_id),
+      status,
+      currency: parseCurrency(order.currency),
+      grossValue,
+      discounts,
+      shipping,
+      taxes,
+      netValue: roundAmount(Math.max(0, netValue)),
+      couponCodes,
+      customer,
+      lineItems: order.products.map((item: any) => ({
+        sku: item.sku || undefined,
+        productId: firstId(item.product_id),
+        title: item.name || '',
+        quantity: Number(item.quantity) || 1,
+        price: parseAmount(item.price) || 0,
+        discount: 0 // Descontos são informados só no total do pedido
+      })),
+      createdAt: parseDate(order.paid_at, order.created_at),
+      receivedAt: new Date()
+    };
+  },
+
+  /**
+   * Estornos identificados no pedido completo:
+   * - evento order/cancelled ou status "cancelled": cancelamento
+   * - payment_status "refunded": estorno total; "voided": cancelamento do pagamento
+   * A Nuvemshop não envia ID do estorno: o identificador inclui a data do cancelamento ou da atualização do pedido.
+   */
+  normalizeRefunds(payload: any, topic?: string): NormalizedRefund[] {
+    const order = payload?.order || payload;
+    if (!isFullOrder(order)) return [];
+
+    const externalOrderId = firstId(order.id, order.number);
+    if (!externalOrderId) {
+      throw new InvalidPayloadError('Pedido da Nuvemshop sem ID.');
+    }
+
+    const event = payload.event || topic;
+    const isCancellation = event === 'order/cancelled' || order.status === 'cancelled' || order.payment_status === 'voided';
+    if (!isCancellation && order.payment_status !== 'refunded') return [];
+
+    return [{
+      externalOrderId,
+      platform: 'nuvemshop',
+      storeId: firstId(payload.store_id, order.store_id),
+      externalRefundId: [isCancellation ? 'cancel' : 'refund', externalOrderId, order.cancelled_at || order.updated_at].filter(Boolean).join('-'),
+      reason: isCancellation ? 'cancellation' : 'refund',
+      refundedAt: parseDate(order.cancelled_at, order.updated_at)
+    }];
+  }
+};
+
+export default nuvemshopAdapter;
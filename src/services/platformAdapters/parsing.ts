@@ -0,0 +1,128 @@
+/**
+ * Converte um valor monetário (número ou texto como "R$ 160,65"/"160.65") em número.
+ * Retorna NaN quando o valor não pode ser interpretado.
+ */
+const parseAmount = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+
+  let cleaned = value.replace(/[^\d.,-]/g, '');
+  // Formato brasileiro: vírgula como separador decimal
+  if (cleaned.includes(',') && (!cleaned.includes('.') || cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.'))) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+  return cleaned ? parseFloat(cleaned) : NaN;
+};
+
+/**
+ * Primeiro valor monetário válido entre os informados; 0 se nenhum puder ser interpretado
+ */
+const firstAmount = (...values: unknown[]): number => {
+  for (const value of values) {
+    const amount = parseAmount(value);
+    if (!isNaN(amount)) return amount;
+  }
+  return 0;
+};
+
+/**
+ * Arredonda um valor monetário para centavos
+ */
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Converte a primeira data válida informada; usa a data atual se nenhuma for válida
+ */
+const parseDate = (...values: unknown[]): Date => {
+  for (const value of values) {
+    if (value === undefined || value === null || value === '') continue;
+    const date = new Date(value as string);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return new Date();
+};
+
+/**
+ * Primeiro código de moeda ISO 4217 válido (ex.: "usd" -> "USD"); BRL se nenhum for informado
+ */
+const parseCurrency = (...values: unknown[]): string => {
+  for (const value of values) {
+    if (typeof value === 'string' && /^[a-zA-Z]{3}$/.test(value.trim())) return value.trim().toUpperCase();
+  }
+  return 'BRL';
+};
+
+/**
+ * Primeiro identificador não vazio, convertido para texto
+ */
+const firstId = (...values: unknown[]): string | undefined => {
+  for (const value of values) {
+    if (value !== undefined && value !== null && value !== '') return value.toString();
+  }
+  return undefined;
+};
+
+// Parâmetros de atribuição por link: ref (sempre) e utm_campaign quando utm_medium=referral
+const REFERRAL_PARAM = 'ref';
+const REFERRAL_UTM_MEDIUM = 'referral';
+
+/**
+ * Lê os parâmetros de uma URL completa ou só caminho e query (ex.: landing_site "/produto?ref=maria")
+ */
+const parseUrlParams = (value: unknown): URLSearchParams | null => {
+  if (typeof value !== 'string' || !value.includes('?')) return null;
+  try {
+    return new URL(value, 'http://localhost').searchParams;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Códigos de link de indicação de um pedido, na ordem encontrada e sem repetição.
+ * @param urls URLs de entrada na loja (landing_site e semelhantes)
+ * @param attributes Atributos do pedido (note_attributes [{ name, value }] ou objeto com utm_* e ref)
+ */
+const extractReferralCodes = (urls: unknown[], attributes: unknown[]): string[] => {
+  const codes: string[] = [];
+  const add = (params: Record<string, unknown>) => {
+    const candidates = [params[REFERRAL_PARAM]];
+    if (String(params.utm_medium || '').trim().toLowerCase() === REFERRAL_UTM_MEDIUM) {
+      candidates.push(params.utm_campaign);
+    }
+    for (const candidate of candidates) {
+      const code = typeof candidate === 'string' ? candidate.trim() : '';
+      if (code && !codes.includes(code)) codes.push(code);
+    }
+  };
+
+  for (const url of urls) {
+    const params = parseUrlParams(url);
+    if (params) add(Object.fromEntries(params.entries()));
+  }
+  for (const attribute of attributes) {
+    if (Array.isArray(attribute)) {
+      // note_attributes: [{ name: "utm_campaign", value: "maria" }]
+      add(Object.fromEntries(attribute
+        .filter(item => typeof item?.name === 'string')
+        .map(item => [item.name.trim().toLowerCase(), item.value])));
+    } else if (attribute && typeof attribute === 'object') {
+      add(attribute as Record<string, unknown>);
+    }
+  }
+  return codes;
+};
+
+export {
+  REFERRAL_PARAM,
+  REFERRAL_UTM_MEDIUM,
+  parseAmount,
+  firstAmount,
+  roundAmount,
+  parseDate,
+  parseCurrency,
+  firstId,
+  extractReferralCodes
+};
@@ -0,0 +1,233 @@
+import {
+  PlatformAdapter, NormalizedOrder, NormalizedRefund, OrderStatus, ListedOrder, InvalidPayloadError, IgnoredEventError,
+  UnknownStoreError
+} from './types';
+import { parseAmount, firstAmount, roundAmount, parseDate, parseCurrency, firstId, extractReferralCodes } from './parsing';
+import { getConfiguredStoreToken } from './storeTokens';
+
+const SHOPIFY_API_VERSION = process.env.SHOPIFY_API_VERSION || '2024-10';
+// Domínio de loja aceito na consulta à Admin API
+const SHOPIFY_STORE_DOMAIN = /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/i;
+
+// financial_status de pedido criado e ainda não pago (boleto, PIX, pagamento manual)
+const PENDING_FINANCIAL_STATUSES = ['pending', 'authorized', 'partially_paid'];
+// financial_status que não geram venda
+const IGNORED_FINANCIAL_STATUSES = ['voided', 'expired'];
+
+/**
+ * Etapa do pedido pelo financial_status e fulfillment_status.
+ * Pedidos sem financial_status são considerados pagos.
+ */
+const getOrderStatus = (order: any, externalOrderId: string): OrderStatus => {
+  if (IGNORED_FINANCIAL_STATUSES.includes(order.financial_status)) {
+    throw new IgnoredEventError(`Pedido ${externalOrderId} com pagamento ${order.financial_status} não gera venda`);
+  }
+  if (PENDING_FINANCIAL_STATUSES.includes(order.financial_status)) return 'pending';
+  return order.fulfillment_status === 'fulfilled' ? 'fulfilled' : 'paid';
+};
+
+/**
+ * URL base da Admin REST API da loja. SHOPIFY_ADMIN_API_URL substitui a URL de todas as lojas
+ * (ex.: servidor stub local nos testes).
+ */
+const getAdminApiUrl = (store: string) =>
+  process.env.SHOPIFY_ADMIN_API_URL || `https://${store}/admin/api/${SHOPIFY_API_VERSION}`;
+
+// Próxima página da listagem, informada no header Link (paginação por cursor)
+const getNextPageUrl = (linkHeader: unknown): string | undefined => {
+  const match = typeof linkHeader === 'string' ? linkHeader.match(/<([^>]+)>;\s*rel="next"/) : null;
+  return match ? match[1] : undefined;
+};
+
+/**
+ * Valor estornado do pedido: transações de reembolso bem-sucedidas de order.refunds
+ */
+const getRefundedAmount = (order: any): number => {
+  const refunds: any[] = Array.isArray(order.refunds) ? order.refunds : [];
+  return roundAmount(refunds.reduce((total, refund) => total + (refund.transactions || [])
+    .filter((transaction: any) => transaction.kind === 'refund' && transaction.status === 'success')
+    .reduce((sum: number, transaction: any) => sum + (parseAmount(transaction.amount) || 0), 0), 0));
+};
+
+/**
+ * Adapter para pedidos da Shopify.
+ * Aceita o pedido no topo do payload (formato enviado pela Shopify) ou dentro de "order".
+ */
+const shopifyAdapter: PlatformAdapter = {
+  platform: 'shopify',
+
+  normalize(payload: any): NormalizedOrder {
+    const order = payload?.order || (payload?.id !== undefined ? payload : null);
+    if (!order) {
+      throw new InvalidPayloadError('Formato incorreto do webhook da Shopify. Objeto order não encontrado.');
+    }
+
+    const externalOrderId = firstId(order.id, order.order_number, order.name);
+    const grossValue = parseAmount(order.total_price ?? order.current_total_price);
+
+    if (!externalOrderId || isNaN(grossValue)) {
+      throw new InvalidPayloadError('Dados da venda incompletos. Necessário ID do pedido e valor total.');
+    }
+
+    const status = getOrderStatus(order, externalOrderId);
+
+    // subtotal_price da Shopify já vem com os descontos aplicados e sem frete;
+    // inclui os impostos apenas quando a loja usa preços com imposto (taxes_included)
+    const subtotal = parseAmount(order.subtotal_price);
+    const discounts = firstAmount(order.total_discounts);
+    const taxes = firstAmount(order.total_tax);
+    const shippingLines: any[] = Array.isArray(order.shipping_lines) ? order.shipping_lines : [];
+    const shipping = firstAmount(
+      order.total_shipping_price_set?.shop_money?.amount,
+      shippingLines.length > 0
+        ? shippingLines.reduce((sum, line) => sum + (parseAmount(line.price) || 0), 0)
+        : undefined
+    );
+    const netValue = isNaN(subtotal)
+      ? grossValue - shipping - taxes
+      : subtotal - (order.taxes_included ? taxes : 0);
+
+    const couponCodes: string[] = Array.isArray(order.discount_codes)
+      ? order.discount_codes.map((discount: any) => discount?.code).filter(Boolean)
+      : [];
+
+    const customer = order.customer
+      ? {
+          externalId: firstId(order.customer.id),
+          name: [order.customer.first_name, order.customer.last_name].filter(Boolean).join(' ') || undefined,
+          email: order.customer.email || order.email,
+          phone: order.customer.phone || order.phone
+        }
+      : undefined;
+
+    return {
+      externalOrderId,
+      platform: 'shopify',
+      status,
+      // Os valores do pedido (total_price etc.) estão na moeda da loja
+      currency: parseCurrency(order.currency, order.total_price_set?.shop_money?.currency_code),
+      grossValue,
+      discounts,
+      shipping,
+      taxes,
+      netValue: roundAmount(Math.max(0, netValue)),
+      couponCodes,
+      // Link de indicação: URL de entrada na loja e atributos do carrinho
+      referralCodes: extractReferralCodes([order.landing_site], [order.note_attributes]),
+      customer,
+      lineItems: (order.line_items || []).map((item: any) => ({
+        sku: item.sku || undefined,
+        productId: firstId(item.product_id),
+        title: item.title || item.name || '',
+        quantity: Number(item.quantity) || 1,
+        price: parseAmount(item.price) || 0,
+        // Descontos de cupom vêm em discount_allocations; total_discount cobre descontos antigos
+        discount: Array.isArray(item.discount_allocations) && item.discount_allocations.length > 0
+          ? item.discount_allocations.reduce((sum: number, allocation: any) => sum + (parseAmount(allocation.amount) || 0), 0)
+          : firstAmount(item.total_discount)
+      })),
+      createdAt: parseDate(order.created_at, order.processed_at),
+      receivedAt: new Date()
+    };
+  },
+
+  /**
+   * Tópicos tratados (header X-Shopify-Topic):
+   * - refunds/create: valor somado das transações de reembolso bem-sucedidas
+   * - orders/cancelled: estorno total do pedido
+   */
+  normalizeRefunds(payload: any, topic?: string): NormalizedRefund[] {
+    if (topic === 'refunds/create') {
+      const externalOrderId = firstId(payload?.order_id);
+      if (!externalOrderId) {
+        throw new InvalidPayloadError('Reembolso da Shopify sem order_id.');
+      }
+
+      const transactions: any[] = (payload.transactions || [])
+        .filter((transaction: any) => transaction.kind === 'refund' && transaction.status !== 'failure' && transaction.status !== 'error');
+      const refundLineItems: any[] = payload.refund_line_items || [];
+
+      let amount: number | undefined;
+      if (transactions.length > 0) {
+        amount = transactions.reduce((sum, transaction) => sum + (parseAmount(transaction.amount) || 0), 0);
+      } else if (refundLineItems.length > 0) {
+        amount = refundLineItems.reduce((sum, item) => sum + (parseAmount(item.subtotal) || 0), 0);
+      }
+
+      return [{
+        externalOrderId,
+        platform: 'shopify',
+        externalRefundId: firstId(payload.id),
+        amount,
+        reason: 'refund',
+        refundedAt: parseDate(payload.processed_at, payload.created_at)
+      }];
+    }
+
+    if (topic === 'orders/cancelled') {
+      const order = payload?.order || payload;
+      const externalOrderId = firstId(order?.id, order?.order_number, order?.name);
+      if (!externalOrderId) {
+        throw new InvalidPayloadError('Cancelamento da Shopify sem ID do pedido.');
+      }
+
+      return [{
+        externalOrderId,
+        platform: 'shopify',
+        externalRefundId: `cancel-${externalOrderId}`,
+        reason: 'cancellation',
+        refundedAt: parseDate(order.cancelled_at, order.updated_at)
+      }];
+    }
+
+    return [];
+  },
+
+  /**
+   * Lista os pedidos do período na Admin REST API (GET /orders.json), seguindo a paginação do header Link.
+   * Só lojas *.myshopify.com listadas em SHOPIFY_ADMIN_ACCESS_TOKENS (pares "loja.myshopify.com:token") são consultadas.
+   * Pedidos que não geram venda (pagamento anulado ou expirado) ficam de fora.
+   */
+  async listOrders(query, http): Promise<ListedOrder[]> {
+    if (!SHOPIFY_STORE_DOMAIN.test(query.store)) {
+      throw new UnknownStoreError(`Loja Shopify inválida: ${query.store} (informe o domínio loja.myshopify.com)`);
+    }
+    const token = getConfiguredStoreToken(query.store, 'SHOPIFY_ADMIN_ACCESS_TOKENS');
+    if (!token) {
+      throw new UnknownStoreError(`Nenhum token da Admin API da Shopify configurado para a loja ${query.store} em SHOPIFY_ADMIN_ACCESS_TOKENS`);
+    }
+    const headers = { 'X-Shopify-Access-Token': token, 'Accept': 'application/json' };
+
+    const listed: ListedOrder[] = [];
+    let url: string | undefined = `${getAdminApiUrl(query.store)}/orders.json`;
+    // Com page_info, a Shopify só aceita o limit; os filtros valem apenas na primeira página
+    let params: Record<string, string | number> | undefined = {
+      status: 'any',
+      created_at_min: query.startDate.toISOString(),
+      created_at_max: query.endDate.toISOString(),
+      limit: 250
+    };
+
+    while (url) {
+      const response = await http.get(url, { headers, params });
+      for (const order of response.data?.orders || []) {
+        try {
+          const normalized = shopifyAdapter.normalize(order);
+          listed.push({
+            order: { ...normalized, storeId: query.store },
+            refundedAmount: getRefundedAmount(order),
+            fullyRefunded: order.financial_status === 'refunded' || !!order.cancelled_at
+          });
+        } catch (error) {
+          if (!(error instanceof IgnoredEventError)) throw error;
+        }
+      }
+      url = getNextPageUrl(response.headers?.link);
+      params = undefined;
+    }
+
+    return listed;
+  }
+};
+
+export default shopifyAdapter;
@@ -0,0 +1,31 @@
+/**
+ * Pares "loja:token" de uma variável de lista, com a loja em minúsculas
+ */
+const parseStoreTokens = (listEnv: string): Map<string, string> => {
+  const tokens = new Map<string, string>();
+  for (const entry of (process.env[listEnv] || '').split(',').map(item => item.trim()).filter(Boolean)) {
+    const separatorIndex = entry.indexOf(':');
+    if (separatorIndex === -1) continue;
+    tokens.set(entry.substring(0, separatorIndex).trim().toLowerCase(), entry.substring(separatorIndex + 1).trim());
+  }
+  return tokens;
+};
+
+/**
+ * Token de API de uma loja. A variável de lista aceita pares "loja:token" separados por vírgula
+ * (ex.: NUVEMSHOP_ACCESS_TOKENS); a variável padrão é usada para lojas não listadas.
+ * @param store Identificador da loja (id, domínio ou slug), comparado sem diferenciar maiúsculas
+ */
+const getStoreToken = (store: string | undefined, listEnv: string, defaultEnv: string): string | undefined => {
+  return (store && parseStoreTokens(listEnv).get(store.toLowerCase())) || process.env[defaultEnv];
+};
+
+/**
+ * Token de uma loja listada na variável de lista, sem token padrão. Usado quando a loja vem
+ * de uma requisição (ex.: reconciliação), para que o token não seja enviado a um host qualquer.
+ */
+const getConfiguredStoreToken = (store: string, listEnv: string): string | undefined => {
+  return parseStoreTokens(listEnv).get(store.toLowerCase());
+};
+
+export { getStoreToken, getConfiguredStoreToken };
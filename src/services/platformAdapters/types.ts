@@ -0,0 +1,124 @@
+// Plataformas de loja suportadas pela ingestão de vendas
+export type SalePlatform =
+  | 'shopify' | 'cartpanda' | 'woocommerce' | 'nuvemshop' | 'yampi' // Lojas
+  | 'hotmart' | 'kiwify' | 'eduzz' // Infoprodutos
+  | 'generic';
+
+// Plataformas de infoprodutos, cujos afiliados podem ser vinculados ao perfil do influenciador
+export const AFFILIATE_PLATFORMS: SalePlatform[] = ['hotmart', 'kiwify', 'eduzz'];
+
+// Etapa do pedido na plataforma: criado aguardando pagamento (boleto/PIX), pago ou enviado/entregue.
+// Estornos e cancelamentos chegam como NormalizedRefund.
+export type OrderStatus = 'pending' | 'paid' | 'fulfilled';
+
+// Item de pedido normalizado
+export interface NormalizedLineItem {
+  sku?: string;
+  productId?: string;
+  title: string;
+  quantity: number;
+  price: number; // Preço unitário
+  discount: number; // Desconto total aplicado à linha
+}
+
+// Dados do cliente normalizados
+export interface NormalizedCustomer {
+  externalId?: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+// Pedido normalizado, independente da plataforma de origem
+export interface NormalizedOrder {
+  externalOrderId: string; // Identificador do pedido na plataforma
+  platform: SalePlatform;
+  storeId?: string; // Loja de origem na plataforma (domínio, id ou alias); o mesmo número de pedido pode existir em lojas diferentes
+  status: OrderStatus;
+  currency: string; // Moeda dos valores do pedido (ISO 4217, ex.: BRL, USD, EUR)
+  grossValue: number; // Valor total cobrado do cliente (produtos, frete e impostos)
+  discounts: number; // Descontos aplicados
+  shipping: number; // Frete cobrado
+  taxes: number; // Impostos cobrados
+  netValue: number; // Valor líquido da mercadoria: produtos após descontos, sem frete e impostos
+  couponCodes: string[]; // Cupons informados no pedido, na ordem recebida
+  affiliateIds?: string[]; // Identificadores de afiliado informados (plataformas de infoprodutos)
+  referralCodes?: string[]; // Códigos de link de indicação (parâmetro ref ou UTM da URL de entrada)
+  customer?: NormalizedCustomer;
+  lineItems: NormalizedLineItem[];
+  createdAt: Date; // Data do pedido na plataforma
+  receivedAt: Date; // Data em que o pedido chegou ao backend
+}
+
+// Motivo de um estorno recebido da plataforma
+export type RefundReason = 'refund' | 'cancellation' | 'chargeback';
+
+// Estorno (total ou parcial) normalizado
+export interface NormalizedRefund {
+  externalOrderId: string; // Pedido estornado
+  platform: SalePlatform;
+  storeId?: string; // Loja de origem do pedido estornado
+  externalRefundId?: string; // Identificador do estorno na plataforma (evita aplicar duas vezes)
+  fromOrderUpdate?: boolean; // Reembolso listado em uma atualização do pedido pago (ex.: WooCommerce): sem reembolso novo, o payload é tratado como pedido
+  amount?: number; // Valor estornado, na moeda do pedido; ausente significa estorno total
+  reason: RefundReason;
+  refundedAt: Date;
+}
+
+// Cliente HTTP usado nas consultas às APIs das lojas; substituível nos testes (ex.: servidor stub local)
+export interface HttpClient {
+  get(url: string, options?: { headers?: Record<string, string>; params?: Record<string, string | number> }):
+    Promise<{ data: any; headers: Record<string, any> }>;
+}
+
+// Consulta dos pedidos de uma loja em um período
+export interface OrderListQuery {
+  store: string; // Loja na API da plataforma (domínio da Shopify, slug da CartPanda)
+  startDate: Date;
+  endDate: Date;
+}
+
+// Pedido consultado na API da loja, com os estornos já registrados na plataforma
+export interface ListedOrder {
+  order: NormalizedOrder;
+  refundedAmount: number; // Valor estornado na plataforma, na moeda do pedido
+  fullyRefunded: boolean; // Estorno total ou cancelamento
+}
+
+// Converte o payload de uma plataforma em um pedido normalizado
+export interface PlatformAdapter {
+  platform: SalePlatform;
+  normalize(payload: any): NormalizedOrder;
+  // Retorna os estornos do payload/tópico (reembolso, cancelamento ou chargeback), do mais antigo ao mais recente; vazio caso contrário
+  normalizeRefunds?(payload: any, topic?: string): NormalizedRefund[];
+  // Plataformas cujo webhook traz só a notificação (ex.: Nuvemshop): valida a notificação na entrega...
+  parseNotification?(payload: any, topic?: string): { externalOrderId: string };
+  // ...e busca o pedido completo na API da loja antes de normalizar
+  fetchOrderPayload?(payload: any, topic?: string): Promise<any>;
+  // Lista os pedidos criados no período pela API da loja (reconciliação com as vendas registradas)
+  listOrders?(query: OrderListQuery, http: HttpClient): Promise<ListedOrder[]>;
+}
+
+// Erro lançado pelos adapters quando o payload não tem o formato esperado
+export class InvalidPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPayloadError';
+  }
+}
+
+// Evento válido que não gera venda nem estorno (ex.: pagamento recusado); não é tratado como falha
+export class IgnoredEventError extends InvalidPayloadError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IgnoredEventError';
+  }
+}
+
+// Erro lançado na consulta à API da loja quando a loja não está configurada (sem token próprio)
+export class UnknownStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnknownStoreError';
+  }
+}
@@ -0,0 +1,160 @@
+import { PlatformAdapter, NormalizedOrder, NormalizedRefund, OrderStatus, InvalidPayloadError, IgnoredEventError } from './types';
+import { parseAmount, firstAmount, roundAmount, parseDate, parseCurrency, firstId } from './parsing';
+
+// Status de pedido pago no WooCommerce
+const PAID_STATUSES = ['processing', 'completed'];
+
+// Etapa do pedido por status: aguardando pagamento, pago (processing) e concluído (completed)
+const ORDER_STATUSES: Record<string, OrderStatus> = {
+  pending: 'pending',
+  'on-hold': 'pending',
+  processing: 'paid',
+  completed: 'fulfilled'
+};
+
+// Datas *_gmt do WooCommerce vêm sem fuso ("2025-04-09T18:48:33")
+const gmtDate = (value: unknown) => (typeof value === 'string' && value ? `${value}Z` : undefined);
+
+/**
+ * Extrai o pedido do payload: o WooCommerce envia o pedido no topo (formato da REST API v3)
+ */
+const extractOrder = (payload: any) => {
+  const order = payload?.order || (payload?.id !== undefined ? payload : null);
+  if (!order) {
+    throw new InvalidPayloadError('Formato incorreto do webhook do WooCommerce. Pedido não encontrado.');
+  }
+  return order;
+};
+
+/**
+ * Adapter para pedidos do WooCommerce (tópicos order.created e order.updated).
+ * Pedidos aguardando pagamento (pending/on-hold) geram venda pendente; os demais status sem estorno são ignorados.
+ */
+const wooCommerceAdapter: PlatformAdapter = {
+  platform: 'woocommerce',
+
+  normalize(payload: any): NormalizedOrder {
+    const order = extractOrder(payload);
+    const externalOrderId = firstId(order.id, order.number);
+    const grossValue = parseAmount(order.total);
+
+    if (!externalOrderId || isNaN(grossValue)) {
+      throw new InvalidPayloadError('Dados da venda incompletos. Necessário ID do pedido e valor total.');
+    }
+
+    const status = ORDER_STATUSES[order.status];
+    if (!status) {
+      throw new IgnoredEventError(`Pedido ${externalOrderId} com status ${order.status || '(vazio)'} não gera venda`);
+    }
+
+    const lineItems: any[] = Array.isArray(order.line_items) ? order.line_items : [];
+    const discounts = firstAmount(order.discount_total);
+    const shipping = firstAmount(order.shipping_total);
+    const taxes = firstAmount(order.total_tax);
+    // total de cada item já vem com os descontos aplicados e sem impostos
+    const netValue = lineItems.length > 0
+      ? lineItems.reduce((sum, item) => sum + (parseAmount(item.total) || 0), 0)
+      : grossValue - shipping - taxes;
+
+    const couponCodes: string[] = Array.isArray(order.coupon_lines)
+      ? order.coupon_lines.map((coupon: any) => coupon?.code?.trim()).filter(Boolean)
+      : [];
+
+    const billing = order.billing || {};
+    const customer = order.customer_id || billing.email
+      ? {
+          // customer_id 0 indica compra como visitante
+          externalId: order.customer_id ? firstId(order.customer_id) : undefined,
+          name: [billing.first_name, billing.last_name].filter(Boolean).join(' ') || undefined,
+          email: billing.email || undefined,
+          phone: billing.phone || undefined
+        }
+      : undefined;
+
+    return {
+      externalOrderId,
+      platform: 'woocommerce',
+      status,
+      currency: parseCurrency(order.currency),
+      grossValue,
+      discounts,
+      shipping,
+      taxes,
+      netValue: roundAmount(Math.max(0, netValue)),
+      couponCodes,
+      customer,
+      lineItems: lineItems.map(item => {
+        const quantity = Number(item.quantity) || 1;
+        // subtotal é o valor da linha antes dos descontos; total, depois
+        const subtotal = firstAmount(item.subtotal, item.total);
+        return {
+          sku: item.sku || undefined,
+          productId: firstId(item.product_id),
+          title: item.name || '',
+          quantity,
+          price: roundAmount(subtotal / quantity),
+          discount: roundAmount(Math.max(0, subtotal - firstAmount(item.total, item.subtotal)))
+        };
+      }),
+      createdAt: parseDate(gmtDate(order.date_paid_gmt), gmtDate(order.date_created_gmt), order.date_created),
+      receivedAt: new Date()
+    };
+  },
+
+  /**
+   * Estornos identificados pelo status do pedido:
+   * - cancelled: cancelamento
+   * - refunded: cada reembolso listado e, por fim, o estorno total do que restar
+   * - pedido pago com reembolsos: cada reembolso listado (parciais), identificado pelo ID do reembolso;
+   *   o pedido só é tratado como estorno se algum reembolso ainda não foi aplicado
+   */
+  normalizeRefunds(payload: any): NormalizedRefund[] {
+    const order = payload?.order || (payload?.id !== undefined ? payload : null);
+    if (!order) return [];
+
+    const externalOrderId = firstId(order.id, order.number);
+    if (!externalOrderId) {
+      throw new InvalidPayloadError('Pedido do WooCommerce sem ID.');
+    }
+    const updatedAt = parseDate(gmtDate(order.date_modified_gmt), order.date_modified);
+
+    if (order.status === 'cancelled') {
+      return [{
+        externalOrderId,
+        platform: 'woocommerce',
+        externalRefundId: `cancel-${externalOrderId}`,
+        reason: 'cancellation',
+        refundedAt: updatedAt
+      }];
+    }
+
+    // Os reembolsos vêm do mais recente para o mais antigo e com valor negativo (ex.: "-10.00")
+    const refunds: any[] = Array.isArray(order.refunds) ? [...order.refunds].reverse() : [];
+    const listedRefunds = refunds.map((refund, index): NormalizedRefund => {
+      const amount = Math.abs(parseAmount(refund.total));
+      return {
+        externalOrderId,
+        platform: 'woocommerce',
+        externalRefundId: firstId(refund.id) || `refund-${externalOrderId}-${index + 1}`,
+        amount: isNaN(amount) ? undefined : amount,
+        reason: 'refund',
+        refundedAt: updatedAt
+      };
+    });
+
+    if (order.status === 'refunded') {
+      return [
+        ...listedRefunds,
+        { externalOrderId, platform: 'woocommerce', externalRefundId: `refund-${externalOrderId}`, reason: 'refund', refundedAt: updatedAt }
+      ];
+    }
+
+    if (PAID_STATUSES.includes(order.status)) {
+      return listedRefunds.map(refund => ({ ...refund, fromOrderUpdate: true }));
+    }
+
+    return [];
+  }
+};
+
+export default wooCommerceAdapter;
@@ -0,0 +1,143 @@
+import { PlatformAdapter, NormalizedOrder, NormalizedRefund, OrderStatus, RefundReason, InvalidPayloadError, IgnoredEventError } from './types';
+import { parseAmount, firstAmount, roundAmount, parseDate, parseCurrency, firstId } from './parsing';
+
+// Etapa do pedido pelo status (alias) da Yampi
+const ORDER_STATUSES: Record<string, OrderStatus> = {
+  waiting_payment: 'pending',
+  paid: 'paid',
+  handling_products: 'paid',
+  invoiced: 'paid',
+  on_carriage: 'fulfilled',
+  delivered: 'fulfilled'
+};
+
+// Status de estorno e o motivo correspondente
+const REFUND_STATUSES: Record<string, RefundReason> = {
+  refunded: 'refund',
+  cancelled: 'cancellation'
+};
+
+// A Yampi envolve relacionamentos em { data: ... }
+const unwrap = (value: any) => (value && typeof value === 'object' && 'data' in value ? value.data : value);
+
+/**
+ * Extrai o pedido ("resource") e o alias do status atual
+ */
+const extractOrder = (payload: any) => {
+  const order = payload?.resource;
+  if (!order || order.id === undefined) {
+    throw new InvalidPayloadError('Formato incorreto do webhook da Yampi. Objeto resource não encontrado.');
+  }
+  const status = unwrap(order.status);
+  return { order, status: typeof status === 'string' ? status : status?.alias };
+};
+
+/**
+ * Adapter para pedidos da Yampi (eventos order.paid e order.status.updated)
+ */
+const yampiAdapter: PlatformAdapter = {
+  platform: 'yampi',
+
+  normalize(payload: any): NormalizedOrder {
+    const { order, status } = extractOrder(payload);
+    const externalOrderId = firstId(order.id, order.number);
+    const grossValue = parseAmount(order.value_total);
+
+    if (!externalOrderId || isNaN(grossValue)) {
+      throw new InvalidPayloadError('Dados da venda incompletos. Necessário ID do pedido e valor total.');
+    }
+
+    // order.paid pode chegar antes da troca do status do pedido
+    const orderStatus = ORDER_STATUSES[status] === 'fulfilled' ? 'fulfilled'
+      : payload.event === 'order.paid' ? 'paid'
+      : ORDER_STATUSES[status];
+    if (!orderStatus) {
+      throw new IgnoredEventError(`Pedido ${externalOrderId} com status ${status || '(vazio)'} não gera venda`);
+    }
+
+    // value_products é a soma dos produtos antes dos descontos
+    const products = parseAmount(order.value_products);
+    const discounts = firstAmount(order.value_discount);
+    const shipping = firstAmount(order.value_shipment);
+    const taxes = firstAmount(order.value_tax);
+    const netValue = isNaN(products) ? grossValue - shipping - taxes : products - discounts;
+
+    const promocode = unwrap(order.promocode);
+    const couponCodes = [promocode?.code, order.promocode_code]
+      .filter((code): code is string => typeof code === 'string' && code.trim() !== '')
+      .map(code => code.trim())
+      .filter((code, index, codes) => codes.indexOf(code) === index);
+
+    const customerData = unwrap(order.customer);
+    const customer = customerData
+      ? {
+          externalId: firstId(customerData.id),
+          name: customerData.name
+            || [customerData.first_name, customerData.last_name].filter(Boolean).join(' ')
+            || undefined,
+          email: customerData.email || undefined,
+          phone: unwrap(customerData.phone)?.full_number || undefined
+        }
+      : undefined;
+
+    const items: any[] = unwrap(order.items) || [];
+
+    return {
+      externalOrderId,
+      platform: 'yampi',
+      storeId: firstId(payload.merchant?.alias, payload.merchant?.id),
+      status: orderStatus,
+      currency: parseCurrency(order.currency),
+      grossValue,
+      discounts,
+      shipping,
+      taxes,
+      netValue: roundAmount(Math.max(0, netValue)),
+      couponCodes,
+      customer,
+      lineItems: items.map(item => {
+        const sku = unwrap(item.sku) || {};
+        return {
+          sku: sku.sku || undefined,
+          productId: firstId(item.product_id, sku.product_id),
+          title: sku.title || item.name || '',
+          quantity: Number(item.quantity) || 1,
+          price: parseAmount(item.price) || 0,
+          discount: 0 // Descontos são informados só no total do pedido
+        };
+      }),
+      createdAt: parseDate(order.created_at?.date, order.created_at),
+      receivedAt: new Date()
+    };
+  },
+
+  /**
+   * Pedidos cancelados ou com status de estorno são estornos totais.
+   * A Yampi não envia ID do estorno: o identificador inclui a data de atualização do pedido,
+   * e só reenvios da mesma atualização são duplicados.
+   */
+  normalizeRefunds(payload: any): NormalizedRefund[] {
+    if (!payload?.resource) return [];
+    const { order, status } = extractOrder(payload);
+
+    const reason = payload.event === 'order.cancelled' ? 'cancellation' : REFUND_STATUSES[status];
+    if (!reason) return [];
+
+    const externalOrderId = firstId(order.id, order.number);
+    if (!externalOrderId) {
+      throw new InvalidPayloadError('Pedido da Yampi sem ID.');
+    }
+
+    return [{
+      externalOrderId,
+      platform: 'yampi',
+      storeId: firstId(payload.merchant?.alias, payload.merchant?.id),
+      externalRefundId: [reason === 'cancellation' ? 'cancel' : 'refund', externalOrderId, firstId(order.updated_at?.date, order.updated_at)]
+        .filter(Boolean).join('-'),
+      reason,
+      refundedAt: parseDate(order.updated_at?.date, order.updated_at)
+    }];
+  }
+};
+
+export default yampiAdapter;
@@ -0,0 +1,107 @@
+import { Types } from 'mongoose';
+
+// Campos da regra usados no cálculo (documento do Mongo ou objeto simples)
+export interface ProductRuleLike {
+  _id?: unknown;
+  name: string;
+  scope: 'product' | 'collection';
+  productIds: string[];
+  skus: string[];
+  type: 'percentage' | 'excluded';
+  commissionPercentage?: number;
+  appliesTo: 'influencer' | 'manager' | 'both';
+  priority: number;
+}
+
+// Campos do item usados no cálculo
+export interface LineItemLike {
+  sku?: string;
+  productId?: string;
+  quantity: number;
+  price: number;
+  discount?: number;
+}
+
+// Comissão calculada para um item do pedido
+export interface LineCommission {
+  commissionableValue: number; // Parte da base de comissão atribuída ao item
+  percentage: number; // Percentual aplicado (0 para itens excluídos)
+  commission: number;
+  source: 'rule' | 'excluded' | 'tier'; // Regra de produto, exclusão ou faixa (fallback)
+  rule?: Types.ObjectId; // Regra aplicada, se houver
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Valor do item após descontos
+ */
+const getLineValue = (line: LineItemLike): number =>
+  Math.max(0, line.price * line.quantity - (line.discount || 0));
+
+/**
+ * Escolhe a regra de um item: regras de produto antes das de coleção e, no mesmo escopo,
+ * a de maior prioridade. Retorna undefined se nenhuma regra se aplicar.
+ */
+const findRuleForLine = (line: LineItemLike, rules: ProductRuleLike[], role: 'influencer' | 'manager') => {
+  const matching = rules.filter(rule =>
+    (rule.appliesTo === 'both' || rule.appliesTo === role)
+    && ((line.productId && rule.productIds.includes(line.productId)) || (line.sku && rule.skus.includes(line.sku)))
+  );
+
+  return matching.sort((a, b) => {
+    if (a.scope !== b.scope) return a.scope === 'product' ? -1 : 1;
+    return b.priority - a.priority;
+  })[0];
+};
+
+/**
+ * Calcula a comissão item a item. A base de comissão da venda é distribuída entre os itens
+ * proporcionalmente ao valor de cada um; itens com regra usam o percentual da regra (ou ficam
+ * de fora, se excluídos) e os demais usam o percentual da faixa.
+ * @param lines Itens da venda
+ * @param baseValue Base de comissão da venda (total ou líquido, já descontados estornos)
+ * @param tierPercentage Percentual da faixa aplicável à venda
+ * @param rules Regras de produto ativas
+ * @param role Papel para o qual a comissão é calculada
+ */
+const computeLineCommissions = (
+  lines: LineItemLike[],
+  baseValue: number,
+  tierPercentage: number,
+  rules: ProductRuleLike[],
+  role: 'influencer' | 'manager'
+): { total: number; lines: LineCommission[] } => {
+  const linesTotal = lines.reduce((sum, line) => sum + getLineValue(line), 0);
+
+  // Sem valor nos itens: a venda inteira usa a faixa
+  if (linesTotal <= 0) {
+    const total = roundCurrency(baseValue * (tierPercentage / 100));
+    return { total, lines: [] };
+  }
+
+  const lineCommissions = lines.map((line): LineCommission => {
+    const commissionableValue = (getLineValue(line) / linesTotal) * baseValue;
+    const rule = findRuleForLine(line, rules, role);
+
+    if (rule?.type === 'excluded') {
+      return { commissionableValue: roundCurrency(commissionableValue), percentage: 0, commission: 0, source: 'excluded', rule: rule._id as Types.ObjectId };
+    }
+
+    const percentage = rule ? rule.commissionPercentage || 0 : tierPercentage;
+    return {
+      commissionableValue: roundCurrency(commissionableValue),
+      percentage,
+      commission: commissionableValue * (percentage / 100),
+      source: rule ? 'rule' : 'tier',
+      rule: rule?._id as Types.ObjectId | undefined
+    };
+  });
+
+  const total = roundCurrency(lineCommissions.reduce((sum, line) => sum + line.commission, 0));
+  lineCommissions.forEach(line => { line.commission = roundCurrency(line.commission); });
+
+  return { total, lines: lineCommissions };
+};
+
+export { getLineValue, findRuleForLine, computeLineCommissions };
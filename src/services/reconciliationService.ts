@@ -0,0 +1,177 @@
+import Sale, { SaleStatus, saleOrderKey } from '../models/Sale';
+import { getPlatformAdapter, HttpClient, ListedOrder, SalePlatform } from './platformAdapters';
+import { axiosHttpClient } from './platformAdapters/httpClient';
+import { ingestOrder } from './saleIngestionService';
+
+// Divergência encontrada entre o pedido da loja e a venda registrada
+export type ReconciliationIssueType = 'missing_sale' | 'value_mismatch' | 'refunded_with_commission';
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  orderId: string;
+  store: string;
+  detail: string;
+  platformValue: number; // Total do pedido na plataforma, na moeda do pedido
+  saleValue?: number; // Total registrado na venda, na moeda do pedido
+  saleId?: string;
+  couponCodes?: string[];
+  fixed?: boolean; // Correção automática aplicada (venda ausente ingerida)
+  fixStatus?: string; // Resultado da ingestão na correção automática
+}
+
+// Campos da venda usados na comparação
+export interface ReconciliationSale {
+  _id: unknown;
+  orderId: string;
+  store?: string;
+  saleValue: number;
+  originalSaleValue?: number;
+  exchangeRate?: number;
+  status?: SaleStatus;
+  refundStatus?: 'none' | 'partial' | 'full';
+  refundedAmount?: number;
+  influencerCommissionEarned?: number;
+  managerCommissionEarned?: number;
+}
+
+export interface ReconciliationOptions {
+  platform: SalePlatform;
+  store: string;
+  startDate: Date;
+  endDate: Date;
+  autoFix?: boolean; // Ingerir as vendas ausentes (sem avisos de WhatsApp)
+  http?: HttpClient; // Cliente HTTP das consultas (padrão: axios)
+}
+
+// Tolerância de arredondamento na comparação de valores
+const VALUE_TOLERANCE = 0.01;
+
+/**
+ * Compara os pedidos consultados na loja com as vendas registradas, sem acessar o banco:
+ * - missing_sale: pedido com cupom ou afiliado sem venda (webhook perdido); pedidos estornados por completo ficam de fora
+ * - value_mismatch: total da venda (na moeda original) diferente do total do pedido
+ * - refunded_with_commission: pedido estornado na plataforma com estorno não aplicado a uma venda comissionada
+ */
+const diffOrders = (listed: ListedOrder[], sales: ReconciliationSale[]): ReconciliationIssue[] => {
+  const salesByKey = new Map<string, ReconciliationSale>();
+  sales.forEach(sale => salesByKey.set(`${sale.store || ''}|${sale.orderId}`, sale));
+
+  const issues: ReconciliationIssue[] = [];
+  for (const { order, refundedAmount, fullyRefunded } of listed) {
+    const key = saleOrderKey(order.platform, order.storeId, order.externalOrderId);
+    const sale = salesByKey.get(`${key.store}|${key.orderId}`);
+    const base = { orderId: order.externalOrderId, store: key.store, platformValue: order.grossValue };
+
+    if (!sale) {
+      const hasAttribution = order.couponCodes.length > 0 || (order.affiliateIds || []).length > 0;
+      if (hasAttribution && !fullyRefunded) {
+        issues.push({
+          ...base,
+          type: 'missing_sale',
+          detail: `Pedido ${order.status} com cupom/afiliado sem venda registrada`,
+          couponCodes: order.couponCodes
+        });
+      }
+      continue;
+    }
+
+    const saleId = String(sale._id);
+    const saleValue = sale.originalSaleValue ?? sale.saleValue;
+    if (Math.abs(saleValue - order.grossValue) > VALUE_TOLERANCE) {
+      issues.push({
+        ...base,
+        type: 'value_mismatch',
+        detail: `Total da venda ${saleValue.toFixed(2)} difere do pedido ${order.grossValue.toFixed(2)}`,
+        saleValue,
+        saleId
+      });
+    }
+
+    const commission = (sale.influencerCommissionEarned || 0) + (sale.managerCommissionEarned || 0);
+    if (commission <= 0 || sale.refundStatus === 'full' || sale.status === 'refunded' || sale.status === 'cancelled') continue;
+
+    // O estorno registrado na venda está em BRL; o da plataforma, na moeda do pedido
+    const recordedRefund = (sale.refundedAmount || 0) / (sale.exchangeRate || 1);
+    if (fullyRefunded || refundedAmount - recordedRefund > VALUE_TOLERANCE) {
+      issues.push({
+        ...base,
+        type: 'refunded_with_commission',
+        detail: fullyRefunded
+          ? `Pedido estornado/cancelado na plataforma; venda ainda com comissão de ${commission.toFixed(2)}`
+          : `Estorno de ${refundedAmount.toFixed(2)} na plataforma; venda com ${recordedRefund.toFixed(2)} estornado`,
+        saleValue,
+        saleId
+      });
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Reconcilia as vendas de uma loja com os pedidos do período consultados na API da plataforma.
+ * Com autoFix, as vendas ausentes passam pelo pipeline de ingestão (atribuição e comissão), sem avisos;
+ * divergências de valor e estornos não aplicados são apenas relatados.
+ * Lança erro se a plataforma não permitir consultar os pedidos.
+ */
+const reconcileOrders = async (options: ReconciliationOptions) => {
+  const adapter = getPlatformAdapter(options.platform);
+  if (!adapter.listOrders) {
+    throw new Error(`A reconciliação não está disponível para a plataforma ${options.platform}`);
+  }
+
+  const listed = await adapter.listOrders(
+    { store: options.store, startDate: options.startDate, endDate: options.endDate },
+    options.http || axiosHttpClient
+  );
+
+  const sales = await Sale.find({
+    platform: options.platform,
+    orderId: { $in: listed.map(({ order }) => order.externalOrderId) }
+  })
+    .select('orderId store saleValue originalSaleValue exchangeRate status refundStatus refundedAmount influencerCommissionEarned managerCommissionEarned')
+    .lean<ReconciliationSale[]>();
+
+  const issues = diffOrders(listed, sales);
+
+  if (options.autoFix) {
+    const ordersByKey = new Map(listed.map(({ order }) => {
+      const key = saleOrderKey(order.platform, order.storeId, order.externalOrderId);
+      return [`${key.store}|${key.orderId}`, order];
+    }));
+    for (const issue of issues.filter(entry => entry.type === 'missing_sale')) {
+      const order = ordersByKey.get(`${issue.store}|${issue.orderId}`)!;
+      try {
+        const result = await ingestOrder(order, { notify: false });
+        issue.fixed = !!result.sale;
+        issue.fixStatus = result.status;
+        issue.saleId = result.sale?._id?.toString();
+      } catch (error: any) {
+        issue.fixed = false;
+        issue.fixStatus = `error: ${error.message}`;
+      }
+    }
+  }
+
+  const summary: Record<string, number> = {};
+  issues.forEach(issue => {
+    summary[issue.type] = (summary[issue.type] || 0) + 1;
+  });
+
+  console.log(`[reconciliation] ${options.platform} ${options.store}: ${listed.length} pedidos, ${sales.length} vendas, ` +
+    `divergências ${JSON.stringify(summary)}${options.autoFix ? ` (${issues.filter(issue => issue.fixed).length} corrigidas)` : ''}`);
+
+  return {
+    platform: options.platform,
+    store: options.store,
+    startDate: options.startDate,
+    endDate: options.endDate,
+    autoFix: !!options.autoFix,
+    ordersChecked: listed.length,
+    salesFound: sales.length,
+    summary,
+    issues
+  };
+};
+
+export { diffOrders, reconcileOrders };
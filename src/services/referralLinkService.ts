@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import ReferralLink, { IReferralLink } from '../models/ReferralLink';
+import ReferralClick from '../models/ReferralClick';
+import User from '../models/User';
+import { normalizeCode } from '../models/Coupon';
+import { REFERRAL_PARAM, REFERRAL_UTM_MEDIUM } from './platformAdapters/parsing';
+
+// utm_source enviado à loja nos redirecionamentos
+const getUtmSource = () => process.env.REFERRAL_UTM_SOURCE || 'influencer';
+
+/**
+ * Gera um código aleatório de link (8 caracteres hexadecimais)
+ */
+const generateReferralCode = (): string => crypto.randomBytes(4).toString('hex');
+
+/**
+ * Domínios da loja aceitos como destino dos links (REFERRAL_ALLOWED_DOMAINS, separados por vírgula).
+ * Subdomínios de um domínio configurado também são aceitos.
+ */
+const getAllowedDestinationDomains = (): string[] =>
+  (process.env.REFERRAL_ALLOWED_DOMAINS || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase().replace(/^\.+|\.+$/g, ''))
+    .filter(Boolean);
+
+/**
+ * Valida a URL de destino de um link: apenas http(s) e em um dos domínios da loja,
+ * para que /r/:code não redirecione para sites de terceiros. Sem domínios configurados, nenhum destino é aceito.
+ */
+const isValidDestinationUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+    const host = url.hostname.toLowerCase();
+    return getAllowedDestinationDomains().some(domain => host === domain || host.endsWith(`.${domain}`));
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Verifica se um código de link está livre (sem diferenciar maiúsculas/minúsculas)
+ * @param linkId Se informado, o próprio link não conta como conflito
+ */
+const isReferralCodeAvailable = async (code: string, linkId?: Types.ObjectId | string): Promise<boolean> => {
+  const existing = await ReferralLink.findOne({ normalizedCode: normalizeCode(code) }).select('_id');
+  if (!existing) return true;
+  return !!linkId && (existing._id as Types.ObjectId).toString() === linkId.toString();
+};
+
+/**
+ * URL pública do link do influenciador. REFERRAL_BASE_URL é a URL deste backend (ex.: https://api.exemplo.com);
+ * sem ela, o caminho é relativo.
+ */
+const getReferralLinkUrl = (code: string): string => {
+  const baseUrl = (process.env.REFERRAL_BASE_URL || '').replace(/\/$/, '');
+  return `${baseUrl}/r/${encodeURIComponent(code)}`;
+};
+
+/**
+ * URL de destino do redirecionamento, com os parâmetros ref e UTM do link.
+ * Parâmetros já presentes na URL de destino são mantidos; ref e UTMs são substituídos.
+ */
+const buildReferralRedirectUrl = (link: Pick<IReferralLink, 'code' | 'destinationUrl'>): string => {
+  const url = new URL(link.destinationUrl);
+  url.searchParams.set(REFERRAL_PARAM, link.code);
+  url.searchParams.set('utm_source', getUtmSource());
+  url.searchParams.set('utm_medium', REFERRAL_UTM_MEDIUM);
+  url.searchParams.set('utm_campaign', link.code);
+  return url.toString();
+};
+
+/**
+ * Hash do User-Agent registrado no clique (o valor original não é gravado)
+ */
+const hashUserAgent = (userAgent?: string): string | undefined =>
+  userAgent ? crypto.createHash('sha256').update(userAgent).digest('hex') : undefined;
+
+/**
+ * Registra um clique no link e atualiza o contador
+ */
+const recordReferralClick = async (link: IReferralLink, referrer?: string, userAgent?: string) => {
+  const clickedAt = new Date();
+  await ReferralClick.create({
+    link: link._id,
+    owner: link.owner,
+    code: link.code,
+    referrer: referrer || undefined,
+    userAgentHash: hashUserAgent(userAgent),
+    clickedAt
+  });
+  await ReferralLink.updateOne({ _id: link._id }, { $inc: { clickCount: 1 }, $set: { lastClickedAt: clickedAt } });
+};
+
+/**
+ * Localiza o influenciador pelo primeiro código de link ativo recebido no pedido
+ * @returns Influenciador, link e código encontrado
+ */
+const findInfluencerByReferral = async (referralCodes: string[]) => {
+  for (const referralCode of referralCodes) {
+    const link = await ReferralLink.findOne({ normalizedCode: normalizeCode(referralCode), isActive: true });
+    if (!link) continue;
+
+    const influencer = await User.findById(link.owner);
+    if (influencer) return { influencer, link, referralCode };
+  }
+  return null;
+};
+
+export {
+  generateReferralCode,
+  isValidDestinationUrl,
+  isReferralCodeAvailable,
+  getReferralLinkUrl,
+  buildReferralRedirectUrl,
+  hashUserAgent,
+  recordReferralClick,
+  findInfluencerByReferral
+};
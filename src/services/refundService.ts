@@ -0,0 +1,257 @@
+import Sale, { ISale, saleOrderKey } from '../models/Sale';
+import CommissionPayment, { ICommissionPayment } from '../models/CommissionPayment';
+import CommissionAdjustment, { ICommissionAdjustment } from '../models/CommissionAdjustment';
+import { Types } from 'mongoose';
+import { NormalizedRefund } from './platformAdapters';
+import { recordRefundStatus } from './saleStatusService';
+
+// Resultado possível da aplicação de um estorno
+export type RefundStatus = 'applied' | 'sale_not_found' | 'duplicate' | 'already_refunded' | 'empty';
+
+export interface RefundResult {
+  status: RefundStatus;
+  message: string;
+  sale?: ISale;
+  refundedAmount: number;
+  influencerCommissionReversed: number;
+  managerCommissionReversed: number;
+  adjustments: ICommissionAdjustment[];
+}
+
+const REASON_LABELS: Record<NormalizedRefund['reason'], string> = {
+  refund: 'Reembolso',
+  cancellation: 'Cancelamento',
+  chargeback: 'Chargeback'
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Reflete a comissão estornada no pagamento que inclui a venda.
+ * Pagamento ainda não pago: o valor é descontado diretamente.
+ * Pagamento já pago: cria um ajuste negativo para o próximo período.
+ */
+const clawBackCommission = async (
+  sale: ISale,
+  role: 'influencer' | 'manager',
+  commissionReversed: number,
+  valueRefunded: number,
+  reasonLabel: string
+): Promise<ICommissionAdjustment | null> => {
+  const userId = role === 'influencer' ? sale.influencer : sale.manager;
+  if (!userId || commissionReversed <= 0) return null;
+
+  const payment = await CommissionPayment.findOne({
+    sales: sale._id,
+    roleAtPayment: role,
+    user: userId
+  }).sort({ calculationDate: -1 });
+
+  // Sem pagamento gerado: o valor já reduzido na venda será usado na geração
+  if (!payment) return null;
+
+  if (payment.status === 'paid') {
+    const adjustment = await CommissionAdjustment.create({
+      user: userId,
+      roleAtPayment: role,
+      sale: sale._id,
+      amount: -commissionReversed,
+      reason: `${reasonLabel} do pedido ${sale.orderId}`,
+      sourcePayment: payment._id,
+      status: 'pending'
+    });
+    console.log(`[refundService] Ajuste de -${commissionReversed.toFixed(2)} criado para ${role} ${userId} (pagamento ${payment._id} já pago)`);
+    return adjustment;
+  }
+
+  payment.commissionEarned = roundCurrency(Math.max(0, payment.commissionEarned - commissionReversed));
+  payment.totalSalesValue = roundCurrency(Math.max(0, payment.totalSalesValue - valueRefunded));
+  await payment.save();
+  console.log(`[refundService] Pagamento ${payment._id} (${payment.status}) reduzido em ${commissionReversed.toFixed(2)}`);
+  return null;
+};
+
+/**
+ * Aplica um estorno (total ou parcial) à venda correspondente, reduzindo as comissões
+ * de influenciador e gerente na mesma proporção do valor estornado.
+ * @param refund Estorno normalizado por um adapter de plataforma
+ * @returns Resultado com os valores estornados e os ajustes criados
+ */
+const applyRefund = async (refund: NormalizedRefund): Promise<RefundResult> => {
+  const emptyResult = {
+    refundedAmount: 0,
+    influencerCommissionReversed: 0,
+    managerCommissionReversed: 0,
+    adjustments: []
+  };
+
+  const sale = await Sale.findOne(saleOrderKey(refund.platform, refund.storeId, refund.externalOrderId));
+  if (!sale) {
+    return { status: 'sale_not_found', message: `Nenhuma venda registrada para o pedido ${refund.externalOrderId}`, ...emptyResult };
+  }
+
+  if (refund.externalRefundId && sale.refunds.some(existing => existing.externalRefundId === refund.externalRefundId)) {
+    return { status: 'duplicate', message: 'Estorno já processado anteriormente', sale, ...emptyResult };
+  }
+
+  const remainingValue = roundCurrency(sale.saleValue - (sale.refundedAmount || 0));
+  if (remainingValue <= 0) {
+    return { status: 'already_refunded', message: 'Venda já estornada integralmente', sale, ...emptyResult };
+  }
+
+  // O valor estornado vem na moeda do pedido; converte pela mesma cotação usada na venda
+  const refundAmount = refund.amount !== undefined ? refund.amount * (sale.exchangeRate || 1) : remainingValue;
+  const amount = roundCurrency(Math.min(refundAmount, remainingValue));
+  if (amount <= 0) {
+    return { status: 'empty', message: 'Estorno sem valor a descontar', sale, ...emptyResult };
+  }
+
+  // A comissão restante é proporcional ao valor restante da venda
+  const ratio = amount / remainingValue;
+  const influencerCommissionReversed = roundCurrency((sale.influencerCommissionEarned || 0) * ratio);
+  const managerCommissionReversed = roundCurrency((sale.managerCommissionEarned || 0) * ratio);
+
+  sale.influencerCommissionEarned = roundCurrency(Math.max(0, (sale.influencerCommissionEarned || 0) - influencerCommissionReversed));
+  sale.managerCommissionEarned = roundCurrency(Math.max(0, (sale.managerCommissionEarned || 0) - managerCommissionReversed));
+  // O bônus de cliente novo (já incluído na comissão) acompanha a mesma proporção
+  if (sale.influencerNewCustomerBonus) sale.influencerNewCustomerBonus = roundCurrency(sale.influencerNewCustomerBonus * (1 - ratio));
+  if (sale.managerNewCustomerBonus) sale.managerNewCustomerBonus = roundCurrency(sale.managerNewCustomerBonus * (1 - ratio));
+  sale.refundedAmount = roundCurrency((sale.refundedAmount || 0) + amount);
+  sale.refundStatus = sale.refundedAmount >= sale.saleValue ? 'full' : 'partial';
+  sale.refunds.push({
+    externalRefundId: refund.externalRefundId,
+    amount,
+    reason: refund.reason,
+    influencerCommissionReversed,
+    managerCommissionReversed,
+    refundedAt: refund.refundedAt
+  });
+  recordRefundStatus(sale, refund.reason, amount, sale.refundStatus === 'full', refund.refundedAt);
+  await sale.save();
+
+  console.log(`[refundService] ${REASON_LABELS[refund.reason]} de ${amount.toFixed(2)} aplicado à venda ${sale._id} (pedido ${sale.orderId})`);
+
+  const reasonLabel = REASON_LABELS[refund.reason];
+  const adjustments: ICommissionAdjustment[] = [];
+  const influencerAdjustment = await clawBackCommission(sale, 'influencer', influencerCommissionReversed, amount, reasonLabel);
+  if (influencerAdjustment) adjustments.push(influencerAdjustment);
+  const managerAdjustment = await clawBackCommission(sale, 'manager', managerCommissionReversed, amount, reasonLabel);
+  if (managerAdjustment) adjustments.push(managerAdjustment);
+
+  return {
+    status: 'applied',
+    message: sale.refundStatus === 'full' ? 'Venda estornada integralmente' : 'Venda estornada parcialmente',
+    sale,
+    refundedAmount: amount,
+    influencerCommissionReversed,
+    managerCommissionReversed,
+    adjustments
+  };
+};
+
+/**
+ * Aplica, em ordem, os estornos de um mesmo payload (ex.: reembolsos listados no pedido do WooCommerce).
+ * Estornos já aplicados são ignorados como duplicados.
+ * @returns Resultado somado dos estornos aplicados ou, sem nenhum aplicado, o resultado do último
+ */
+const applyRefunds = async (refunds: NormalizedRefund[]): Promise<RefundResult> => {
+  const results: RefundResult[] = [];
+  for (const refund of refunds) {
+    results.push(await applyRefund(refund));
+  }
+
+  const applied = results.filter(result => result.status === 'applied');
+  if (applied.length === 0) return results[results.length - 1];
+
+  const last = applied[applied.length - 1];
+  return {
+    status: 'applied',
+    message: last.message,
+    sale: last.sale,
+    refundedAmount: roundCurrency(applied.reduce((sum, result) => sum + result.refundedAmount, 0)),
+    influencerCommissionReversed: roundCurrency(applied.reduce((sum, result) => sum + result.influencerCommissionReversed, 0)),
+    managerCommissionReversed: roundCurrency(applied.reduce((sum, result) => sum + result.managerCommissionReversed, 0)),
+    adjustments: applied.flatMap(result => result.adjustments)
+  };
+};
+
+/**
+ * Estornos ainda não aplicados à venda do pedido (todos, se a venda não existir)
+ */
+const getNewRefunds = async (refunds: NormalizedRefund[]): Promise<NormalizedRefund[]> => {
+  if (refunds.length === 0) return [];
+  const { platform, storeId, externalOrderId } = refunds[0];
+  const sale = await Sale.findOne(saleOrderKey(platform, storeId, externalOrderId)).select('refunds');
+  if (!sale) return refunds;
+
+  return refunds.filter(refund =>
+    !refund.externalRefundId || !sale.refunds.some(existing => existing.externalRefundId === refund.externalRefundId));
+};
+
+/**
+ * Usuários de um papel com ajustes pendentes, para entrarem no pagamento do período
+ * mesmo sem vendas novas
+ */
+const getUsersWithPendingAdjustments = async (role: 'influencer' | 'manager'): Promise<string[]> => {
+  const userIds = await CommissionAdjustment.distinct('user', { roleAtPayment: role, status: 'pending' });
+  return userIds.map(userId => userId.toString());
+};
+
+/**
+ * Soma os ajustes pendentes de um usuário à comissão do período. Se os ajustes negativos
+ * forem maiores que a comissão, o pagamento fica zerado e o saldo restante é levado
+ * para o próximo pagamento (carryForwardBalance).
+ */
+const collectPendingAdjustments = async (userId: Types.ObjectId | string, role: 'influencer' | 'manager', commission: number) => {
+  const adjustments = await CommissionAdjustment.find({ user: userId, roleAtPayment: role, status: 'pending' })
+    .sort({ createdAt: 1 });
+
+  const adjustmentsTotal = roundCurrency(adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0));
+  const balance = roundCurrency(commission + adjustmentsTotal);
+
+  return {
+    adjustments,
+    adjustmentsTotal,
+    commissionEarned: Math.max(0, balance),
+    balanceCarriedForward: Math.min(0, balance)
+  };
+};
+
+/**
+ * Marca os ajustes como aplicados ao pagamento gerado
+ */
+const markAdjustmentsApplied = async (adjustments: ICommissionAdjustment[], paymentId: Types.ObjectId) => {
+  if (adjustments.length === 0) return;
+  await CommissionAdjustment.updateMany(
+    { _id: { $in: adjustments.map(adjustment => adjustment._id) } },
+    { status: 'applied', appliedToPayment: paymentId, appliedAt: new Date() }
+  );
+};
+
+/**
+ * Leva o saldo negativo de um pagamento (estornos maiores que a comissão) para o próximo,
+ * como um novo ajuste pendente
+ */
+const carryForwardBalance = async (payment: ICommissionPayment, balance: number) => {
+  if (balance >= 0) return null;
+  const adjustment = await CommissionAdjustment.create({
+    user: payment.user,
+    roleAtPayment: payment.roleAtPayment,
+    amount: balance,
+    reason: `Saldo negativo do pagamento ${payment._id}`,
+    sourcePayment: payment._id,
+    status: 'pending'
+  });
+  console.log(`[refundService] Saldo de ${balance.toFixed(2)} do pagamento ${payment._id} levado para o próximo pagamento`);
+  return adjustment;
+};
+
+export {
+  applyRefund,
+  applyRefunds,
+  getNewRefunds,
+  getUsersWithPendingAdjustments,
+  collectPendingAdjustments,
+  markAdjustmentsApplied,
+  carryForwardBalance
+};
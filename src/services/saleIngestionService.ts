@@ -0,0 +1,456 @@
+import { Types } from 'mongoose';
+import User, { IUser } from '../models/User';
+import Sale, { ISale, SaleStatus, saleOrderKey } from '../models/Sale';
+import { ICoupon } from '../models/Coupon';
+import { IReferralLink } from '../models/ReferralLink';
+import { applySaleCommissions, getCommissionSettings } from './commissionService';
+import { sendNewSaleNotification } from './whatsappService';
+import { NormalizedOrder } from './platformAdapters';
+import { findInfluencerByCoupons } from './couponService';
+import { findInfluencerByAffiliate } from './affiliateService';
+import { findInfluencerByReferral } from './referralLinkService';
+import { getExchangeRate, convertToBaseCurrency } from './exchangeRateService';
+import { initialStatusFields, advanceSaleStatus } from './saleStatusService';
+import { getCustomerFields } from './customerService';
+
+// Resultado possível da ingestão de um pedido
+export type IngestionStatus = 'created' | 'status_updated' | 'duplicate' | 'no_coupon' | 'unknown_coupon' | 'unknown_affiliate';
+
+export interface IngestionResult {
+  status: IngestionStatus;
+  message: string;
+  sale?: ISale;
+  influencer?: IUser;
+  manager?: IUser | null;
+  couponCode?: string;
+  referralCode?: string;
+  affiliateId?: string;
+  previousStatus?: SaleStatus; // Status da venda antes da atualização (status_updated)
+  influencerCommission: number;
+  managerCommission: number;
+}
+
+export interface AttributeOptions {
+  imported?: boolean; // Pedido vindo da importação de histórico (CSV), não de webhook
+}
+
+export interface IngestOptions extends AttributeOptions {
+  notify?: boolean; // Enviar a notificação de nova venda (padrão: true)
+}
+
+/**
+ * Valores do pedido gravados na venda (bruto, descontos, frete, impostos, líquido e itens),
+ * convertidos para BRL pela cotação do dia do pedido. A moeda e o total originais também são gravados.
+ * Lança MissingExchangeRateError se não houver cotação cadastrada para a moeda.
+ */
+const getOrderValues = async (order: NormalizedOrder) => {
+  const { rate, date } = await getExchangeRate(order.currency, order.createdAt);
+  const convert = (amount: number) => convertToBaseCurrency(amount, rate);
+
+  return {
+    saleValue: convert(order.grossValue),
+    currency: order.currency,
+    originalSaleValue: order.grossValue,
+    exchangeRate: rate,
+    exchangeRateDate: date,
+    discountValue: convert(order.discounts),
+    shippingValue: convert(order.shipping),
+    taxValue: convert(order.taxes),
+    netValue: convert(order.netValue),
+    lineItems: order.lineItems.map(item => ({
+      sku: item.sku,
+      productId: item.productId,
+      title: item.title,
+      quantity: item.quantity,
+      price: convert(item.price),
+      discount: convert(item.discount)
+    }))
+  };
+};
+
+/**
+ * Resultado de pedido já registrado para a mesma plataforma e loja
+ */
+const duplicateResult = (sale: ISale | null): IngestionResult => ({
+  status: 'duplicate',
+  message: 'Venda já processada anteriormente',
+  sale: sale || undefined,
+  influencerCommission: sale?.influencerCommissionEarned || 0,
+  managerCommission: sale?.managerCommissionEarned || 0
+});
+
+/**
+ * Aplica a etapa do pedido recebido a uma venda já registrada.
+ * Sem mudança de etapa, a entrega é tratada como duplicada.
+ */
+const updateSaleStatus = async (sale: ISale, order: NormalizedOrder): Promise<IngestionResult> => {
+  const previousStatus = sale.status;
+  if (!advanceSaleStatus(sale, order.status, order.receivedAt)) return duplicateResult(sale);
+
+  await sale.save();
+  console.log(`[saleIngestion] Pedido ${order.platform} #${order.externalOrderId}: ${previousStatus} -> ${sale.status}`);
+  return {
+    status: 'status_updated',
+    message: `Pedido atualizado de ${previousStatus} para ${sale.status}`,
+    sale,
+    previousStatus,
+    influencerCommission: sale.influencerCommissionEarned || 0,
+    managerCommission: sale.managerCommissionEarned || 0
+  };
+};
+
+/**
+ * Indica se a atualização confirmou o pagamento de um pedido pendente (gera o aviso de venda confirmada)
+ */
+const isPaymentConfirmation = (result: IngestionResult) =>
+  result.status === 'status_updated' && result.previousStatus === 'pending' && !!result.sale
+  && (result.sale.status === 'paid' || result.sale.status === 'fulfilled');
+
+/**
+ * Grava a venda do pedido. Retorna null se outra entrega do mesmo pedido
+ * gravou a venda entre a verificação de duplicidade e a gravação (índice único).
+ */
+const createOrderSale = async (data: Record<string, unknown>): Promise<ISale | null> => {
+  try {
+    return await Sale.create(data);
+  } catch (error: any) {
+    if (error.code === 11000) return null; // Chave duplicada: plataforma, loja e pedido já registrados
+    throw error;
+  }
+};
+
+// Influenciador encontrado para um pedido e como foi encontrado
+export interface OrderInfluencerMatch {
+  influencer: IUser;
+  source: 'coupon' | 'referral_link' | 'affiliate';
+  coupon?: ICoupon; // Cupom do influenciador escolhido, se houver
+  referralLink?: IReferralLink; // Link do influenciador escolhido, se houver
+  referralCode?: string;
+  affiliateId?: string;
+}
+
+const isSameUser = (a: IUser, b: IUser) => (a._id as Types.ObjectId).toString() === (b._id as Types.ObjectId).toString();
+
+/**
+ * Localiza o influenciador do pedido pelo cupom (válido na data do pedido) e pelo link de indicação.
+ * Se cupom e link apontarem para influenciadores diferentes, vale a precedência configurada
+ * (attributionPrecedence). Sem cupom nem link válidos, usa o afiliado (plataformas de infoprodutos).
+ * @returns null se nenhum influenciador for encontrado
+ */
+const matchOrderInfluencer = async (order: NormalizedOrder): Promise<OrderInfluencerMatch | null> => {
+  const referralCodes = order.referralCodes || [];
+  const affiliateIds = order.affiliateIds || [];
+
+  const couponMatch = await findInfluencerByCoupons(order.couponCodes, order.createdAt);
+  const referralMatch = referralCodes.length > 0 ? await findInfluencerByReferral(referralCodes) : null;
+
+  if (couponMatch || referralMatch) {
+    let source: 'coupon' | 'referral_link' = couponMatch ? 'coupon' : 'referral_link';
+    if (couponMatch && referralMatch) {
+      const { attributionPrecedence } = await getCommissionSettings();
+      source = attributionPrecedence;
+      if (!isSameUser(couponMatch.influencer, referralMatch.influencer)) {
+        console.log(`[saleIngestion] Pedido #${order.externalOrderId}: cupom ${couponMatch.coupon.code} e link ${referralMatch.referralCode} de influenciadores diferentes; vale ${source}`);
+      }
+    }
+
+    const influencer = source === 'coupon' ? couponMatch!.influencer : referralMatch!.influencer;
+    return {
+      influencer,
+      source,
+      coupon: couponMatch && isSameUser(couponMatch.influencer, influencer) ? couponMatch.coupon : undefined,
+      referralLink: referralMatch && isSameUser(referralMatch.influencer, influencer) ? referralMatch.link : undefined,
+      referralCode: referralMatch?.referralCode
+    };
+  }
+
+  const affiliateMatch = affiliateIds.length > 0 ? await findInfluencerByAffiliate(order.platform, affiliateIds) : null;
+  return affiliateMatch
+    ? { influencer: affiliateMatch.influencer, source: 'affiliate', affiliateId: affiliateMatch.affiliateId }
+    : null;
+};
+
+/**
+ * Campos de atribuição gravados na venda de um pedido atribuído
+ */
+const matchSaleFields = (order: NormalizedOrder, match: OrderInfluencerMatch) => ({
+  couponCodeUsed: match.coupon?.code,
+  coupon: match.coupon?._id,
+  rawCouponCodes: order.couponCodes,
+  affiliateId: match.affiliateId || order.affiliateIds?.[0],
+  referralCode: match.referralLink ? match.referralCode : order.referralCodes?.[0],
+  referralLink: match.referralLink?._id,
+  attributionSource: match.source
+});
+
+/**
+ * Etapa de atribuição: deduplicação, localização do influenciador pelo cupom ou link de indicação
+ * (ou pelo afiliado, nas plataformas de infoprodutos) e registro da venda
+ * (ainda sem comissão calculada).
+ * @param order Pedido normalizado por um adapter de plataforma
+ */
+const attributeOrder = async (order: NormalizedOrder, options: AttributeOptions = {}): Promise<IngestionResult> => {
+  console.log(`[saleIngestion] Processando pedido ${order.platform} #${order.externalOrderId}`);
+
+  // Campos de origem da venda: webhook ou importação de histórico
+  const originFields = options.imported
+    ? { ...initialStatusFields(order.status, order.createdAt, 'import'), processedViaWebhook: false, importedAt: new Date() }
+    : { ...initialStatusFields(order.status, order.createdAt), processedViaWebhook: true };
+
+  // 1. Verificar se a venda já foi registrada (evitar duplicação); o pedido é identificado por plataforma, loja e ID
+  const orderKey = saleOrderKey(order.platform, order.storeId, order.externalOrderId);
+  // Pedido já registrado: a nova entrega pode avançar a etapa (ex.: boleto pago, pedido enviado)
+  const existingSale = await Sale.findOne(orderKey);
+  if (existingSale) return updateSaleStatus(existingSale, order);
+
+  // 2. Verificar se o pedido tem código de cupom, link de indicação ou afiliado
+  const affiliateIds = order.affiliateIds || [];
+  const referralCodes = order.referralCodes || [];
+  if (order.couponCodes.length === 0 && affiliateIds.length === 0 && referralCodes.length === 0) {
+    return {
+      status: 'no_coupon',
+      message: 'Pedido sem código de cupom de influenciador',
+      influencerCommission: 0,
+      managerCommission: 0
+    };
+  }
+
+  // 3. Localizar o influenciador pelo cupom ou link de indicação e, sem nenhum dos dois válido, pelo afiliado
+  const match = await matchOrderInfluencer(order);
+
+  if (!match) {
+    // Só o link chegou e não corresponde a nenhum link ativo: o parâmetro pode ser de outra origem
+    if (order.couponCodes.length === 0 && affiliateIds.length === 0) {
+      return {
+        status: 'no_coupon',
+        message: `Pedido sem cupom e com link de indicação desconhecido (${referralCodes[0]})`,
+        referralCode: referralCodes[0],
+        influencerCommission: 0,
+        managerCommission: 0
+      };
+    }
+
+    // Cupom ou afiliado sem influenciador: a venda fica na caixa de não atribuídas para atribuição manual
+    const sale = await createOrderSale({
+      ...orderKey,
+      ...(await getOrderValues(order)),
+      ...(await getCustomerFields(order.customer, order.createdAt)),
+      ...originFields,
+      commissionCalculated: false,
+      couponCodeUsed: order.couponCodes[0],
+      rawCouponCodes: order.couponCodes,
+      affiliateId: affiliateIds[0],
+      referralCode: referralCodes[0],
+      attributionStatus: 'unattributed',
+      transactionDate: order.createdAt
+    });
+    if (!sale) return duplicateResult(await Sale.findOne(orderKey));
+
+    if (order.couponCodes.length > 0) {
+      console.log(`[saleIngestion] Pedido #${order.externalOrderId} salvo como não atribuído (cupom ${order.couponCodes[0]})`);
+      return {
+        status: 'unknown_coupon',
+        message: `Nenhum influenciador encontrado com o cupom ${order.couponCodes[0]}; venda salva como não atribuída`,
+        sale,
+        couponCode: order.couponCodes[0],
+        influencerCommission: 0,
+        managerCommission: 0
+      };
+    }
+
+    console.log(`[saleIngestion] Pedido #${order.externalOrderId} salvo como não atribuído (afiliado ${affiliateIds[0]})`);
+    return {
+      status: 'unknown_affiliate',
+      message: `Nenhum influenciador vinculado ao afiliado ${affiliateIds[0]} (${order.platform}); venda salva como não atribuída`,
+      sale,
+      affiliateId: affiliateIds[0],
+      influencerCommission: 0,
+      managerCommission: 0
+    };
+  }
+  const { influencer } = match;
+
+  // 4. Obter o gerente do influenciador
+  const manager = influencer.manager
+    ? await User.findById(influencer.manager)
+    : null;
+
+  // 5. Registrar a venda
+  const sale = await createOrderSale({
+    influencer: influencer._id,
+    manager: manager ? manager._id : undefined,
+    ...orderKey,
+    ...(await getOrderValues(order)),
+    ...(await getCustomerFields(order.customer, order.createdAt)),
+    ...originFields,
+    commissionCalculated: false,
+    ...matchSaleFields(order, match),
+    transactionDate: order.createdAt
+  });
+  if (!sale) return duplicateResult(await Sale.findOne(orderKey));
+
+  return {
+    status: 'created',
+    message: 'Venda registrada com sucesso',
+    sale,
+    influencer,
+    manager,
+    couponCode: match.coupon?.code,
+    referralCode: match.referralLink ? match.referralCode : undefined,
+    affiliateId: match.affiliateId,
+    influencerCommission: 0,
+    managerCommission: 0
+  };
+};
+
+/**
+ * Etapa de comissão: calcula e grava as comissões de influenciador e gerente da venda
+ */
+const calculateSaleCommission = async (sale: ISale) => {
+  // Um estorno pode chegar antes do cálculo quando a etapa está na fila; o valor estornado é descontado
+  const { influencerCommission, managerCommission } = await applySaleCommissions(sale);
+  return { influencerCommission, managerCommission };
+};
+
+// Tipo de aviso de venda: nova venda, pedido aguardando pagamento ou pedido pendente que foi pago
+export type SaleNotificationKind = 'newSale' | 'pendingSale' | 'saleConfirmed';
+
+/**
+ * Define o aviso da venda pela etapa do pedido. Com os avisos de pendentes desligados,
+ * o pedido pendente não gera aviso e recebe o aviso normal de nova venda quando é pago.
+ * @returns null quando a venda não deve gerar aviso
+ */
+const getNotificationKind = async (sale: ISale): Promise<SaleNotificationKind | null> => {
+  if (sale.status === 'refunded' || sale.status === 'cancelled') return null;
+
+  const { notifyPendingSales } = await getCommissionSettings();
+  if (sale.status === 'pending') return notifyPendingSales ? 'pendingSale' : null;
+
+  const wasPending = sale.statusHistory?.some(entry => entry.status === 'pending');
+  return wasPending && notifyPendingSales ? 'saleConfirmed' : 'newSale';
+};
+
+// Aviso de venda pronto para envio
+export interface SaleNotification {
+  kind: SaleNotificationKind;
+  influencerName: string;
+  whatsappNumber: string;
+  managerToken: string;
+  text: string;
+}
+
+/**
+ * Monta o aviso da venda (nova venda, pedido pendente ou pagamento confirmado) com o token
+ * e o template do manager, sem enviar. A venda não precisa estar gravada.
+ * @returns null quando a venda não gera aviso ou não há número do influenciador ou token do manager
+ */
+const buildSaleNotification = async (sale: ISale): Promise<SaleNotification | null> => {
+  const kind = await getNotificationKind(sale);
+  if (!kind) return null;
+
+  const influencer = await User.findById(sale.influencer);
+  if (!influencer || !influencer.whatsappNumber) return null;
+
+  // Buscar o token, nome e templates do manager
+  let managerToken: string | undefined = undefined;
+  let template: string | undefined = undefined;
+  let managerName: string = 'seu gestor';
+
+  if (influencer.manager) {
+    const manager = await User.findById(influencer.manager).select('tokenWhats messageTemplates name email');
+    if (manager && manager.tokenWhats) {
+      managerToken = manager.tokenWhats;
+      managerName = manager.name;
+      template = manager.messageTemplates?.[kind];
+      console.log(`[saleIngestion] Usando token do manager ${manager.email}`);
+    } else {
+      console.warn(`[saleIngestion] Manager ${influencer.manager} não encontrado ou sem token para notificação de venda.`);
+    }
+  } else {
+    console.warn(`[saleIngestion] Influencer ${influencer.email} sem manager associado para notificação de venda.`);
+  }
+
+  // Só há aviso se tiver token do manager
+  if (!managerToken) return null;
+
+  const orderValue = sale.saleValue;
+  const influencerCommission = sale.influencerCommissionEarned || 0;
+  // Vendas em outra moeda mostram também o valor original (ex.: "USD 20.00")
+  const isForeignCurrency = !!sale.currency && sale.currency !== 'BRL' && sale.originalSaleValue !== undefined;
+  const originalValue = isForeignCurrency
+    ? `${sale.currency} ${sale.originalSaleValue!.toFixed(2)}`
+    : `R$ ${orderValue.toFixed(2)}`;
+  const saleDescription = isForeignCurrency ? `R$ ${orderValue.toFixed(2)} (${originalValue})` : originalValue;
+
+  // Definir texto padrão ou usar template personalizado
+  const defaultContent: Record<SaleNotificationKind, string> = {
+    newSale: `🎉 Nova venda! Olá ${influencer.name}, venda de ${saleDescription} registrada. Comissão estimada: R$ ${influencerCommission.toFixed(2)}. Gestor: ${managerName}`,
+    pendingSale: `⏳ Olá ${influencer.name}, um pedido de ${saleDescription} com o seu cupom aguarda pagamento. Comissão estimada: R$ ${influencerCommission.toFixed(2)}, confirmada após o pagamento. Gestor: ${managerName}`,
+    saleConfirmed: `✅ Pagamento confirmado! Olá ${influencer.name}, o pedido de ${saleDescription} foi pago. Comissão: R$ ${influencerCommission.toFixed(2)}. Gestor: ${managerName}`
+  };
+  let notificationContent = template || defaultContent[kind];
+
+  // Substituir variáveis
+  notificationContent = notificationContent
+    .replace(/{nome}/g, influencer.name)
+    .replace(/{valorVenda}/g, orderValue.toFixed(2))
+    .replace(/{valorOriginal}/g, originalValue)
+    .replace(/{comissaoEstimada}/g, influencerCommission.toFixed(2))
+    .replace(/{gestor}/g, managerName);
+
+  return { kind, influencerName: influencer.name, whatsappNumber: influencer.whatsappNumber, managerToken, text: notificationContent };
+};
+
+/**
+ * Etapa de notificação: envia o aviso da venda ao influenciador (nova venda, pedido pendente
+ * ou pagamento confirmado) usando o token e o template do manager. Lança erro se o envio falhar.
+ */
+const sendSaleNotification = async (sale: ISale) => {
+  const notification = await buildSaleNotification(sale);
+  if (!notification) return;
+
+  await sendNewSaleNotification(notification.whatsappNumber, notification.text, notification.managerToken);
+  console.log(`[saleIngestion] Notificação de venda (${notification.kind}) enviada para ${notification.influencerName}`);
+};
+
+/**
+ * Pipeline completo em sequência (atribuição, comissão e notificação), usado quando
+ * o processamento não passa pela fila. Falhas de notificação são apenas registradas.
+ * @param order Pedido normalizado por um adapter de plataforma
+ * @returns Resultado da ingestão (venda criada ou motivo de não criação)
+ */
+const ingestOrder = async (order: NormalizedOrder, options: IngestOptions = {}): Promise<IngestionResult> => {
+  const result = await attributeOrder(order, options);
+  const notify = async (sale: ISale) => {
+    if (options.notify === false) return;
+    try {
+      await sendSaleNotification(sale);
+    } catch (notificationError) {
+      console.error(`[saleIngestion] Erro ao enviar notificação da venda ${sale._id}:`, notificationError);
+    }
+  };
+
+  // Pedido pendente que foi pago: a comissão já foi calculada na criação, falta o aviso
+  if (isPaymentConfirmation(result)) {
+    await notify(result.sale!);
+    return result;
+  }
+  if (result.status !== 'created' || !result.sale) return result;
+
+  const { influencerCommission, managerCommission } = await calculateSaleCommission(result.sale);
+  await notify(result.sale);
+
+  return { ...result, influencerCommission, managerCommission };
+};
+
+export {
+  getOrderValues,
+  matchOrderInfluencer,
+  matchSaleFields,
+  attributeOrder,
+  calculateSaleCommission,
+  buildSaleNotification,
+  sendSaleNotification,
+  ingestOrder,
+  isPaymentConfirmation
+};
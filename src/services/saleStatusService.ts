@@ -0,0 +1,97 @@
+import { ISale, ISaleStatusEvent, SaleStatus } from '../models/Sale';
+import { PayableStatus } from '../models/CommissionSettings';
+import { OrderStatus, RefundReason } from './platformAdapters';
+
+// Ordem das etapas do pedido; estorno total e cancelamento encerram o pedido
+const STATUS_RANK: Record<SaleStatus, number> = {
+  pending: 0,
+  paid: 1,
+  fulfilled: 2,
+  refunded: 3,
+  cancelled: 3
+};
+
+// Campo com a data em que a venda atingiu a etapa em que a comissão pode ser paga
+const PAYABLE_DATE_FIELD: Record<PayableStatus, 'paidAt' | 'fulfilledAt'> = {
+  paid: 'paidAt',
+  fulfilled: 'fulfilledAt'
+};
+
+/**
+ * Campos de status de uma venda nova, com a primeira entrada do histórico
+ * @param status Etapa do pedido recebido
+ * @param at Data do pedido na plataforma
+ * @param source Origem do pedido: webhook da plataforma ou importação de CSV
+ */
+const initialStatusFields = (status: OrderStatus, at: Date, source: ISaleStatusEvent['source'] = 'webhook') => ({
+  status,
+  statusHistory: [{ status, source, at }],
+  paidAt: status !== 'pending' ? at : undefined,
+  fulfilledAt: status === 'fulfilled' ? at : undefined
+});
+
+/**
+ * Avança a venda para a etapa recebida e registra a mudança no histórico (sem salvar).
+ * Entregas fora de ordem (ex.: pedido pago chegando depois do enviado) não fazem o pedido voltar de etapa,
+ * e vendas estornadas ou canceladas não mudam mais de etapa.
+ * @returns true se o status da venda mudou
+ */
+const advanceSaleStatus = (sale: ISale, status: OrderStatus, at: Date = new Date()): boolean => {
+  const current = sale.status || 'paid';
+  if (STATUS_RANK[status] <= STATUS_RANK[current]) return false;
+
+  sale.status = status;
+  if (status !== 'pending' && !sale.paidAt) {
+    sale.paidAt = at;
+  }
+  if (status === 'fulfilled' && !sale.fulfilledAt) {
+    sale.fulfilledAt = at;
+  }
+  sale.statusHistory.push({ status, source: 'webhook', at });
+  return true;
+};
+
+/**
+ * Registra um estorno no histórico da venda (sem salvar). Estorno total encerra o pedido:
+ * cancelamento fica como "cancelled", reembolso e chargeback como "refunded".
+ */
+const recordRefundStatus = (sale: ISale, reason: RefundReason, amount: number, isFullRefund: boolean, at: Date) => {
+  if (isFullRefund) {
+    sale.status = reason === 'cancellation' ? 'cancelled' : 'refunded';
+  }
+  sale.statusHistory.push({
+    status: sale.status || 'paid',
+    source: 'refund',
+    detail: `${reason} de ${amount.toFixed(2)}${isFullRefund ? '' : ' (parcial)'}`,
+    at
+  });
+};
+
+/**
+ * Filtro das vendas com comissão a pagar no período:
+ * - vendas do período que atingiram a etapa configurada (mesmo que estornadas depois)
+ * - vendas de períodos anteriores que só atingiram a etapa dentro do período (ex.: boleto pago depois do fechamento)
+ */
+const payableSalesFilter = (payableStatus: PayableStatus, periodStart: Date, periodEnd: Date) => {
+  const dateField = PAYABLE_DATE_FIELD[payableStatus];
+  return {
+    $or: [
+      {
+        transactionDate: { $gte: periodStart, $lte: periodEnd },
+        // Vendas sem histórico são anteriores ao controle de status e já eram registradas pagas
+        $or: [{ 'statusHistory.0': { $exists: false } }, { [dateField]: { $exists: true } }]
+      },
+      {
+        transactionDate: { $lt: periodStart },
+        [dateField]: { $gte: periodStart, $lte: periodEnd }
+      }
+    ]
+  };
+};
+
+export {
+  initialStatusFields,
+  advanceSaleStatus,
+  recordRefundStatus,
+  payableSalesFilter
+};
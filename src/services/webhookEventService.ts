@@ -0,0 +1,192 @@
+import { Types } from 'mongoose';
+import WebhookEvent, { IWebhookEvent } from '../models/WebhookEvent';
+import { getPlatformAdapter, IgnoredEventError, NormalizedOrder, NormalizedRefund, SalePlatform } from './platformAdapters';
+import { attributeOrder, ingestOrder, IngestionResult } from './saleIngestionService';
+import { applyRefunds, getNewRefunds, RefundResult } from './refundService';
+import { enqueueJob } from './jobQueueService';
+
+// Resultado do processamento de um payload de webhook
+export type WebhookProcessingOutcome =
+  | { kind: 'order'; order: NormalizedOrder; result: IngestionResult }
+  | { kind: 'refund'; refund: NormalizedRefund; result: RefundResult } // refund: o estorno mais recente do payload
+  | { kind: 'ignored'; reason: string }; // Evento que não gera venda nem estorno (ex.: pedido não pago)
+
+export interface ProcessOptions {
+  // Executa apenas a atribuição do pedido; comissão e notificação ficam para a fila
+  attributionOnly?: boolean;
+  // Loja identificada pelos headers da entrega, usada quando o payload não informa a loja
+  store?: string;
+}
+
+/**
+ * Processa um payload de plataforma com a lógica atual de ingestão:
+ * estornos vão para o refundService, pedidos para o pipeline de vendas.
+ * Plataformas que enviam só a notificação têm o pedido buscado na API antes.
+ * Lança InvalidPayloadError se o payload não tiver o formato esperado.
+ */
+const processWebhookPayload = async (
+  platform: SalePlatform,
+  payload: any,
+  topic?: string,
+  options: ProcessOptions = {}
+): Promise<WebhookProcessingOutcome> => {
+  const adapter = getPlatformAdapter(platform);
+
+  try {
+    const orderPayload = adapter.fetchOrderPayload ? await adapter.fetchOrderPayload(payload, topic) : payload;
+
+    const refunds = (adapter.normalizeRefunds ? adapter.normalizeRefunds(orderPayload, topic) : [])
+      .map(refund => ({ ...refund, storeId: refund.storeId || options.store }));
+    // Reembolsos listados em uma atualização do pedido pago só são estorno se algum ainda não foi aplicado;
+    // sem reembolso novo, a atualização segue como pedido (ex.: mudança de etapa)
+    const pendingRefunds = refunds.length > 0 && refunds.every(refund => refund.fromOrderUpdate)
+      ? await getNewRefunds(refunds)
+      : refunds;
+    if (pendingRefunds.length > 0) {
+      return { kind: 'refund', refund: pendingRefunds[pendingRefunds.length - 1], result: await applyRefunds(pendingRefunds) };
+    }
+
+    const normalizedOrder = adapter.normalize(orderPayload);
+    const order = { ...normalizedOrder, storeId: normalizedOrder.storeId || options.store };
+    const result = options.attributionOnly ? await attributeOrder(order) : await ingestOrder(order);
+    return { kind: 'order', order, result };
+  } catch (error) {
+    if (error instanceof IgnoredEventError) {
+      return { kind: 'ignored', reason: error.message };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Valida o payload com o adapter da plataforma, sem acessar o banco.
+ * Plataformas que enviam só a notificação têm apenas a notificação validada.
+ * Lança InvalidPayloadError se o payload não tiver o formato esperado
+ * e IgnoredEventError se o evento não gerar venda nem estorno.
+ * @returns Pedido, estorno ou notificação normalizados
+ */
+const validateWebhookPayload = (platform: SalePlatform, payload: any, topic?: string) => {
+  const adapter = getPlatformAdapter(platform);
+  if (adapter.parseNotification) {
+    return { kind: 'notification' as const, ...adapter.parseNotification(payload, topic) };
+  }
+
+  const refunds = adapter.normalizeRefunds ? adapter.normalizeRefunds(payload, topic) : [];
+  if (refunds.length > 0) return { kind: 'refund' as const, refund: refunds[refunds.length - 1] };
+  return { kind: 'order' as const, order: adapter.normalize(payload) };
+};
+
+/**
+ * Marca o evento como enfileirado e cria o job de atribuição que o processará
+ */
+const queueWebhookEvent = async (event: IWebhookEvent) => {
+  event.status = 'queued';
+  event.error = undefined;
+  await event.save();
+  return enqueueJob('attribution', { event: event._id as Types.ObjectId });
+};
+
+/**
+ * Lê o payload de um evento armazenado, preferindo o corpo bruto recebido.
+ * Postbacks enviados como formulário (Eduzz) usam o payload já interpretado.
+ */
+const getEventPayload = (event: IWebhookEvent): any => {
+  const contentType = String(event.headers?.['content-type'] || '');
+  if (event.rawBody && !contentType.includes('application/x-www-form-urlencoded')) {
+    try {
+      return JSON.parse(event.rawBody);
+    } catch (error) {
+      console.warn(`[webhookEvent] Corpo bruto do evento ${event._id} não é JSON válido, usando payload armazenado`);
+    }
+  }
+  return event.payload;
+};
+
+/**
+ * Processa (ou reprocessa) um evento armazenado e grava o resultado nele.
+ * Erros são registrados no evento e relançados para o chamador.
+ */
+const processWebhookEvent = async (event: IWebhookEvent, options: ProcessOptions = {}): Promise<WebhookProcessingOutcome> => {
+  event.attempts = (event.attempts || 0) + 1;
+  event.lastProcessedAt = new Date();
+
+  try {
+    const outcome = await processWebhookPayload(
+      event.platform as SalePlatform,
+      getEventPayload(event),
+      event.topic,
+      { ...options, store: options.store || event.store }
+    );
+
+    if (outcome.kind === 'ignored') {
+      event.status = 'ignored';
+      event.outcome = 'ignored_event';
+      event.sale = undefined;
+      event.error = outcome.reason;
+      await event.save();
+      return outcome;
+    }
+
+    if (outcome.kind === 'refund') {
+      event.orderId = outcome.refund.externalOrderId;
+      event.status = outcome.result.status === 'applied' ? 'processed' : 'ignored';
+    } else {
+      event.orderId = outcome.order.externalOrderId;
+      // Cupom ou afiliado desconhecido também gera venda (não atribuída); mudança de etapa atualiza a venda
+      event.status = ['created', 'status_updated', 'unknown_coupon', 'unknown_affiliate'].includes(outcome.result.status) ? 'processed' : 'ignored';
+    }
+    event.outcome = outcome.result.status;
+    event.sale = outcome.result.sale?._id as Types.ObjectId | undefined;
+    event.error = undefined;
+    await event.save();
+
+    return outcome;
+  } catch (error: any) {
+    event.status = 'failed';
+    event.outcome = undefined;
+    event.error = error.message;
+    await event.save();
+    throw error;
+  }
+};
+
+// Eventos que podem ser reprocessados: não rejeitados e autenticados (eventos anteriores ao campo não têm authenticated)
+const REPLAYABLE_EVENT_FILTER = { status: { $ne: 'rejected' }, authenticated: { $ne: false } };
+
+/**
+ * Indica se o evento passou na autenticação da plataforma e pode ser reprocessado
+ */
+const isReplayableEvent = (event: Pick<IWebhookEvent, 'status' | 'authenticated'>): boolean =>
+  event.status !== 'rejected' && event.authenticated !== false;
+
+/**
+ * Reprocessa os eventos que atendem ao filtro, em ordem de recebimento.
+ * Entregas rejeitadas ou não autenticadas nunca são reprocessadas.
+ * @returns Resumo com a quantidade de eventos por status após o reprocessamento
+ */
+const replayWebhookEvents = async (filter: Record<string, unknown>, limit: number) => {
+  const events = await WebhookEvent.find({ $and: [filter, REPLAYABLE_EVENT_FILTER] }).sort({ createdAt: 1 }).limit(limit);
+
+  const summary: Record<string, number> = {};
+  const failures: { eventId: unknown; error: string }[] = [];
+
+  for (const event of events) {
+    try {
+      await processWebhookEvent(event);
+    } catch (error: any) {
+      failures.push({ eventId: event._id, error: error.message });
+    }
+    summary[event.status] = (summary[event.status] || 0) + 1;
+  }
+
+  return { total: events.length, summary, failures };
+};
+
+export {
+  processWebhookPayload,
+  validateWebhookPayload,
+  queueWebhookEvent,
+  processWebhookEvent,
+  isReplayableEvent,
+  replayWebhookEvents
+};
@@ -0,0 +1,255 @@
+import User, { IUser } from '../models/User';
+import Sale, { ISale, SaleStatus, saleOrderKey } from '../models/Sale';
+import { getPlatformAdapter, IgnoredEventError, NormalizedOrder, NormalizedRefund, SalePlatform } from './platformAdapters';
+import { calculateSaleCommissions } from './commissionService';
+import { CommissionRuleExplanation, TierLike } from './commissionEngine';
+import {
+  getOrderValues,
+  matchOrderInfluencer,
+  matchSaleFields,
+  buildSaleNotification,
+  IngestionStatus,
+  SaleNotificationKind
+} from './saleIngestionService';
+import { initialStatusFields, advanceSaleStatus } from './saleStatusService';
+import { getCustomerFields } from './customerService';
+import { getNewRefunds } from './refundService';
+
+// Usuário exibido na simulação
+interface SimulatedUser {
+  id: unknown;
+  name: string;
+  email: string;
+}
+
+// Faixa de comissão aplicada na simulação
+interface SimulatedTier {
+  id: unknown;
+  name: string;
+  commissionPercentage: number;
+  newCustomerPercentage?: number;
+  newCustomerBonus?: number;
+}
+
+// Aviso de WhatsApp que seria enviado (o token do manager não é exposto)
+interface SimulatedNotification {
+  kind: SaleNotificationKind;
+  whatsappNumber: string;
+  text: string;
+}
+
+// Resultado que o pipeline teria para um pedido
+export interface OrderSimulation {
+  kind: 'order';
+  outcome: IngestionStatus;
+  message: string;
+  order: NormalizedOrder;
+  existingSaleId?: unknown; // Venda já registrada para o pedido (duplicate/status_updated)
+  previousStatus?: SaleStatus;
+  saleStatus?: SaleStatus;
+  influencer: SimulatedUser | null;
+  manager: SimulatedUser | null;
+  attributionSource?: 'coupon' | 'referral_link' | 'affiliate';
+  couponCode?: string;
+  referralCode?: string;
+  affiliateId?: string;
+  saleValue?: number; // Valor da venda em BRL
+  isNewCustomer?: boolean; // Primeira compra do cliente (ausente sem e-mail ou telefone no pedido)
+  commissionBase?: string;
+  influencerTier: SimulatedTier | null;
+  managerTier: SimulatedTier | null;
+  influencerCommission: number;
+  managerCommission: number;
+  influencerRules: CommissionRuleExplanation[]; // Regras do motor de comissão avaliadas, na ordem
+  managerRules: CommissionRuleExplanation[];
+  notification: SimulatedNotification | null;
+}
+
+// Resultado da simulação de um payload de webhook
+export type WebhookSimulation =
+  | OrderSimulation
+  | { kind: 'refund'; refund: NormalizedRefund; existingSaleId: unknown | null }
+  | { kind: 'ignored'; reason: string };
+
+const toSimulatedUser = (user?: IUser | null): SimulatedUser | null =>
+  user ? { id: user._id, name: user.name, email: user.email } : null;
+
+const toSimulatedTier = (tier?: TierLike | null): SimulatedTier | null =>
+  tier
+    ? {
+      id: tier._id,
+      name: tier.name,
+      commissionPercentage: tier.commissionPercentage,
+      newCustomerPercentage: tier.newCustomerPercentage ?? undefined,
+      newCustomerBonus: tier.newCustomerBonus ?? undefined
+    }
+    : null;
+
+const toSimulatedNotification = async (sale: ISale): Promise<SimulatedNotification | null> => {
+  const notification = await buildSaleNotification(sale);
+  return notification
+    ? { kind: notification.kind, whatsappNumber: notification.whatsappNumber, text: notification.text }
+    : null;
+};
+
+/**
+ * Resultado de um pedido sem venda nova (duplicado, sem cupom ou sem influenciador)
+ */
+const emptySimulation = (order: NormalizedOrder, outcome: IngestionStatus, message: string): OrderSimulation => ({
+  kind: 'order',
+  outcome,
+  message,
+  order,
+  influencer: null,
+  manager: null,
+  influencerTier: null,
+  managerTier: null,
+  influencerCommission: 0,
+  managerCommission: 0,
+  influencerRules: [],
+  managerRules: [],
+  notification: null
+});
+
+/**
+ * Simula um pedido já registrado: a entrega pode apenas avançar a etapa da venda.
+ * A venda carregada é alterada em memória e nunca gravada.
+ */
+const simulateExistingSale = async (sale: ISale, order: NormalizedOrder): Promise<OrderSimulation> => {
+  const previousStatus = sale.status;
+  if (!advanceSaleStatus(sale, order.status, order.receivedAt)) {
+    return { ...emptySimulation(order, 'duplicate', 'Venda já processada anteriormente'), existingSaleId: sale._id, saleStatus: sale.status };
+  }
+
+  // Pedido pendente que foi pago recebe o aviso de pagamento confirmado
+  const isPaymentConfirmation = previousStatus === 'pending' && (sale.status === 'paid' || sale.status === 'fulfilled');
+  return {
+    ...emptySimulation(order, 'status_updated', `Pedido seria atualizado de ${previousStatus} para ${sale.status}`),
+    existingSaleId: sale._id,
+    previousStatus,
+    saleStatus: sale.status,
+    influencerCommission: sale.influencerCommissionEarned || 0,
+    managerCommission: sale.managerCommissionEarned || 0,
+    notification: isPaymentConfirmation ? await toSimulatedNotification(sale) : null
+  };
+};
+
+/**
+ * Executa as etapas de atribuição, comissão e notificação de um pedido sem gravar nem enviar nada
+ */
+const simulateOrder = async (order: NormalizedOrder): Promise<OrderSimulation> => {
+  const orderKey = saleOrderKey(order.platform, order.storeId, order.externalOrderId);
+  const existingSale = await Sale.findOne(orderKey);
+  if (existingSale) return simulateExistingSale(existingSale, order);
+
+  const affiliateIds = order.affiliateIds || [];
+  const referralCodes = order.referralCodes || [];
+  if (order.couponCodes.length === 0 && affiliateIds.length === 0 && referralCodes.length === 0) {
+    return emptySimulation(order, 'no_coupon', 'Pedido sem código de cupom de influenciador');
+  }
+
+  const match = await matchOrderInfluencer(order);
+  if (!match) {
+    if (order.couponCodes.length > 0) {
+      return {
+        ...emptySimulation(order, 'unknown_coupon', `Nenhum influenciador encontrado com o cupom ${order.couponCodes[0]}; venda seria salva como não atribuída`),
+        couponCode: order.couponCodes[0]
+      };
+    }
+    if (affiliateIds.length > 0) {
+      return {
+        ...emptySimulation(order, 'unknown_affiliate', `Nenhum influenciador vinculado ao afiliado ${affiliateIds[0]} (${order.platform}); venda seria salva como não atribuída`),
+        affiliateId: affiliateIds[0]
+      };
+    }
+    return {
+      ...emptySimulation(order, 'no_coupon', `Pedido sem cupom e com link de indicação desconhecido (${referralCodes[0]})`),
+      referralCode: referralCodes[0]
+    };
+  }
+  const { influencer } = match;
+  const manager = influencer.manager ? await User.findById(influencer.manager) : null;
+
+  // Venda montada como no pipeline, mantida apenas em memória
+  const sale = new Sale({
+    influencer: influencer._id,
+    manager: manager ? manager._id : undefined,
+    ...orderKey,
+    ...(await getOrderValues(order)),
+    ...(await getCustomerFields(order.customer, order.createdAt)),
+    ...initialStatusFields(order.status, order.createdAt),
+    processedViaWebhook: true,
+    commissionCalculated: false,
+    ...matchSaleFields(order, match),
+    transactionDate: order.createdAt
+  });
+
+  const commissions = await calculateSaleCommissions(sale);
+  sale.influencerCommissionEarned = commissions.influencerCommission;
+  sale.managerCommissionEarned = commissions.managerCommission;
+
+  return {
+    kind: 'order',
+    outcome: 'created',
+    message: 'Venda seria registrada',
+    order,
+    saleStatus: sale.status,
+    influencer: toSimulatedUser(influencer),
+    manager: toSimulatedUser(manager),
+    attributionSource: match.source,
+    couponCode: match.coupon?.code,
+    referralCode: match.referralLink ? match.referralCode : undefined,
+    affiliateId: match.affiliateId,
+    saleValue: sale.saleValue,
+    isNewCustomer: sale.isNewCustomer,
+    commissionBase: commissions.commissionBase,
+    influencerTier: toSimulatedTier(commissions.influencerTier),
+    managerTier: toSimulatedTier(commissions.managerTier),
+    influencerCommission: commissions.influencerCommission,
+    managerCommission: commissions.managerCommission,
+    influencerRules: commissions.influencerExplanation,
+    managerRules: commissions.managerExplanation,
+    notification: await toSimulatedNotification(sale)
+  };
+};
+
+/**
+ * Simula o processamento de um payload de plataforma: mostra o influenciador e o gerente encontrados,
+ * as faixas aplicadas, as comissões e o aviso de WhatsApp, sem gravar vendas, eventos ou jobs
+ * e sem enviar mensagens. Plataformas que enviam só a notificação têm o pedido buscado na API (apenas leitura).
+ * Lança InvalidPayloadError se o payload não tiver o formato esperado.
+ */
+const simulateWebhookPayload = async (
+  platform: SalePlatform,
+  payload: any,
+  topic?: string,
+  store?: string
+): Promise<WebhookSimulation> => {
+  const adapter = getPlatformAdapter(platform);
+
+  try {
+    const orderPayload = adapter.fetchOrderPayload ? await adapter.fetchOrderPayload(payload, topic) : payload;
+
+    const refunds = (adapter.normalizeRefunds ? adapter.normalizeRefunds(orderPayload, topic) : [])
+      .map(refund => ({ ...refund, storeId: refund.storeId || store }));
+    // Mesma regra do processamento: atualização do pedido sem reembolso novo segue como pedido
+    const pendingRefunds = refunds.length > 0 && refunds.every(refund => refund.fromOrderUpdate)
+      ? await getNewRefunds(refunds)
+      : refunds;
+    if (pendingRefunds.length > 0) {
+      const refund = pendingRefunds[pendingRefunds.length - 1];
+      const sale = await Sale.findOne(saleOrderKey(refund.platform, refund.storeId, refund.externalOrderId)).select('_id');
+      return { kind: 'refund', refund, existingSaleId: sale ? sale._id : null };
+    }
+
+    const normalizedOrder = adapter.normalize(orderPayload);
+    return await simulateOrder({ ...normalizedOrder, storeId: normalizedOrder.storeId || store });
+  } catch (error) {
+    if (error instanceof IgnoredEventError) {
+      return { kind: 'ignored', reason: error.message };
+    }
+    throw error;
+  }
+};
+
+export { simulateWebhookPayload };
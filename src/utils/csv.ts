@@ -0,0 +1,84 @@
+// Linha do CSV indexada pelo cabeçalho (normalizado: minúsculas, sem espaços nas pontas)
+export type CsvRow = Record<string, string>;
+
+/**
+ * Detecta o separador pela primeira linha: ponto e vírgula (Excel em português) ou vírgula
+ */
+const detectDelimiter = (headerLine: string): string => {
+  const semicolons = (headerLine.match(/;/g) || []).length;
+  const commas = (headerLine.match(/,/g) || []).length;
+  return semicolons > commas ? ';' : ',';
+};
+
+/**
+ * Divide o texto em registros e campos, respeitando campos entre aspas
+ * (que podem conter o separador, quebras de linha e aspas duplicadas "").
+ */
+const splitRecords = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Ignora linhas em branco
+  return records.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+/**
+ * Converte um CSV com cabeçalho em uma lista de objetos.
+ * @param text Conteúdo do arquivo
+ * @param delimiter Separador; detectado pelo cabeçalho se não informado
+ */
+const parseCsv = (text: string, delimiter?: string): CsvRow[] => {
+  const content = text.replace(/^\uFEFF/, ''); // Remove o BOM gerado pelo Excel
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const records = splitRecords(content, delimiter || detectDelimiter(firstLine));
+  if (records.length === 0) return [];
+
+  const headers = records[0].map(header => header.trim().toLowerCase());
+  return records.slice(1).map(fields => {
+    const row: CsvRow = {};
+    headers.forEach((header, index) => {
+      row[header] = (fields[index] ?? '').trim();
+    });
+    return row;
+  });
+};
+
+export { parseCsv };
@@ -0,0 +1,83 @@
+// Valor gravado no lugar das credenciais das entregas de webhook
+const REDACTED = '[removido]';
+
+// Headers com tokens ou assinaturas das plataformas (nomes em minúsculas, como no Express)
+const SENSITIVE_HEADERS = [
+  'authorization',
+  'cookie',
+  'webhook-token',
+  'x-hotmart-hottok',
+  'x-shopify-hmac-sha256',
+  'x-cartpanda-signature',
+  'x-wc-webhook-signature',
+  'x-linkedstore-hmac-sha256',
+  'x-yampi-hmac-sha256'
+];
+
+// Campos do corpo e parâmetros da URL com credenciais (token genérico, hottok da Hotmart,
+// api_key da Eduzz e assinatura da Kiwify)
+const SENSITIVE_FIELDS = ['token', 'hottok', 'api_key', 'signature'];
+
+/**
+ * Cópia dos headers com os tokens e assinaturas substituídos
+ */
+const redactWebhookHeaders = (headers: Record<string, unknown> = {}): Record<string, unknown> => {
+  const redacted: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    redacted[name] = SENSITIVE_HEADERS.includes(name.toLowerCase()) ? REDACTED : value;
+  }
+  return redacted;
+};
+
+/**
+ * Cópia do corpo interpretado com as credenciais do primeiro nível substituídas
+ */
+const redactWebhookPayload = <T>(payload: T): T => {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return payload;
+  const redacted: Record<string, unknown> = { ...(payload as Record<string, unknown>) };
+  for (const field of SENSITIVE_FIELDS) {
+    if (field in redacted) redacted[field] = REDACTED;
+  }
+  return redacted as T;
+};
+
+/**
+ * Corpo bruto sem credenciais. JSON e formulários são reescritos só quando trazem algum campo
+ * sensível; nos demais casos o corpo recebido é mantido como está.
+ */
+const redactWebhookRawBody = (rawBody: string | undefined, contentType = ''): string | undefined => {
+  if (!rawBody) return rawBody;
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    const params = new URLSearchParams(rawBody);
+    if (!SENSITIVE_FIELDS.some(field => params.has(field))) return rawBody;
+    for (const field of SENSITIVE_FIELDS) {
+      if (params.has(field)) params.set(field, REDACTED);
+    }
+    return params.toString();
+  }
+
+  try {
+    const parsed = JSON.parse(rawBody);
+    if (!parsed || typeof parsed !== 'object' || !SENSITIVE_FIELDS.some(field => field in parsed)) return rawBody;
+    return JSON.stringify(redactWebhookPayload(parsed));
+  } catch (error) {
+    return rawBody;
+  }
+};
+
+/**
+ * Caminho da requisição com os parâmetros de credencial da URL substituídos (ex.: ?signature= da Kiwify)
+ */
+const redactWebhookPath = (path: string): string => {
+  const queryIndex = path.indexOf('?');
+  if (queryIndex === -1) return path;
+
+  const params = new URLSearchParams(path.substring(queryIndex + 1));
+  for (const field of SENSITIVE_FIELDS) {
+    if (params.has(field)) params.set(field, REDACTED);
+  }
+  return `${path.substring(0, queryIndex)}?${params.toString()}`;
+};
+
+export { redactWebhookHeaders, redactWebhookPayload, redactWebhookRawBody, redactWebhookPath };